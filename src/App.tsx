@@ -11,12 +11,23 @@ import { ManagerManager } from './components/ManagerManager';
 import { ChannelManager } from './components/ChannelManager';
 import { BroadcasterManager } from './components/BroadcasterManager';
 import { RegionManager } from './components/RegionManager';
+import { BudgetPlanManager } from './components/BudgetPlanManager';
+import { ExchangeRateManager } from './components/ExchangeRateManager';
+import { ApproverManager } from './components/ApproverManager';
+import { ApprovalsInbox } from './components/ApprovalsInbox';
+import { TrashBin } from './components/TrashBin';
+import { MigrationsManager } from './components/MigrationsManager';
+import { StatusAutomationManager } from './components/StatusAutomationManager';
+import { BackupManager } from './components/BackupManager';
 import { LoginPage } from './components/LoginPage';
 import { ProtectedRoute } from './components/ProtectedRoute';
+import { DataStoreProvider } from './store/DataStoreProvider';
 import { useFirestore } from './hooks/useFirestore';
 import { useChannels } from './hooks/useChannels';
 import { useTranslation } from 'react-i18next';
-import { updateCampaignStatuses } from './utils/updateCampaignStatuses';
+import { runDailyStatusAutomation } from './utils/updateCampaignStatuses';
+import { purgeExpiredTrash } from './utils/trash';
+import { MIGRATIONS, runMigrations } from './migrations';
 import { Notification, NotificationProps, NotificationType } from './components/Notification';
 
 function App() {
@@ -26,7 +37,9 @@ function App() {
         <Route path="/login" element={<LoginPage />} />
         <Route path="/dashboard/*" element={
           <ProtectedRoute>
-            <DashboardApp />
+            <DataStoreProvider>
+              <DashboardApp />
+            </DataStoreProvider>
           </ProtectedRoute>
         } />
         <Route path="/" element={<Navigate to="/dashboard" replace />} />
@@ -46,12 +59,29 @@ function DashboardApp() {
     setNotification({ message, type });
   }, []);
 
+  // Daily status automation: skipped when disabled or already run today (see the Automation tab)
+  useEffect(() => {
+    runDailyStatusAutomation().catch((err) => {
+      console.error('Error updating campaign statuses:', err);
+    });
+  }, []);
+
+  // Additive migrations run on their own; the rest wait for an admin in the Migrations tab
+  useEffect(() => {
+    runMigrations({ migrations: MIGRATIONS.filter(migration => migration.autoApply) }).catch((err) => {
+      console.error('Error applying startup migrations:', err);
+    });
+  }, []);
+
+  // Daily purge of items kept in the trash longer than the retention period
   useEffect(() => {
     const today = new Date().toISOString().split('T')[0];
-    const lastRun = localStorage.getItem('campaignStatusUpdateDate');
+    const lastRun = localStorage.getItem('trashPurgeDate');
     if (lastRun !== today) {
-      updateCampaignStatuses().then(() => {
-        localStorage.setItem('campaignStatusUpdateDate', today);
+      purgeExpiredTrash().then(() => {
+        localStorage.setItem('trashPurgeDate', today);
+      }).catch((err) => {
+        console.error('Error purging trash:', err);
       });
     }
   }, []);
@@ -77,6 +107,8 @@ function DashboardApp() {
         return <CampaignsList campaigns={campaigns} onAdd={addCampaign} onUpdate={updateCampaign} onDelete={deleteCampaign} />;
       case 'Planner':
         return <Planner campaigns={campaigns} onAdd={addCampaign} onUpdate={updateCampaign} />;
+      case 'Approvals':
+        return <ApprovalsInbox showNotification={showNotification} />;
       case 'Gantt':
         return <GanttPage campaigns={campaigns} />;
       case 'Brands':
@@ -89,6 +121,20 @@ function DashboardApp() {
         return <BroadcasterManager showNotification={showNotification} />;
       case 'Regions':
         return <RegionManager showNotification={showNotification} />;
+      case 'Budget Plans':
+        return <BudgetPlanManager showNotification={showNotification} />;
+      case 'Exchange Rates':
+        return <ExchangeRateManager showNotification={showNotification} />;
+      case 'Approvers':
+        return <ApproverManager showNotification={showNotification} />;
+      case 'Trash':
+        return <TrashBin showNotification={showNotification} />;
+      case 'Migrations':
+        return <MigrationsManager showNotification={showNotification} />;
+      case 'Automation':
+        return <StatusAutomationManager showNotification={showNotification} />;
+      case 'Backup':
+        return <BackupManager showNotification={showNotification} />;
       default:
         const isChannelTab = activeChannels.some(channel => channel.name === activeTab);
         if (isChannelTab) {
@@ -0,0 +1,426 @@
+import React, { useState } from 'react';
+import { X, Upload, BarChart3, ArrowLeft, CheckCircle, Info, AlertTriangle } from 'lucide-react';
+import { useAdPlatformImport } from '../hooks/useAdPlatformImport';
+import { AdPlatform } from '../types/adPlatform';
+import { Campaign } from '../types/campaign';
+import { CURRENCIES, CurrencyCode } from '../types/currency';
+import { AD_PLATFORMS, AD_PLATFORM_CONFIG, PlatformMatchSource } from '../utils/adPlatformImport';
+import { SPREADSHEET_ACCEPT } from '../utils/spreadsheet';
+import { formatBudget } from '../utils/budgetFormatter';
+import { getCampaignCurrency } from '../utils/currency';
+
+interface AdPlatformImportWizardProps {
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'preview' | 'done';
+
+const MATCH_LABELS: { [key in PlatformMatchSource]: string } = {
+  id: 'Saved (campaign ID)',
+  name: 'Saved (name)',
+  suggestion: 'Suggested — check it',
+  manual: 'Chosen now',
+};
+
+const getCampaignLabel = (campaign: Campaign): string =>
+  `${campaign.brand} · ${campaign.region} · ${campaign.startDate} → ${campaign.endDate}`;
+
+export const AdPlatformImportWizard: React.FC<AdPlatformImportWizardProps> = ({ onClose }) => {
+  const {
+    fileName,
+    platform,
+    parsed,
+    campaigns,
+    matches,
+    currency,
+    setManualCurrency,
+    changes,
+    busy,
+    progress,
+    loadFile,
+    changePlatform,
+    assignCampaign,
+    apply,
+    reset,
+  } = useAdPlatformImport();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [selectedPlatform, setSelectedPlatform] = useState<AdPlatform | ''>('');
+  const [error, setError] = useState<string | null>(null);
+  const [updatedCount, setUpdatedCount] = useState(0);
+
+  const campaignsById = new Map(campaigns.map(campaign => [campaign.id!, campaign]));
+  const unmatchedCount = matches.filter(match => !match.campaignId).length;
+  const suggestedCount = matches.filter(match => match.matchedBy === 'suggestion').length;
+  const applicableCount = changes.filter(change => !change.error).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      await loadFile(file, selectedPlatform || null);
+      setStep('preview');
+    } catch (err) {
+      console.error('Error reading ad platform export:', err);
+      setError((err as Error).message || 'Could not read the file.');
+    }
+  };
+
+  const handlePlatformChange = async (value: AdPlatform) => {
+    setError(null);
+    try {
+      await changePlatform(value);
+    } catch (err) {
+      console.error('Error reading ad platform export:', err);
+      setError((err as Error).message || 'Could not read the file.');
+    }
+  };
+
+  const handleApply = async () => {
+    if (!window.confirm(`Update the actual spend${parsed?.hasLeads ? ' and leads' : ''} of ${applicableCount} campaigns?`)) return;
+    setError(null);
+    try {
+      setUpdatedCount(await apply());
+      setStep('done');
+    } catch (err) {
+      console.error('Error updating actuals:', err);
+      setError((err as Error).message || 'Update failed.');
+    }
+  };
+
+  const handleStartOver = () => {
+    reset();
+    setError(null);
+    setStep('upload');
+  };
+
+  const renderCampaignSelect = (key: string, campaignId: string | null, suggestions: string[]) => {
+    const others = campaigns.filter(campaign => !suggestions.includes(campaign.id!));
+    return (
+      <select
+        value={campaignId ?? ''}
+        onChange={(e) => assignCampaign(key, e.target.value || null)}
+        disabled={busy}
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Skip this row</option>
+        {suggestions.length > 0 && (
+          <optgroup label="Suggestions">
+            {suggestions.map(id => campaignsById.get(id)).filter(Boolean).map(campaign => (
+              <option key={campaign!.id} value={campaign!.id}>{getCampaignLabel(campaign!)}</option>
+            ))}
+          </optgroup>
+        )}
+        <optgroup label="All campaigns">
+          {others.map(campaign => (
+            <option key={campaign.id} value={campaign.id}>{getCampaignLabel(campaign)}</option>
+          ))}
+        </optgroup>
+      </select>
+    );
+  };
+
+  const renderProgress = () => progress && progress.total > 0 && (
+    <div className="mt-4">
+      <div className="w-full bg-blue-100 rounded-full h-2">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${(progress.done / progress.total) * 100}%` }}
+        />
+      </div>
+      <div className="text-xs text-gray-600 mt-1">{progress.done} / {progress.total} campaigns</div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <BarChart3 className="w-5 h-5" />
+              Import Ad Platform Actuals
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {step === 'upload' && 'Step 1 of 2 — Upload a Meta, Google Ads or TikTok campaign report'}
+              {step === 'preview' && `Step 2 of 2 — Match the campaigns of ${fileName}`}
+              {step === 'done' && 'Actuals updated'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Platform</label>
+              <select
+                value={selectedPlatform}
+                onChange={(e) => setSelectedPlatform(e.target.value as AdPlatform | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Detect from the columns</option>
+                {AD_PLATFORMS.map(value => (
+                  <option key={value} value={value}>{AD_PLATFORM_CONFIG[value].label}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 rounded-2xl hover:bg-gray-50 cursor-pointer transition-colors">
+              <Upload className="w-8 h-8 text-gray-400" />
+              <span className="text-sm font-medium text-gray-700">
+                {busy ? 'Reading file...' : 'Choose a .csv or .xlsx export'}
+              </span>
+              <span className="text-xs text-gray-500">
+                Export the campaign-level report with spend and leads (or conversions) for the period to update.
+              </span>
+              <input type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFile} disabled={busy} className="hidden" />
+            </label>
+          </div>
+        )}
+
+        {step === 'preview' && parsed && platform && (
+          <div className="space-y-4">
+            <div className="flex items-end gap-4">
+              <div className="w-64">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Platform</label>
+                <select
+                  value={platform}
+                  onChange={(e) => handlePlatformChange(e.target.value as AdPlatform)}
+                  disabled={busy}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {AD_PLATFORMS.map(value => (
+                    <option key={value} value={value}>{AD_PLATFORM_CONFIG[value].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="w-48">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amounts in</label>
+                {parsed.currency ? (
+                  <p className="px-3 py-2 text-sm text-gray-900">{parsed.currency} (from the file)</p>
+                ) : (
+                  <select
+                    value={currency ?? ''}
+                    onChange={(e) => setManualCurrency((e.target.value || null) as CurrencyCode | null)}
+                    disabled={busy}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Campaign currency</option>
+                    {CURRENCIES.map(code => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <p className="text-sm text-gray-600 pb-2">
+                {parsed.rows.length} platform campaigns, {campaigns.length} {AD_PLATFORM_CONFIG[platform].channels[0]} campaigns to match
+                {parsed.skippedRows > 0 ? ` • ${parsed.skippedRows} total rows skipped` : ''}
+              </p>
+            </div>
+
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-start gap-2">
+              <Info className="w-4 h-4 text-blue-700 mt-0.5" />
+              <p className="text-sm text-blue-700">
+                The file's spend{parsed.hasLeads ? ' and leads' : ''} replace what earlier imports stored for the same
+                dates and add up with other periods, so monthly exports accumulate. Amounts are converted to each
+                campaign's currency. Planned budgets are not changed.
+                {!parsed.hasLeads && ' This file has no leads column: leads are left as they are.'}
+                {!parsed.currency && ' The file does not state its currency: choose it if it differs from the campaigns\'.'}
+              </p>
+            </div>
+
+            {parsed.ambiguousValues.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-yellow-700 mt-0.5" />
+                <p className="text-sm text-yellow-800">
+                  {parsed.ambiguousValues.slice(0, 5).map(value => `"${value}"`).join(', ')}
+                  {parsed.ambiguousValues.length > 5 ? ` and ${parsed.ambiguousValues.length - 5} more` : ''} were read
+                  as thousands: if the file writes decimals with a comma or a point followed by three digits, check the
+                  totals below before applying.
+                </p>
+              </div>
+            )}
+
+            {(unmatchedCount > 0 || suggestedCount > 0) && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-yellow-700 mt-0.5" />
+                <p className="text-sm text-yellow-700">
+                  {unmatchedCount > 0 && `${unmatchedCount} rows have no campaign and will be skipped. `}
+                  {suggestedCount > 0 && `${suggestedCount} matches are suggestions: check them before applying. `}
+                  Chosen matches are remembered for the next import.
+                </p>
+              </div>
+            )}
+
+            <div className="border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Platform campaign</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Spend</th>
+                    {parsed.hasLeads && (
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Leads</th>
+                    )}
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-2/5">Campaign</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {matches.map(match => (
+                    <tr key={match.row.key} className={match.campaignId ? '' : 'bg-yellow-50'}>
+                      <td className="px-3 py-2 align-top">
+                        <div className="text-gray-900">{match.row.externalName || match.row.externalId}</div>
+                        <div className="text-xs text-gray-500">
+                          {match.row.externalId && `ID ${match.row.externalId}`}
+                          {match.row.externalId && match.row.startDate && ' • '}
+                          {match.row.startDate && `${match.row.startDate} → ${match.row.endDate}`}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900 align-top">
+                        {currency ? formatBudget(match.row.spend, currency) : match.row.spend.toLocaleString()}
+                      </td>
+                      {parsed.hasLeads && (
+                        <td className="px-3 py-2 text-right text-gray-900 align-top">{match.row.leads.toLocaleString()}</td>
+                      )}
+                      <td className="px-3 py-2 align-top">
+                        {renderCampaignSelect(match.row.key, match.campaignId, match.suggestions)}
+                        {match.matchedBy && (
+                          <div className={`text-xs mt-1 ${match.matchedBy === 'suggestion' ? 'text-yellow-700' : 'text-gray-500'}`}>
+                            {MATCH_LABELS[match.matchedBy]}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {changes.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Changes</h4>
+                <div className="border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Campaign</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Budget</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Actual spend</th>
+                        {parsed.hasLeads && (
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Leads</th>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {changes.map(({ campaign, rows, warnings, error: changeError, updates }) => {
+                        const campaignCurrency = getCampaignCurrency(campaign);
+                        return (
+                          <tr key={campaign.id} className={changeError ? 'bg-red-50' : warnings.length > 0 ? 'bg-yellow-50' : ''}>
+                            <td className="px-3 py-2">
+                              <div className="text-gray-900">{getCampaignLabel(campaign)}</div>
+                              {rows.length > 1 && (
+                                <div className="text-xs text-gray-500">Sum of {rows.length} platform campaigns</div>
+                              )}
+                              {changeError && <div className="text-xs text-red-700">{changeError}</div>}
+                              {warnings.map(warning => (
+                                <div key={warning} className="text-xs text-yellow-700">{warning}</div>
+                              ))}
+                            </td>
+                            <td className="px-3 py-2 text-right text-gray-600">{formatBudget(campaign.budget, campaignCurrency)}</td>
+                            <td className="px-3 py-2 text-right whitespace-nowrap">
+                              <span className="text-gray-500">
+                                {campaign.actualSpend != null ? formatBudget(campaign.actualSpend, campaignCurrency) : '—'}
+                              </span>
+                              {!changeError && (
+                                <>
+                                  {' → '}
+                                  <span className="text-gray-900 font-medium">{formatBudget(updates.actualSpend!, campaignCurrency)}</span>
+                                </>
+                              )}
+                            </td>
+                            {parsed.hasLeads && (
+                              <td className="px-3 py-2 text-right whitespace-nowrap">
+                                <span className="text-gray-500">{campaign.leads.toLocaleString()}</span>
+                                {!changeError && (
+                                  <>
+                                    {' → '}
+                                    <span className="text-gray-900 font-medium">{updates.leads!.toLocaleString()}</span>
+                                  </>
+                                )}
+                              </td>
+                            )}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {renderProgress()}
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={handleStartOver}
+                disabled={busy}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium flex items-center gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Choose another file
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={busy || applicableCount === 0}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <Upload className="w-4 h-4" />
+                {busy ? 'Updating...' : `Update ${applicableCount} campaigns`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4">
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <div className="flex items-center gap-2 text-green-800">
+                <CheckCircle className="w-5 h-5" />
+                <span className="font-medium">Actuals of {updatedCount} campaigns updated</span>
+              </div>
+              <p className="text-sm text-green-700 mt-1">
+                Each change is in the campaign history.
+              </p>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={handleStartOver}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Import another file
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardCheck, Check, X, AlertTriangle } from 'lucide-react';
+import { APPROVAL_STATUS_CONFIG, APPROVER_ROLE_CONFIG, ApprovalRequest } from '../types/approval';
+import { DEFAULT_CURRENCY } from '../types/currency';
+import { useApprovals } from '../hooks/useApprovals';
+import { useAuth } from '../hooks/useAuth';
+import { useBudgetPlans } from '../hooks/useBudgetPlans';
+import { useCampaigns, useEnsureCampaignPeriod } from '../hooks/useCampaigns';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { canDecide, isOwnRequest } from '../utils/approvals';
+import { computeBudgetPlanUsage, findCampaignEnvelope, getEnvelopeKey, getEnvelopePeriodLabel } from '../utils/budgetPlan';
+import { formatBudget } from '../utils/budgetFormatter';
+import { getAuditUserLabel } from '../utils/campaignAudit';
+import { convertCampaigns } from '../utils/currency';
+import { getFiscalYear, getFiscalYearLabel, getFiscalYearOfDate, getFiscalYearPeriod } from '../utils/fiscalYear';
+import { NotificationType } from './Notification';
+
+interface ApprovalsInboxProps {
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+interface BudgetImpact {
+  /** Why there is nothing to compare with, e.g. no plan for the year */
+  note?: string;
+  envelopeLabel?: string;
+  allocated?: number;
+  committed?: number;
+  /** What the envelope has left once this request is committed too; negative when it goes over */
+  remainingAfter?: number;
+}
+
+// Decided requests shown below the inbox
+const HISTORY_LIMIT = 50;
+
+// Budget plans are kept in DEFAULT_CURRENCY, like request amounts
+const formatSigned = (value: number) => (value < 0 ? `-${formatBudget(-value, DEFAULT_CURRENCY)}` : formatBudget(value, DEFAULT_CURRENCY));
+
+export const ApprovalsInbox: React.FC<ApprovalsInboxProps> = ({ showNotification }) => {
+  const { requests, currentApprover, loading, decide } = useApprovals();
+  const { user } = useAuth();
+  const { getPlanForYear } = useBudgetPlans();
+  const { campaigns } = useCampaigns();
+  const { rates } = useExchangeRates();
+  const [rejecting, setRejecting] = useState<{ id: string; comment: string } | null>(null);
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const pending = useMemo(() => requests.filter(request => request.status === 'pending'), [requests]);
+  const decided = useMemo(() => requests.filter(request => request.status !== 'pending').slice(0, HISTORY_LIMIT), [requests]);
+
+  // Envelopes are measured on every campaign of their fiscal year, so those years have to be loaded
+  const years = pending.filter(request => request.startDate).map(request => getFiscalYearOfDate(request.startDate));
+  const firstYear = years.length > 0 ? Math.min(...years) : getFiscalYear();
+  const lastYear = years.length > 0 ? Math.max(...years) : firstYear;
+  useEnsureCampaignPeriod(getFiscalYearPeriod(firstYear).startDate, getFiscalYearPeriod(lastYear).endDate);
+
+  const impacts = useMemo(() => {
+    const converted = convertCampaigns(campaigns, DEFAULT_CURRENCY, rates).campaigns;
+    const result = new Map<string, BudgetImpact>();
+    pending.forEach(request => {
+      const year = getFiscalYearOfDate(request.startDate);
+      const yearLabel = getFiscalYearLabel(year);
+      const plan = getPlanForYear(year);
+      const campaign = converted.find(candidate => candidate.id === request.campaignId);
+      if (!plan) {
+        result.set(request.id!, { note: `No ${yearLabel} budget plan` });
+        return;
+      }
+      const envelope = campaign && findCampaignEnvelope(plan, campaign);
+      if (!envelope) {
+        result.set(request.id!, { note: campaign ? `Not in the ${yearLabel} budget plan` : 'Campaign not loaded' });
+        return;
+      }
+      const usage = computeBudgetPlanUsage(plan, converted).envelopes
+        .find(entry => getEnvelopeKey(entry.envelope) === getEnvelopeKey(envelope))!;
+      result.set(request.id!, {
+        envelopeLabel: `${envelope.brand} · ${envelope.channel} · ${envelope.region} · ${getEnvelopePeriodLabel(envelope.period)} ${yearLabel}`,
+        allocated: envelope.amount,
+        committed: usage.committed,
+        remainingAfter: envelope.amount - usage.committed - request.amount,
+      });
+    });
+    return result;
+  }, [pending, campaigns, rates, getPlanForYear]);
+
+  const handleDecision = async (request: ApprovalRequest, decision: 'approved' | 'rejected', comment = '') => {
+    try {
+      setDeciding(request.id!);
+      await decide(request, decision, comment);
+      showNotification(`${request.label} ${decision === 'approved' ? 'approved' : 'rejected'}.`, decision === 'approved' ? 'success' : 'info');
+      setRejecting(null);
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to record the decision.', 'error');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading approvals...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Approvals</h2>
+        <p className="text-gray-600 mt-1">
+          Planned campaign budgets waiting for a decision; approved campaigns can be scheduled
+        </p>
+      </div>
+
+      {!currentApprover && (
+        <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-center gap-2 text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          You are not an approver: an admin can add you in Configuration → Approvers.
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Pending ({pending.length})</h3>
+        </div>
+        <div className="divide-y divide-gray-200">
+          {pending.map(request => {
+            const impact = impacts.get(request.id!);
+            const ownRequest = isOwnRequest(request, currentApprover, user);
+            const allowed = canDecide(currentApprover, request) && !ownRequest;
+            const blockedReason = ownRequest
+              ? 'You cannot decide a request you submitted'
+              : `Needs ${APPROVER_ROLE_CONFIG[request.requiredRole].label} or above`;
+            const busy = deciding === request.id;
+            return (
+              <div key={request.id} className="p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">{request.label}</p>
+                    <p className="text-sm text-gray-500">
+                      Requested by {getAuditUserLabel(request.requestedBy)} on {new Date(request.requestedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-lg font-bold text-gray-900">{formatBudget(request.budget, request.currency)}</p>
+                    {request.currency !== DEFAULT_CURRENCY && (
+                      <p className="text-xs text-gray-500">{formatBudget(request.amount, DEFAULT_CURRENCY)}</p>
+                    )}
+                    <p className="text-xs text-gray-500">Needs {APPROVER_ROLE_CONFIG[request.requiredRole].label}</p>
+                  </div>
+                </div>
+
+                {impact && (
+                  <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                    {impact.note ? (
+                      <span className="text-gray-500">Budget impact: {impact.note}</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-x-6 gap-y-1">
+                        <span className="text-gray-700">{impact.envelopeLabel}</span>
+                        <span className="text-gray-500">Allocated {formatBudget(impact.allocated!, DEFAULT_CURRENCY)}</span>
+                        <span className="text-gray-500">Committed {formatBudget(impact.committed!, DEFAULT_CURRENCY)}</span>
+                        <span className={impact.remainingAfter! < 0 ? 'font-medium text-red-700' : 'font-medium text-green-700'}>
+                          Left after approval {formatSigned(impact.remainingAfter!)}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {rejecting && rejecting.id === request.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={rejecting.comment}
+                      onChange={(e) => setRejecting({ id: request.id!, comment: e.target.value })}
+                      placeholder="Why is the budget rejected? The requester sees this comment."
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleDecision(request, 'rejected', rejecting.comment)}
+                        disabled={busy || !rejecting.comment.trim()}
+                        className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors text-sm font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+                      >
+                        Confirm rejection
+                      </button>
+                      <button
+                        onClick={() => setRejecting(null)}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleDecision(request, 'approved')}
+                      disabled={busy || !allowed}
+                      title={allowed ? undefined : blockedReason}
+                      className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm font-medium flex items-center gap-1 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                      <Check className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => setRejecting({ id: request.id!, comment: '' })}
+                      disabled={busy || !allowed}
+                      title={allowed ? undefined : blockedReason}
+                      className="border border-red-300 text-red-700 px-4 py-2 rounded-lg hover:bg-red-50 transition-colors text-sm font-medium flex items-center gap-1 disabled:text-gray-400 disabled:border-gray-200 disabled:cursor-not-allowed"
+                    >
+                      <X className="w-4 h-4" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {pending.length === 0 && (
+            <div className="px-6 py-12 text-center text-gray-500">
+              <ClipboardCheck className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+              <p className="text-lg font-medium">Nothing to approve</p>
+              <p className="text-sm">Planned campaigns are submitted for approval from their edit form</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {decided.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Recent decisions</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaign</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Budget</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Decision</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comment</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {decided.map(request => (
+                  <tr key={request.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm text-gray-900">{request.label}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{formatBudget(request.budget, request.currency)}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${APPROVAL_STATUS_CONFIG[request.status].className}`}>
+                        {APPROVAL_STATUS_CONFIG[request.status].label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">
+                      {request.decidedBy && getAuditUserLabel(request.decidedBy)}
+                      {request.decidedAt && <div className="text-xs">{new Date(request.decidedAt).toLocaleString()}</div>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{request.comment || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, Plus, Save, Edit, Trash2, Lock } from 'lucide-react';
+import { APPROVER_ROLES, APPROVER_ROLE_CONFIG, Approver, ApproverRole, DEFAULT_APPROVAL_THRESHOLDS } from '../types/approval';
+import { DEFAULT_CURRENCY } from '../types/currency';
+import { useApprovals } from '../hooks/useApprovals';
+import { getApprovalManagersLabel, getTopApproverRoleLabel } from '../utils/approvals';
+import { formatBudget } from '../utils/budgetFormatter';
+import { NotificationType } from './Notification';
+
+interface ApproverManagerProps {
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+const emptyForm = () => ({ name: '', email: '', role: 'budget-owner' as ApproverRole, active: true });
+
+type ThresholdForm = { [key in ApproverRole]: string };
+
+export const ApproverManager: React.FC<ApproverManagerProps> = ({ showNotification }) => {
+  const { approvers, thresholds, canManage, loading, saveApprover, deleteApprover, saveThresholds } = useApprovals();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [thresholdForm, setThresholdForm] = useState<ThresholdForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // The saved thresholds, or the defaults until an admin saves their own
+  useEffect(() => {
+    const rules = thresholds.length > 0 ? thresholds : DEFAULT_APPROVAL_THRESHOLDS;
+    setThresholdForm(
+      APPROVER_ROLES.reduce((values, role) => {
+        const rule = rules.find(threshold => threshold.role === role);
+        return { ...values, [role]: rule ? String(rule.minAmount) : '' };
+      }, {} as ThresholdForm)
+    );
+  }, [thresholds]);
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const handleEdit = (approver: Approver) => {
+    setForm({ name: approver.name, email: approver.email, role: approver.role, active: approver.active });
+    setEditingId(approver.id!);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await saveApprover(form, editingId || undefined);
+      showNotification(`${form.name} ${editingId ? 'updated' : 'added'}.`, 'success');
+      resetForm();
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to save the approver.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (approver: Approver) => {
+    if (!window.confirm(`Remove ${approver.name} from the approvers? Requests they decided keep their name.`)) return;
+    try {
+      await deleteApprover(approver.id!);
+      if (editingId === approver.id) resetForm();
+      showNotification(`${approver.name} removed.`, 'info');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to remove the approver.', 'error');
+    }
+  };
+
+  const handleSaveThresholds = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!thresholdForm) return;
+    try {
+      setSaving(true);
+      // A role left empty gets no threshold: requests go to the roles below or above it
+      await saveThresholds(
+        APPROVER_ROLES
+          .filter(role => thresholdForm[role].trim() !== '')
+          .map(role => ({ role, minAmount: parseFloat(thresholdForm[role].replace(',', '.')) }))
+      );
+      showNotification('Approval thresholds saved.', 'success');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to save the thresholds.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading approvers...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Approvers</h2>
+        <p className="text-gray-600 mt-1">
+          Who approves planned campaign budgets, and from which amount each role is required
+        </p>
+      </div>
+
+      {approvers.length === 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-2xl p-4 flex items-center gap-2 text-sm text-blue-800">
+          <ShieldCheck className="w-4 h-4 flex-shrink-0" />
+          Start with a {getTopApproverRoleLabel()} approver: once the first approver is added, only {getApprovalManagersLabel()} can change approvers and thresholds.
+        </div>
+      )}
+
+      {!canManage && (
+        <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-center gap-2 text-sm text-amber-800">
+          <Lock className="w-4 h-4 flex-shrink-0" />
+          Read only: approvers and thresholds can be changed by {getApprovalManagersLabel()} only.
+        </div>
+      )}
+
+      {thresholdForm && (
+        <form onSubmit={handleSaveThresholds} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Approval thresholds</h3>
+            <p className="text-sm text-gray-500">
+              Budgets from the amount shown, converted to {DEFAULT_CURRENCY}, need the role or a more senior one
+              {thresholds.length === 0 && ' (defaults, not saved yet)'}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-4">
+            {APPROVER_ROLES.map(role => (
+              <div key={role}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {APPROVER_ROLE_CONFIG[role].label} from ({DEFAULT_CURRENCY})
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={thresholdForm[role]}
+                  onChange={(e) => setThresholdForm(prev => prev && { ...prev, [role]: e.target.value })}
+                  disabled={!canManage}
+                  className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+            {canManage && (
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:bg-gray-300"
+              >
+                <Save className="w-4 h-4" />
+                Save thresholds
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Login email</label>
+            <input
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              className="w-64 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+            <select
+              value={form.role}
+              onChange={(e) => setForm(prev => ({ ...prev, role: e.target.value as ApproverRole }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {APPROVER_ROLES.map(role => (
+                <option key={role} value={role}>{APPROVER_ROLE_CONFIG[role].label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center py-2">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setForm(prev => ({ ...prev, active: e.target.checked }))}
+              className="mr-2 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm font-medium text-gray-700">Active</span>
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:bg-gray-300"
+          >
+            {editingId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+            {editingId ? 'Update approver' : 'Add approver'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+          )}
+        </form>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Decides up to</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {approvers.map(approver => {
+                const senior = (thresholds.length > 0 ? thresholds : DEFAULT_APPROVAL_THRESHOLDS)
+                  .filter(threshold => APPROVER_ROLE_CONFIG[threshold.role].rank > APPROVER_ROLE_CONFIG[approver.role].rank)
+                  .map(threshold => threshold.minAmount);
+                return (
+                  <tr key={approver.id} className={editingId === approver.id ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{approver.name}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{approver.email}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{APPROVER_ROLE_CONFIG[approver.role].label}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">
+                      {senior.length > 0 ? `Below ${formatBudget(Math.min(...senior), DEFAULT_CURRENCY)}` : 'Any amount'}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${approver.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                        {approver.active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      {canManage && (
+                        <>
+                          <button
+                            onClick={() => handleEdit(approver)}
+                            className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                            title="Edit approver"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(approver)}
+                            className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                            title="Remove approver"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {approvers.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                    <ShieldCheck className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                    <p className="text-lg font-medium">No approvers yet</p>
+                    <p className="text-sm">Add the people who approve campaign budgets, by the email they sign in with</p>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
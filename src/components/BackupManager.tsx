@@ -0,0 +1,325 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { DatabaseBackup, Download, Upload, AlertTriangle, RotateCcw, X } from 'lucide-react';
+import { useBackup } from '../hooks/useBackup';
+import { BackupDiffStatus } from '../types/backup';
+import { BACKUP_KINDS, BackupDiffItem, getBackupCollectionName, isBackupValidationError } from '../utils/backup';
+import { getAuditFieldLabel, getAuditUserLabel } from '../utils/campaignAudit';
+import { TRASH_KIND_CONFIG } from '../utils/trash';
+import { NotificationType } from './Notification';
+
+interface BackupManagerProps {
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+const STATUS_BADGES: { [key in BackupDiffStatus]: { label: string; className: string } } = {
+  missing: { label: 'Deleted since backup', className: 'bg-red-100 text-red-800' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700' },
+  extra: { label: 'Created since backup', className: 'bg-blue-100 text-blue-800' },
+};
+
+const itemKey = (item: BackupDiffItem) => `${item.kind}:${item.id}`;
+
+export const BackupManager: React.FC<BackupManagerProps> = ({ showNotification }) => {
+  const { creating, fileName, backup, diff, analyzing, restoring, progress, downloadBackup, loadFile, restore, reset } = useBackup();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [validationProblems, setValidationProblems] = useState<string[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [trashExtra, setTrashExtra] = useState(false);
+
+  const actionable = useMemo(() => (diff || []).filter(item => item.status !== 'unchanged'), [diff]);
+  const busy = creating || analyzing || restoring;
+
+  const handleDownload = async () => {
+    try {
+      const archive = await downloadBackup();
+      const total = Object.values(archive.collections).reduce((sum, documents) => sum + documents.length, 0);
+      showNotification(`Backup downloaded: ${total} documents.`, 'success');
+    } catch (err) {
+      showNotification((err as Error).message || 'Backup failed.', 'error');
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setValidationProblems(null);
+    setSelected(new Set());
+    try {
+      await loadFile(file);
+    } catch (err) {
+      if (isBackupValidationError(err)) {
+        setValidationProblems(err.problems);
+      } else {
+        showNotification((err as Error).message || 'Could not read the backup.', 'error');
+      }
+    }
+  };
+
+  const toggleItem = (item: BackupDiffItem) => {
+    const next = new Set(selected);
+    if (next.has(itemKey(item))) {
+      next.delete(itemKey(item));
+    } else {
+      next.add(itemKey(item));
+    }
+    setSelected(next);
+  };
+
+  const runRestore = async (items: BackupDiffItem[], description: string) => {
+    if (items.length === 0) return;
+    if (!window.confirm(`${description}\n\nThis overwrites current data. Download a backup of the current data first if you may need it.`)) return;
+    try {
+      const restored = await restore(items);
+      setSelected(new Set());
+      showNotification(`Restore complete: ${restored} documents updated.`, 'success');
+    } catch (err) {
+      showNotification(`Restore stopped: ${(err as Error).message}. Documents restored so far are kept.`, 'error');
+    }
+  };
+
+  const handleRestoreSelected = () => {
+    const items = actionable.filter(item => selected.has(itemKey(item)));
+    runRestore(items, `Restore ${items.length} selected documents from the backup?`);
+  };
+
+  const handleFullRestore = () => {
+    const items = actionable.filter(item => item.status !== 'extra' || trashExtra);
+    const extraCount = items.filter(item => item.status === 'extra').length;
+    runRestore(
+      items,
+      `Restore all ${items.length - extraCount} deleted or changed documents from the backup` +
+        (extraCount > 0 ? ` and move ${extraCount} documents created since to the trash?` : '?')
+    );
+  };
+
+  const renderItem = (item: BackupDiffItem) => {
+    const badge = STATUS_BADGES[item.status];
+    const selectable = item.status !== 'unchanged';
+    return (
+      <label
+        key={itemKey(item)}
+        className={`flex items-start gap-3 px-4 py-2 ${selectable ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+      >
+        <input
+          type="checkbox"
+          checked={selected.has(itemKey(item))}
+          onChange={() => toggleItem(item)}
+          disabled={!selectable || restoring}
+          className="mt-1"
+        />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-900 truncate">{item.label}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${badge.className}`}>
+              {badge.label}
+            </span>
+          </div>
+          {item.status === 'changed' && (
+            <div className="text-xs text-gray-500 mt-0.5">
+              {item.changedFields.map(field => (item.kind === 'campaign' ? getAuditFieldLabel(field) : field)).join(', ')}
+            </div>
+          )}
+          {item.status === 'extra' && (
+            <div className="text-xs text-gray-500 mt-0.5">Moved to the trash when restored</div>
+          )}
+        </div>
+      </label>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Backup & Restore</h2>
+          <p className="text-gray-600 mt-1">
+            Snapshot campaigns and master data before risky bulk changes, and restore them selectively or fully
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-4 h-4" />
+            {analyzing ? 'Reading backup...' : 'Open Backup'}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={busy}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            {creating ? 'Creating backup...' : 'Download Backup'}
+          </button>
+        </div>
+      </div>
+
+      {validationProblems && (
+        <div className="bg-red-50 border border-red-200 rounded-2xl p-4">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2 text-red-800 font-medium">
+              <AlertTriangle className="w-5 h-5" />
+              This file can't be restored
+            </div>
+            <button onClick={() => setValidationProblems(null)} className="p-1 hover:bg-red-100 rounded">
+              <X className="w-4 h-4 text-red-700" />
+            </button>
+          </div>
+          <ul className="list-disc list-inside text-sm text-red-700 max-h-40 overflow-y-auto">
+            {validationProblems.map((problem, index) => (
+              <li key={index}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {restoring && (
+        <div className="bg-blue-50 border border-blue-200 rounded-2xl p-4">
+          <div className="flex items-center justify-between text-sm text-blue-900 mb-2">
+            <span className="font-medium">Restoring...</span>
+            {progress && progress.total > 0 && (
+              <span>{progress.done} / {progress.total}</span>
+            )}
+          </div>
+          <div className="w-full bg-blue-100 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {!backup || !diff ? (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-12 text-center">
+          <DatabaseBackup className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+          <p className="text-gray-600">
+            Open a backup file to compare it with the current data and choose what to restore.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{fileName}</h3>
+                <p className="text-sm text-gray-600">
+                  Created {new Date(backup.archive.createdAt).toLocaleString()} by {getAuditUserLabel(backup.archive.createdBy)} • format v{backup.archive.version}
+                </p>
+              </div>
+              <button onClick={reset} disabled={restoring} className="text-sm text-gray-500 hover:text-gray-700">
+                Close
+              </button>
+            </div>
+
+            {backup.warnings.length > 0 && (
+              <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 space-y-1">
+                {backup.warnings.map((warning, index) => (
+                  <p key={index} className="text-sm text-yellow-800 flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mt-4">
+              {BACKUP_KINDS.map(kind => {
+                const kindItems = diff.filter(item => item.kind === kind);
+                const pending = kindItems.filter(item => item.status !== 'unchanged').length;
+                return (
+                  <div key={kind} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="text-xs text-gray-500">{TRASH_KIND_CONFIG[kind].icon} {TRASH_KIND_CONFIG[kind].label}</div>
+                    <div className="text-lg font-semibold text-gray-900">
+                      {backup.archive.collections[getBackupCollectionName(kind)]?.length ?? '—'}
+                    </div>
+                    <div className={`text-xs ${pending > 0 ? 'text-yellow-700' : 'text-green-700'}`}>
+                      {pending > 0 ? `${pending} differences` : 'Up to date'}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mt-6 pt-4 border-t border-gray-200">
+              <button
+                onClick={handleRestoreSelected}
+                disabled={restoring || selected.size === 0}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Restore Selected ({selected.size})
+              </button>
+              <button
+                onClick={handleFullRestore}
+                disabled={restoring || actionable.length === 0}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Full Restore
+              </button>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={trashExtra} onChange={(e) => setTrashExtra(e.target.checked)} />
+                Full restore also moves documents created since the backup to the trash
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 ml-auto">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                Show unchanged
+              </label>
+            </div>
+          </div>
+
+          {BACKUP_KINDS.map(kind => {
+            const kindItems = diff.filter(item => item.kind === kind && (showUnchanged || item.status !== 'unchanged'));
+            if (kindItems.length === 0) return null;
+            const selectable = kindItems.filter(item => item.status !== 'unchanged');
+            const allSelected = selectable.length > 0 && selectable.every(item => selected.has(itemKey(item)));
+            return (
+              <div key={kind} className="bg-white rounded-2xl shadow-sm border border-gray-100">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+                  <h3 className="font-semibold text-gray-900">
+                    {TRASH_KIND_CONFIG[kind].icon} {TRASH_KIND_CONFIG[kind].label} ({kindItems.length})
+                  </h3>
+                  {selectable.length > 0 && (
+                    <button
+                      onClick={() => {
+                        const next = new Set(selected);
+                        selectable.forEach(item => (allSelected ? next.delete(itemKey(item)) : next.add(itemKey(item))));
+                        setSelected(next);
+                      }}
+                      disabled={restoring}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      {allSelected ? 'Deselect all' : 'Select all'}
+                    </button>
+                  )}
+                </div>
+                <div className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                  {kindItems.map(renderItem)}
+                </div>
+              </div>
+            );
+          })}
+
+          {actionable.length === 0 && (
+            <div className="bg-green-50 border border-green-200 rounded-2xl p-4 text-sm text-green-800">
+              The current data matches this backup.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -2,8 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { X, Copy, Calendar, Users, FileText, Settings, AlertTriangle, Info, CheckCircle, Loader2, Target } from 'lucide-react';
 import { useDuplicateBrandCampaigns } from '../hooks/useDuplicateBrandCampaigns';
 import { useManagers } from '../hooks/useManagers';
-import { useFirestore } from '../hooks/useFirestore';
+import { useCampaignsByBrand } from '../hooks/useCampaigns';
 import { Status, STATUS_CONFIG } from '../types/campaign';
+import { NO_APPROVAL } from '../utils/approvals';
+import { checkStatusTransition } from '../utils/campaignStatus';
 
 interface BrandCampaignBulkDuplicateModalProps {
   brand: string;
@@ -18,7 +20,7 @@ export const BrandCampaignBulkDuplicateModal: React.FC<BrandCampaignBulkDuplicat
 }) => {
   const { duplicateCampaignsByBrand, loading, error } = useDuplicateBrandCampaigns();
   const { getActiveManagers } = useManagers();
-  const { campaigns } = useFirestore();
+  const brandCampaigns = useCampaignsByBrand(brand);
   
   const [formData, setFormData] = useState({
     startDate: '',
@@ -36,7 +38,7 @@ export const BrandCampaignBulkDuplicateModal: React.FC<BrandCampaignBulkDuplicat
   const activeManagers = getActiveManagers();
   
   // Filter campaigns by BOTH brand AND channel
-  const brandChannelCampaigns = campaigns.filter(c => c.brand === brand && c.channel === channel);
+  const brandChannelCampaigns = brandCampaigns.filter(c => c.channel === channel);
 
   // Available status options for the dropdown
   const statusOptions: Array<{ value: 'auto' | Status; label: string; description: string }> = [
@@ -156,7 +158,11 @@ export const BrandCampaignBulkDuplicateModal: React.FC<BrandCampaignBulkDuplicat
     return 'PLANNED';
   };
 
-  const statusPreview = getStatusPreview();
+  // Copies start unapproved, so statuses that need an approved budget fall back to planned (see useDuplicateBrandCampaigns)
+  const requestedStatus = getStatusPreview();
+  const statusPreview: Status = checkStatusTransition(
+    null, requestedStatus, { startDate: formData.startDate, endDate: formData.endDate, ...NO_APPROVAL }
+  ).allowed ? requestedStatus : 'PLANNED';
   const statusConfig = STATUS_CONFIG[statusPreview];
 
   // Get channel emoji for visual enhancement
@@ -177,6 +183,9 @@ export const BrandCampaignBulkDuplicateModal: React.FC<BrandCampaignBulkDuplicat
   };
 
   const getStatusPreviewDescription = () => {
+    if (requestedStatus !== statusPreview) {
+      return `"${STATUS_CONFIG[requestedStatus].label}" needs an approved budget: copies start as PLANNED, ready to be submitted for approval`;
+    }
     if (formData.customStatus !== 'auto') {
       return `Custom status override: ${statusConfig.label}`;
     }
@@ -2,35 +2,45 @@ import React, { useState } from 'react';
 import { Plus, Edit, Trash2, Save, X, Building2, Eye, EyeOff, AlertTriangle, Wifi, WifiOff } from 'lucide-react';
 import { Brand } from '../types/brand';
 import { useBrands } from '../hooks/useBrands';
+import { useEntityUsage } from '../hooks/useEntityUsage';
+import { RenameImpactNotice } from './RenameImpactNotice';
+import { ReassignDeleteWizard } from './ReassignDeleteWizard';
 import { useChannels } from '../hooks/useChannels';
 
 export const BrandManager: React.FC = () => {
   const { brands, loading, error, addBrand, updateBrand, deleteBrand } = useBrands();
+  const { getUsageCount, reassign } = useEntityUsage('brand', brands.map(brand => brand.name));
   const { getActiveChannels } = useChannels();
   const [showForm, setShowForm] = useState(false);
   const [editingBrand, setEditingBrand] = useState<Brand | null>(null);
+  const [renameProgress, setRenameProgress] = useState<{ done: number; total: number } | null>(null);
+  const [reassigningBrand, setReassigningBrand] = useState<Brand | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     channels: [] as string[],
     active: true,
   });
 
+  const [formError, setFormError] = useState<string | null>(null);
+
   const availableChannels = getActiveChannels();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setFormError(null);
     
     try {
       if (editingBrand) {
-        await updateBrand(editingBrand.id!, formData);
+        await updateBrand(editingBrand.id!, formData, (done, total) => setRenameProgress({ done, total }));
       } else {
         await addBrand(formData);
       }
       
       resetForm();
     } catch (error) {
+      setRenameProgress(null);
       console.error('Error saving brand:', error);
-      // Error handling is done in the hook
+      setFormError((error as Error).message || 'Failed to save brand');
     }
   };
 
@@ -45,7 +55,12 @@ export const BrandManager: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this brand? This action cannot be undone.')) {
+    const referenced = brands.find(item => item.id === id);
+    if (referenced && getUsageCount(referenced.name) > 0) {
+      setReassigningBrand(referenced);
+      return;
+    }
+    if (window.confirm('Move this brand to the trash? You can restore it from the Trash tab.')) {
       try {
         await deleteBrand(id);
       } catch (error) {
@@ -72,6 +87,8 @@ export const BrandManager: React.FC = () => {
     });
     setEditingBrand(null);
     setShowForm(false);
+    setRenameProgress(null);
+    setFormError(null);
   };
 
   const handleChannelToggle = (channelName: string) => {
@@ -174,6 +191,7 @@ export const BrandManager: React.FC = () => {
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Brand</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Channels</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaigns</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -209,6 +227,9 @@ export const BrandManager: React.FC = () => {
                         })}
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {getUsageCount(brand.name)}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <button
                         onClick={() => handleToggleActive(brand)}
@@ -274,6 +295,16 @@ export const BrandManager: React.FC = () => {
               </button>
             </div>
 
+            {formError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <div className="flex items-center gap-2 text-red-800">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span className="text-sm font-medium">Error</span>
+                </div>
+                <p className="text-sm text-red-700 mt-1">{formError}</p>
+              </div>
+            )}
+
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -289,6 +320,15 @@ export const BrandManager: React.FC = () => {
                 />
               </div>
 
+              {editingBrand && (
+                <RenameImpactNotice
+                  kind="brand"
+                  from={editingBrand.name}
+                  to={formData.name}
+                  progress={renameProgress}
+                />
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Available Channels
@@ -374,6 +414,25 @@ export const BrandManager: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Delete Guard */}
+      {reassigningBrand && (
+        <ReassignDeleteWizard
+          kind="brand"
+          label={reassigningBrand.name}
+          usageCount={getUsageCount(reassigningBrand.name)}
+          targets={brands
+            .filter(item => item.id !== reassigningBrand.id && item.active)
+            .map(item => ({ value: item.name, label: item.name }))}
+          isActive={reassigningBrand.active}
+          onReassign={async (to, onProgress) => {
+            await reassign(reassigningBrand.name, to, onProgress);
+            await deleteBrand(reassigningBrand.id!);
+          }}
+          onDeactivate={() => updateBrand(reassigningBrand.id!, { active: false })}
+          onClose={() => setReassigningBrand(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
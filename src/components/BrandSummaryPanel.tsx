@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Campaign } from '../types/campaign';
 import { useChannels } from '../hooks/useChannels';
-import { formatBudget } from '../utils/budgetFormatter';
+import { formatBudget, formatUnitCost } from '../utils/budgetFormatter';
 import { formatMetric } from '../utils/chartHelpers';
 import { Euro, Users, Target, BarChart3, Building2, Copy } from 'lucide-react';
 import { BrandCampaignBulkDuplicateModal } from './BrandCampaignBulkDuplicateModal';
@@ -131,7 +131,7 @@ export const BrandSummaryPanel: React.FC<BrandSummaryPanelProps> = ({
                 <div>
                   <p className="text-sm font-medium text-orange-700">Average CPL</p>
                   <p className="text-2xl font-bold text-orange-900 mt-1">
-                    €{avgCPL.toFixed(2)}
+                    {formatUnitCost(avgCPL)}
                   </p>
                 </div>
                 <div className="bg-orange-500 p-3 rounded-lg">
@@ -214,7 +214,7 @@ export const BrandSummaryPanel: React.FC<BrandSummaryPanelProps> = ({
                         <div className="flex justify-between">
                           <span className="text-gray-600">CPL:</span>
                           <span className="font-medium text-gray-900">
-                            €{(data.budget / data.leads).toFixed(2)}
+                            {formatUnitCost(data.budget / data.leads)}
                           </span>
                         </div>
                       </>
@@ -1,31 +1,47 @@
 import React, { useState } from 'react';
 import { Plus, Edit, Trash2, Save, X, Tv, Eye, EyeOff, AlertTriangle, Wifi, WifiOff } from 'lucide-react';
 import { Broadcaster } from '../types/broadcaster';
+import { FeeRule } from '../types/costBreakdown';
 import { useBroadcasters } from '../hooks/useBroadcasters';
+import { useEntityUsage } from '../hooks/useEntityUsage';
+import { RenameImpactNotice } from './RenameImpactNotice';
+import { ReassignDeleteWizard } from './ReassignDeleteWizard';
+import { FeeRuleFields } from './FeeRuleFields';
+import { formatFeeRule, validateFeeRule } from '../utils/costBreakdown';
 
 export const BroadcasterManager: React.FC = () => {
   const { broadcasters, loading, error, addBroadcaster, updateBroadcaster, deleteBroadcaster } = useBroadcasters();
+  const { getUsageCount, reassign } = useEntityUsage('broadcaster', broadcasters.map(broadcaster => broadcaster.name));
   const [showForm, setShowForm] = useState(false);
   const [editingBroadcaster, setEditingBroadcaster] = useState<Broadcaster | null>(null);
+  const [renameProgress, setRenameProgress] = useState<{ done: number; total: number } | null>(null);
+  const [reassigningBroadcaster, setReassigningBroadcaster] = useState<Broadcaster | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     active: true,
+    feeRule: null as FeeRule | null,
   });
   const [formError, setFormError] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setFormError(null);
+    const feeRuleError = formData.feeRule && validateFeeRule(formData.feeRule);
+    if (feeRuleError) {
+      setFormError(feeRuleError);
+      return;
+    }
     
     try {
       if (editingBroadcaster) {
-        await updateBroadcaster(editingBroadcaster.id!, formData);
+        await updateBroadcaster(editingBroadcaster.id!, formData, (done, total) => setRenameProgress({ done, total }));
       } else {
         await addBroadcaster(formData);
       }
       
       resetForm();
     } catch (error: any) {
+      setRenameProgress(null);
       console.error('Error saving broadcaster:', error);
       setFormError(error.message || 'Failed to save broadcaster');
     }
@@ -36,12 +52,18 @@ export const BroadcasterManager: React.FC = () => {
     setFormData({
       name: broadcaster.name,
       active: broadcaster.active,
+      feeRule: broadcaster.feeRule || null,
     });
     setShowForm(true);
   };
 
   const handleDelete = async (id: string, name: string) => {
-    if (window.confirm(`Are you sure you want to delete "${name}"? This action cannot be undone and may affect existing campaigns.`)) {
+    const referenced = broadcasters.find(item => item.id === id);
+    if (referenced && getUsageCount(referenced.name) > 0) {
+      setReassigningBroadcaster(referenced);
+      return;
+    }
+    if (window.confirm(`Move "${name}" to the trash? You can restore it from the Trash tab.`)) {
       try {
         await deleteBroadcaster(id);
       } catch (error) {
@@ -64,9 +86,11 @@ export const BroadcasterManager: React.FC = () => {
     setFormData({
       name: '',
       active: true,
+      feeRule: null,
     });
     setEditingBroadcaster(null);
     setShowForm(false);
+    setRenameProgress(null);
     setFormError(null);
   };
 
@@ -152,6 +176,8 @@ export const BroadcasterManager: React.FC = () => {
               <thead className="bg-gray-50">
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Broadcaster</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaigns</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fee rule</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -171,6 +197,12 @@ export const BroadcasterManager: React.FC = () => {
                         </div>
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {getUsageCount(broadcaster.name)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {broadcaster.feeRule ? formatFeeRule(broadcaster.feeRule) : <span className="text-gray-400">Channel rule</span>}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <button
                         onClick={() => handleToggleActive(broadcaster)}
@@ -265,6 +297,15 @@ export const BroadcasterManager: React.FC = () => {
                 </p>
               </div>
 
+              {editingBroadcaster && (
+                <RenameImpactNotice
+                  kind="broadcaster"
+                  from={editingBroadcaster.name}
+                  to={formData.name}
+                  progress={renameProgress}
+                />
+              )}
+
               <div>
                 <label className="flex items-center">
                   <input
@@ -281,6 +322,12 @@ export const BroadcasterManager: React.FC = () => {
                 </p>
               </div>
 
+              <FeeRuleFields
+                value={formData.feeRule}
+                onChange={feeRule => setFormData(prev => ({ ...prev, feeRule }))}
+                fallbackLabel="the rule of their channel"
+              />
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="submit"
@@ -301,6 +348,25 @@ export const BroadcasterManager: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Delete Guard */}
+      {reassigningBroadcaster && (
+        <ReassignDeleteWizard
+          kind="broadcaster"
+          label={reassigningBroadcaster.name}
+          usageCount={getUsageCount(reassigningBroadcaster.name)}
+          targets={broadcasters
+            .filter(item => item.id !== reassigningBroadcaster.id && item.active)
+            .map(item => ({ value: item.name, label: item.name }))}
+          isActive={reassigningBroadcaster.active}
+          onReassign={async (to, onProgress) => {
+            await reassign(reassigningBroadcaster.name, to, onProgress);
+            await deleteBroadcaster(reassigningBroadcaster.id!);
+          }}
+          onDeactivate={() => updateBroadcaster(reassigningBroadcaster.id!, { active: false })}
+          onClose={() => setReassigningBroadcaster(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,339 @@
+import React, { useMemo, useState } from 'react';
+import { Wallet, Plus, Save, Trash2, X, AlertTriangle } from 'lucide-react';
+import { BudgetEnvelope, BudgetPlan, EnvelopePeriod } from '../types/budgetPlan';
+import { useBudgetPlans } from '../hooks/useBudgetPlans';
+import { useBrands } from '../hooks/useBrands';
+import { useChannels } from '../hooks/useChannels';
+import { useRegions } from '../hooks/useRegions';
+import { useCampaigns, useEnsureCampaignPeriod } from '../hooks/useCampaigns';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { DEFAULT_CURRENCY } from '../types/currency';
+import {
+  ENVELOPE_PERIODS,
+  computeBudgetPlanUsage,
+  getEnvelopeKey,
+  sumEnvelopeUsage,
+  validateEnvelopes,
+} from '../utils/budgetPlan';
+import { formatBudget } from '../utils/budgetFormatter';
+import { convertCampaigns } from '../utils/currency';
+import { getFiscalYear, getFiscalYearLabel, getFiscalYearPeriod } from '../utils/fiscalYear';
+import { NotificationType } from './Notification';
+
+interface BudgetPlanManagerProps {
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+interface BudgetPlanEditorProps {
+  plan: BudgetPlan;
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+// Budget plans are kept in DEFAULT_CURRENCY whatever the reporting currency
+const formatSigned = (value: number) => (value < 0 ? `-${formatBudget(-value, DEFAULT_CURRENCY)}` : formatBudget(value, DEFAULT_CURRENCY));
+
+const BudgetPlanEditor: React.FC<BudgetPlanEditorProps> = ({ plan, showNotification }) => {
+  const { savePlan, deletePlan } = useBudgetPlans();
+  const { brands } = useBrands();
+  const { channels } = useChannels();
+  const { regions } = useRegions();
+  const { campaigns } = useCampaigns();
+  const { rates } = useExchangeRates();
+  const fiscalYear = getFiscalYearPeriod(plan.year);
+  useEnsureCampaignPeriod(fiscalYear.startDate, fiscalYear.endDate);
+  const yearLabel = getFiscalYearLabel(plan.year);
+
+  const [envelopes, setEnvelopes] = useState<BudgetEnvelope[]>(plan.envelopes);
+  const [notes, setNotes] = useState(plan.notes || '');
+  const [saving, setSaving] = useState(false);
+
+  const errors = useMemo(() => validateEnvelopes(envelopes), [envelopes]);
+  const dirty = envelopes !== plan.envelopes || notes !== (plan.notes || '');
+
+  // Usage follows the edited envelopes, so the effect of a change is visible before saving
+  const usage = useMemo(
+    () => computeBudgetPlanUsage({ ...plan, envelopes }, convertCampaigns(campaigns, DEFAULT_CURRENCY, rates).campaigns),
+    [plan, envelopes, campaigns, rates]
+  );
+  const usageByKey = new Map(usage.envelopes.map(entry => [getEnvelopeKey(entry.envelope), entry]));
+  const totals = sumEnvelopeUsage(usage.envelopes);
+
+  const updateEnvelope = (index: number, updates: Partial<BudgetEnvelope>) => {
+    setEnvelopes(prev => prev.map((envelope, i) => (i === index ? { ...envelope, ...updates } : envelope)));
+  };
+
+  const addEnvelope = () => {
+    setEnvelopes(prev => [...prev, { brand: '', channel: '', region: '', period: 'year', amount: 0 }]);
+  };
+
+  const removeEnvelope = (index: number) => {
+    setEnvelopes(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await savePlan(plan.id!, envelopes, notes);
+      showNotification(`Budget plan ${yearLabel} saved.`, 'success');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to save the budget plan.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete the ${yearLabel} budget plan and its ${plan.envelopes.length} envelopes? Campaigns are not affected.`)) return;
+    try {
+      await deletePlan(plan.id!);
+      showNotification(`Budget plan ${yearLabel} deleted.`, 'info');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to delete the budget plan.', 'error');
+    }
+  };
+
+  const renderSelect = (value: string, options: string[], placeholder: string, onChange: (value: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <option value="">{placeholder}</option>
+      {/* Keeps values whose entity has since been deactivated or deleted */}
+      {!options.includes(value) && value && <option value={value}>{value}</option>}
+      {options.map(option => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Allocated', value: totals.allocated, className: 'bg-blue-50 border-blue-100 text-blue-900' },
+          { label: 'Planned', value: totals.planned, className: 'bg-yellow-50 border-yellow-100 text-yellow-900' },
+          { label: 'Committed', value: totals.committed, className: 'bg-green-50 border-green-100 text-green-900' },
+          {
+            label: 'Remaining',
+            value: totals.remaining,
+            className: totals.remaining < 0 ? 'bg-red-50 border-red-100 text-red-900' : 'bg-gray-50 border-gray-100 text-gray-900',
+          },
+        ].map(card => (
+          <div key={card.label} className={`p-4 rounded-2xl border ${card.className}`}>
+            <p className="text-sm font-medium opacity-75">{card.label}</p>
+            <p className="text-2xl font-bold mt-1">{formatSigned(card.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      {usage.unbudgeted.length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {usage.unbudgeted.length} campaigns starting in {yearLabel} ({formatBudget(usage.unbudgeted.reduce((sum, campaign) => sum + campaign.budget, 0), DEFAULT_CURRENCY)})
+            have no matching envelope.
+          </span>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Brand</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Channel</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Region</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Allocated ({DEFAULT_CURRENCY})</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Planned</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Committed</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Remaining</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {envelopes.map((envelope, index) => {
+                const entry = usageByKey.get(getEnvelopeKey(envelope));
+                return (
+                  <tr key={index} className="hover:bg-gray-50">
+                    <td className="px-4 py-2">
+                      {renderSelect(envelope.brand, brands.map(brand => brand.name), 'Brand...', brand => updateEnvelope(index, { brand }))}
+                    </td>
+                    <td className="px-4 py-2">
+                      {renderSelect(envelope.channel, channels.map(channel => channel.name), 'Channel...', channel => updateEnvelope(index, { channel }))}
+                    </td>
+                    <td className="px-4 py-2">
+                      {renderSelect(envelope.region, regions.map(region => region.name), 'Region...', region => updateEnvelope(index, { region }))}
+                    </td>
+                    <td className="px-4 py-2">
+                      <select
+                        value={envelope.period}
+                        onChange={(e) => updateEnvelope(index, { period: e.target.value as EnvelopePeriod })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {ENVELOPE_PERIODS.map(option => (
+                          <option key={option.period} value={option.period}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="100"
+                        value={envelope.amount}
+                        onChange={(e) => updateEnvelope(index, { amount: parseFloat(e.target.value) || 0 })}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-700">{entry ? formatBudget(entry.planned, DEFAULT_CURRENCY) : '—'}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-700">{entry ? formatBudget(entry.committed, DEFAULT_CURRENCY) : '—'}</td>
+                    <td className={`px-4 py-2 text-sm text-right font-medium ${entry && entry.remaining < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {entry ? formatSigned(entry.remaining) : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => removeEnvelope(index)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                        title="Remove envelope"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {envelopes.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="px-6 py-12 text-center text-gray-500">
+                    <Wallet className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                    <p className="text-lg font-medium">No envelopes yet</p>
+                    <p className="text-sm">Add one per brand, channel and region to track spending against the plan</p>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="p-4 border-t border-gray-200">
+          <button
+            onClick={addEnvelope}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add envelope
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+          {errors.map(error => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3 pt-6 border-t border-gray-200">
+        <button
+          onClick={handleSave}
+          disabled={saving || !dirty || errors.length > 0}
+          className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Save plan'}
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={saving}
+          className="px-6 py-3 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete plan
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const BudgetPlanManager: React.FC<BudgetPlanManagerProps> = ({ showNotification }) => {
+  const { plans, loading, addPlan } = useBudgetPlans();
+  const [selectedYear, setSelectedYear] = useState(() => getFiscalYear());
+  const selectedPlan = plans.find(plan => plan.year === selectedYear);
+
+  const years = [...new Set([...plans.map(plan => plan.year), getFiscalYear(), getFiscalYear() + 1])]
+    .sort((a, b) => a - b);
+
+  const handleCreate = async () => {
+    try {
+      await addPlan(selectedYear);
+      showNotification(`Budget plan ${getFiscalYearLabel(selectedYear)} created.`, 'success');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to create the budget plan.', 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading budget plans...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Budget Plans</h2>
+          <p className="text-gray-600 mt-1">
+            Annual envelopes per brand, channel and region in {DEFAULT_CURRENCY}, compared with the budget of planned and committed campaigns
+          </p>
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          {years.map(year => (
+            <button
+              key={year}
+              onClick={() => setSelectedYear(year)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                selectedYear === year ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {getFiscalYearLabel(year)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {selectedPlan ? (
+        <BudgetPlanEditor key={selectedPlan.id} plan={selectedPlan} showNotification={showNotification} />
+      ) : (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-12 text-center text-gray-500">
+          <Wallet className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+          <p className="text-lg font-medium">No budget plan for {getFiscalYearLabel(selectedYear)}</p>
+          <p className="text-sm mb-4">Campaigns are saved without allocation checks until a plan exists</p>
+          <button
+            onClick={handleCreate}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors inline-flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Create {getFiscalYearLabel(selectedYear)} plan
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { Wallet, AlertTriangle } from 'lucide-react';
+import { Campaign } from '../types/campaign';
+import { EnvelopePeriod } from '../types/budgetPlan';
+import { useBudgetPlans } from '../hooks/useBudgetPlans';
+import { useEnsureCampaignPeriod } from '../hooks/useCampaigns';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { DEFAULT_CURRENCY } from '../types/currency';
+import { computeBudgetPlanUsage, getEnvelopeKey, getEnvelopePeriodLabel, isEnvelopeInRange, sumEnvelopeUsage } from '../utils/budgetPlan';
+import { formatBudget } from '../utils/budgetFormatter';
+import { convertCampaigns } from '../utils/currency';
+import { getFiscalYearLabel, getFiscalYearOfDate, getFiscalYearPeriod } from '../utils/fiscalYear';
+
+interface BudgetPlanPanelProps {
+  /** Every loaded campaign: envelopes are measured on the whole year, not on the screen's filters */
+  campaigns: Campaign[];
+  /** Range shown by the screen; the plan is the one of the start date's fiscal year */
+  startDate: string;
+  endDate: string;
+  periodLabel: string;
+  /** Restricts the envelopes to one channel */
+  channel?: string;
+}
+
+// Budget plans are kept in DEFAULT_CURRENCY whatever the reporting currency
+const formatSigned = (value: number) => (value < 0 ? `-${formatBudget(-value, DEFAULT_CURRENCY)}` : formatBudget(value, DEFAULT_CURRENCY));
+
+const formatPeriod = (period: EnvelopePeriod) => (period === 'year' ? 'Intero anno' : getEnvelopePeriodLabel(period));
+
+export const BudgetPlanPanel: React.FC<BudgetPlanPanelProps> = ({ campaigns, startDate, endDate, periodLabel, channel }) => {
+  const { getPlanForYear, loading } = useBudgetPlans();
+  const { rates } = useExchangeRates();
+  const year = getFiscalYearOfDate(startDate);
+  const plan = getPlanForYear(year);
+  const fiscalYear = getFiscalYearPeriod(year);
+  useEnsureCampaignPeriod(fiscalYear.startDate, fiscalYear.endDate);
+
+  const envelopes = useMemo(() => {
+    if (!plan) return [];
+    return computeBudgetPlanUsage(plan, convertCampaigns(campaigns, DEFAULT_CURRENCY, rates).campaigns).envelopes
+      .filter(entry => isEnvelopeInRange(plan.year, entry.envelope, startDate, endDate))
+      .filter(entry => !channel || entry.envelope.channel === channel)
+      // Over-allocated envelopes first, then the ones closest to running out
+      .sort((a, b) => a.remaining / (a.envelope.amount || 1) - b.remaining / (b.envelope.amount || 1));
+  }, [plan, campaigns, rates, startDate, endDate, channel]);
+
+  if (loading) return null;
+
+  if (!plan) {
+    return (
+      <div className="bg-gray-50 p-4 rounded-2xl border border-gray-100 flex items-center gap-3 text-sm text-gray-600">
+        <Wallet className="w-5 h-5 text-gray-400" />
+        Nessun piano budget per il {getFiscalYearLabel(year)}: crealo in Configurazione → Budget Plans per confrontare allocato e speso.
+      </div>
+    );
+  }
+
+  const totals = sumEnvelopeUsage(envelopes);
+  const overAllocated = envelopes.filter(entry => entry.remaining < 0).length;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-blue-600" />
+            Piano Budget {getFiscalYearLabel(plan.year)} - {periodLabel}
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {envelopes.length} envelope nel periodo{channel ? ` per ${channel}` : ''}
+          </p>
+        </div>
+        {overAllocated > 0 && (
+          <span className="flex items-center gap-1 text-sm font-medium text-red-700 bg-red-50 px-3 py-1 rounded-lg">
+            <AlertTriangle className="w-4 h-4" />
+            {overAllocated} sforate
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {[
+          { label: 'Allocato', value: totals.allocated, className: 'text-blue-900' },
+          { label: 'Pianificato', value: totals.planned, className: 'text-yellow-700' },
+          { label: 'Impegnato', value: totals.committed, className: 'text-green-700' },
+          { label: 'Residuo', value: totals.remaining, className: totals.remaining < 0 ? 'text-red-600' : 'text-gray-900' },
+        ].map(item => (
+          <div key={item.label}>
+            <p className="text-sm font-medium text-gray-500">{item.label}</p>
+            <p className={`text-xl font-bold ${item.className}`}>{formatSigned(item.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      {envelopes.length > 0 ? (
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {envelopes.map(({ envelope, planned, committed, remaining }) => {
+            const base = Math.max(envelope.amount, planned + committed) || 1;
+            return (
+              <div key={getEnvelopeKey(envelope)}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-900">
+                    {envelope.brand} · {envelope.channel} · {envelope.region}
+                    <span className="ml-2 text-gray-500 font-normal">{formatPeriod(envelope.period)}</span>
+                  </span>
+                  <span className={remaining < 0 ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                    {formatSigned(remaining)} di {formatBudget(envelope.amount, DEFAULT_CURRENCY)}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2 flex overflow-hidden">
+                  <div className="h-2 bg-green-500" style={{ width: `${(committed / base) * 100}%` }}></div>
+                  <div className="h-2 bg-yellow-400" style={{ width: `${(planned / base) * 100}%` }}></div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Nessun envelope del piano copre questo periodo.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, GitMerge, X } from 'lucide-react';
+import { Campaign } from '../types/campaign';
+import { MergeChoice, applyMergeChoices, buildMergeFields } from '../utils/campaignMerge';
+import { formatAuditValue, getAuditFieldLabel } from '../utils/campaignAudit';
+
+interface CampaignConflictDialogProps {
+  /** Version the editor started from */
+  base: Partial<Campaign>;
+  /** Values the editor tried to save */
+  mine: Omit<Campaign, 'id'>;
+  /** Version saved by someone else in the meantime */
+  theirs: Campaign;
+  onResolve: (merged: Omit<Campaign, 'id'>) => void;
+  onCancel: () => void;
+}
+
+export const CampaignConflictDialog: React.FC<CampaignConflictDialogProps> = ({
+  base,
+  mine,
+  theirs,
+  onResolve,
+  onCancel,
+}) => {
+  const mergeFields = useMemo(() => buildMergeFields(base, mine, theirs), [base, mine, theirs]);
+  const [choices, setChoices] = useState<{ [field: string]: MergeChoice }>(() =>
+    Object.fromEntries(mergeFields.map(field => [field.field, field.defaultChoice]))
+  );
+
+  const conflictCount = mergeFields.filter(field => field.conflict).length;
+
+  const renderOption = (field: string, choice: MergeChoice, value: unknown) => {
+    const isSelected = choices[field] === choice;
+    return (
+      <label
+        className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${
+          isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+        }`}
+      >
+        <input
+          type="radio"
+          name={`merge-${field}`}
+          checked={isSelected}
+          onChange={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+          className="text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-900 break-all">{formatAuditValue(value)}</span>
+      </label>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <GitMerge className="w-6 h-6 text-orange-600" />
+            Resolve Edit Conflict
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+          <div className="flex items-center gap-2 text-orange-800">
+            <AlertTriangle className="w-4 h-4" />
+            <span className="text-sm font-medium">This campaign was modified while you were editing it</span>
+          </div>
+          <p className="text-sm text-orange-700 mt-1">
+            Last saved {theirs.updatedAt ? new Date(theirs.updatedAt).toLocaleString() : ''}.
+            {' '}Choose which value to keep for each field{conflictCount > 0 ? ` (${conflictCount} changed on both sides)` : ''}.
+          </p>
+        </div>
+
+        {mergeFields.length === 0 ? (
+          <p className="text-sm text-gray-600 py-4">
+            The other changes don't touch the fields you edited. Saving will keep both.
+          </p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr>
+                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Your changes</th>
+                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Their changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {mergeFields.map(field => (
+                <tr key={field.field} className={field.conflict ? 'bg-orange-50/50' : ''}>
+                  <td className="py-2 pr-3 align-top">
+                    <div className="text-sm font-medium text-gray-900">{getAuditFieldLabel(field.field)}</div>
+                    <div className="text-xs text-gray-500">Was: {formatAuditValue(field.base)}</div>
+                    {field.conflict && (
+                      <span className="inline-block mt-1 text-xs font-medium text-orange-700">Conflict</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 align-top">{renderOption(field.field, 'mine', field.mine)}</td>
+                  <td className="py-2 align-top">{renderOption(field.field, 'theirs', field.theirs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            onClick={() => onResolve(applyMergeChoices(mine, mergeFields, choices))}
+            className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            <GitMerge className="w-4 h-4 inline mr-2" />
+            Save Merged Version
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Back to Editing
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
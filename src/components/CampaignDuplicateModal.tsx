@@ -5,6 +5,10 @@ import { useBrands } from '../hooks/useBrands';
 import { useManagers } from '../hooks/useManagers';
 import { useRegions } from '../hooks/useRegions';
 import { useBroadcasters } from '../hooks/useBroadcasters';
+import { calculateStatusFromDates, checkStatusTransition } from '../utils/campaignStatus';
+import { getCampaignCurrency } from '../utils/currency';
+import { NO_APPROVAL } from '../utils/approvals';
+import { formatAmount, getCurrencySymbol } from '../utils/budgetFormatter';
 
 interface CampaignDuplicateModalProps {
   campaign: Campaign;
@@ -44,34 +48,20 @@ export const CampaignDuplicateModal: React.FC<CampaignDuplicateModalProps> = ({
   const activeBroadcasters = getActiveBroadcasters();
   const showPublisherField = campaign.channel === 'TV' || campaign.channel === 'Radio';
 
-  // Auto-assign status based on date range
+  // Auto-assign status based on date range; the copy has no approval yet, so statuses that need one stay planned
   useEffect(() => {
     if (duplicateData.startDate && duplicateData.endDate) {
-      const now = new Date();
-      const start = new Date(duplicateData.startDate);
-      const end = new Date(duplicateData.endDate);
-      
-      // Set time to start of day for accurate comparison
-      now.setHours(0, 0, 0, 0);
-      start.setHours(0, 0, 0, 0);
-      end.setHours(23, 59, 59, 999);
-
-      let newStatus: Status = 'PLANNED';
-
-      if (now < start) {
-        newStatus = 'PLANNED';
-      } else if (now >= start && now <= end) {
-        newStatus = 'ACTIVE';
-      } else if (now > end) {
-        newStatus = 'COMPLETED';
-      }
+      const dateStatus = calculateStatusFromDates(duplicateData.startDate, duplicateData.endDate);
+      const newStatus = checkStatusTransition(null, dateStatus, { ...campaign, ...duplicateData, ...NO_APPROVAL }).allowed
+        ? dateStatus
+        : 'PLANNED';
 
       if (newStatus !== autoAssignedStatus) {
         setAutoAssignedStatus(newStatus);
         setStatusInfo(`Status will be automatically set to "${STATUS_CONFIG[newStatus].label}" based on selected dates.`);
       }
     }
-  }, [duplicateData.startDate, duplicateData.endDate, autoAssignedStatus]);
+  }, [campaign, duplicateData, autoAssignedStatus]);
 
   // Validation
   useEffect(() => {
@@ -168,6 +158,7 @@ export const CampaignDuplicateModal: React.FC<CampaignDuplicateModalProps> = ({
       notes: duplicateData.notes,
       // Set auto-assigned status
       status: autoAssignedStatus,
+      ...NO_APPROVAL,
       // Reset timestamps
       createdAt: undefined,
       updatedAt: undefined,
@@ -209,7 +200,7 @@ export const CampaignDuplicateModal: React.FC<CampaignDuplicateModalProps> = ({
           <div className="text-lg font-semibold text-gray-900">{generateCampaignName()}</div>
           <div className="text-sm text-gray-600 mt-1">
             {new Date(duplicateData.startDate).toLocaleDateString()} - {new Date(duplicateData.endDate).toLocaleDateString()} • 
-            €{duplicateData.budget.toLocaleString()} • {duplicateData.manager}
+            {formatAmount(duplicateData.budget, getCampaignCurrency(campaign))} • {duplicateData.manager}
           </div>
           {statusInfo && (
             <div className="mt-2 flex items-center gap-2 text-green-700">
@@ -323,7 +314,7 @@ export const CampaignDuplicateModal: React.FC<CampaignDuplicateModalProps> = ({
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Budget (€)
+                      Budget ({getCurrencySymbol(getCampaignCurrency(campaign)).trim()})
                     </label>
                     <input
                       type="number"
@@ -439,7 +430,8 @@ export const CampaignDuplicateModal: React.FC<CampaignDuplicateModalProps> = ({
             </div>
             <p className="text-sm text-blue-700">
               The new campaign will automatically be assigned the status "{STATUS_CONFIG[autoAssignedStatus].label}" 
-              based on the selected date range. You can change this later if needed.
+              based on the selected date range. Copies start without an approved budget: submit it for approval
+              before scheduling the campaign.
             </p>
           </div>
         </div>
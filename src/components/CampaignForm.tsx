@@ -1,21 +1,48 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { Plus, X, AlertTriangle, Info, TrendingDown, HelpCircle } from 'lucide-react';
+import { Plus, X, AlertTriangle, Info, TrendingDown, HelpCircle, History, ClipboardCheck } from 'lucide-react';
 import { Campaign, PeriodType, Status, BUDGET_ALERT_THRESHOLD, channelSupportsMetric, getMetricDisplayInfo, STATUS_CONFIG, migrateStatus } from '../types/campaign';
 import { useBrands } from '../hooks/useBrands';
 import { useManagers } from '../hooks/useManagers';
 import { useChannels } from '../hooks/useChannels';
 import { useBroadcasters } from '../hooks/useBroadcasters';
 import { useRegions } from '../hooks/useRegions';
+import { useBudgetPlans } from '../hooks/useBudgetPlans';
+import { useCampaigns, useEnsureCampaignPeriod } from '../hooks/useCampaigns';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { useFeeRules } from '../hooks/useCostBasis';
+import { useApprovals } from '../hooks/useApprovals';
+import { APPROVAL_STATUS_CONFIG } from '../types/approval';
+import { CURRENCIES, CURRENCY_CONFIG, DEFAULT_CURRENCY } from '../types/currency';
+import { CostBreakdown } from '../types/costBreakdown';
+import { CampaignAuditEntry } from '../types/audit';
+import { CampaignHistoryPanel } from './CampaignHistoryPanel';
+import { CampaignConflictDialog } from './CampaignConflictDialog';
+import { UpdateOptions, isConcurrencyConflict } from '../repositories';
+import { checkCampaignAllocation, getEnvelopePeriodLabel } from '../utils/budgetPlan';
+import { formatAmount, formatBudget, getCurrencySymbol } from '../utils/budgetFormatter';
+import { calculateCostLines } from '../utils/costBreakdown';
+import { convertCampaigns } from '../utils/currency';
+import { getFiscalYear, getFiscalYearLabel, getFiscalYearOfDate, getFiscalYearPeriod } from '../utils/fiscalYear';
+import { PACING_CURVE_OPTIONS } from '../utils/pacing';
+import { calculateStatusFromDates, getStatusOptions, isStatusTransitionError } from '../utils/campaignStatus';
 
 interface CampaignFormProps {
-  onSubmit: (campaign: Omit<Campaign, 'id'>) => void;
+  /** For edits, options.expectedUpdatedAt carries the version the form was opened on */
+  onSubmit: (campaign: Omit<Campaign, 'id'>, options?: UpdateOptions) => void | Promise<void>;
   onCancel: () => void;
   initialData?: Partial<Campaign>;
   channel?: string;
 }
 
 const periodTypes: PeriodType[] = ['monthly', 'weekly', 'quarterly'];
-const allStatuses: Status[] = ['PLANNED', 'SCHEDULED', 'ACTIVE', 'COMPLETED', 'CANCELLED'];
+
+const COST_BREAKDOWN_FIELDS: { field: keyof CostBreakdown; label: string; amount?: boolean }[] = [
+  { field: 'grossMedia', label: 'Gross media', amount: true },
+  { field: 'discountPct', label: 'Discount %' },
+  { field: 'commissionPct', label: 'Commission %' },
+  { field: 'production', label: 'Production', amount: true },
+  { field: 'vatPct', label: 'VAT %' },
+];
 
 export const CampaignForm: React.FC<CampaignFormProps> = ({ 
   onSubmit, 
@@ -45,6 +72,9 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
     startDate: initialData.startDate || '',
     endDate: initialData.endDate || '',
     budget: initialData.budget || 0,
+    currency: initialData.currency || DEFAULT_CURRENCY,
+    pacingCurve: initialData.pacingCurve || 'linear',
+    costBreakdown: initialData.costBreakdown || null,
     roi: initialData.roi || '',
     costPerLead: initialData.costPerLead || 0,
     leads: initialData.leads || 0,
@@ -68,6 +98,21 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
   const [showStatusTooltip, setShowStatusTooltip] = useState(false);
   const [statusWarning, setStatusWarning] = useState<string | null>(null);
   const [statusInfo, setStatusInfo] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [restoredVersionInfo, setRestoredVersionInfo] = useState<string | null>(null);
+  // Version the edit is based on; moves forward when a conflict is merged
+  const [baseVersion, setBaseVersion] = useState<Partial<Campaign>>(initialData);
+  const [conflict, setConflict] = useState<{ mine: Omit<Campaign, 'id'>; theirs: Campaign } | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Approval fields aren't edited here: they change only through the approval workflow
+  const [approval, setApproval] = useState({
+    approvalStatus: initialData.approvalStatus ?? null,
+    approvedBudget: initialData.approvedBudget ?? null,
+    approvalRequestId: initialData.approvalRequestId ?? null,
+  });
+  const [approvalError, setApprovalError] = useState<string | null>(null);
+  const [isSubmittingApproval, setIsSubmittingApproval] = useState(false);
 
   // Memoize available brands for the selected channel to prevent unnecessary recalculations
   const availableBrands = useMemo(() => {
@@ -88,13 +133,11 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
   const isDateRangeValid = formData.startDate && formData.endDate && 
     new Date(formData.startDate) <= new Date(formData.endDate);
 
-  // Filter available statuses based on date validity
-  const availableStatuses = allStatuses.filter(status => {
-    if (status === 'SCHEDULED') {
-      return isDateRangeValid;
-    }
-    return true;
-  });
+  // Saved campaigns can only move along the status engine's transitions; new ones can start in any status whose guards pass
+  const savedStatus = initialData.id && initialData.status ? migrateStatus(initialData.status) : null;
+  const statusSubject = useMemo(() => ({ ...formData, ...approval }), [formData, approval]);
+  const statusOptions = useMemo(() => getStatusOptions(savedStatus, statusSubject), [savedStatus, statusSubject]);
+  const scheduledOption = statusOptions.find(option => option.status === 'SCHEDULED')!;
 
   // Check if all dependencies are loaded
   const isLoading = brandsLoading || managersLoading || channelsLoading || broadcastersLoading || regionsLoading;
@@ -117,6 +160,9 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
         startDate: initialData.startDate || '',
         endDate: initialData.endDate || '',
         budget: initialData.budget || 0,
+        currency: initialData.currency || DEFAULT_CURRENCY,
+        pacingCurve: initialData.pacingCurve || 'linear',
+        costBreakdown: initialData.costBreakdown || null,
         roi: initialData.roi || '',
         costPerLead: initialData.costPerLead || 0,
         leads: initialData.leads || 0,
@@ -188,11 +234,13 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
     }
   }, [formData.channel, formData.publisher, formData.extraSocialBudget, formData.extraSocialNotes, showSocialFields]);
 
-  // Auto-fallback logic for invalid "Scheduled" status
+  // Auto-fallback logic for "Scheduled" campaigns that no longer meet its requirements. Checked from the saved
+  // status, so opening a campaign that is already scheduled never demotes it
+  const scheduledBlockers = scheduledOption.reasons.join('; ');
   useEffect(() => {
-    if (formData.status === 'SCHEDULED' && !isDateRangeValid) {
+    if (formData.status === 'SCHEDULED' && scheduledBlockers) {
       setFormData(prev => ({ ...prev, status: 'PLANNED' }));
-      setStatusWarning('Status changed to "Planned" because valid dates are required for "Scheduled" status.');
+      setStatusWarning(`Status changed to "Planned" because "Scheduled" requires: ${scheduledBlockers}.`);
       
       // Clear warning after 5 seconds
       const timer = setTimeout(() => setStatusWarning(null), 5000);
@@ -200,33 +248,19 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
     } else {
       setStatusWarning(null);
     }
-  }, [formData.status, isDateRangeValid]);
+  }, [formData.status, scheduledBlockers]);
 
   // Automatic status assignment based on date range
+  const dateStatus = isDateRangeValid ? calculateStatusFromDates(formData.startDate, formData.endDate) : null;
+  const dateStatusAllowed = statusOptions.some(option => option.status === dateStatus && option.allowed);
   useEffect(() => {
-    if (formData.startDate && formData.endDate && isDateRangeValid) {
-      const now = new Date();
-      const start = new Date(formData.startDate);
-      const end = new Date(formData.endDate);
-      
-      // Set time to start of day for accurate comparison
-      now.setHours(0, 0, 0, 0);
-      start.setHours(0, 0, 0, 0);
-      end.setHours(23, 59, 59, 999);
-
-      let newStatus: Status = formData.status;
-
-      if (now < start) {
-        newStatus = 'PLANNED';
-      } else if (now >= start && now <= end) {
-        newStatus = 'ACTIVE';
-      } else if (now > end) {
-        newStatus = 'COMPLETED';
-      }
+    if (dateStatus) {
+      const newStatus = dateStatus;
 
-      // Only update if the status actually changed and it's not a manual override
+      // Only update if the status actually changed, it's not a manual override and the transition is allowed
       if (newStatus !== formData.status && 
-          !['SCHEDULED', 'CANCELLED'].includes(formData.status)) {
+          !['SCHEDULED', 'CANCELLED'].includes(formData.status) &&
+          dateStatusAllowed) {
         setFormData(prev => ({ ...prev, status: newStatus }));
         setStatusInfo(`Status updated automatically to "${STATUS_CONFIG[newStatus].label}" based on selected dates.`);
         
@@ -237,7 +271,7 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
     } else {
       setStatusInfo(null);
     }
-  }, [formData.startDate, formData.endDate, isDateRangeValid, formData.status]);
+  }, [dateStatus, dateStatusAllowed, formData.status]);
 
   // Calculate budget alert
   const getBudgetAlert = useCallback(() => {
@@ -258,6 +292,25 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
   const budgetAlert = getBudgetAlert();
   const grpAlert = getGRPAlert();
 
+  // Budget plan envelope the campaign draws from; its usage counts every campaign of the plan's fiscal year
+  const { getPlanForYear } = useBudgetPlans();
+  const { campaigns: loadedCampaigns } = useCampaigns();
+  const { rates } = useExchangeRates();
+  const planYear = formData.startDate ? getFiscalYearOfDate(formData.startDate) : getFiscalYear();
+  const planPeriod = getFiscalYearPeriod(planYear);
+  useEnsureCampaignPeriod(planPeriod.startDate, planPeriod.endDate);
+  const budgetPlan = getPlanForYear(planYear);
+  const allocationAlert = useMemo(() => {
+    if (!budgetPlan || !formData.startDate) return null;
+    // Envelopes are in DEFAULT_CURRENCY: every budget is converted before comparing
+    const [campaign, ...others] = convertCampaigns(
+      [{ ...formData, budget: formData.budget || 0 } as Campaign, ...loadedCampaigns],
+      DEFAULT_CURRENCY,
+      rates
+    ).campaigns;
+    return checkCampaignAllocation(budgetPlan, others, campaign, initialData.id);
+  }, [budgetPlan, loadedCampaigns, rates, formData, initialData.id]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -276,7 +329,72 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
       }
     });
     
-    onSubmit(cleanedData as Omit<Campaign, 'id'>);
+    if (allocationAlert && !window.confirm(
+      `This campaign takes the ${getFiscalYearLabel(planYear)} budget plan envelope for ${allocationAlert.envelope.brand} · ${allocationAlert.envelope.channel} · ` +
+      `${allocationAlert.envelope.region} over by ${formatBudget(-allocationAlert.usage.remaining, DEFAULT_CURRENCY)}. Save anyway?`
+    )) {
+      return;
+    }
+
+    submitCampaign(cleanedData as Omit<Campaign, 'id'>, baseVersion.updatedAt);
+  };
+
+  const submitCampaign = async (data: Omit<Campaign, 'id'>, expectedUpdatedAt?: string) => {
+    setSubmitError(null);
+    setIsSaving(true);
+    try {
+      await onSubmit(data, initialData.id ? { expectedUpdatedAt } : undefined);
+    } catch (err) {
+      if (isConcurrencyConflict<Campaign>(err)) {
+        if (err.current) {
+          setConflict({ mine: data, theirs: err.current });
+        } else {
+          setSubmitError('This campaign has been deleted by someone else and can no longer be saved.');
+        }
+        return;
+      }
+      console.error('Error saving campaign:', err);
+      setSubmitError(isStatusTransitionError(err) ? err.message : 'Failed to save the campaign. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Budget approval of saved, planned campaigns; the request is for the budget as saved
+  const { requests: approvalRequests, submit: submitApproval } = useApprovals();
+  const approvalRequest = approval.approvalRequestId
+    ? approvalRequests.find(request => request.id === approval.approvalRequestId)
+    : undefined;
+  const showApproval = !!initialData.id && savedStatus === 'PLANNED';
+  const budgetChanged = (formData.budget || 0) !== (initialData.budget || 0);
+  const canSubmitApproval = showApproval && approval.approvalStatus !== 'pending' && !budgetChanged &&
+    (approval.approvalStatus !== 'approved' || (initialData.budget || 0) > (approval.approvedBudget ?? 0));
+
+  const handleSubmitApproval = async () => {
+    setApprovalError(null);
+    setIsSubmittingApproval(true);
+    try {
+      const updated = await submitApproval({ ...baseVersion, ...approval } as Campaign);
+      setApproval({
+        approvalStatus: updated.approvalStatus ?? null,
+        approvedBudget: updated.approvedBudget ?? null,
+        approvalRequestId: updated.approvalRequestId ?? null,
+      });
+      // Later saves are checked against the version written by the submission
+      setBaseVersion(updated);
+    } catch (err) {
+      setApprovalError((err as Error).message || 'Failed to submit the budget for approval.');
+    } finally {
+      setIsSubmittingApproval(false);
+    }
+  };
+
+  const handleResolveConflict = (merged: Omit<Campaign, 'id'>) => {
+    if (!conflict) return;
+    const { theirs } = conflict;
+    setBaseVersion(theirs);
+    setConflict(null);
+    submitCampaign(merged, theirs.updatedAt);
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -293,6 +411,58 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
     }));
   };
 
+  // Loads a previous version into the form; it is saved (and audited) on submit
+  const handleRestoreVersion = (entry: CampaignAuditEntry) => {
+    const { snapshot } = entry;
+    setFormData({
+      channel: channel || snapshot.channel || '',
+      brand: snapshot.brand || '',
+      region: snapshot.region || '',
+      periodType: snapshot.periodType || 'monthly',
+      startDate: snapshot.startDate || '',
+      endDate: snapshot.endDate || '',
+      budget: snapshot.budget || 0,
+      currency: snapshot.currency || DEFAULT_CURRENCY,
+      pacingCurve: snapshot.pacingCurve || 'linear',
+      costBreakdown: snapshot.costBreakdown || null,
+      roi: snapshot.roi || '',
+      costPerLead: snapshot.costPerLead || 0,
+      leads: snapshot.leads || 0,
+      manager: snapshot.manager || '',
+      status: migrateStatus(snapshot.status),
+      notes: snapshot.notes || '',
+      publisher: snapshot.publisher || '',
+      extraSocialBudget: snapshot.extraSocialBudget || 0,
+      extraSocialNotes: snapshot.extraSocialNotes || '',
+      expectedGrps: snapshot.expectedGrps || null,
+      achievedGrps: snapshot.achievedGrps || null,
+      spotsPurchased: snapshot.spotsPurchased || null,
+      impressions: snapshot.impressions || null,
+      expectedViewers: snapshot.expectedViewers || null,
+      expectedViews: snapshot.expectedViews || null,
+    });
+    setShowHistory(false);
+    setRestoredVersionInfo(`Loaded the version of ${new Date(entry.timestamp).toLocaleString()}. Review it and click "Update Campaign" to restore it.`);
+  };
+
+  // While a cost breakdown is set, the budget is its net total
+  const { resolveFeeRule } = useFeeRules();
+  const feeRule = resolveFeeRule(formData);
+  const costLines = formData.costBreakdown ? calculateCostLines(formData.costBreakdown) : null;
+
+  const updateCostBreakdown = (costBreakdown: CostBreakdown | null) => {
+    setFormData(prev => ({
+      ...prev,
+      costBreakdown,
+      budget: costBreakdown ? calculateCostLines(costBreakdown).netTotal : prev.budget,
+    }));
+  };
+
+  const handleCostBreakdownChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!formData.costBreakdown) return;
+    updateCostBreakdown({ ...formData.costBreakdown, [e.target.name]: parseFloat(e.target.value) || 0 });
+  };
+
   const handlePublisherChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setFormData(prev => ({ ...prev, publisher: value }));
@@ -428,14 +598,48 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
           <h2 className="text-2xl font-bold text-gray-900">
             {initialData.id ? 'Edit Campaign' : 'Add New Campaign'}
           </h2>
-          <button
-            onClick={onCancel}
-            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            {initialData.id && (
+              <button
+                type="button"
+                onClick={() => setShowHistory(!showHistory)}
+                className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                  showHistory
+                    ? 'bg-purple-50 border-purple-200 text-purple-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <History className="w-4 h-4" />
+                History
+              </button>
+            )}
+            <button
+              onClick={onCancel}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
+        {/* Change History */}
+        {showHistory && initialData.id && (
+          <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <CampaignHistoryPanel campaignId={initialData.id} onRestore={handleRestoreVersion} />
+          </div>
+        )}
+
+        {/* Restored Version Info */}
+        {restoredVersionInfo && (
+          <div className="mb-4 p-3 bg-purple-50 border border-purple-200 rounded-lg">
+            <div className="flex items-center gap-2 text-purple-800">
+              <History className="w-4 h-4" />
+              <span className="text-sm font-medium">Previous Version Loaded</span>
+            </div>
+            <p className="text-sm text-purple-700 mt-1">{restoredVersionInfo}</p>
+          </div>
+        )}
+
         {/* Status Warning */}
         {statusWarning && (
           <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -458,6 +662,17 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
           </div>
         )}
 
+        {/* Save Error */}
+        {submitError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-center gap-2 text-red-800">
+              <AlertTriangle className="w-4 h-4" />
+              <span className="text-sm font-medium">Not Saved</span>
+            </div>
+            <p className="text-sm text-red-700 mt-1">{submitError}</p>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
@@ -664,24 +879,132 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Budget (€)</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Budget ({getCurrencySymbol(formData.currency).trim()})</label>
               <input
                 type="number"
                 name="budget"
                 value={formData.budget}
                 onChange={handleChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                readOnly={costLines !== null}
+                className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${costLines ? 'bg-gray-50 text-gray-600' : ''}`}
                 required
                 min="0"
                 step="0.01"
               />
+              {costLines && (
+                <p className="text-xs text-gray-500 mt-1">Net total of the cost breakdown below</p>
+              )}
+              {allocationAlert && (
+                <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center gap-2 text-red-800">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span className="text-sm font-medium">Over the {getFiscalYearLabel(planYear)} budget plan</span>
+                  </div>
+                  <p className="text-xs text-red-700 mt-1">
+                    {allocationAlert.envelope.brand} · {allocationAlert.envelope.channel} · {allocationAlert.envelope.region}
+                    {' '}({getEnvelopePeriodLabel(allocationAlert.envelope.period)}): {formatBudget(allocationAlert.envelope.amount, DEFAULT_CURRENCY)} allocated,
+                    {' '}{formatBudget(allocationAlert.usage.planned + allocationAlert.usage.committed, DEFAULT_CURRENCY)} with this campaign
+                    {' '}({formatBudget(-allocationAlert.usage.remaining, DEFAULT_CURRENCY)} over)
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Currency
+                <span className="text-xs text-gray-500 ml-1">(Of budget, spend and CPL)</span>
+              </label>
+              <select
+                name="currency"
+                value={formData.currency}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code} - {CURRENCY_CONFIG[code].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Pacing Curve
+                <span className="text-xs text-gray-500 ml-1">(Expected spend over the flight)</span>
+              </label>
+              <select
+                name="pacingCurve"
+                value={formData.pacingCurve}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {PACING_CURVE_OPTIONS.map(option => (
+                  <option key={option.curve} value={option.curve} title={option.description}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Cost Breakdown - gross media, fees and VAT behind the budget */}
+            <div className="md:col-span-2 p-4 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={formData.costBreakdown !== null}
+                    onChange={e => updateCostBreakdown(e.target.checked
+                      ? { ...feeRule.rule, grossMedia: formData.budget || 0, production: 0 }
+                      : null)}
+                    className="mr-2 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Cost breakdown</span>
+                  <span className="text-xs text-gray-500 ml-1">(Gross media, discount, agency commission, production and VAT)</span>
+                </label>
+                {formData.costBreakdown && (
+                  <button
+                    type="button"
+                    onClick={() => updateCostBreakdown({ ...formData.costBreakdown!, ...feeRule.rule })}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                    title="Discount, commission and VAT configured on the channel or broadcaster"
+                  >
+                    Apply {feeRule.source} fee rule
+                  </button>
+                )}
+              </div>
+              {formData.costBreakdown && costLines && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-3">
+                    {COST_BREAKDOWN_FIELDS.map(({ field, label, amount }) => (
+                      <div key={field}>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          {amount ? `${label} (${getCurrencySymbol(formData.currency).trim()})` : label}
+                        </label>
+                        <input
+                          type="number"
+                          name={field}
+                          value={formData.costBreakdown![field]}
+                          onChange={handleCostBreakdownChange}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                          min="0"
+                          step="0.01"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3 text-xs text-gray-600">
+                    <div>Net media: <span className="font-medium text-gray-900">{formatAmount(costLines.netMedia, formData.currency)}</span></div>
+                    <div>Commission: <span className="font-medium text-gray-900">{formatAmount(costLines.commission, formData.currency)}</span></div>
+                    <div>Net total: <span className="font-medium text-gray-900">{formatAmount(costLines.netTotal, formData.currency)}</span></div>
+                    <div>Gross incl. VAT: <span className="font-medium text-gray-900">{formatAmount(costLines.grossTotal, formData.currency)}</span></div>
+                  </div>
+                </>
+              )}
             </div>
 
             {/* Extra Social Budget - Only for Meta, TikTok, Pinterest */}
             {showSocialFields && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Extra Post Budget (€)
+                  Extra Post Budget ({getCurrencySymbol(formData.currency).trim()})
                   <span className="text-xs text-gray-500 ml-1">(Optional)</span>
                 </label>
                 <input
@@ -754,7 +1077,7 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Cost Per Lead (€)</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cost Per Lead ({getCurrencySymbol(formData.currency).trim()})</label>
               <input
                 type="number"
                 name="costPerLead"
@@ -845,26 +1168,78 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 required
               >
-                {availableStatuses.map(status => {
+                {statusOptions.map(({ status, allowed, reasons }) => {
                   const config = STATUS_CONFIG[status];
                   return (
-                    <option key={status} value={status} title={config.description}>
-                      {config.icon} {config.label}
+                    <option
+                      key={status}
+                      value={status}
+                      disabled={!allowed}
+                      title={allowed ? config.description : reasons.join('\n')}
+                    >
+                      {config.icon} {config.label}{!allowed && ` (${reasons[0]})`}
                     </option>
                   );
                 })}
               </select>
 
-              {/* Date Range Requirement Notice for Scheduled */}
-              {!isDateRangeValid && (
+              {/* Requirement Notice for Scheduled */}
+              {!scheduledOption.allowed && formData.status !== 'SCHEDULED' && (
                 <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                   <div className="flex items-center gap-2 text-blue-800">
                     <Info className="w-4 h-4" />
                     <span className="text-sm font-medium">📅 Scheduled Status</span>
                   </div>
                   <p className="text-xs text-blue-700 mt-1">
-                    "Scheduled" status requires valid start and end dates. Complete the date fields to enable this option.
+                    "Scheduled" status is not available yet:
                   </p>
+                  <ul className="text-xs text-blue-700 mt-1 list-disc list-inside">
+                    {scheduledOption.reasons.map(reason => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Budget Approval */}
+              {showApproval && (
+                <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 text-gray-800">
+                      <ClipboardCheck className="w-4 h-4" />
+                      <span className="text-sm font-medium">Budget Approval</span>
+                    </div>
+                    {approval.approvalStatus && (
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${APPROVAL_STATUS_CONFIG[approval.approvalStatus].className}`}>
+                        {APPROVAL_STATUS_CONFIG[approval.approvalStatus].label}
+                      </span>
+                    )}
+                  </div>
+                  {approval.approvalStatus === 'approved' && approval.approvedBudget !== null && (
+                    <p className="text-xs text-gray-600">
+                      Approved up to {formatBudget(approval.approvedBudget, formData.currency)}
+                    </p>
+                  )}
+                  {approval.approvalStatus === 'rejected' && approvalRequest?.comment && (
+                    <p className="text-xs text-red-700">Rejection comment: {approvalRequest.comment}</p>
+                  )}
+                  {!approval.approvalStatus && (
+                    <p className="text-xs text-gray-600">The budget has to be approved before the campaign can be scheduled.</p>
+                  )}
+                  {approval.approvalStatus !== 'pending' && budgetChanged && (
+                    <p className="text-xs text-gray-600">Save the new budget before submitting it for approval.</p>
+                  )}
+                  {approvalError && <p className="text-xs text-red-700">{approvalError}</p>}
+                  {canSubmitApproval && (
+                    <button
+                      type="button"
+                      onClick={handleSubmitApproval}
+                      disabled={isSubmittingApproval}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300"
+                    >
+                      {isSubmittingApproval ? 'Submitting...' : approval.approvalStatus ? 'Submit again' : 'Submit for approval'}
+                    </button>
+                  )}
                 </div>
               )}
 
@@ -893,20 +1268,19 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
               {showStatusTooltip && (
                 <div className="absolute z-10 top-full left-0 mt-2 w-80 bg-gray-900 text-white text-xs rounded-lg p-3 shadow-lg">
                   <div className="space-y-2">
-                    {allStatuses.map(status => {
+                    {statusOptions.map(({ status, allowed, reasons }) => {
                       const config = STATUS_CONFIG[status];
-                      const isAvailable = availableStatuses.includes(status);
                       return (
-                        <div key={status} className={`flex items-start gap-2 ${!isAvailable ? 'opacity-50' : ''}`}>
+                        <div key={status} className={`flex items-start gap-2 ${!allowed ? 'opacity-50' : ''}`}>
                           <span className="text-sm">{config.icon}</span>
                           <div>
                             <div className="font-medium flex items-center gap-2">
                               {config.label}
-                              {!isAvailable && status === 'SCHEDULED' && (
-                                <span className="text-yellow-300 text-xs">(Requires dates)</span>
-                              )}
                             </div>
                             <div className="text-gray-300">{config.description}</div>
+                            {!allowed && (
+                              <div className="text-yellow-300">{reasons.join('; ')}</div>
+                            )}
                           </div>
                         </div>
                       );
@@ -952,7 +1326,7 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
             <button
               type="submit"
               className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
-              disabled={availableBrands.length === 0 || activeManagers.length === 0 || activeChannels.length === 0 || activeRegions.length === 0 || (showPublisherField && activeBroadcasters.length === 0)}
+              disabled={isSaving || availableBrands.length === 0 || activeManagers.length === 0 || activeChannels.length === 0 || activeRegions.length === 0 || (showPublisherField && activeBroadcasters.length === 0)}
             >
               <Plus className="w-4 h-4 inline mr-2" />
               {initialData.id ? 'Update Campaign' : 'Add Campaign'}
@@ -967,6 +1341,16 @@ export const CampaignForm: React.FC<CampaignFormProps> = ({
           </div>
         </form>
       </div>
+
+      {conflict && (
+        <CampaignConflictDialog
+          base={baseVersion}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          onResolve={handleResolveConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,37 @@
+import React from 'react';
+import { X, History } from 'lucide-react';
+import { Campaign } from '../types/campaign';
+import { CampaignHistoryPanel } from './CampaignHistoryPanel';
+
+interface CampaignHistoryModalProps {
+  campaign: Campaign;
+  onClose: () => void;
+}
+
+export const CampaignHistoryModal: React.FC<CampaignHistoryModalProps> = ({ campaign, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <History className="w-6 h-6" />
+              Campaign History
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {campaign.brand} - {campaign.channel} • {campaign.region}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <CampaignHistoryPanel campaignId={campaign.id!} />
+      </div>
+    </div>
+  );
+};
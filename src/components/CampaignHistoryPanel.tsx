@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { History, RotateCcw, ChevronDown, ChevronRight, User } from 'lucide-react';
+import { useCampaignHistory } from '../hooks/useCampaignHistory';
+import { AUDIT_ACTION_CONFIG, CampaignAuditEntry } from '../types/audit';
+import { formatAuditValue, getAuditFieldLabel, getAuditUserLabel } from '../utils/campaignAudit';
+
+interface CampaignHistoryPanelProps {
+  campaignId: string;
+  /** Overrides the default restore (direct write), e.g. to load the version into a form */
+  onRestore?: (entry: CampaignAuditEntry) => void;
+}
+
+export const CampaignHistoryPanel: React.FC<CampaignHistoryPanelProps> = ({ campaignId, onRestore }) => {
+  const { entries, loading, error, restoreVersion } = useCampaignHistory(campaignId);
+  const [expandedEntries, setExpandedEntries] = useState<Set<string>>(new Set());
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const toggleEntry = (id: string) => {
+    const newExpanded = new Set(expandedEntries);
+    if (newExpanded.has(id)) {
+      newExpanded.delete(id);
+    } else {
+      newExpanded.add(id);
+    }
+    setExpandedEntries(newExpanded);
+  };
+
+  const handleRestore = async (entry: CampaignAuditEntry) => {
+    if (onRestore) {
+      onRestore(entry);
+      return;
+    }
+    const when = new Date(entry.timestamp).toLocaleString();
+    if (!window.confirm(`Restore the campaign to the version of ${when}?`)) return;
+    try {
+      setRestoringId(entry.id!);
+      await restoreVersion(entry);
+    } catch {
+      // Error is exposed by the hook
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-sm text-gray-600">Loading history...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          <History className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+          <p className="text-sm">No changes recorded for this campaign yet.</p>
+        </div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {entries.map((entry, index) => {
+            const config = AUDIT_ACTION_CONFIG[entry.action];
+            const isExpanded = expandedEntries.has(entry.id!);
+            // The newest entry is the current state; deletions have nothing to restore into
+            const canRestore = index > 0 && entry.action !== 'delete';
+
+            return (
+              <li key={entry.id} className="relative pl-4">
+                <span
+                  className="absolute -left-1.5 top-1.5 w-3 h-3 rounded-full border-2 border-white"
+                  style={{ backgroundColor: config.color }}
+                />
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => toggleEntry(entry.id!)}
+                    className="flex items-start gap-2 text-left"
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="w-4 h-4 mt-0.5 text-gray-400" />
+                    ) : (
+                      <ChevronRight className="w-4 h-4 mt-0.5 text-gray-400" />
+                    )}
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {config.icon} {config.label}
+                        {entry.changes.length > 0 && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            {entry.changes.length} {entry.changes.length === 1 ? 'field' : 'fields'}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 text-xs text-gray-500">
+                        <User className="w-3 h-3" />
+                        {getAuditUserLabel(entry.user)} • {new Date(entry.timestamp).toLocaleString()}
+                      </div>
+                    </div>
+                  </button>
+                  {canRestore && (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(entry)}
+                      disabled={restoringId !== null}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-purple-700 border border-purple-200 rounded-lg hover:bg-purple-50 disabled:opacity-50"
+                      title="Restore this version"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {restoringId === entry.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+
+                {isExpanded && entry.changes.length > 0 && (
+                  <table className="mt-2 w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th className="text-left font-medium py-1">Field</th>
+                        <th className="text-left font-medium py-1">Before</th>
+                        <th className="text-left font-medium py-1">After</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {entry.changes.map(change => (
+                        <tr key={change.field}>
+                          <td className="py-1 pr-2 text-gray-700">{getAuditFieldLabel(change.field)}</td>
+                          <td className="py-1 pr-2 text-red-600 line-through">{formatAuditValue(change.before)}</td>
+                          <td className="py-1 text-green-700">{formatAuditValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
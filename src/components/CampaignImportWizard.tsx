@@ -0,0 +1,476 @@
+import React, { useMemo, useState } from 'react';
+import { X, Upload, FileSpreadsheet, ArrowRight, ArrowLeft, AlertTriangle, CheckCircle, Undo2, Info } from 'lucide-react';
+import { useCampaignImport } from '../hooks/useCampaignImport';
+import { CampaignImport } from '../types/campaignImport';
+import { STATUS_CONFIG } from '../types/campaign';
+import { IMPORT_FIELDS, ImportField, UnmatchedValue, getImportCandidates } from '../utils/campaignImport';
+import { SPREADSHEET_ACCEPT } from '../utils/spreadsheet';
+import { formatBudget } from '../utils/budgetFormatter';
+
+interface CampaignImportWizardProps {
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+// Large sheets are validated in full, but only this many rows are listed
+const MAX_PREVIEW_ROWS = 200;
+
+const getFieldLabel = (field: ImportField): string => IMPORT_FIELDS.find(config => config.field === field)!.label;
+
+export const CampaignImportWizard: React.FC<CampaignImportWizardProps> = ({ onClose }) => {
+  const {
+    imports,
+    references,
+    fileName,
+    data,
+    mapping,
+    setMapping,
+    corrections,
+    setCorrection,
+    validation,
+    busy,
+    progress,
+    loadFile,
+    runImport,
+    undo,
+    reset,
+  } = useCampaignImport();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [error, setError] = useState<string | null>(null);
+  const [showOnlyProblems, setShowOnlyProblems] = useState(false);
+  const [completedImport, setCompletedImport] = useState<CampaignImport | null>(null);
+  const [undoneCount, setUndoneCount] = useState<number | null>(null);
+
+  const missingRequired = IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined);
+  const validRows = validation?.rows.filter(row => row.campaign) || [];
+  const invalidRows = validation?.rows.filter(row => !row.campaign) || [];
+  const previewRows = useMemo(() => {
+    const rows = validation?.rows || [];
+    return (showOnlyProblems ? rows.filter(row => row.errors.length > 0 || row.warnings.length > 0) : rows)
+      .slice(0, MAX_PREVIEW_ROWS);
+  }, [validation, showOnlyProblems]);
+  const undoableImports = imports.filter(record => !record.undoneAt && record.campaignCount > 0).slice(0, 5);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      await loadFile(file);
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading spreadsheet:', err);
+      setError((err as Error).message || 'Could not read the file.');
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value, 10);
+    }
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    if (!window.confirm(`Create ${validRows.length} campaigns? Rows with errors are skipped.`)) return;
+    setError(null);
+    try {
+      const record = await runImport();
+      setCompletedImport(record);
+      setStep('done');
+    } catch (err) {
+      console.error('Error importing campaigns:', err);
+      setError((err as Error).message || 'Import failed.');
+    }
+  };
+
+  const handleUndo = async (record: CampaignImport) => {
+    if (!window.confirm(`Move the ${record.campaignCount} campaigns imported from "${record.fileName}" to the trash?`)) return;
+    setError(null);
+    try {
+      const count = await undo(record);
+      setUndoneCount(count);
+      if (record.id === completedImport?.id) {
+        setCompletedImport(null);
+      }
+    } catch (err) {
+      console.error('Error undoing import:', err);
+      setError((err as Error).message || 'Undo failed.');
+    }
+  };
+
+  const handleStartOver = () => {
+    reset();
+    setCompletedImport(null);
+    setUndoneCount(null);
+    setError(null);
+    setStep('upload');
+  };
+
+  const renderUnmatchedValue = (item: UnmatchedValue) => {
+    const candidates = getImportCandidates(item.field, references);
+    const others = candidates.filter(candidate => !item.suggestions.includes(candidate));
+    return (
+      <tr key={`${item.field}:${item.value}`}>
+        <td className="py-2 pr-3 text-sm text-gray-600">{getFieldLabel(item.field)}</td>
+        <td className="py-2 pr-3 text-sm font-medium text-gray-900">
+          "{item.value}"
+          <span className="text-xs text-gray-500 ml-1">({item.rowCount} {item.rowCount === 1 ? 'row' : 'rows'})</span>
+        </td>
+        <td className="py-2">
+          <select
+            value={corrections[item.field]?.[item.value] ?? ''}
+            onChange={(e) => setCorrection(item.field, item.value, e.target.value)}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">{item.blocking ? 'Choose a replacement...' : 'Keep as typed'}</option>
+            {item.suggestions.length > 0 && (
+              <optgroup label="Suggestions">
+                {item.suggestions.map(suggestion => (
+                  <option key={suggestion} value={suggestion}>{suggestion}</option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label={`All active ${getFieldLabel(item.field).toLowerCase()}s`}>
+              {others.map(candidate => (
+                <option key={candidate} value={candidate}>{candidate}</option>
+              ))}
+            </optgroup>
+          </select>
+        </td>
+      </tr>
+    );
+  };
+
+  const renderProgress = () => progress && progress.total > 0 && (
+    <div className="mt-4">
+      <div className="w-full bg-blue-100 rounded-full h-2">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${(progress.done / progress.total) * 100}%` }}
+        />
+      </div>
+      <div className="text-xs text-gray-600 mt-1">{progress.done} / {progress.total} campaigns</div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5" />
+              Import Campaigns
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {step === 'upload' && 'Step 1 of 3 — Upload a CSV or Excel media plan'}
+              {step === 'mapping' && `Step 2 of 3 — Map the columns of ${fileName}`}
+              {step === 'preview' && 'Step 3 of 3 — Review and fix the rows'}
+              {step === 'done' && 'Import complete'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {undoneCount !== null && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm text-green-700">
+              Import undone: {undoneCount} campaigns moved to the trash.
+            </p>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-6">
+            <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 rounded-2xl hover:bg-gray-50 cursor-pointer transition-colors">
+              <Upload className="w-8 h-8 text-gray-400" />
+              <span className="text-sm font-medium text-gray-700">
+                {busy ? 'Reading file...' : 'Choose a .csv or .xlsx file'}
+              </span>
+              <span className="text-xs text-gray-500">
+                The first row must contain the column names; only the first worksheet is read.
+              </span>
+              <input type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFile} disabled={busy} className="hidden" />
+            </label>
+
+            {undoableImports.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Recent imports</h4>
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {undoableImports.map(record => (
+                    <div key={record.id} className="flex items-center justify-between px-4 py-2">
+                      <div>
+                        <div className="text-sm text-gray-900">{record.fileName}</div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(record.importedAt).toLocaleString()} • {record.campaignCount} campaigns
+                          {record.importedBy.email ? ` • ${record.importedBy.email}` : ''}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleUndo(record)}
+                        disabled={busy}
+                        className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                        Undo
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {renderProgress()}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'mapping' && data && (
+          <div className="space-y-4">
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center gap-2">
+              <Info className="w-4 h-4 text-blue-700" />
+              <p className="text-sm text-blue-700">
+                {data.rows.length} rows found. Columns with recognized names are mapped automatically.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => {
+                const column = mapping[field];
+                const sample = column !== undefined ? data.rows[0]?.[column] : '';
+                return (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {label}{required && <span className="text-red-500 ml-1">*</span>}
+                    </label>
+                    <select
+                      value={column ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">— Not in file —</option>
+                      {data.headers.map((header, index) => (
+                        <option key={index} value={index}>{header}</option>
+                      ))}
+                    </select>
+                    {sample && <p className="text-xs text-gray-500 mt-1 truncate">e.g. {sample}</p>}
+                  </div>
+                );
+              })}
+            </div>
+            {missingRequired.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <p className="text-sm text-yellow-700">
+                  Map the required fields to continue: {missingRequired.map(({ label }) => label).join(', ')}.
+                </p>
+              </div>
+            )}
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={handleStartOver}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium flex items-center gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Choose another file
+              </button>
+              <button
+                onClick={() => setStep('preview')}
+                disabled={missingRequired.length > 0}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                Validate rows
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && validation && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <div className="text-2xl font-bold text-gray-900">{validation.rows.length}</div>
+                <div className="text-sm text-gray-600">Rows</div>
+              </div>
+              <div className="p-4 bg-green-50 rounded-lg">
+                <div className="text-2xl font-bold text-green-700">{validRows.length}</div>
+                <div className="text-sm text-green-700">Ready to import</div>
+              </div>
+              <div className="p-4 bg-red-50 rounded-lg">
+                <div className="text-2xl font-bold text-red-700">{invalidRows.length}</div>
+                <div className="text-sm text-red-700">With errors (skipped)</div>
+              </div>
+            </div>
+
+            {validation.unmatched.length > 0 && (
+              <div className="border border-orange-200 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-orange-800 mb-1 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  Values not found in master data
+                </h4>
+                <p className="text-xs text-orange-700 mb-3">
+                  Pick the matching entry to fix every row using that value.
+                </p>
+                <table className="w-full">
+                  <tbody className="divide-y divide-gray-100">
+                    {validation.unmatched.map(renderUnmatchedValue)}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-900">Rows</h4>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showOnlyProblems}
+                  onChange={(e) => setShowOnlyProblems(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Only rows with errors or warnings
+              </label>
+            </div>
+            <div className="border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Campaign</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Dates</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Budget</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {previewRows.map(row => (
+                    <tr key={row.rowNumber} className={row.campaign ? '' : 'bg-red-50'}>
+                      <td className="px-3 py-2 text-gray-500 align-top">{row.rowNumber}</td>
+                      <td className="px-3 py-2 align-top">
+                        {row.campaign ? (
+                          <>
+                            <div className="text-gray-900">{row.campaign.brand} · {row.campaign.channel}</div>
+                            <div className="text-xs text-gray-500">
+                              {row.campaign.region} • {row.campaign.manager}
+                              {row.campaign.publisher ? ` • ${row.campaign.publisher}` : ''}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600 align-top whitespace-nowrap">
+                        {row.campaign && `${row.campaign.startDate} → ${row.campaign.endDate}`}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900 align-top">
+                        {row.campaign && formatBudget(row.campaign.budget)}
+                      </td>
+                      <td className="px-3 py-2 align-top">
+                        {row.campaign && (
+                          <span className="inline-flex items-center gap-1 text-xs text-green-700">
+                            <CheckCircle className="w-3 h-3" />
+                            {STATUS_CONFIG[row.campaign.status].label}
+                          </span>
+                        )}
+                        {row.errors.map(message => (
+                          <div key={message} className="text-xs text-red-700">{message}</div>
+                        ))}
+                        {row.warnings.map(message => (
+                          <div key={message} className="text-xs text-yellow-700">{message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {validation.rows.length > MAX_PREVIEW_ROWS && (
+              <p className="text-xs text-gray-500">Showing the first {MAX_PREVIEW_ROWS} rows.</p>
+            )}
+
+            {renderProgress()}
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => setStep('mapping')}
+                disabled={busy}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium flex items-center gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back to mapping
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={busy || validRows.length === 0}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <Upload className="w-4 h-4" />
+                {busy ? 'Importing...' : `Import ${validRows.length} campaigns`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4">
+            {completedImport ? (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                <div className="flex items-center gap-2 text-green-800">
+                  <CheckCircle className="w-5 h-5" />
+                  <span className="font-medium">{completedImport.campaignCount} campaigns imported</span>
+                </div>
+                <p className="text-sm text-green-700 mt-1">
+                  Import ID {completedImport.id}. You can undo it from here or later from this wizard.
+                </p>
+              </div>
+            ) : undoneCount === null && (
+              <p className="text-sm text-gray-600">Nothing was imported.</p>
+            )}
+            {renderProgress()}
+            <div className="flex gap-3 pt-2">
+              {completedImport && (
+                <button
+                  onClick={() => handleUndo(completedImport)}
+                  disabled={busy}
+                  className="px-6 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Undo2 className="w-4 h-4" />
+                  Undo import
+                </button>
+              )}
+              <button
+                onClick={handleStartOver}
+                disabled={busy}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Import another file
+              </button>
+              <button
+                onClick={onClose}
+                disabled={busy}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -9,14 +9,25 @@ import { CampaignTableHeader } from './CampaignTable/CampaignTableHeader';
 import { CampaignRow } from './CampaignTable/CampaignRow';
 import { CampaignStatusBadge } from './CampaignTable/CampaignStatusBadge';
 import { useChannels } from '../hooks/useChannels';
+import { useSpendBasis } from '../hooks/useSpendBasis';
+import { applySpendBasis } from '../utils/spendBasis';
+import { SpendBasisToggle } from './SpendBasisToggle';
+import { CurrencySelect } from './CurrencySelect';
+import { useReportingCurrency } from '../hooks/useReportingCurrency';
+import { useCostBasis } from '../hooks/useCostBasis';
+import { CostBasisToggle } from './CostBasisToggle';
+import { getCampaignCurrency } from '../utils/currency';
+import { formatAmount, formatUnitCost, getCurrencySymbol } from '../utils/budgetFormatter';
 import { getKpiValue, getChannelKpis, getKpiConfig, formatKpiValue } from '../utils/kpiHelpers';
 import { Filter, Plus, Info, AlertTriangle, TrendingDown, ChevronDown, ChevronRight, BarChart3, Users, Euro, Target, CopyPlus } from 'lucide-react';
+import { LoadedPeriodsBar } from './LoadedPeriodsBar';
+import { UpdateOptions } from '../repositories';
 
 interface CampaignTableProps {
   campaigns: Campaign[];
   channel?: string;
   onAdd: (campaign: Omit<Campaign, 'id'>) => void;
-  onUpdate: (id: string, updates: Partial<Campaign>) => void;
+  onUpdate: (id: string, updates: Partial<Campaign>, options?: UpdateOptions) => void | Promise<void>;
   onDelete: (id: string) => void;
 }
 
@@ -58,6 +69,9 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
   };
 
   const { getChannelByName } = useChannels();
+  const { basis } = useSpendBasis();
+  const { convert } = useReportingCurrency();
+  const { apply: applyCostBasis } = useCostBasis();
 
   const filteredCampaigns = campaigns.filter(campaign => {
     if (channel && campaign.channel !== channel) return false;
@@ -68,6 +82,10 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
     return true;
   });
 
+  // Rows show each campaign in its own currency, net; totals and KPIs in the reporting currency, on the cost basis
+  const { campaigns: convertedCampaigns, missingRates } = convert(filteredCampaigns);
+  const reportingCampaigns = applyCostBasis(convertedCampaigns);
+
   const visibleKpis = channel ? getChannelKpis(channel, getChannelByName) : ['budget', 'leads', 'cpl', 'roi'];
 
   const brandGroups = useMemo((): BrandGroup[] => {
@@ -81,11 +99,12 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
     });
 
     return Object.entries(groups).map(([brandName, brandCampaigns]) => {
-      const totalBudget = brandCampaigns.reduce((sum, c) => sum + c.budget, 0);
-      const totalLeads = brandCampaigns.reduce((sum, c) => sum + c.leads, 0);
+      const basisCampaigns = applySpendBasis(applyCostBasis(convert(brandCampaigns).campaigns), basis);
+      const totalBudget = basisCampaigns.reduce((sum, c) => sum + c.budget, 0);
+      const totalLeads = basisCampaigns.reduce((sum, c) => sum + c.leads, 0);
       const avgCPL = totalLeads > 0 ? totalBudget / totalLeads : 0;
       
-      const campaignsWithROI = brandCampaigns.filter(c => c.roi && c.roi !== 'N/A');
+      const campaignsWithROI = basisCampaigns.filter(c => c.roi && c.roi !== 'N/A');
       const avgROI = campaignsWithROI.length > 0 
         ? campaignsWithROI.reduce((sum, c) => {
             const roiValue = parseFloat(c.roi!.replace('%', ''));
@@ -94,7 +113,7 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
         : 0;
 
       const regionBreakdown: { [region: string]: { budget: number; leads: number; campaigns: number } } = {};
-      brandCampaigns.forEach(campaign => {
+      basisCampaigns.forEach(campaign => {
         if (!regionBreakdown[campaign.region]) {
           regionBreakdown[campaign.region] = { budget: 0, leads: 0, campaigns: 0 };
         }
@@ -113,7 +132,7 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
         regionBreakdown,
       };
     }).sort((a, b) => b.totalBudget - a.totalBudget);
-  }, [filteredCampaigns]);
+  }, [filteredCampaigns, basis, convert, applyCostBasis]);
 
   // --- MODIFICHE QUI ---
   const handleEdit = useCallback((campaign: Campaign) => {
@@ -130,11 +149,12 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
   }, [onDelete]);
   // --- FINE MODIFICHE ---
 
-  const handleFormSubmit = (campaignData: Omit<Campaign, 'id'>) => {
+  // Errors (including edit conflicts) propagate to CampaignForm, which stays open to handle them
+  const handleFormSubmit = async (campaignData: Omit<Campaign, 'id'>, options?: UpdateOptions) => {
     if (editingCampaign) {
-      onUpdate(editingCampaign.id!, campaignData);
+      await onUpdate(editingCampaign.id!, campaignData, options);
     } else {
-      onAdd(campaignData);
+      await onAdd(campaignData);
     }
     setShowForm(false);
     setEditingCampaign(null);
@@ -214,18 +234,19 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
 
   const formatBudget = (budget: number, extraBudget?: number, campaign?: Campaign) => {
     const alertPercentage = campaign ? getBudgetAlert(campaign) : null;
+    const currency = campaign ? getCampaignCurrency(campaign) : undefined;
     
     if (extraBudget && extraBudget > 0) {
       return (
         <div className="space-y-1">
-          <div className="text-sm text-gray-900">€{budget.toLocaleString()}</div>
+          <div className="text-sm text-gray-900">{formatAmount(budget, currency)}</div>
           <div className={`text-xs px-2 py-1 rounded flex items-center gap-1 ${
             alertPercentage 
               ? 'text-red-600 bg-red-50 border border-red-200' 
               : 'text-blue-600 bg-blue-50'
           }`}>
             {alertPercentage && <AlertTriangle className="w-3 h-3" />}
-            +€{extraBudget.toLocaleString()} extra
+            +{formatAmount(extraBudget, currency)} extra
             {alertPercentage && (
               <span className="font-medium">
                 ({(alertPercentage * 100).toFixed(0)}%)
@@ -235,7 +256,7 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
         </div>
       );
     }
-    return <div className="text-sm text-gray-900">€{budget.toLocaleString()}</div>;
+    return <div className="text-sm text-gray-900">{formatAmount(budget, currency)}</div>;
   };
 
   const formatChannelMetrics = (campaign: Campaign) => {
@@ -290,7 +311,7 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
       case 'cpl':
         return (
           <div className="text-sm text-gray-900">
-            €{campaign.costPerLead?.toFixed(2) || 'N/A'}
+            {campaign.costPerLead != null ? formatUnitCost(campaign.costPerLead, getCampaignCurrency(campaign)) : 'N/A'}
           </div>
         );
       
@@ -374,7 +395,7 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
     const stats: { [key: string]: number } = {};
     
     visibleKpis.forEach(kpiKey => {
-      stats[kpiKey] = getKpiValue(filteredCampaigns, channel || '', kpiKey);
+      stats[kpiKey] = getKpiValue(reportingCampaigns, channel || '', kpiKey, basis);
     });
     
     return stats;
@@ -395,11 +416,15 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
           </h2>
           <p className="text-gray-600 mt-1">
             {filteredCampaigns.length} campaigns
-            {visibleKpis.includes('budget') && ` • €${(summaryStats.budget / 1000).toFixed(0)}k total budget`}
+            {visibleKpis.includes('budget') && ` • ${getCurrencySymbol()}${(summaryStats.budget / 1000).toFixed(0)}k ${basis === 'actual' ? 'actual spend' : 'total budget'}`}
             {visibleKpis.includes('leads') && ` • ${summaryStats.leads?.toLocaleString() || 0} leads`}
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <CurrencySelect missingRates={missingRates} />
+          <CostBasisToggle />
+          <SpendBasisToggle />
+
           <div className="flex bg-gray-100 rounded-lg p-1">
             <button
               onClick={() => setViewMode('grouped')}
@@ -435,17 +460,17 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
       </div>
 
       {channel && (
-        <ChannelSummaryPanel campaigns={filteredCampaigns} channelName={channel} />
+        <ChannelSummaryPanel campaigns={reportingCampaigns} channelName={channel} />
       )}
 
       {channel && (
-        <ChannelKpiCards campaigns={filteredCampaigns} channelName={channel} />
+        <ChannelKpiCards campaigns={reportingCampaigns} channelName={channel} />
       )}
 
       {viewMode === 'grouped' && brandGroups.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           {(['budget', ...visibleKpis.filter(k => k !== 'budget')].slice(0, 4)).map((kpiKey) => {
-            const kpiConfig = getKpiConfig(kpiKey);
+            const kpiConfig = getKpiConfig(kpiKey, basis);
             const value = summaryStats[kpiKey] || 0;
             const formattedValue = formatKpiValue(value, kpiConfig.format);
             
@@ -514,6 +539,8 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
             ))}
           </select>
         </div>
+
+        <LoadedPeriodsBar />
       </div>
 
       {viewMode === 'grouped' ? (
@@ -580,8 +607,8 @@ export const CampaignTable: React.FC<CampaignTableProps> = ({
 
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                         {(['budget', ...visibleKpis.filter(k => k !== 'budget')].slice(0, 4)).map((kpiKey) => {
-                          const kpiConfig = getKpiConfig(kpiKey);
-                          const value = getKpiValue(brandGroup.campaigns, channel || brandGroup.campaigns[0]?.channel || '', kpiKey);
+                          const kpiConfig = getKpiConfig(kpiKey, basis);
+                          const value = getKpiValue(applyCostBasis(convert(brandGroup.campaigns).campaigns), channel || brandGroup.campaigns[0]?.channel || '', kpiKey, basis);
                           const formattedValue = formatKpiValue(value, kpiConfig.format);
                           
                           return (
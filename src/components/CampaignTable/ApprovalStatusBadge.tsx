@@ -0,0 +1,18 @@
+import React from 'react';
+import { APPROVAL_STATUS_CONFIG } from '../../types/approval';
+import { Campaign, migrateStatus } from '../../types/campaign';
+
+interface ApprovalStatusBadgeProps {
+  campaign: Pick<Campaign, 'status' | 'approvalStatus'>;
+}
+
+// Only planned campaigns wait on an approval; once scheduled it is implied
+export const ApprovalStatusBadge: React.FC<ApprovalStatusBadgeProps> = ({ campaign }) => {
+  if (!campaign.approvalStatus || migrateStatus(campaign.status) !== 'PLANNED') return null;
+  const config = APPROVAL_STATUS_CONFIG[campaign.approvalStatus];
+  return (
+    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ml-1 ${config.className}`}>
+      {config.label}
+    </span>
+  );
+};
@@ -1,6 +1,7 @@
-import React from 'react';
-import { Edit, Copy, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { Edit, Copy, Trash2, History } from 'lucide-react';
 import { Campaign } from '../../types/campaign';
+import { CampaignHistoryModal } from '../CampaignHistoryModal';
 
 interface CampaignActionsProps {
   campaign: Campaign;
@@ -15,6 +16,8 @@ export const CampaignActions: React.FC<CampaignActionsProps> = ({
   onDuplicate,
   onDelete,
 }) => {
+  const [showHistory, setShowHistory] = useState(false);
+
   return (
     <div className="flex space-x-2">
       <button
@@ -31,6 +34,13 @@ export const CampaignActions: React.FC<CampaignActionsProps> = ({
       >
         <Copy className="w-4 h-4" />
       </button>
+      <button
+        onClick={() => setShowHistory(true)}
+        className="text-purple-600 hover:text-purple-900 p-1 rounded hover:bg-purple-50"
+        title="Campaign history"
+      >
+        <History className="w-4 h-4" />
+      </button>
       <button
         onClick={() => onDelete(campaign.id!)}
         className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
@@ -38,6 +48,9 @@ export const CampaignActions: React.FC<CampaignActionsProps> = ({
       >
         <Trash2 className="w-4 h-4" />
       </button>
+      {showHistory && (
+        <CampaignHistoryModal campaign={campaign} onClose={() => setShowHistory(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -2,6 +2,7 @@ import React, { memo } from 'react'; // Aggiunto "memo"
 import { Campaign } from '../../types/campaign';
 import { CampaignActions } from './CampaignActions';
 import { CampaignStatusBadge } from './CampaignStatusBadge';
+import { ApprovalStatusBadge } from './ApprovalStatusBadge';
 import { Info } from 'lucide-react';
 
 interface CampaignRowProps {
@@ -66,6 +67,7 @@ export const CampaignRow: React.FC<CampaignRowProps> = memo(({
       
       <td className="px-6 py-4 whitespace-nowrap">
         <CampaignStatusBadge status={campaign.status} />
+        <ApprovalStatusBadge campaign={campaign} />
       </td>
       {showSocialColumns && (
         <td className="px-6 py-4">
@@ -1,22 +1,40 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Campaign, BUDGET_ALERT_THRESHOLD, formatMetric, getChannelMetrics, getStatusConfig, migrateStatus } from '../types/campaign';
 import { CampaignForm } from './CampaignForm';
 import { CampaignDuplicateModal } from './CampaignDuplicateModal';
+import { CampaignImportWizard } from './CampaignImportWizard';
+import { AdPlatformImportWizard } from './AdPlatformImportWizard';
+import { PostBuyImportWizard } from './PostBuyImportWizard';
 import { CampaignsHeader } from './CampaignsList/CampaignsHeader';
+import { CalendarExportModal } from './CampaignsList/CalendarExportModal';
+import { CampaignInvoicesModal } from './CampaignsList/CampaignInvoicesModal';
 import { CampaignsSummary } from './CampaignsList/CampaignsSummary';
 import { CampaignsGroupList } from './CampaignsList/CampaignsGroupList';
 import { CampaignsEmptyState } from './CampaignsList/CampaignsEmptyState';
+import { ApprovalStatusBadge } from './CampaignTable/ApprovalStatusBadge';
 import { useChannels } from '../hooks/useChannels';
 import { useBrands } from '../hooks/useBrands';
 import { useManagers } from '../hooks/useManagers';
+import { useCampaignPeriods } from '../hooks/useCampaigns';
+import { useSpendBasis } from '../hooks/useSpendBasis';
+import { useReportingCurrency } from '../hooks/useReportingCurrency';
+import { useCostBasis } from '../hooks/useCostBasis';
+import { getCampaignCurrency } from '../utils/currency';
+import { formatAmount, formatUnitCost } from '../utils/budgetFormatter';
+import { applySpendBasis, getActualSpend } from '../utils/spendBasis';
+import { computeCampaignPacing } from '../utils/pacing';
+import { LoadedPeriodsBar } from './LoadedPeriodsBar';
 import { getKPIOption, getCampaignGroupingValue, getSubGroupingOption } from '../types/channel';
 import { getKpiValue, getChannelKpis, getKpiConfig, formatKpiValue } from '../utils/kpiHelpers';
-import { Filter, Search, X, Edit, Trash2, Copy, AlertTriangle, TrendingDown } from 'lucide-react';
+import { Filter, Search, X, Edit, Trash2, Copy, AlertTriangle, TrendingDown, TrendingUp, Receipt } from 'lucide-react';
+import { UpdateOptions } from '../repositories';
+import { exportCampaignsWorkbook } from '../utils/campaignExport';
+import { datedFileName, downloadBlob } from '../utils/download';
 
 interface CampaignsListProps {
   campaigns: Campaign[];
   onAdd: (campaign: Omit<Campaign, 'id'>) => void;
-  onUpdate: (id: string, updates: Partial<Campaign>) => void;
+  onUpdate: (id: string, updates: Partial<Campaign>, options?: UpdateOptions) => void | Promise<void>;
   onDelete: (id: string) => void;
 }
 
@@ -35,6 +53,12 @@ interface ChannelGroup {
   subGroupingKey: string | null;
 }
 
+const PERIOD_LABELS: { [key: string]: string } = {
+  'this-month': 'This Month',
+  'current-year': 'Current Year',
+  'last-year': 'Last Year',
+};
+
 export const CampaignsList: React.FC<CampaignsListProps> = ({
   campaigns,
   onAdd,
@@ -42,8 +66,14 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
   onDelete,
 }) => {
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showActualsImport, setShowActualsImport] = useState(false);
+  const [showPostBuyImport, setShowPostBuyImport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
   const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
   const [duplicatingCampaign, setDuplicatingCampaign] = useState<Campaign | null>(null);
+  const [invoicesCampaign, setInvoicesCampaign] = useState<Campaign | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [viewMode, setViewMode] = useState<'grouped' | 'table'>('grouped');
   const [filters, setFilters] = useState({
@@ -60,6 +90,18 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
   const { getActiveChannels, getChannelByName, getVisibleKPIsForChannel, getSubGroupingForChannel } = useChannels();
   const { brands } = useBrands();
   const { managers } = useManagers();
+  const { ensurePeriod } = useCampaignPeriods();
+  const { basis } = useSpendBasis();
+  const { currency, convert } = useReportingCurrency();
+  const { basis: costBasis, apply: applyCostBasis } = useCostBasis();
+
+  // The period filters work on calendar years; last year may fall outside the loaded fiscal years
+  useEffect(() => {
+    if (filters.period === 'last-year') {
+      const lastYear = new Date().getFullYear() - 1;
+      ensurePeriod({ startDate: `${lastYear}-01-01`, endDate: `${lastYear}-12-31` });
+    }
+  }, [filters.period, ensurePeriod]);
 
   const activeChannels = getActiveChannels();
 
@@ -112,12 +154,13 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
     });
 
     return Object.entries(groups).map(([channelName, channelCampaigns]) => {
-      const totalBudget = channelCampaigns.reduce((sum, c) => sum + c.budget, 0);
-      const totalLeads = channelCampaigns.reduce((sum, c) => sum + c.leads, 0);
+      const basisCampaigns = applySpendBasis(applyCostBasis(convert(channelCampaigns).campaigns), basis);
+      const totalBudget = basisCampaigns.reduce((sum, c) => sum + c.budget, 0);
+      const totalLeads = basisCampaigns.reduce((sum, c) => sum + c.leads, 0);
       const avgCPL = totalLeads > 0 ? totalBudget / totalLeads : 0;
       
       // Calculate average ROI (only for campaigns with ROI data)
-      const campaignsWithROI = channelCampaigns.filter(c => c.roi && c.roi !== 'N/A');
+      const campaignsWithROI = basisCampaigns.filter(c => c.roi && c.roi !== 'N/A');
       const avgROI = campaignsWithROI.length > 0 
         ? campaignsWithROI.reduce((sum, c) => {
             const roiValue = parseFloat(c.roi!.replace('%', ''));
@@ -165,7 +208,7 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
         subGroupingKey,
       };
     }).sort((a, b) => b.totalBudget - a.totalBudget); // Sort by total budget descending
-  }, [filteredCampaigns, getChannelByName, getVisibleKPIsForChannel, getSubGroupingForChannel]);
+  }, [filteredCampaigns, basis, convert, applyCostBasis, getChannelByName, getVisibleKPIsForChannel, getSubGroupingForChannel]);
 
   // Sort campaigns for table view
   const sortedCampaigns = [...filteredCampaigns].sort((a, b) => {
@@ -208,11 +251,12 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
     setDuplicatingCampaign(campaign);
   };
 
-  const handleFormSubmit = (campaignData: Omit<Campaign, 'id'>) => {
+  // Errors (including edit conflicts) propagate to CampaignForm, which stays open to handle them
+  const handleFormSubmit = async (campaignData: Omit<Campaign, 'id'>, options?: UpdateOptions) => {
     if (editingCampaign) {
-      onUpdate(editingCampaign.id!, campaignData);
+      await onUpdate(editingCampaign.id!, campaignData, options);
     } else {
-      onAdd(campaignData);
+      await onAdd(campaignData);
     }
     setShowForm(false);
     setEditingCampaign(null);
@@ -233,7 +277,7 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
   };
 
   const handleDelete = (id: string, campaignName: string) => {
-    if (window.confirm(`Are you sure you want to delete the campaign "${campaignName}"? This action cannot be undone.`)) {
+    if (window.confirm(`Move the campaign "${campaignName}" to the trash? You can restore it from the Trash tab.`)) {
       onDelete(id);
     }
   };
@@ -288,24 +332,59 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
   };
 
   const formatBudget = (budget: number, extraBudget?: number, campaign?: Campaign) => {
+    const campaignCurrency = campaign ? getCampaignCurrency(campaign) : undefined;
     const alertPercentage = campaign ? getBudgetAlert(campaign) : null;
+    // From the invoices, or imported from the ad platforms, next to the planned budget
+    const spent = campaign ? getActualSpend(campaign) : null;
+    const actualSpend = campaign && spent !== null && (
+      <div
+        className="text-xs text-gray-500"
+        title={campaign.invoicedSpend == null && campaign.actualsSyncedAt ? `Synced ${new Date(campaign.actualsSyncedAt).toLocaleString()}` : undefined}
+      >
+        {campaign.invoicedSpend != null ? 'Invoiced' : 'Spent'} {formatAmount(spent, campaignCurrency)}
+      </div>
+    );
+    // Only ACTIVE campaigns with recorded spend are paced; on-pace ones need no flag
+    const pacing = campaign ? computeCampaignPacing(campaign) : null;
+    const pacingBadge = pacing && pacing.status !== 'on' && (
+      <div
+        className={`text-xs px-2 py-1 rounded flex items-center gap-1 ${
+          pacing.status === 'under' ? 'text-amber-700 bg-amber-50 border border-amber-200' : 'text-red-600 bg-red-50 border border-red-200'
+        }`}
+        title={`Expected ${formatAmount(pacing.expectedToDate, campaignCurrency, 0)} by day ${pacing.elapsedDays} of ${pacing.totalDays} (${pacing.curve}); projected end-of-flight spend ${formatAmount(pacing.projectedSpend, campaignCurrency, 0)}`}
+      >
+        {pacing.status === 'under' ? <TrendingDown className="w-3 h-3" /> : <TrendingUp className="w-3 h-3" />}
+        {pacing.status === 'under' ? 'Under' : 'Over'}-pacing {Math.round(pacing.ratio * 100)}%
+      </div>
+    );
     
     if (extraBudget && extraBudget > 0) {
       return (
         <div className="space-y-1">
-          <div className="text-sm text-gray-900">€{budget.toLocaleString()}</div>
+          <div className="text-sm text-gray-900">{formatAmount(budget, campaignCurrency)}</div>
           <div className={`text-xs px-2 py-1 rounded flex items-center gap-1 ${
             alertPercentage 
               ? 'text-red-600 bg-red-50 border border-red-200' 
               : 'text-blue-600 bg-blue-50'
           }`}>
             {alertPercentage && <AlertTriangle className="w-3 h-3" />}
-            +€{extraBudget.toLocaleString()} extra
+            +{formatAmount(extraBudget, campaignCurrency)} extra
           </div>
+          {actualSpend}
+          {pacingBadge}
         </div>
       );
     }
-    return <div className="text-sm text-gray-900">€{budget.toLocaleString()}</div>;
+    if (actualSpend) {
+      return (
+        <div className="space-y-1">
+          <div className="text-sm text-gray-900">{formatAmount(budget, campaignCurrency)}</div>
+          {actualSpend}
+          {pacingBadge}
+        </div>
+      );
+    }
+    return <div className="text-sm text-gray-900">{formatAmount(budget, campaignCurrency)}</div>;
   };
 
   const formatChannelMetrics = (campaign: Campaign) => {
@@ -358,7 +437,7 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
       case 'cpl':
         return (
           <div className="text-sm text-gray-900">
-            €{campaign.costPerLead?.toFixed(2) || 'N/A'}
+            {campaign.costPerLead != null ? formatUnitCost(campaign.costPerLead, getCampaignCurrency(campaign)) : 'N/A'}
           </div>
         );
       
@@ -432,11 +511,48 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
     }
   };
 
-  // Calculate summary stats
-  const totalBudget = filteredCampaigns.reduce((sum, c) => sum + c.budget, 0);
-  const totalLeads = filteredCampaigns.reduce((sum, c) => sum + c.leads, 0);
+  // Calculate summary stats in the reporting currency, on the selected bases
+  const { campaigns: convertedCampaigns, missingRates } = convert(filteredCampaigns);
+  const reportingCampaigns = applyCostBasis(convertedCampaigns);
+  const summaryCampaigns = applySpendBasis(reportingCampaigns, basis);
+  const totalBudget = summaryCampaigns.reduce((sum, c) => sum + c.budget, 0);
+  const totalLeads = summaryCampaigns.reduce((sum, c) => sum + c.leads, 0);
   const avgCPL = totalLeads > 0 ? totalBudget / totalLeads : 0;
 
+  // Described in exported files, so readers know which campaigns they contain
+  const activeFilters = [
+    searchTerm && `Search: "${searchTerm}"`,
+    filters.channel && `Channel: ${filters.channel}`,
+    filters.brand && `Brand: ${filters.brand}`,
+    filters.region && `Region: ${filters.region}`,
+    filters.status && `Status: ${getStatusConfig(migrateStatus(filters.status)).label}`,
+    filters.manager && `Manager: ${filters.manager}`,
+    filters.period && `Period: ${PERIOD_LABELS[filters.period]}`,
+  ].filter((filter): filter is string => Boolean(filter));
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      // The workbook always shows planned budgets, with actual spend in its own column, in the reporting currency and on the cost basis
+      const plannedBudget = reportingCampaigns.reduce((sum, c) => sum + c.budget, 0);
+      const blob = await exportCampaignsWorkbook({
+        channelGroups: channelGroups.map(group => ({ ...group, campaigns: applyCostBasis(convert(group.campaigns).campaigns) })),
+        totalBudget: plannedBudget,
+        totalLeads,
+        avgCPL: totalLeads > 0 ? plannedBudget / totalLeads : 0,
+        currency,
+        costBasis,
+        filters: activeFilters,
+      });
+      downloadBlob(blob, datedFileName('campaigns', 'xlsx'));
+    } catch (err) {
+      console.error('Error exporting campaigns:', err);
+      alert(`Export failed: ${(err as Error).message}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   // Get unique values for filters
   const uniqueValues = {
     channels: [...new Set(campaigns.map(c => c.channel))],
@@ -453,9 +569,16 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
         totalCampaignsCount={campaigns.length}
         totalBudget={totalBudget}
         totalLeads={totalLeads}
+        missingRates={missingRates}
         viewMode={viewMode}
         onViewModeChange={setViewMode}
         onAddCampaign={() => setShowForm(true)}
+        onImportCampaigns={() => setShowImport(true)}
+        onImportActuals={() => setShowActualsImport(true)}
+        onImportPostBuy={() => setShowPostBuyImport(true)}
+        onExportCampaigns={handleExport}
+        onExportCalendar={() => setShowCalendarExport(true)}
+        exporting={exporting}
       />
 
       <CampaignsSummary
@@ -575,6 +698,8 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
           </select>
         </div>
 
+        <LoadedPeriodsBar />
+
         {/* Sort Options - Only show in table view */}
         {viewMode === 'table' && (
           <div className="flex items-center gap-4 mt-4 pt-4 border-t border-gray-200">
@@ -612,6 +737,7 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
             onEdit={handleEdit}
             onDelete={handleDelete}
             onDuplicate={handleDuplicate}
+            onShowInvoices={setInvoicesCampaign}
             getStatusBadge={getStatusBadge}
             formatBudget={formatBudget}
             formatChannelMetrics={formatChannelMetrics}
@@ -681,13 +807,14 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
                         {formatChannelMetrics(campaign)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        €{campaign.costPerLead?.toFixed(2) || 'N/A'}
+                        {campaign.costPerLead != null ? formatUnitCost(campaign.costPerLead, getCampaignCurrency(campaign)) : 'N/A'}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {campaign.roi || 'N/A'}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {getStatusBadge(campaign.status)}
+                        <ApprovalStatusBadge campaign={campaign} />
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {campaign.createdAt ? new Date(campaign.createdAt).toLocaleDateString() : 'N/A'}
@@ -708,6 +835,13 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
                           >
                             <Copy className="w-4 h-4" />
                           </button>
+                          <button
+                            onClick={() => setInvoicesCampaign(campaign)}
+                            className="text-gray-600 hover:text-gray-900 p-1 rounded hover:bg-gray-100"
+                            title="Invoices"
+                          >
+                            <Receipt className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => handleDelete(campaign.id!, `${campaign.brand} - ${campaign.channel}`)}
                             className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
@@ -727,6 +861,13 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
       )}
 
       {/* Modals */}
+      {invoicesCampaign && (
+        <CampaignInvoicesModal
+          campaign={invoicesCampaign}
+          onClose={() => setInvoicesCampaign(null)}
+        />
+      )}
+
       {showForm && (
         <CampaignForm
           onSubmit={handleFormSubmit}
@@ -735,6 +876,26 @@ export const CampaignsList: React.FC<CampaignsListProps> = ({
         />
       )}
 
+      {showImport && (
+        <CampaignImportWizard onClose={() => setShowImport(false)} />
+      )}
+
+      {showActualsImport && (
+        <AdPlatformImportWizard onClose={() => setShowActualsImport(false)} />
+      )}
+
+      {showPostBuyImport && (
+        <PostBuyImportWizard onClose={() => setShowPostBuyImport(false)} />
+      )}
+
+      {showCalendarExport && (
+        <CalendarExportModal
+          campaigns={filteredCampaigns}
+          filters={activeFilters}
+          onClose={() => setShowCalendarExport(false)}
+        />
+      )}
+
       {duplicatingCampaign && (
         <CampaignDuplicateModal
           campaign={duplicatingCampaign}
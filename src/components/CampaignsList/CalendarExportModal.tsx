@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays, X } from 'lucide-react';
+import { Campaign } from '../../types/campaign';
+import { CALENDAR_SCOPES, CalendarScope, exportCampaignsCalendar, getCalendarScopeValue } from '../../utils/calendarExport';
+import { datedFileName, downloadBlob } from '../../utils/download';
+import { normalizeForMatch } from '../../utils/fuzzyMatch';
+
+interface CalendarExportModalProps {
+  /** The campaigns matching the list filters */
+  campaigns: Campaign[];
+  filters: string[];
+  onClose: () => void;
+}
+
+export const CalendarExportModal: React.FC<CalendarExportModalProps> = ({ campaigns, filters, onClose }) => {
+  const [scope, setScope] = useState<CalendarScope>('all');
+  const [value, setValue] = useState('');
+
+  const values = useMemo(
+    () => (scope === 'all' ? [] : [...new Set(campaigns.map(campaign => getCalendarScopeValue(campaign, scope)))].sort()),
+    [campaigns, scope]
+  );
+  const selected = scope === 'all'
+    ? campaigns
+    : campaigns.filter(campaign => getCalendarScopeValue(campaign, scope) === value);
+  const scopeLabel = scope === 'all' ? '' : `${scope.charAt(0).toUpperCase()}${scope.slice(1)}: ${value}`;
+
+  const handleScopeChange = (next: CalendarScope) => {
+    setScope(next);
+    setValue('');
+  };
+
+  const handleDownload = () => {
+    const blob = exportCampaignsCalendar({
+      campaigns: selected,
+      calendarName: scope === 'all' ? 'ArredissimA campaigns' : `ArredissimA campaigns — ${value}`,
+      filters: scopeLabel ? [...filters, scopeLabel] : filters,
+    });
+    const prefix = scope === 'all' ? 'campaigns-calendar' : `campaigns-calendar-${scope}-${normalizeForMatch(value)}`;
+    downloadBlob(blob, datedFileName(prefix, 'ics'));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <CalendarDays className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Calendar Export</h2>
+              <p className="text-sm text-gray-600">One all-day event per campaign, for any calendar app</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {CALENDAR_SCOPES.map(option => (
+            <label
+              key={option.scope}
+              className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type="radio"
+                name="calendar-scope"
+                checked={scope === option.scope}
+                onChange={() => handleScopeChange(option.scope)}
+              />
+              <span className="text-sm font-medium text-gray-900">{option.label}</span>
+            </label>
+          ))}
+        </div>
+
+        {scope !== 'all' && (
+          <select
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-full mt-4 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Choose a {scope}...</option>
+            {values.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )}
+
+        <p className="text-xs text-gray-500 mt-4">
+          {selected.length} campaigns{filters.length > 0 ? ` • Filters: ${filters.join(' • ')}` : ''}.
+          Importing a newer export updates the events already in the calendar.
+        </p>
+
+        <div className="flex gap-3 pt-6 mt-6 border-t border-gray-200">
+          <button
+            onClick={handleDownload}
+            disabled={selected.length === 0 || (scope !== 'all' && !value)}
+            className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <CalendarDays className="w-4 h-4" />
+            Download .ics
+          </button>
+          <button
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { Receipt, X, Plus, Edit, Trash2, Save } from 'lucide-react';
+import { Campaign } from '../../types/campaign';
+import { INVOICE_STATUS_CONFIG, Invoice, InvoiceStatus } from '../../types/invoice';
+import { useCampaignInvoices } from '../../hooks/useCampaignInvoices';
+import { useBroadcasters } from '../../hooks/useBroadcasters';
+import { InvoiceInput, getInvoicedSpend } from '../../utils/invoices';
+import { formatAmount, formatBudget, getCurrencySymbol } from '../../utils/budgetFormatter';
+import { getCampaignCurrency } from '../../utils/currency';
+
+interface CampaignInvoicesModalProps {
+  campaign: Campaign;
+  onClose: () => void;
+}
+
+const INVOICE_STATUSES = Object.keys(INVOICE_STATUS_CONFIG) as InvoiceStatus[];
+
+export const CampaignInvoicesModal: React.FC<CampaignInvoicesModalProps> = ({ campaign, onClose }) => {
+  const { invoices, loading, error, save, remove } = useCampaignInvoices(campaign.id);
+  const { broadcasters } = useBroadcasters();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<InvoiceInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Invoices are in the campaign's currency, like its budget
+  const currency = getCampaignCurrency(campaign);
+  const invoiced = getInvoicedSpend(invoices);
+  const variance = invoiced === null ? null : invoiced - campaign.budget;
+
+  const startNew = () => {
+    setEditingId(null);
+    setFormError(null);
+    setForm({
+      supplier: campaign.publisher || '',
+      number: '',
+      date: new Date().toISOString().slice(0, 10),
+      amount: 0,
+      status: 'received',
+      notes: '',
+    });
+  };
+
+  const startEdit = (invoice: Invoice) => {
+    setEditingId(invoice.id!);
+    setFormError(null);
+    setForm({
+      supplier: invoice.supplier,
+      number: invoice.number,
+      date: invoice.date,
+      amount: invoice.amount,
+      status: invoice.status,
+      notes: invoice.notes || '',
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setForm(prev => prev && ({ ...prev, [name]: type === 'number' ? parseFloat(value) || 0 : value }));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    try {
+      setSaving(true);
+      setFormError(null);
+      await save(form, editingId || undefined);
+      setForm(null);
+      setEditingId(null);
+    } catch (err) {
+      setFormError((err as Error).message || 'Failed to save the invoice.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    if (!window.confirm(`Delete invoice ${invoice.number} from ${invoice.supplier}? The campaign's actual spend is recalculated.`)) return;
+    try {
+      await remove(invoice);
+    } catch (err) {
+      setFormError((err as Error).message || 'Failed to delete the invoice.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <Receipt className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Invoices</h2>
+              <p className="text-sm text-gray-600">
+                {campaign.brand} - {campaign.channel} • {campaign.region}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-blue-50 p-4 rounded-xl border border-blue-100">
+            <p className="text-sm font-medium text-blue-600">Planned budget</p>
+            <p className="text-xl font-bold text-blue-900 mt-1">{formatBudget(campaign.budget, currency)}</p>
+          </div>
+          <div className="bg-green-50 p-4 rounded-xl border border-green-100">
+            <p className="text-sm font-medium text-green-600">Invoiced</p>
+            <p className="text-xl font-bold text-green-900 mt-1">{invoiced === null ? '—' : formatBudget(invoiced, currency)}</p>
+            {invoiced === null && campaign.actualSpend != null && (
+              <p className="text-xs text-green-700 mt-1">Ad platform spend: {formatBudget(campaign.actualSpend, currency)}</p>
+            )}
+          </div>
+          <div className={`p-4 rounded-xl border ${variance !== null && variance > 0 ? 'bg-red-50 border-red-100' : 'bg-gray-50 border-gray-100'}`}>
+            <p className="text-sm font-medium text-gray-600">Variance</p>
+            <p className={`text-xl font-bold mt-1 ${variance !== null && variance > 0 ? 'text-red-700' : 'text-gray-900'}`}>
+              {variance === null ? '—' : `${variance > 0 ? '+' : variance < 0 ? '-' : ''}${formatBudget(Math.abs(variance), currency)}`}
+            </p>
+          </div>
+        </div>
+
+        {(error || formError) && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {formError || error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-3 text-gray-600">Loading invoices...</span>
+          </div>
+        ) : invoices.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Receipt className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+            <p className="text-lg font-medium">No invoices recorded</p>
+            <p className="text-sm">Actual spend comes from the ad platform import until the first invoice is recorded</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Number</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {invoices.map(invoice => (
+                  <tr key={invoice.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm text-gray-900">{new Date(invoice.date).toLocaleDateString()}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {invoice.supplier}
+                      {invoice.notes && <div className="text-xs text-gray-500">{invoice.notes}</div>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{invoice.number}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{formatAmount(invoice.amount, currency)}</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INVOICE_STATUS_CONFIG[invoice.status].className}`}>
+                        {INVOICE_STATUS_CONFIG[invoice.status].label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => startEdit(invoice)}
+                        className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                        title="Edit invoice"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(invoice)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                        title="Delete invoice"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {form ? (
+          <div className="mt-6 p-4 border border-gray-200 rounded-lg space-y-4">
+            <h3 className="text-sm font-semibold text-gray-900">{editingId ? 'Edit invoice' : 'New invoice'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+                <input
+                  type="text"
+                  name="supplier"
+                  value={form.supplier}
+                  onChange={handleChange}
+                  list="invoice-suppliers"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <datalist id="invoice-suppliers">
+                  {broadcasters.map(broadcaster => (
+                    <option key={broadcaster.id} value={broadcaster.name} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Invoice number</label>
+                <input
+                  type="text"
+                  name="number"
+                  value={form.number}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                <input
+                  type="date"
+                  name="date"
+                  value={form.date}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount ({getCurrencySymbol(currency).trim()})</label>
+                <input
+                  type="number"
+                  name="amount"
+                  value={form.amount}
+                  onChange={handleChange}
+                  min="0"
+                  step="0.01"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                <select
+                  name="status"
+                  value={form.status}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {INVOICE_STATUSES.map(status => (
+                    <option key={status} value={status}>{INVOICE_STATUS_CONFIG[status].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input
+                  type="text"
+                  name="notes"
+                  value={form.notes}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? 'Saving...' : 'Save invoice'}
+              </button>
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={startNew}
+            className="mt-4 text-blue-600 hover:text-blue-800 text-sm font-medium flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Record invoice
+          </button>
+        )}
+
+        <div className="flex gap-3 pt-6 mt-6 border-t border-gray-200">
+          <p className="flex-1 text-xs text-gray-500 self-center">
+            Disputed invoices are excluded from the actual spend until they are corrected.
+          </p>
+          <button
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
-import { ChevronDown, ChevronRight, Edit, Copy, Trash2, CopyPlus } from 'lucide-react';
+import { ChevronDown, ChevronRight, Edit, Copy, Trash2, CopyPlus, Receipt } from 'lucide-react';
 import { Campaign } from '../../types/campaign';
 import { getKpiConfig, formatKpiValue, getKpiValue } from '../../utils/kpiHelpers';
+import { useSpendBasis } from '../../hooks/useSpendBasis';
+import { useReportingCurrency } from '../../hooks/useReportingCurrency';
+import { useCostBasis } from '../../hooks/useCostBasis';
 import { CampaignStatusBadge } from '../CampaignTable/CampaignStatusBadge';
+import { ApprovalStatusBadge } from '../CampaignTable/ApprovalStatusBadge';
 import { ChannelKpiCards } from '../ChannelKpiCards';
 import { BrandCampaignBulkDuplicateModal } from '../BrandCampaignBulkDuplicateModal';
 
@@ -26,6 +30,7 @@ interface CampaignsGroupListProps {
   onEdit: (campaign: Campaign) => void;
   onDelete: (id: string, campaignName: string) => void;
   onDuplicate: (campaign: Campaign) => void;
+  onShowInvoices: (campaign: Campaign) => void;
   getStatusBadge: (status: string) => JSX.Element;
   formatBudget: (budget: number, extraBudget?: number, campaign?: Campaign) => JSX.Element;
   formatChannelMetrics: (campaign: Campaign) => JSX.Element;
@@ -37,6 +42,7 @@ export const CampaignsGroupList: React.FC<CampaignsGroupListProps> = ({
   onEdit,
   onDelete,
   onDuplicate,
+  onShowInvoices,
   getStatusBadge,
   formatBudget,
   formatChannelMetrics,
@@ -45,6 +51,9 @@ export const CampaignsGroupList: React.FC<CampaignsGroupListProps> = ({
   const [expandedChannels, setExpandedChannels] = useState<Set<string>>(new Set());
   const [expandedSubGroups, setExpandedSubGroups] = useState<Set<string>>(new Set());
   const [showBulkDuplicateModal, setShowBulkDuplicateModal] = useState<{brand: string; channel: string} | null>(null);
+  const { basis } = useSpendBasis();
+  const { convert } = useReportingCurrency();
+  const { apply: applyCostBasis } = useCostBasis();
 
   const toggleChannelExpansion = (channelName: string) => {
     const newExpanded = new Set(expandedChannels);
@@ -116,6 +125,7 @@ export const CampaignsGroupList: React.FC<CampaignsGroupListProps> = ({
       
       <td className="px-4 py-4 whitespace-nowrap">
         <CampaignStatusBadge status={campaign.status} />
+        <ApprovalStatusBadge campaign={campaign} />
       </td>
       <td className="px-4 py-4 whitespace-nowrap text-sm font-medium">
         <div className="flex space-x-2">
@@ -133,6 +143,13 @@ export const CampaignsGroupList: React.FC<CampaignsGroupListProps> = ({
           >
             <Copy className="w-4 h-4" />
           </button>
+          <button
+            onClick={() => onShowInvoices(campaign)}
+            className="text-gray-600 hover:text-gray-900 p-1 rounded hover:bg-gray-100"
+            title="Invoices"
+          >
+            <Receipt className="w-4 h-4" />
+          </button>
           <button
             onClick={() => onDelete(campaign.id!, `${campaign.brand} - ${campaign.channel}`)}
             className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
@@ -196,8 +213,8 @@ export const CampaignsGroupList: React.FC<CampaignsGroupListProps> = ({
                   {/* Channel Summary Cards - Dynamic based on visible KPIs */}
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     {(['budget', ...channelGroup.visibleKpis.filter(k => k !== 'budget')].slice(0, 4)).map((kpiKey) => {
-                      const kpiConfig = getKpiConfig(kpiKey);
-                      const value = getKpiValue(channelGroup.campaigns, channelGroup.channelName, kpiKey);
+                      const kpiConfig = getKpiConfig(kpiKey, basis);
+                      const value = getKpiValue(applyCostBasis(convert(channelGroup.campaigns).campaigns), channelGroup.channelName, kpiKey, basis);
                       const formattedValue = formatKpiValue(value, kpiConfig.format);
                       
                       return (
@@ -255,7 +272,7 @@ export const CampaignsGroupList: React.FC<CampaignsGroupListProps> = ({
 
                   {/* Channel-specific KPI Cards */}
                   <div className="mb-6">
-                    <ChannelKpiCards campaigns={channelGroup.campaigns} channelName={channelGroup.channelName} />
+                    <ChannelKpiCards campaigns={applyCostBasis(convert(channelGroup.campaigns).campaigns)} channelName={channelGroup.channelName} />
                   </div>
 
                   {/* Campaigns Table */}
@@ -1,14 +1,27 @@
 import React from 'react';
-import { Plus, BarChart3, Filter, X } from 'lucide-react';
+import { Plus, BarChart3, Filter, X, Upload, Download, Receipt, Tv, CalendarDays } from 'lucide-react';
+import { useSpendBasis } from '../../hooks/useSpendBasis';
+import { SpendBasisToggle } from '../SpendBasisToggle';
+import { CurrencySelect } from '../CurrencySelect';
+import { CostBasisToggle } from '../CostBasisToggle';
+import { CurrencyCode } from '../../types/currency';
+import { getCurrencySymbol } from '../../utils/budgetFormatter';
 
 interface CampaignsHeaderProps {
   filteredCampaignsCount: number;
   totalCampaignsCount: number;
   totalBudget: number;
   totalLeads: number;
+  missingRates: CurrencyCode[];
   viewMode: 'grouped' | 'table';
   onViewModeChange: (mode: 'grouped' | 'table') => void;
   onAddCampaign: () => void;
+  onImportCampaigns: () => void;
+  onImportActuals: () => void;
+  onImportPostBuy: () => void;
+  onExportCampaigns: () => void;
+  onExportCalendar: () => void;
+  exporting: boolean;
 }
 
 export const CampaignsHeader: React.FC<CampaignsHeaderProps> = ({
@@ -16,19 +29,32 @@ export const CampaignsHeader: React.FC<CampaignsHeaderProps> = ({
   totalCampaignsCount,
   totalBudget,
   totalLeads,
+  missingRates,
   viewMode,
   onViewModeChange,
   onAddCampaign,
+  onImportCampaigns,
+  onImportActuals,
+  onImportPostBuy,
+  onExportCampaigns,
+  onExportCalendar,
+  exporting,
 }) => {
+  const { basis } = useSpendBasis();
+
   return (
     <div className="flex justify-between items-center">
       <div>
         <h2 className="text-3xl font-bold text-gray-900">All Campaigns</h2>
         <p className="text-gray-600 mt-1">
-          {filteredCampaignsCount} campaigns • €{(totalBudget / 1000).toFixed(0)}k total budget • {totalLeads.toLocaleString()} leads
+          {filteredCampaignsCount} campaigns • {getCurrencySymbol()}{(totalBudget / 1000).toFixed(0)}k {basis === 'actual' ? 'actual spend' : 'total budget'} • {totalLeads.toLocaleString()} leads
         </p>
       </div>
       <div className="flex items-center gap-3">
+        <CurrencySelect missingRates={missingRates} />
+        <CostBasisToggle />
+        <SpendBasisToggle />
+
         {/* View Mode Toggle */}
         <div className="flex bg-gray-100 rounded-lg p-1">
           <button
@@ -54,6 +80,52 @@ export const CampaignsHeader: React.FC<CampaignsHeaderProps> = ({
           </button>
         </div>
 
+        <button
+          onClick={onExportCampaigns}
+          disabled={exporting || filteredCampaignsCount === 0}
+          title="Download the filtered campaigns as an Excel workbook"
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </button>
+
+        <button
+          onClick={onExportCalendar}
+          disabled={filteredCampaignsCount === 0}
+          title="Download the filtered campaigns as an .ics calendar"
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <CalendarDays className="w-4 h-4" />
+          Calendar
+        </button>
+
+        <button
+          onClick={onImportCampaigns}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+        >
+          <Upload className="w-4 h-4" />
+          Import
+        </button>
+
+        <button
+          onClick={onImportActuals}
+          title="Update actual spend and leads from a Meta, Google Ads or TikTok export"
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+        >
+          <Receipt className="w-4 h-4" />
+          Ad actuals
+        </button>
+
+        <button
+          onClick={onImportPostBuy}
+          title="Update spots and GRPs from a TV or Radio post-buy report"
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+        >
+          <Tv className="w-4 h-4" />
+          Post-buy
+        </button>
+
         <button
           onClick={onAddCampaign}
           className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
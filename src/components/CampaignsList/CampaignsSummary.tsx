@@ -1,5 +1,7 @@
 import React from 'react';
 import { BarChart3, Building2, Users, Calendar } from 'lucide-react';
+import { useSpendBasis } from '../../hooks/useSpendBasis';
+import { formatAmount, formatUnitCost } from '../../utils/budgetFormatter';
 
 interface CampaignsSummaryProps {
   channelGroupsCount: number;
@@ -16,6 +18,8 @@ export const CampaignsSummary: React.FC<CampaignsSummaryProps> = ({
   avgCPL,
   viewMode,
 }) => {
+  const { basis } = useSpendBasis();
+
   if (viewMode !== 'grouped' || channelGroupsCount === 0) {
     return null;
   }
@@ -37,8 +41,8 @@ export const CampaignsSummary: React.FC<CampaignsSummaryProps> = ({
       <div className="bg-green-50 p-6 rounded-2xl border border-green-100">
         <div className="flex items-center justify-between">
           <div>
-            <p className="text-sm font-medium text-green-600">Total Budget</p>
-            <p className="text-2xl font-bold text-green-900 mt-1">€{totalBudget.toLocaleString()}</p>
+            <p className="text-sm font-medium text-green-600">{basis === 'actual' ? 'Actual Spend' : 'Total Budget'}</p>
+            <p className="text-2xl font-bold text-green-900 mt-1">{formatAmount(totalBudget)}</p>
           </div>
           <div className="bg-green-500 p-3 rounded-xl">
             <Building2 className="w-6 h-6 text-white" />
@@ -62,7 +66,7 @@ export const CampaignsSummary: React.FC<CampaignsSummaryProps> = ({
         <div className="flex items-center justify-between">
           <div>
             <p className="text-sm font-medium text-orange-600">Avg CPL</p>
-            <p className="text-2xl font-bold text-orange-900 mt-1">€{avgCPL.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-orange-900 mt-1">{formatUnitCost(avgCPL)}</p>
           </div>
           <div className="bg-orange-500 p-3 rounded-xl">
             <Calendar className="w-6 h-6 text-white" />
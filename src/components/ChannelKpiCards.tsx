@@ -1,6 +1,7 @@
 import React from 'react';
 import { Campaign } from '../types/campaign';
 import { useChannels } from '../hooks/useChannels';
+import { useSpendBasis } from '../hooks/useSpendBasis';
 import { getKpiValue, getChannelKpis, getKpiConfig, formatKpiValue } from '../utils/kpiHelpers';
 
 interface ChannelKpiCardsProps {
@@ -10,6 +11,7 @@ interface ChannelKpiCardsProps {
 
 export const ChannelKpiCards: React.FC<ChannelKpiCardsProps> = ({ campaigns, channelName }) => {
   const { getChannelByName } = useChannels();
+  const { basis } = useSpendBasis();
   
   // Get visible KPIs for this channel
   const visibleKpis = getChannelKpis(channelName, getChannelByName);
@@ -29,8 +31,8 @@ export const ChannelKpiCards: React.FC<ChannelKpiCardsProps> = ({ campaigns, cha
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
       {visibleKpis.map((kpiKey) => {
-        const kpiConfig = getKpiConfig(kpiKey);
-        const value = getKpiValue(campaigns, channelName, kpiKey);
+        const kpiConfig = getKpiConfig(kpiKey, basis);
+        const value = getKpiValue(campaigns, channelName, kpiKey, basis);
         const formattedValue = formatKpiValue(value, kpiConfig.format);
         
         // Determine card color based on KPI category
@@ -2,6 +2,12 @@ import React, { useState } from 'react';
 import { Plus, Edit, Trash2, Save, X, Zap, Eye, EyeOff, AlertTriangle, Wifi, WifiOff, Palette, Facebook, Search, Music, Image, Tv, Radio, Smartphone, Monitor, Mail, Globe, Target, Settings, HelpCircle, ChevronDown, ChevronUp, Layers, Tag } from 'lucide-react';
 import { Channel, AVAILABLE_KPIS, getDefaultKPIsForChannel, getKPIOption, AVAILABLE_SUB_GROUPINGS, getDefaultSubGroupingForChannel, getSubGroupingOption, getDefaultTypeForChannel } from '../types/channel';
 import { useChannels } from '../hooks/useChannels';
+import { useEntityUsage } from '../hooks/useEntityUsage';
+import { RenameImpactNotice } from './RenameImpactNotice';
+import { ReassignDeleteWizard } from './ReassignDeleteWizard';
+import { FeeRuleFields } from './FeeRuleFields';
+import { DEFAULT_FEE_RULE, FeeRule } from '../types/costBreakdown';
+import { formatFeeRule, validateFeeRule } from '../utils/costBreakdown';
 
 // Available icons for channels with proper ES module imports
 const availableIcons = [
@@ -49,8 +55,11 @@ const colorOptions = [
 
 export const ChannelManager: React.FC = () => {
   const { channels, loading, error, addChannel, updateChannel, deleteChannel } = useChannels();
+  const { getUsageCount, reassign } = useEntityUsage('channel', channels.map(channel => channel.name));
   const [showForm, setShowForm] = useState(false);
   const [editingChannel, setEditingChannel] = useState<Channel | null>(null);
+  const [renameProgress, setRenameProgress] = useState<{ done: number; total: number } | null>(null);
+  const [reassigningChannel, setReassigningChannel] = useState<Channel | null>(null);
   const [showKPISettings, setShowKPISettings] = useState(false);
   const [showGroupingSettings, setShowGroupingSettings] = useState(false);
   const [formData, setFormData] = useState({
@@ -61,12 +70,18 @@ export const ChannelManager: React.FC = () => {
     icon: 'Zap',
     visibleKpis: [] as string[],
     subGroupingKey: null as string | null,
+    feeRule: null as FeeRule | null,
   });
   const [formError, setFormError] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setFormError(null);
+    const feeRuleError = formData.feeRule && validateFeeRule(formData.feeRule);
+    if (feeRuleError) {
+      setFormError(feeRuleError);
+      return;
+    }
     
     try {
       // Use default KPIs and sub-grouping if none selected
@@ -85,13 +100,14 @@ export const ChannelManager: React.FC = () => {
       };
 
       if (editingChannel) {
-        await updateChannel(editingChannel.id!, channelData);
+        await updateChannel(editingChannel.id!, channelData, (done, total) => setRenameProgress({ done, total }));
       } else {
         await addChannel(channelData);
       }
       
       resetForm();
     } catch (err: any) {
+      setRenameProgress(null);
       console.error('Error saving channel:', err);
       setFormError(err.message || 'Failed to save channel');
     }
@@ -107,12 +123,18 @@ export const ChannelManager: React.FC = () => {
       icon: channel.icon || 'Zap',
       visibleKpis: channel.visibleKpis || getDefaultKPIsForChannel(channel.name),
       subGroupingKey: channel.subGroupingKey !== undefined ? channel.subGroupingKey : getDefaultSubGroupingForChannel(channel.name),
+      feeRule: channel.feeRule || null,
     });
     setShowForm(true);
   };
 
   const handleDelete = async (id: string, name: string) => {
-    if (window.confirm(`Are you sure you want to delete the "${name}" channel? This action cannot be undone and may affect existing campaigns.`)) {
+    const referenced = channels.find(item => item.id === id);
+    if (referenced && getUsageCount(referenced.name) > 0) {
+      setReassigningChannel(referenced);
+      return;
+    }
+    if (window.confirm(`Move the "${name}" channel to the trash? You can restore it from the Trash tab.`)) {
       try {
         await deleteChannel(id);
       } catch (error) {
@@ -140,9 +162,11 @@ export const ChannelManager: React.FC = () => {
       icon: 'Zap',
       visibleKpis: [],
       subGroupingKey: null,
+      feeRule: null,
     });
     setEditingChannel(null);
     setShowForm(false);
+    setRenameProgress(null);
     setShowKPISettings(false);
     setShowGroupingSettings(false);
     setFormError(null);
@@ -290,6 +314,8 @@ export const ChannelManager: React.FC = () => {
                   {/*<th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Visual</th>*/}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">KPI Configuration</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Grouping Logic</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaigns</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fee rule</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -374,6 +400,12 @@ export const ChannelManager: React.FC = () => {
                           </div>
                         </div>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {getUsageCount(channel.name)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {channel.feeRule ? formatFeeRule(channel.feeRule) : <span className="text-gray-400">Default</span>}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <button
                           onClick={() => handleToggleActive(channel)}
@@ -471,6 +503,15 @@ export const ChannelManager: React.FC = () => {
                   />
                 </div>
 
+                {editingChannel && (
+                  <RenameImpactNotice
+                    kind="channel"
+                    from={editingChannel.name}
+                    to={formData.name}
+                    progress={renameProgress}
+                  />
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Channel Type
@@ -597,6 +638,12 @@ export const ChannelManager: React.FC = () => {
                     Inactive channels won't appear in campaign forms
                   </p>
                 </div>
+
+                <FeeRuleFields
+                  value={formData.feeRule}
+                  onChange={feeRule => setFormData(prev => ({ ...prev, feeRule }))}
+                  fallbackLabel={`the default rule (${formatFeeRule(DEFAULT_FEE_RULE)})`}
+                />
               </div>
 
               {/* Grouping Logic Settings */}
@@ -834,6 +881,25 @@ export const ChannelManager: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Delete Guard */}
+      {reassigningChannel && (
+        <ReassignDeleteWizard
+          kind="channel"
+          label={reassigningChannel.name}
+          usageCount={getUsageCount(reassigningChannel.name)}
+          targets={channels
+            .filter(item => item.id !== reassigningChannel.id && item.active)
+            .map(item => ({ value: item.name, label: item.name }))}
+          isActive={reassigningChannel.active}
+          onReassign={async (to, onProgress) => {
+            await reassign(reassigningChannel.name, to, onProgress);
+            await deleteChannel(reassigningChannel.id!);
+          }}
+          onDeactivate={() => updateChannel(reassigningChannel.id!, { active: false })}
+          onClose={() => setReassigningChannel(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
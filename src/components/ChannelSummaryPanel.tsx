@@ -1,7 +1,7 @@
 import React from 'react';
 import { Campaign } from '../types/campaign';
 import { useChannels } from '../hooks/useChannels';
-import { formatBudget } from '../utils/budgetFormatter';
+import { formatBudget, formatUnitCost } from '../utils/budgetFormatter';
 import { formatMetric } from '../utils/chartHelpers';
 import { Euro, Users, Target, BarChart3, TrendingUp, Calendar } from 'lucide-react';
 
@@ -175,7 +175,7 @@ export const ChannelSummaryPanel: React.FC<ChannelSummaryPanelProps> = ({
               <div>
                 <p className="text-sm font-medium text-orange-700">Average CPL</p>
                 <p className="text-2xl font-bold text-orange-900 mt-1">
-                  €{avgCPL.toFixed(2)}
+                  {formatUnitCost(avgCPL)}
                 </p>
               </div>
               <div className="bg-orange-500 p-3 rounded-lg">
@@ -0,0 +1,32 @@
+import React from 'react';
+import { useCostBasis } from '../hooks/useCostBasis';
+import { COST_BASIS_OPTIONS, CostBasis } from '../utils/costBreakdown';
+
+interface CostBasisToggleProps {
+  /** Button labels, for the Italian screens */
+  labels?: { [key in CostBasis]: string };
+}
+
+/** Switches every KPI, chart and export between net amounts and amounts including VAT */
+export const CostBasisToggle: React.FC<CostBasisToggleProps> = ({ labels }) => {
+  const { basis, setBasis } = useCostBasis();
+
+  return (
+    <div className="flex bg-gray-100 rounded-lg p-1">
+      {COST_BASIS_OPTIONS.map(option => (
+        <button
+          key={option.basis}
+          onClick={() => setBasis(option.basis)}
+          title={option.description}
+          className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            basis === option.basis
+              ? 'bg-white text-gray-900 shadow-sm'
+              : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {labels ? labels[option.basis] : option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
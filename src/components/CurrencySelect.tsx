@@ -0,0 +1,41 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useReportingCurrency } from '../hooks/useReportingCurrency';
+import { CURRENCIES, CURRENCY_CONFIG, CurrencyCode } from '../types/currency';
+
+interface CurrencySelectProps {
+  /** Currencies the exchange-rate table has no rate for: their campaigns are left unconverted */
+  missingRates?: CurrencyCode[];
+  /** Warning text, for the Italian screens */
+  missingRatesLabel?: (currencies: string) => string;
+}
+
+/** Chooses the currency every KPI and chart is converted to */
+export const CurrencySelect: React.FC<CurrencySelectProps> = ({ missingRates = [], missingRatesLabel }) => {
+  const { currency, setCurrency } = useReportingCurrency();
+
+  return (
+    <div className="flex items-center gap-2">
+      {missingRates.length > 0 && (
+        <span
+          className="text-amber-600"
+          title={missingRatesLabel
+            ? missingRatesLabel(missingRates.join(', '))
+            : `No exchange rate for ${missingRates.join(', ')}: those campaigns are not converted. Add rates in Configuration → Exchange Rates.`}
+        >
+          <AlertTriangle className="w-4 h-4" />
+        </span>
+      )}
+      <select
+        value={currency}
+        onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+        className="px-3 py-2 bg-gray-100 border-0 rounded-lg text-sm font-medium text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title={CURRENCY_CONFIG[currency].label}
+      >
+        {CURRENCIES.map(code => (
+          <option key={code} value={code}>{code}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -1,14 +1,26 @@
 import React, { useState, useMemo } from 'react';
-import { Campaign, KPIData, GRP_EFFICIENCY_THRESHOLD, HIGH_CPL_THRESHOLD, migrateStatus } from '../types/campaign';
+import { Campaign, KPIData, GRP_EFFICIENCY_THRESHOLD, HIGH_CPL_THRESHOLD, getStatusConfig, migrateStatus } from '../types/campaign';
 import { DateFilter, DateRange, getDefaultDateRange, isCampaignInDateRange } from './DateFilter';
 import { DashboardHeader } from './dashboard/DashboardHeader';
 import { DashboardEmptyState } from './dashboard/DashboardEmptyState';
 import { DashboardCharts } from './dashboard/DashboardCharts';
+import { ExecutiveReportModal } from './dashboard/ExecutiveReportModal';
+import { BudgetPlanPanel } from './BudgetPlanPanel';
 import { formatBudget } from '../utils/budgetFormatter';
-import { AlertTriangle, Calendar, Filter, X } from 'lucide-react';
+import { generateDashboardSnapshot } from '../utils/dashboardSnapshot';
+import { datedFileName, downloadBlob } from '../utils/download';
+import { AlertTriangle, Calendar, FileText, Filter, Share2, X } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { useFirestore } from '../hooks/useFirestore';
+import { useCampaigns, useEnsureCampaignPeriod } from '../hooks/useCampaigns';
 import { useChannels } from '../hooks/useChannels';
+import { useSpendBasis } from '../hooks/useSpendBasis';
+import { useReportingCampaigns } from '../hooks/useReportingCurrency';
+import { useCostBasis } from '../hooks/useCostBasis';
+import { applySpendBasis } from '../utils/spendBasis';
+import { SpendBasisToggle } from './SpendBasisToggle';
+import { CostBasisToggle } from './CostBasisToggle';
+import { CurrencySelect } from './CurrencySelect';
+import { DEFAULT_CURRENCY } from '../types/currency';
 import { useTranslation } from 'react-i18next';
 import { format } from 'date-fns';
 import { it } from 'date-fns/locale';
@@ -19,14 +31,18 @@ interface DashboardProps {
 
 export const Dashboard: React.FC<DashboardProps> = ({ campaigns }) => {
   const { user } = useAuth();
-  const { error: firestoreError } = useFirestore();
-  const { getActiveChannels } = useChannels();
+  const { error: firestoreError } = useCampaigns();
+  const { getActiveChannels, getChannelByName } = useChannels();
+  const { basis } = useSpendBasis();
+  const { basis: costBasis, apply: applyCostBasis } = useCostBasis();
   const { t } = useTranslation();
 
   const [dateRange, setDateRange] = useState<DateRange>(getDefaultDateRange());
+  useEnsureCampaignPeriod(dateRange.startDate, dateRange.endDate);
   const [statusFilter, setStatusFilter] = useState<string>('');
   const [channelFilter, setChannelFilter] = useState<string>('');
   const [showFilters, setShowFilters] = useState(false);
+  const [showReport, setShowReport] = useState(false);
 
   const activeChannels = getActiveChannels();
 
@@ -46,29 +62,34 @@ export const Dashboard: React.FC<DashboardProps> = ({ campaigns }) => {
     });
   }, [campaigns, dateRange, statusFilter, channelFilter]);
 
+  // KPIs, charts and exports are in the reporting currency and measure the selected basis: planned budget or actual spend
+  const { campaigns: reportingCampaigns, currency, missingRates } = useReportingCampaigns(filteredCampaigns);
+  const costCampaigns = useMemo(() => applyCostBasis(reportingCampaigns), [applyCostBasis, reportingCampaigns]);
+  const basisCampaigns = useMemo(() => applySpendBasis(costCampaigns, basis), [costCampaigns, basis]);
+
   // Memoized KPI data calculation
   const kpiData = useMemo((): KPIData => {
-    const totalBudget = filteredCampaigns.reduce((sum, campaign) => sum + campaign.budget, 0);
-    const totalLeads = filteredCampaigns.reduce((sum, campaign) => sum + campaign.leads, 0);
+    const totalBudget = basisCampaigns.reduce((sum, campaign) => sum + campaign.budget, 0);
+    const totalLeads = basisCampaigns.reduce((sum, campaign) => sum + campaign.leads, 0);
     const avgCPL = totalLeads > 0 ? totalBudget / totalLeads : 0;
-    const totalCampaigns = filteredCampaigns.length;
+    const totalCampaigns = basisCampaigns.length;
 
-    const extraSocialBudget = filteredCampaigns
+    const extraSocialBudget = basisCampaigns
       .filter(campaign => ['Meta', 'TikTok', 'Pinterest'].includes(campaign.channel))
       .reduce((sum, campaign) => sum + (campaign.extraSocialBudget || 0), 0);
 
-    const grpShortfallCampaigns = filteredCampaigns.filter(campaign =>
+    const grpShortfallCampaigns = basisCampaigns.filter(campaign =>
       campaign.channel === 'TV' &&
       campaign.expectedGrps &&
       campaign.achievedGrps &&
       (campaign.achievedGrps / campaign.expectedGrps) < GRP_EFFICIENCY_THRESHOLD
     ).length;
 
-    const highCPLCampaigns = filteredCampaigns.filter(campaign =>
+    const highCPLCampaigns = basisCampaigns.filter(campaign =>
       campaign.costPerLead && campaign.costPerLead > HIGH_CPL_THRESHOLD
     ).length;
 
-    const tvCampaignsWithGRP = filteredCampaigns.filter(campaign =>
+    const tvCampaignsWithGRP = basisCampaigns.filter(campaign =>
       campaign.channel === 'TV' &&
       campaign.expectedGrps &&
       campaign.achievedGrps &&
@@ -94,7 +115,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ campaigns }) => {
       highCPLCampaigns,
       avgGRPEfficiency
     };
-  }, [filteredCampaigns]);
+  }, [basisCampaigns]);
 
   // Get unique statuses for filter
   const availableStatuses = useMemo(() => {
@@ -110,6 +131,31 @@ export const Dashboard: React.FC<DashboardProps> = ({ campaigns }) => {
 
   const hasActiveFilters = statusFilter || channelFilter || dateRange.preset !== 'last-30-days';
 
+  const reportFilters = [
+    statusFilter && `Status: ${getStatusConfig(migrateStatus(statusFilter)).label}`,
+    channelFilter && `Channel: ${channelFilter}`,
+    basis === 'actual' && 'Base: spesa effettiva',
+    currency !== DEFAULT_CURRENCY && `Valuta: ${currency}`,
+    costBasis === 'gross' && 'Importi pianificati: lordi (IVA inclusa)',
+  ].filter((filter): filter is string => Boolean(filter));
+
+  const handlePublishSnapshot = () => {
+    try {
+      const blob = generateDashboardSnapshot({
+        campaigns: basisCampaigns,
+        kpiData,
+        dateRange,
+        filters: reportFilters,
+        getChannelColor: channelName => getChannelByName(channelName)?.color,
+        generatedBy: user?.email || 'Utente sconosciuto',
+      });
+      downloadBlob(blob, datedFileName('dashboard-snapshot', 'html'));
+    } catch (err) {
+      console.error('Error publishing dashboard snapshot:', err);
+      alert(`Snapshot non riuscito: ${(err as Error).message}`);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <DashboardHeader
@@ -127,10 +173,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ campaigns }) => {
             </div>
             <div>
               <h3 className="text-lg font-semibold text-yellow-900">
-                Problema di Connessione Database
+                Errore di caricamento delle campagne
               </h3>
               <p className="text-sm text-yellow-700">
-                {firestoreError}. Visualizzazione dati demo. Le modifiche non saranno salvate.
+                {firestoreError}. I dati mostrati potrebbero essere incompleti.
               </p>
             </div>
           </div>
@@ -236,7 +282,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ campaigns }) => {
                     📊 Visualizzazione dati per: {dateRange.label}
                   </h3>
                   <p className="text-sm text-blue-700">
-                    {filteredCampaigns.length} campaigns • {formatBudget(kpiData.totalBudget)} budget totale • {kpiData.totalLeads.toLocaleString()} lead
+                    {filteredCampaigns.length} campaigns • {formatBudget(kpiData.totalBudget)} {basis === 'actual' ? 'spesa effettiva' : 'budget totale'} • {kpiData.totalLeads.toLocaleString()} lead
                     {hasActiveFilters && (
                       <span className="ml-2 text-blue-600 font-medium">
                         (filtrato da {campaigns.length} campaigns totali)
@@ -245,27 +291,69 @@ export const Dashboard: React.FC<DashboardProps> = ({ campaigns }) => {
                   </p>
                 </div>
               </div>
-              <div className="text-right">
-                <div className="text-sm text-blue-600">
-                  {format(new Date(dateRange.startDate), 'dd/MM/yyyy', { locale: it })} - {format(new Date(dateRange.endDate), 'dd/MM/yyyy', { locale: it })}
-                </div>
-                <div className="text-xs text-blue-500">
-                  {dateRange.preset === 'custom' ? 'Intervallo Personalizzato' : 
-                   dateRange.preset === 'specific-month' ? 'Mese Specifico' :
-                   dateRange.preset === 'month-range' ? 'Intervallo di Mesi' :
-                   `${dateRange.preset.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}`}
+              <div className="flex items-center gap-4">
+                <div className="text-right">
+                  <div className="text-sm text-blue-600">
+                    {format(new Date(dateRange.startDate), 'dd/MM/yyyy', { locale: it })} - {format(new Date(dateRange.endDate), 'dd/MM/yyyy', { locale: it })}
+                  </div>
+                  <div className="text-xs text-blue-500">
+                    {dateRange.preset === 'custom' ? 'Intervallo Personalizzato' : 
+                     dateRange.preset === 'specific-month' ? 'Mese Specifico' :
+                     dateRange.preset === 'month-range' ? 'Intervallo di Mesi' :
+                     `${dateRange.preset.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}`}
+                  </div>
                 </div>
+                <CurrencySelect
+                  missingRates={missingRates}
+                  missingRatesLabel={currencies => `Nessun tasso di cambio per ${currencies}: queste campagne non sono convertite. Aggiungili in Configurazione → Exchange Rates.`}
+                />
+                <CostBasisToggle labels={{ net: 'Netto', gross: 'Lordo' }} />
+                <SpendBasisToggle labels={{ planned: 'Pianificato', actual: 'Effettivo' }} />
+                <button
+                  onClick={() => setShowReport(true)}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+                >
+                  <FileText className="w-4 h-4" />
+                  Report PDF
+                </button>
+                <button
+                  onClick={handlePublishSnapshot}
+                  title="Scarica una pagina HTML in sola lettura da condividere senza login"
+                  className="bg-white text-blue-700 border border-blue-300 px-4 py-2 rounded-lg hover:bg-blue-50 transition-colors flex items-center gap-2"
+                >
+                  <Share2 className="w-4 h-4" />
+                  Pubblica snapshot
+                </button>
               </div>
             </div>
           </div>
 
+          <BudgetPlanPanel
+            campaigns={campaigns}
+            startDate={dateRange.startDate}
+            endDate={dateRange.endDate}
+            periodLabel={dateRange.label}
+            channel={channelFilter || undefined}
+          />
+
           <DashboardCharts
-            filteredCampaigns={filteredCampaigns}
+            filteredCampaigns={basisCampaigns}
+            plannedCampaigns={costCampaigns}
             kpiData={kpiData}
             dateRange={dateRange}
           />
         </>
       )}
+
+      {showReport && (
+        <ExecutiveReportModal
+          campaigns={basisCampaigns}
+          kpiData={kpiData}
+          dateRange={dateRange}
+          filters={reportFilters}
+          onClose={() => setShowReport(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
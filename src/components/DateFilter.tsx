@@ -715,7 +715,7 @@ export const getDefaultDateRange = (): DateRange => {
 };
 
 // Helper function to check if campaigns fall within date range
-export const isCampaignInDateRange = (campaign: { startDate: string; endDate: string }, dateRange: DateRange): boolean => {
+export const isCampaignInDateRange = (campaign: { startDate: string; endDate: string }, dateRange: Pick<DateRange, 'startDate' | 'endDate'>): boolean => {
   const campaignStart = new Date(campaign.startDate);
   const campaignEnd = new Date(campaign.endDate);
   const rangeStart = new Date(dateRange.startDate);
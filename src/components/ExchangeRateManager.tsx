@@ -0,0 +1,298 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowLeftRight, Plus, Save, Edit, Trash2, Upload, X, AlertTriangle } from 'lucide-react';
+import { CURRENCIES, CURRENCY_CONFIG, CurrencyCode, DEFAULT_CURRENCY, ExchangeRate } from '../types/currency';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { useReportingCurrency } from '../hooks/useReportingCurrency';
+import { ExchangeRateParseResult, parseExchangeRateSheet } from '../utils/exchangeRateImport';
+import { readSpreadsheet, SPREADSHEET_ACCEPT } from '../utils/spreadsheet';
+import { toStatusDate } from '../utils/campaignStatus';
+import { NotificationType } from './Notification';
+
+interface ExchangeRateManagerProps {
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+const QUOTED_CURRENCIES = CURRENCIES.filter(currency => currency !== DEFAULT_CURRENCY);
+
+const emptyForm = () => ({ currency: QUOTED_CURRENCIES[0], date: toStatusDate(new Date()), rate: '' });
+
+export const ExchangeRateManager: React.FC<ExchangeRateManagerProps> = ({ showNotification }) => {
+  const { rates, loading, saveRate, deleteRate, importRates } = useExchangeRates();
+  const { currency: reportingCurrency, setCurrency } = useReportingCurrency();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [currencyFilter, setCurrencyFilter] = useState<CurrencyCode | ''>('');
+  const [importFile, setImportFile] = useState<{ name: string; result: ExchangeRateParseResult } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Rates are sorted newest first by the repository
+  const latestRates = useMemo(
+    () => QUOTED_CURRENCIES.map(currency => ({ currency, rate: rates.find(rate => rate.currency === currency) })),
+    [rates]
+  );
+  const visibleRates = currencyFilter ? rates.filter(rate => rate.currency === currencyFilter) : rates;
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const handleEdit = (rate: ExchangeRate) => {
+    setForm({ currency: rate.currency, date: rate.date, rate: String(rate.rate) });
+    setEditingId(rate.id!);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await saveRate({ currency: form.currency, date: form.date, rate: parseFloat(form.rate.replace(',', '.')) }, editingId || undefined);
+      showNotification(`${form.currency} rate for ${form.date} ${editingId ? 'updated' : 'added'}.`, 'success');
+      resetForm();
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to save the exchange rate.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!window.confirm(`Delete the ${rate.currency} rate of ${rate.date}? Campaigns starting on that date will use the previous rate.`)) return;
+    try {
+      await deleteRate(rate.id!);
+      if (editingId === rate.id) resetForm();
+      showNotification(`${rate.currency} rate of ${rate.date} deleted.`, 'info');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to delete the exchange rate.', 'error');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportFile({ name: file.name, result: parseExchangeRateSheet(await readSpreadsheet(file)) });
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to read the file.', 'error');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile) return;
+    try {
+      setSaving(true);
+      const { added, updated, unchanged } = await importRates(importFile.result.rates);
+      showNotification(`Imported ${importFile.name}: ${added} rates added, ${updated} updated, ${unchanged} unchanged.`, 'success');
+      setImportFile(null);
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to import the exchange rates.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading exchange rates...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Exchange Rates</h2>
+          <p className="text-gray-600 mt-1">
+            Dated rates for one {DEFAULT_CURRENCY}, used to convert campaigns contracted in other currencies
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700">Reporting currency</label>
+          <select
+            value={reportingCurrency}
+            onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {CURRENCIES.map(currency => (
+              <option key={currency} value={currency}>{currency} - {CURRENCY_CONFIG[currency].label}</option>
+            ))}
+          </select>
+          <input ref={fileInput} type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFileChange} className="hidden" />
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {latestRates.map(({ currency, rate }) => (
+          <div key={currency} className="p-4 rounded-2xl border bg-white border-gray-100 shadow-sm">
+            <p className="text-sm font-medium text-gray-500">{CURRENCY_CONFIG[currency].label}</p>
+            {rate ? (
+              <>
+                <p className="text-2xl font-bold text-gray-900 mt-1">1 {DEFAULT_CURRENCY} = {rate.rate} {currency}</p>
+                <p className="text-xs text-gray-500 mt-1">Since {rate.date}</p>
+              </>
+            ) : (
+              <p className="text-sm text-amber-700 mt-2 flex items-center gap-1">
+                <AlertTriangle className="w-4 h-4" />
+                No rate: {currency} campaigns are not converted
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {importFile && (
+        <div className="bg-blue-50 border border-blue-200 rounded-2xl p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-blue-900">
+              {importFile.name}: {importFile.result.rates.length} rates ready to import
+              {importFile.result.errors.length > 0 && `, ${importFile.result.errors.length} rows skipped`}
+            </p>
+            <button onClick={() => setImportFile(null)} className="text-blue-700 hover:text-blue-900">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {importFile.result.errors.length > 0 && (
+            <ul className="text-xs text-red-700 space-y-1 max-h-32 overflow-y-auto">
+              {importFile.result.errors.slice(0, 20).map(error => (
+                <li key={`${error.rowNumber}-${error.message}`}>Row {error.rowNumber}: {error.message}</li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={handleImport}
+            disabled={saving || importFile.result.rates.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Importing...' : 'Import rates'}
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+          <select
+            value={form.currency}
+            onChange={(e) => setForm(prev => ({ ...prev, currency: e.target.value as CurrencyCode }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {QUOTED_CURRENCIES.map(currency => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Valid from</label>
+          <input
+            type="date"
+            value={form.date}
+            onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Units for 1 {DEFAULT_CURRENCY}</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={form.rate}
+            onChange={(e) => setForm(prev => ({ ...prev, rate: e.target.value }))}
+            placeholder="0.9412"
+            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:bg-gray-300"
+        >
+          {editingId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+          {editingId ? 'Update rate' : 'Add rate'}
+        </button>
+        {editingId && (
+          <button type="button" onClick={resetForm} className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50">
+            Cancel
+          </button>
+        )}
+      </form>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Rate history</h3>
+          <select
+            value={currencyFilter}
+            onChange={(e) => setCurrencyFilter(e.target.value as CurrencyCode | '')}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All currencies</option>
+            {QUOTED_CURRENCIES.map(currency => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+        </div>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid from</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Currency</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleRates.map(rate => (
+                <tr key={rate.id} className={editingId === rate.id ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                  <td className="px-4 py-2 text-sm text-gray-900">{rate.date}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900">{rate.currency}</td>
+                  <td className="px-4 py-2 text-sm text-right font-medium text-gray-900">{rate.rate}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{rate.source === 'import' ? 'Imported' : 'Manual'}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleEdit(rate)}
+                      className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                      title="Edit rate"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rate)}
+                      className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                      title="Delete rate"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {visibleRates.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                    <ArrowLeftRight className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                    <p className="text-lg font-medium">No exchange rates yet</p>
+                    <p className="text-sm">Add them by hand or import the ECB reference rates as CSV</p>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
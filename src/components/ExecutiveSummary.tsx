@@ -5,7 +5,9 @@ import { BudgetAllocationHorizontalChart } from './charts/BudgetAllocationHorizo
 import { Trophy, AlertTriangle, TrendingDown, Users, Target } from 'lucide-react';
 import { useCampaignDataByChannelType } from '../hooks/useCampaignDataByChannelType';
 import { useChannels } from '../hooks/useChannels';
+import { formatAmount, formatUnitCost } from '../utils/budgetFormatter';
 import { useTranslation } from 'react-i18next';
+import { getUnderperformingCampaigns, hasGRPShortfall, isHighCPLCampaign } from '../utils/chartHelpers';
 
 interface ExecutiveSummaryProps {
   campaigns: Campaign[];
@@ -20,19 +22,7 @@ export const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ campaigns, k
   const budgetAllocationData = getBudgetAllocationData('digital').concat(getBudgetAllocationData('traditional'));
   const topCampaigns = getTopCampaignsByLeads(3);
 
-  // Get underperforming campaigns
-  const underperformingCampaigns = campaigns.filter(campaign => {
-    // High CPL campaigns
-    if (campaign.costPerLead && campaign.costPerLead > 150) return true;
-    
-    // TV campaigns with GRP shortfall
-    if (campaign.channel === 'TV' && 
-        campaign.expectedGrps && 
-        campaign.achievedGrps &&
-        (campaign.achievedGrps / campaign.expectedGrps) < 0.9) return true;
-    
-    return false;
-  }).slice(0, 5);
+  const underperformingCampaigns = getUnderperformingCampaigns(campaigns);
 
   const getChannelColor = (channelName: string) => {
     const channel = getChannelByName(channelName);
@@ -77,7 +67,7 @@ export const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ campaigns, k
                         {campaign.brand} - {campaign.channel}
                       </div>
                       <div className="text-sm text-gray-500">
-                        {campaign.region} • €{campaign.budget.toLocaleString()}
+                        {campaign.region} • {formatAmount(campaign.budget)}
                       </div>
                     </div>
                   </div>
@@ -118,11 +108,8 @@ export const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ campaigns, k
           
           <div className="space-y-3">
             {underperformingCampaigns.map((campaign) => {
-              const isHighCPL = campaign.costPerLead && campaign.costPerLead > 150;
-              const isGRPShortfall = campaign.channel === 'TV' && 
-                campaign.expectedGrps && 
-                campaign.achievedGrps &&
-                (campaign.achievedGrps / campaign.expectedGrps) < 0.9;
+              const isHighCPL = isHighCPLCampaign(campaign);
+              const isGRPShortfall = hasGRPShortfall(campaign);
 
               return (
                 <div key={campaign.id} className="bg-white p-4 rounded-lg border border-red-200">
@@ -146,7 +133,7 @@ export const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ campaigns, k
                         <div className="flex items-center gap-1 text-red-600">
                           <Target className="w-4 h-4" />
                           <span className="text-sm font-medium">
-                            CPL Alto: €{campaign.costPerLead!.toFixed(2)}
+                            CPL Alto: {formatUnitCost(campaign.costPerLead!)}
                           </span>
                         </div>
                       )}
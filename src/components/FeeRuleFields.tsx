@@ -0,0 +1,50 @@
+import React from 'react';
+import { DEFAULT_FEE_RULE, FeeRule } from '../types/costBreakdown';
+
+interface FeeRuleFieldsProps {
+  value: FeeRule | null;
+  onChange: (rule: FeeRule | null) => void;
+  /** What applies without a rule of this entity's own, e.g. "the channel's rule" */
+  fallbackLabel: string;
+}
+
+const FIELDS: { key: keyof FeeRule; label: string }[] = [
+  { key: 'discountPct', label: 'Discount %' },
+  { key: 'commissionPct', label: 'Agency commission %' },
+  { key: 'vatPct', label: 'VAT %' },
+];
+
+/** Discount, agency commission and VAT prefilled in the cost breakdown of campaigns */
+export const FeeRuleFields: React.FC<FeeRuleFieldsProps> = ({ value, onChange, fallbackLabel }) => (
+  <div>
+    <label className="flex items-center">
+      <input
+        type="checkbox"
+        checked={value !== null}
+        onChange={e => onChange(e.target.checked ? { ...DEFAULT_FEE_RULE } : null)}
+        className="mr-2 text-blue-600 focus:ring-blue-500"
+      />
+      <span className="text-sm font-medium text-gray-700">Custom fee rule</span>
+    </label>
+    <p className="text-xs text-gray-500 mt-1">
+      {value ? 'Prefilled in campaign cost breakdowns, and the VAT of gross reporting' : `Campaigns use ${fallbackLabel}`}
+    </p>
+    {value && (
+      <div className="grid grid-cols-3 gap-3 mt-3">
+        {FIELDS.map(({ key, label }) => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={value[key]}
+              onChange={e => onChange({ ...value, [key]: parseFloat(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Campaign } from '../types/campaign';
 import { GanttChart } from './charts/GanttChart';
+import { CurrencySelect } from './CurrencySelect';
+import { useReportingCampaigns } from '../hooks/useReportingCurrency';
 import { LayoutGrid } from 'lucide-react';
 
 interface GanttPageProps {
@@ -8,6 +10,9 @@ interface GanttPageProps {
 }
 
 export const GanttPage: React.FC<GanttPageProps> = ({ campaigns }) => {
+  // Budgets are prorated in the reporting currency
+  const { campaigns: reportingCampaigns, missingRates } = useReportingCampaigns(campaigns);
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -15,13 +20,17 @@ export const GanttPage: React.FC<GanttPageProps> = ({ campaigns }) => {
           <h2 className="text-3xl font-bold text-gray-900">Gantt Generale Campagne</h2>
           <p className="text-gray-600 mt-1">Visione d'insieme temporale di tutte le campagne attive e pianificate.</p>
         </div>
+        <CurrencySelect
+          missingRates={missingRates}
+          missingRatesLabel={currencies => `Nessun tasso di cambio per ${currencies}: queste campagne non sono convertite. Aggiungili in Configurazione → Exchange Rates.`}
+        />
       </div>
       <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
         <div className="flex items-center gap-2 mb-4 text-lg font-semibold text-gray-800">
             <LayoutGrid className="w-5 h-5 text-blue-600"/>
             Timeline Panoramica
         </div>
-        <GanttChart campaigns={campaigns} />
+        <GanttChart campaigns={reportingCampaigns} />
       </div>
     </div>
   );
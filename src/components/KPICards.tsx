@@ -1,8 +1,9 @@
 import React from 'react';
 import { Euro, Users, Target, BarChart3, Smartphone, TrendingDown, AlertTriangle, Tv } from 'lucide-react';
-import { KPIData } from '../types/campaign';
-import { formatBudget } from '../utils/budgetFormatter';
+import { HIGH_CPL_THRESHOLD, KPIData } from '../types/campaign';
+import { formatAmount, formatBudget, formatUnitCost } from '../utils/budgetFormatter';
 import { useTranslation } from 'react-i18next';
+import { useSpendBasis } from '../hooks/useSpendBasis';
 
 interface KPICardsProps {
   data: KPIData;
@@ -10,10 +11,11 @@ interface KPICardsProps {
 
 export const KPICards: React.FC<KPICardsProps> = ({ data }) => {
   const { t } = useTranslation();
+  const { basis } = useSpendBasis();
   
   const cards = [
     {
-      title: 'Budget Totale',
+      title: basis === 'actual' ? 'Spesa Effettiva' : 'Budget Totale',
       value: formatBudget(data.totalBudget),
       icon: Euro,
       color: 'bg-blue-500',
@@ -30,7 +32,7 @@ export const KPICards: React.FC<KPICardsProps> = ({ data }) => {
     },
     {
       title: 'CPL Medio',
-      value: `€${data.avgCPL.toFixed(2)}`,
+      value: formatUnitCost(data.avgCPL),
       icon: Target,
       color: 'bg-orange-500',
       bgColor: 'bg-orange-50',
@@ -69,7 +71,7 @@ export const KPICards: React.FC<KPICardsProps> = ({ data }) => {
       color: 'bg-yellow-500',
       bgColor: 'bg-yellow-50',
       borderColor: 'border-yellow-100',
-      alert: data.highCPLCampaigns > 0 ? `${data.highCPLCampaigns} campaigns oltre €150 CPL` : null,
+      alert: data.highCPLCampaigns > 0 ? `${data.highCPLCampaigns} campaigns oltre ${formatAmount(HIGH_CPL_THRESHOLD)} CPL` : null,
     },
     {
       title: 'Efficienza GRP Media',
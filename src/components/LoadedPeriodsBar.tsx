@@ -0,0 +1,37 @@
+import React from 'react';
+import { CalendarRange, History } from 'lucide-react';
+import { useCampaignPeriods } from '../hooks/useCampaigns';
+import { getFiscalYear, getFiscalYearLabel, getFiscalYearPeriod } from '../utils/fiscalYear';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+// Campaigns are loaded by period: shows what is loaded and extends it one fiscal year at a time
+export const LoadedPeriodsBar: React.FC = () => {
+  const { loadedPeriods, loadingPeriods, ensurePeriod } = useCampaignPeriods();
+
+  const earliest = loadedPeriods[0];
+  const previousFiscalYear = getFiscalYear(earliest ? new Date(earliest.startDate) : new Date()) - 1;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mt-4 pt-4 border-t border-gray-200 text-sm text-gray-600">
+      <CalendarRange className="w-4 h-4 text-gray-500" />
+      <span>
+        Campaigns loaded for{' '}
+        {loadedPeriods.length === 0
+          ? '—'
+          : loadedPeriods.map(period => `${formatDate(period.startDate)} – ${formatDate(period.endDate)}`).join(', ')}
+      </span>
+      {loadingPeriods && (
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+      )}
+      <button
+        onClick={() => ensurePeriod(getFiscalYearPeriod(previousFiscalYear))}
+        disabled={loadingPeriods}
+        className="ml-auto px-3 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
+      >
+        <History className="w-4 h-4" />
+        Load {getFiscalYearLabel(previousFiscalYear)}
+      </button>
+    </div>
+  );
+};
@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import { Plus, Edit, Trash2, Save, X, User, Eye, EyeOff, AlertTriangle, Wifi, WifiOff } from 'lucide-react';
 import { Manager } from '../types/manager';
 import { useManagers } from '../hooks/useManagers';
+import { useEntityUsage } from '../hooks/useEntityUsage';
+import { RenameImpactNotice } from './RenameImpactNotice';
+import { ReassignDeleteWizard } from './ReassignDeleteWizard';
 import { NotificationType } from './Notification'; // Importa il tipo di notifica
 
 // Aggiungiamo la nuova prop per ricevere la funzione di notifica
@@ -11,15 +14,18 @@ interface ManagerManagerProps {
 
 export const ManagerManager: React.FC<ManagerManagerProps> = ({ showNotification }) => {
   const { managers, loading, error, addManager, updateManager, deleteManager } = useManagers();
+  const { getUsageCount, reassign } = useEntityUsage('manager', managers.map(manager => manager.initials));
   const [showForm, setShowForm] = useState(false);
   const [editingManager, setEditingManager] = useState<Manager | null>(null);
+  const [renameProgress, setRenameProgress] = useState<{ done: number; total: number } | null>(null);
+  const [reassigningManager, setReassigningManager] = useState<Manager | null>(null);
   const [formData, setFormData] = useState({ name: '', initials: '', active: true });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
       if (editingManager) {
-        await updateManager(editingManager.id!, formData);
+        await updateManager(editingManager.id!, formData, (done, total) => setRenameProgress({ done, total }));
         showNotification('Manager aggiornato con successo!', 'success');
       } else {
         await addManager(formData);
@@ -27,15 +33,21 @@ export const ManagerManager: React.FC<ManagerManagerProps> = ({ showNotification
       }
       resetForm();
     } catch (err: any) {
+      setRenameProgress(null);
       showNotification(err.message || 'Si è verificato un errore', 'error');
     }
   };
 
   const handleDelete = async (id: string, name: string) => {
-    if (window.confirm(`Sei sicuro di voler eliminare "${name}"?`)) {
+    const referenced = managers.find(item => item.id === id);
+    if (referenced && getUsageCount(referenced.initials) > 0) {
+      setReassigningManager(referenced);
+      return;
+    }
+    if (window.confirm(`Spostare "${name}" nel cestino? Potrai ripristinarlo dalla scheda Trash.`)) {
       try {
         await deleteManager(id);
-        showNotification(`Manager "${name}" eliminato.`, 'info');
+        showNotification(`Manager "${name}" spostato nel cestino.`, 'info');
       } catch (err: any) {
         showNotification(err.message || 'Errore durante l\'eliminazione', 'error');
       }
@@ -61,6 +73,7 @@ export const ManagerManager: React.FC<ManagerManagerProps> = ({ showNotification
     setFormData({ name: '', initials: '', active: true });
     setEditingManager(null);
     setShowForm(false);
+    setRenameProgress(null);
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -143,6 +156,7 @@ export const ManagerManager: React.FC<ManagerManagerProps> = ({ showNotification
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Manager</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Initials</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaigns</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -167,6 +181,9 @@ export const ManagerManager: React.FC<ManagerManagerProps> = ({ showNotification
                         {manager.initials}
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {getUsageCount(manager.initials)}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <button
                         onClick={() => handleToggleActive(manager)}
@@ -267,6 +284,15 @@ export const ManagerManager: React.FC<ManagerManagerProps> = ({ showNotification
                 </p>
               </div>
 
+              {editingManager && (
+                <RenameImpactNotice
+                  kind="manager"
+                  from={editingManager.initials}
+                  to={formData.initials}
+                  progress={renameProgress}
+                />
+              )}
+
               <div>
                 <label className="flex items-center">
                   <input
@@ -303,6 +329,25 @@ export const ManagerManager: React.FC<ManagerManagerProps> = ({ showNotification
           </div>
         </div>
       )}
+
+      {/* Delete Guard */}
+      {reassigningManager && (
+        <ReassignDeleteWizard
+          kind="manager"
+          label={reassigningManager.name}
+          usageCount={getUsageCount(reassigningManager.initials)}
+          targets={managers
+            .filter(item => item.id !== reassigningManager.id && item.active)
+            .map(item => ({ value: item.initials, label: `${item.name} (${item.initials})` }))}
+          isActive={reassigningManager.active}
+          onReassign={async (to, onProgress) => {
+            await reassign(reassigningManager.initials, to, onProgress);
+            await deleteManager(reassigningManager.id!);
+          }}
+          onDeactivate={() => updateManager(reassigningManager.id!, { active: false })}
+          onClose={() => setReassigningManager(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
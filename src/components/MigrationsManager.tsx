@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Database, Play, Eye, CheckCircle, Clock, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useMigrations } from '../hooks/useMigrations';
+import { MigrationRunResult } from '../migrations';
+import { formatAuditValue } from '../utils/campaignAudit';
+import { NotificationType } from './Notification';
+
+interface MigrationsManagerProps {
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+const RESULT_BADGES: { [key in MigrationRunResult['status']]: { label: string; className: string } } = {
+  'applied': { label: 'Applied', className: 'bg-green-100 text-green-800' },
+  'already-applied': { label: 'Already applied', className: 'bg-gray-100 text-gray-700' },
+  'dry-run': { label: 'Dry run', className: 'bg-blue-100 text-blue-800' },
+  'failed': { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  'skipped': { label: 'Skipped', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+export const MigrationsManager: React.FC<MigrationsManagerProps> = ({ showNotification }) => {
+  const {
+    migrations,
+    pendingMigrations,
+    getRecord,
+    loading,
+    error,
+    results,
+    isDryRun,
+    running,
+    progress,
+    dryRun,
+    runPending,
+  } = useMigrations();
+  const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set());
+
+  const toggleResult = (id: string) => {
+    const newExpanded = new Set(expandedResults);
+    if (newExpanded.has(id)) {
+      newExpanded.delete(id);
+    } else {
+      newExpanded.add(id);
+    }
+    setExpandedResults(newExpanded);
+  };
+
+  const handleDryRun = async () => {
+    try {
+      const runResults = await dryRun();
+      const affected = runResults.reduce((sum, result) => sum + result.items.length, 0);
+      showNotification(`Dry run complete: ${affected} documents would change.`, 'info');
+    } catch (err) {
+      showNotification((err as Error).message || 'Dry run failed.', 'error');
+    }
+  };
+
+  const handleRun = async () => {
+    if (!window.confirm(`Apply ${pendingMigrations.length} pending migrations? Run a dry run first to review the changes.`)) return;
+    try {
+      const runResults = await runPending();
+      const failed = runResults.find(result => result.status === 'failed');
+      if (failed) {
+        showNotification(`Migration ${failed.migration.id} failed: ${failed.error}`, 'error');
+      } else {
+        showNotification('All pending migrations applied.', 'success');
+      }
+    } catch (err) {
+      showNotification((err as Error).message || 'Migration run failed.', 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading migrations...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Data Migrations</h2>
+          <p className="text-gray-600 mt-1">Versioned, one-time fixes to stored data</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleDryRun}
+            disabled={running || pendingMigrations.length === 0}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Eye className="w-4 h-4" />
+            Dry Run
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={running || pendingMigrations.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" />
+            Run Pending ({pendingMigrations.length})
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-4 flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-600" />
+          <p className="text-sm text-yellow-700">{error}</p>
+        </div>
+      )}
+
+      {/* Progress */}
+      {running && (
+        <div className="bg-blue-50 border border-blue-200 rounded-2xl p-4">
+          <div className="flex items-center justify-between text-sm text-blue-900 mb-2">
+            <span className="font-medium">
+              {isDryRun ? 'Planning changes...' : `Applying ${progress?.migrationId || '...'}`}
+            </span>
+            {progress && progress.total > 0 && (
+              <span>{progress.done} / {progress.total}</span>
+            )}
+          </div>
+          <div className="w-full bg-blue-100 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Migration List */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Migration</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Collection</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {migrations.map(migration => {
+              const record = getRecord(migration.id);
+              return (
+                <tr key={migration.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{migration.id}</div>
+                    <div className="text-sm text-gray-500">{migration.description}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{migration.collectionName}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {record ? (
+                      <div>
+                        <span className="inline-flex items-center gap-1 text-sm text-green-700">
+                          <CheckCircle className="w-4 h-4" />
+                          Applied
+                        </span>
+                        <div className="text-xs text-gray-500">
+                          {new Date(record.appliedAt).toLocaleString()} • {record.affectedCount} docs
+                          {record.appliedBy ? ` • ${record.appliedBy}` : ''}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 text-sm text-orange-600">
+                        <Clock className="w-4 h-4" />
+                        Pending{migration.autoApply ? ' (automatic)' : ''}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Last Run Results */}
+      {results && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <Database className="w-5 h-5" />
+            {isDryRun ? 'Dry Run — Documents That Would Change' : 'Last Run'}
+          </h3>
+          <div className="space-y-3">
+            {results.map(result => {
+              const badge = RESULT_BADGES[result.status];
+              const isExpanded = expandedResults.has(result.migration.id);
+              return (
+                <div key={result.migration.id} className="border border-gray-200 rounded-lg">
+                  <button
+                    onClick={() => toggleResult(result.migration.id)}
+                    disabled={result.items.length === 0}
+                    className="w-full flex items-center justify-between px-4 py-3 text-left"
+                  >
+                    <div className="flex items-center gap-2">
+                      {result.items.length > 0 && (isExpanded
+                        ? <ChevronDown className="w-4 h-4 text-gray-400" />
+                        : <ChevronRight className="w-4 h-4 text-gray-400" />)}
+                      <span className="text-sm font-medium text-gray-900">{result.migration.id}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>{badge.label}</span>
+                    </div>
+                    <span className="text-sm text-gray-500">
+                      {result.error || `${result.items.length} documents`}
+                    </span>
+                  </button>
+                  {isExpanded && (
+                    <div className="border-t border-gray-100 px-4 py-3 max-h-80 overflow-y-auto">
+                      <table className="w-full text-xs">
+                        <tbody className="divide-y divide-gray-100">
+                          {result.items.map((item, index) => (
+                            <tr key={item.documentId || `new-${index}`}>
+                              <td className="py-1 pr-3 text-gray-900 align-top">
+                                {item.label}
+                                {item.documentId && <div className="text-gray-400">{item.documentId}</div>}
+                              </td>
+                              <td className="py-1 text-gray-600">
+                                {item.changes.map(change => (
+                                  <div key={change.field}>
+                                    <span className="font-medium">{change.field}</span>:{' '}
+                                    <span className="text-red-600 line-through">{formatAuditValue(change.before)}</span>
+                                    {' → '}
+                                    <span className="text-green-700">{formatAuditValue(change.after)}</span>
+                                  </div>
+                                ))}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
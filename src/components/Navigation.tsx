@@ -2,7 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import {
   Search, Music, Image, Tv, Radio, Calendar, Building2, LogOut,
   ChevronDown, BarChart3, Menu, X, Users, Zap, Facebook, Smartphone,
-  Monitor, Mail, Globe, Target, List, Settings, Antenna, MapPin, LayoutGrid
+  Monitor, Mail, Globe, Target, List, Settings, Antenna, MapPin, LayoutGrid, Trash2, Database, RefreshCw, DatabaseBackup, Wallet, ArrowLeftRight,
+  ClipboardCheck, ShieldCheck
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { useChannels } from '../hooks/useChannels';
@@ -48,8 +49,8 @@ export const Navigation: React.FC<NavigationProps> = ({ activeTab, onTabChange }
   const { t, i18n } = useTranslation();
 
   const activeChannels = getActiveChannels();
-  const mainTabs = ['Dashboard', 'Planner']; // Rimosso 'Campaigns' e 'Gantt'
-  const configTabs = ['Brands', 'Managers', 'Channels', 'Broadcasters', 'Regions'];
+  const mainTabs = ['Dashboard', 'Planner', 'Approvals']; // Rimosso 'Campaigns' e 'Gantt'
+  const configTabs = ['Brands', 'Managers', 'Channels', 'Broadcasters', 'Regions', 'Budget Plans', 'Exchange Rates', 'Approvers', 'Trash', 'Migrations', 'Automation', 'Backup'];
   
   const isCampaignsTabActive = activeTab === 'Campaigns' || activeTab === 'Gantt';
   const isChannelActive = activeChannels.some(channel => channel.name === activeTab);
@@ -110,11 +111,19 @@ export const Navigation: React.FC<NavigationProps> = ({ activeTab, onTabChange }
       case 'Campaigns': return List;
       case 'Gantt': return LayoutGrid;
       case 'Planner': return Calendar;
+      case 'Approvals': return ClipboardCheck;
       case 'Brands': return Building2;
       case 'Managers': return Users;
       case 'Channels': return Zap;
       case 'Broadcasters': return Antenna;
       case 'Regions': return MapPin;
+      case 'Budget Plans': return Wallet;
+      case 'Exchange Rates': return ArrowLeftRight;
+      case 'Approvers': return ShieldCheck;
+      case 'Trash': return Trash2;
+      case 'Migrations': return Database;
+      case 'Automation': return RefreshCw;
+      case 'Backup': return DatabaseBackup;
       default: return Calendar;
     }
   };
@@ -3,14 +3,21 @@ import { Calendar, Plus, Target, TrendingUp, BarChart3, Edit } from 'lucide-reac
 import { Campaign, formatMetric, getChannelMetrics } from '../types/campaign';
 import { CampaignForm } from './CampaignForm';
 import { DateFilter, DateRange, getDefaultDateRange, isCampaignInDateRange } from './DateFilter';
-import { generatePeriodOptions, isCampaignInPeriod } from '../utils/dateHelpers';
+import { generatePeriodOptions, getPeriodDateRange, isCampaignInPeriod } from '../utils/dateHelpers';
+import { BudgetPlanPanel } from './BudgetPlanPanel';
 import { useChannels } from '../hooks/useChannels';
+import { useEnsureCampaignPeriod } from '../hooks/useCampaigns';
+import { useReportingCampaigns } from '../hooks/useReportingCurrency';
+import { CurrencySelect } from './CurrencySelect';
+import { formatAmount, getCurrencySymbol } from '../utils/budgetFormatter';
+import { getCampaignCurrency } from '../utils/currency';
 import { useTranslation } from 'react-i18next';
+import { UpdateOptions } from '../repositories';
 
 interface PlannerProps {
   campaigns: Campaign[];
   onAdd: (campaign: Omit<Campaign, 'id'>) => void;
-  onUpdate: (id: string, updates: Partial<Campaign>) => void;
+  onUpdate: (id: string, updates: Partial<Campaign>, options?: UpdateOptions) => void | Promise<void>;
 }
 
 type ViewType = 'monthly' | 'quarterly' | 'custom';
@@ -27,6 +34,19 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
   const { quarters, months } = generatePeriodOptions(2025);
   const periodOptions = viewType === 'quarterly' ? quarters : months;
 
+  // Period names end with their year ("Q2 2025", "February 2025"); load that whole year
+  const periodYear = selectedPeriod.slice(-4);
+  useEnsureCampaignPeriod(
+    viewType === 'custom' ? customDateRange.startDate : `${periodYear}-01-01`,
+    viewType === 'custom' ? customDateRange.endDate : `${periodYear}-12-31`
+  );
+
+  // Same range as the period selector, for the budget plan envelopes
+  const periodRange = useMemo(
+    () => (viewType === 'custom' ? customDateRange : getPeriodDateRange(selectedPeriod, viewType)),
+    [viewType, customDateRange, selectedPeriod]
+  );
+
   // Filter campaigns based on selected period and view type
   const filteredCampaigns = useMemo(() => {
     if (viewType === 'custom') {
@@ -40,13 +60,16 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
     );
   }, [campaigns, selectedPeriod, viewType, customDateRange]);
 
-  const plannedCampaigns = filteredCampaigns.filter(c => c.status === 'PLANNED');
-  const confirmedCampaigns = filteredCampaigns.filter(c => c.status !== 'PLANNED');
+  // Totals are in the reporting currency; the campaigns table shows each campaign in its own
+  const { campaigns: reportingCampaigns, missingRates } = useReportingCampaigns(filteredCampaigns);
+
+  const plannedCampaigns = reportingCampaigns.filter(c => c.status === 'PLANNED');
+  const confirmedCampaigns = reportingCampaigns.filter(c => c.status !== 'PLANNED');
 
   const quarterlyBudget = plannedCampaigns.reduce((sum, c) => sum + c.budget, 0);
   const confirmedBudget = confirmedCampaigns.reduce((sum, c) => sum + c.budget, 0);
 
-  const budgetByChannel = filteredCampaigns.reduce((acc, campaign) => {
+  const budgetByChannel = reportingCampaigns.reduce((acc, campaign) => {
     acc[campaign.channel] = (acc[campaign.channel] || 0) + campaign.budget;
     return acc;
   }, {} as Record<string, number>);
@@ -61,11 +84,12 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
     return channel?.icon || 'Zap';
   };
 
-  const handleFormSubmit = (campaignData: Omit<Campaign, 'id'>) => {
+  // Errors (including edit conflicts) propagate to CampaignForm, which stays open to handle them
+  const handleFormSubmit = async (campaignData: Omit<Campaign, 'id'>, options?: UpdateOptions) => {
     if (editingCampaign) {
-      onUpdate(editingCampaign.id!, campaignData);
+      await onUpdate(editingCampaign.id!, campaignData, options);
     } else {
-      onAdd({ ...campaignData, status: 'PLANNED' });
+      await onAdd({ ...campaignData, status: 'PLANNED' });
     }
     setShowForm(false);
     setEditingCampaign(null);
@@ -201,6 +225,11 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
             </select>
           )}
 
+          <CurrencySelect
+            missingRates={missingRates}
+            missingRatesLabel={currencies => `Nessun tasso di cambio per ${currencies}: queste campagne non sono convertite. Aggiungili in Configurazione → Exchange Rates.`}
+          />
+
           <button
             onClick={() => setShowForm(true)}
             className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
@@ -247,7 +276,7 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
             <div>
               <p className="text-sm font-medium text-blue-600">Budget Pianificato</p>
               <p className="text-2xl font-bold text-blue-900 mt-1">
-                €{quarterlyBudget.toLocaleString()}
+                {formatAmount(quarterlyBudget)}
               </p>
             </div>
             <div className="bg-blue-500 p-3 rounded-xl">
@@ -261,7 +290,7 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
             <div>
               <p className="text-sm font-medium text-green-600">Budget Confermato</p>
               <p className="text-2xl font-bold text-green-900 mt-1">
-                €{confirmedBudget.toLocaleString()}
+                {formatAmount(confirmedBudget)}
               </p>
             </div>
             <div className="bg-green-500 p-3 rounded-xl">
@@ -275,7 +304,7 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
             <div>
               <p className="text-sm font-medium text-purple-600">Allocazione Totale</p>
               <p className="text-2xl font-bold text-purple-900 mt-1">
-                €{(quarterlyBudget + confirmedBudget).toLocaleString()}
+                {formatAmount(quarterlyBudget + confirmedBudget)}
               </p>
             </div>
             <div className="bg-purple-500 p-3 rounded-xl">
@@ -330,7 +359,7 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
                       ></div>
                     </div>
                     <span className="text-sm text-gray-600 w-16 text-right">
-                      €{(budget / 1000).toFixed(0)}k
+                      {getCurrencySymbol()}{(budget / 1000).toFixed(0)}k
                     </span>
                     <span className="text-sm text-gray-500 w-12 text-right">
                       {percentage}%
@@ -349,6 +378,13 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
         )}
       </div>
 
+      <BudgetPlanPanel
+        campaigns={campaigns}
+        startDate={periodRange.startDate}
+        endDate={periodRange.endDate}
+        periodLabel={getCurrentPeriodLabel()}
+      />
+
       {/* Planned Campaigns Table */}
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="p-6 border-b border-gray-200">
@@ -399,7 +435,7 @@ export const Planner: React.FC<PlannerProps> = ({ campaigns, onAdd, onUpdate })
                       <div className="text-sm text-gray-500 capitalize">{campaign.periodType}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      €{campaign.budget.toLocaleString()}
+                      {formatAmount(campaign.budget, getCampaignCurrency(campaign))}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {formatCampaignMetrics(campaign)}
@@ -0,0 +1,452 @@
+import React, { useState } from 'react';
+import { X, Upload, Tv, ArrowRight, ArrowLeft, CheckCircle, Info, AlertTriangle } from 'lucide-react';
+import { usePostBuyImport } from '../hooks/usePostBuyImport';
+import { Campaign, formatMetric } from '../types/campaign';
+import { POST_BUY_FIELDS, PostBuyField } from '../utils/postBuyImport';
+import { SPREADSHEET_ACCEPT } from '../utils/spreadsheet';
+import { formatBudget } from '../utils/budgetFormatter';
+
+interface PostBuyImportWizardProps {
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'match' | 'done';
+
+// Only the first parse errors and warnings are listed; the counts cover all of them
+const MAX_LISTED_ERRORS = 20;
+
+const getCampaignLabel = (campaign: Campaign): string =>
+  `${campaign.brand} · ${campaign.channel} · ${campaign.publisher || '—'} · ${campaign.startDate} → ${campaign.endDate}`;
+
+export const PostBuyImportWizard: React.FC<PostBuyImportWizardProps> = ({ onClose }) => {
+  const {
+    broadcasters,
+    fileName,
+    data,
+    mapping,
+    setMapping,
+    defaultPublisher,
+    setDefaultPublisher,
+    parsed,
+    campaigns,
+    groups,
+    changes,
+    loadingReports,
+    busy,
+    progress,
+    loadFile,
+    matchSpots,
+    assignCampaign,
+    apply,
+    reset,
+  } = usePostBuyImport();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [error, setError] = useState<string | null>(null);
+  const [updatedCount, setUpdatedCount] = useState(0);
+
+  const campaignsById = new Map(campaigns.map(campaign => [campaign.id!, campaign]));
+  const missingRequired = POST_BUY_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined);
+  const needsDefaultPublisher = mapping.publisher === undefined && !defaultPublisher;
+  const unassignedSpots = groups.filter(group => !group.campaignId).reduce((sum, group) => sum + group.spots.length, 0);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      await loadFile(file);
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading post-buy report:', err);
+      setError((err as Error).message || 'Could not read the file.');
+    }
+  };
+
+  const handleMappingChange = (field: PostBuyField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value, 10);
+    }
+    setMapping(next);
+  };
+
+  const handleMatch = () => {
+    matchSpots();
+    setStep('match');
+  };
+
+  const handleApply = async () => {
+    if (!window.confirm(`Replace the spots${parsed?.hasGrp ? ' and achieved GRPs' : ''} of ${changes.length} campaigns?`)) return;
+    setError(null);
+    try {
+      setUpdatedCount(await apply());
+      setStep('done');
+    } catch (err) {
+      console.error('Error importing post-buy report:', err);
+      setError((err as Error).message || 'Import failed.');
+    }
+  };
+
+  const handleStartOver = () => {
+    reset();
+    setError(null);
+    setStep('upload');
+  };
+
+  const renderCampaignSelect = (key: string, campaignId: string | null, suggestions: string[]) => {
+    const others = campaigns.filter(campaign => !suggestions.includes(campaign.id!));
+    return (
+      <select
+        value={campaignId ?? ''}
+        onChange={(e) => assignCampaign(key, e.target.value || null)}
+        disabled={busy}
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Skip these spots</option>
+        {suggestions.length > 0 && (
+          <optgroup label="Suggestions">
+            {suggestions.map(id => campaignsById.get(id)).filter(Boolean).map(campaign => (
+              <option key={campaign!.id} value={campaign!.id}>{getCampaignLabel(campaign!)}</option>
+            ))}
+          </optgroup>
+        )}
+        <optgroup label="All TV and Radio campaigns">
+          {others.map(campaign => (
+            <option key={campaign.id} value={campaign.id}>{getCampaignLabel(campaign)}</option>
+          ))}
+        </optgroup>
+      </select>
+    );
+  };
+
+  const renderProgress = () => progress && progress.total > 0 && (
+    <div className="mt-4">
+      <div className="w-full bg-blue-100 rounded-full h-2">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${(progress.done / progress.total) * 100}%` }}
+        />
+      </div>
+      <div className="text-xs text-gray-600 mt-1">{progress.done} / {progress.total} campaigns</div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <Tv className="w-5 h-5" />
+              Import Post-Buy Report
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {step === 'upload' && 'Step 1 of 3 — Upload a spot-level TV or Radio post-buy report'}
+              {step === 'mapping' && `Step 2 of 3 — Map the columns of ${fileName}`}
+              {step === 'match' && 'Step 3 of 3 — Assign the spots to campaigns'}
+              {step === 'done' && 'Post-buy imported'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 rounded-2xl hover:bg-gray-50 cursor-pointer transition-colors">
+            <Upload className="w-8 h-8 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">
+              {busy ? 'Reading file...' : 'Choose a .csv or .xlsx file'}
+            </span>
+            <span className="text-xs text-gray-500">
+              One row per aired spot, with date and optionally time, programme, GRP, cost and broadcaster.
+            </span>
+            <input type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFile} disabled={busy} className="hidden" />
+          </label>
+        )}
+
+        {step === 'mapping' && data && parsed && (
+          <div className="space-y-4">
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center gap-2">
+              <Info className="w-4 h-4 text-blue-700" />
+              <p className="text-sm text-blue-700">
+                {data.rows.length} rows found, {parsed.spots.length} readable spots. Columns with recognized names are mapped automatically.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+              {POST_BUY_FIELDS.map(({ field, label, required }) => {
+                const column = mapping[field];
+                const sample = column !== undefined ? data.rows[0]?.[column] : '';
+                return (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {label}{required && <span className="text-red-500 ml-1">*</span>}
+                    </label>
+                    <select
+                      value={column ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">— Not in file —</option>
+                      {data.headers.map((header, index) => (
+                        <option key={index} value={index}>{header}</option>
+                      ))}
+                    </select>
+                    {sample && <p className="text-xs text-gray-500 mt-1 truncate">e.g. {sample}</p>}
+                  </div>
+                );
+              })}
+              {mapping.publisher === undefined && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Broadcaster of every spot<span className="text-red-500 ml-1">*</span>
+                  </label>
+                  <select
+                    value={defaultPublisher}
+                    onChange={(e) => setDefaultPublisher(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Choose a broadcaster...</option>
+                    {broadcasters.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            {mapping.grp === undefined && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <p className="text-sm text-yellow-700">Without a GRP column only the spot counts are updated.</p>
+              </div>
+            )}
+            {(missingRequired.length > 0 || needsDefaultPublisher) && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <p className="text-sm text-yellow-700">
+                  {missingRequired.length > 0
+                    ? `Map the required fields to continue: ${missingRequired.map(({ label }) => label).join(', ')}.`
+                    : 'Choose the broadcaster, or map a broadcaster column, to continue.'}
+                </p>
+              </div>
+            )}
+            {parsed.errors.length > 0 && (
+              <div className="border border-red-200 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-red-800 mb-2 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  {parsed.errors.length} rows will be skipped
+                </h4>
+                <ul className="text-xs text-red-700 space-y-1">
+                  {parsed.errors.slice(0, MAX_LISTED_ERRORS).map(({ rowNumber, message }) => (
+                    <li key={`${rowNumber}:${message}`}>Row {rowNumber}: {message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {parsed.warnings.length > 0 && (
+              <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-yellow-800 mb-2 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  {parsed.warnings.length} values may use a different decimal separator
+                </h4>
+                <ul className="text-xs text-yellow-800 space-y-1">
+                  {parsed.warnings.slice(0, MAX_LISTED_ERRORS).map(({ rowNumber, message }) => (
+                    <li key={`${rowNumber}:${message}`}>Row {rowNumber}: {message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={handleStartOver}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium flex items-center gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Choose another file
+              </button>
+              <button
+                onClick={handleMatch}
+                disabled={missingRequired.length > 0 || needsDefaultPublisher || parsed.spots.length === 0}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                Match spots to campaigns
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'match' && parsed && (
+          <div className="space-y-4">
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-start gap-2">
+              <Info className="w-4 h-4 text-blue-700 mt-0.5" />
+              <p className="text-sm text-blue-700">
+                Spots are grouped by broadcaster and by the campaigns airing on their dates. The spot count
+                {parsed.hasGrp ? ' and the GRP total (TV only)' : ''} of each campaign become the file's totals plus
+                those of earlier post-buy files for other dates; spots of earlier files on the same dates are replaced.
+                The spot detail is kept with the campaign.
+              </p>
+            </div>
+
+            {unassignedSpots > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <p className="text-sm text-yellow-700">
+                  {unassignedSpots} spots have no campaign and will be skipped: assign them or leave them out.
+                </p>
+              </div>
+            )}
+
+            <div className="border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Broadcaster</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Aired</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Spots</th>
+                    {parsed.hasGrp && (
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">GRP</th>
+                    )}
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-2/5">Campaign</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {groups.map(group => (
+                    <tr key={group.key} className={group.campaignId ? '' : 'bg-yellow-50'}>
+                      <td className="px-3 py-2 text-gray-900 align-top">{group.publisher}</td>
+                      <td className="px-3 py-2 text-xs text-gray-600 align-top whitespace-nowrap">
+                        {group.startDate} → {group.endDate}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900 align-top">{group.spots.length}</td>
+                      {parsed.hasGrp && (
+                        <td className="px-3 py-2 text-right text-gray-900 align-top">
+                          {formatMetric(group.spots.reduce((sum, spot) => sum + (spot.grp ?? 0), 0))}
+                        </td>
+                      )}
+                      <td className="px-3 py-2 align-top">
+                        {renderCampaignSelect(group.key, group.campaignId, group.suggestions)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {changes.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Changes</h4>
+                <div className="border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Campaign</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Spots</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Achieved GRP</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Spot cost</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {changes.map(({ campaign, startDate, endDate, totalCost, keptReports, replacedReports, trimmedReports, updates }) => (
+                        <tr key={campaign.id}>
+                          <td className="px-3 py-2 text-gray-900">
+                            {getCampaignLabel(campaign)}
+                            {(keptReports.length > 0 || replacedReports.length > 0 || trimmedReports.length > 0) && (
+                              <p className="text-xs text-gray-500">
+                                {keptReports.length > 0 && `Adds up with ${keptReports.length} earlier file${keptReports.length === 1 ? '' : 's'}. `}
+                                {replacedReports.length > 0 &&
+                                  `Replaces ${replacedReports.map(report => report.fileName).join(', ')} (same dates). `}
+                                {trimmedReports.length > 0 &&
+                                  `Replaces ${startDate} → ${endDate} of ${trimmedReports.map(({ report }) => report.fileName).join(', ')}, ` +
+                                  `keeping the ${trimmedReports.reduce((sum, trimmed) => sum + trimmed.spotCount, 0)} spots on other dates.`}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            <span className="text-gray-500">{formatMetric(campaign.spotsPurchased)}</span>
+                            {' → '}
+                            <span className="text-gray-900 font-medium">{formatMetric(updates.spotsPurchased)}</span>
+                          </td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            {'achievedGrps' in updates ? (
+                              <>
+                                <span className="text-gray-500">{formatMetric(campaign.achievedGrps)}</span>
+                                {' → '}
+                                <span className="text-gray-900 font-medium">{formatMetric(updates.achievedGrps)}</span>
+                              </>
+                            ) : (
+                              <span className="text-gray-400">unchanged</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-600">{formatBudget(totalCost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {renderProgress()}
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => setStep('mapping')}
+                disabled={busy}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium flex items-center gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back to mapping
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={busy || loadingReports || changes.length === 0}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <Upload className="w-4 h-4" />
+                {busy ? 'Updating...' : `Update ${changes.length} campaigns`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4">
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <div className="flex items-center gap-2 text-green-800">
+                <CheckCircle className="w-5 h-5" />
+                <span className="font-medium">Post-buy of {updatedCount} campaigns imported</span>
+              </div>
+              <p className="text-sm text-green-700 mt-1">
+                Each change is in the campaign history.
+              </p>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={handleStartOver}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Import another file
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
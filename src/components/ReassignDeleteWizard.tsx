@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowRight, EyeOff, Trash2, X } from 'lucide-react';
+import { REFERENCE_KIND_CONFIG, ReferenceKind } from '../utils/entityReferences';
+
+interface ReassignTarget {
+  /** Value stored on campaigns (name, or initials for managers) */
+  value: string;
+  label: string;
+}
+
+interface ReassignDeleteWizardProps {
+  kind: ReferenceKind;
+  /** Display name of the entity being deleted */
+  label: string;
+  usageCount: number;
+  /** Entities the campaigns can be moved to */
+  targets: ReassignTarget[];
+  isActive: boolean;
+  onReassign: (to: string, onProgress: (done: number, total: number) => void) => Promise<void>;
+  onDeactivate: () => Promise<void>;
+  onClose: () => void;
+}
+
+type WizardMode = 'reassign' | 'deactivate';
+
+export const ReassignDeleteWizard: React.FC<ReassignDeleteWizardProps> = ({
+  kind,
+  label,
+  usageCount,
+  targets,
+  isActive,
+  onReassign,
+  onDeactivate,
+  onClose,
+}) => {
+  const kindLabel = REFERENCE_KIND_CONFIG[kind].label;
+  const [mode, setMode] = useState<WizardMode>(targets.length > 0 ? 'reassign' : 'deactivate');
+  const [target, setTarget] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canConfirm = !busy && (mode === 'reassign' ? target !== '' : isActive);
+
+  const handleConfirm = async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      if (mode === 'reassign') {
+        await onReassign(target, (done, total) => setProgress({ done, total }));
+      } else {
+        await onDeactivate();
+      }
+      onClose();
+    } catch (err) {
+      console.error(`Error resolving ${kindLabel} references:`, err);
+      setError((err as Error).message || 'Operation failed');
+      setProgress(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderOption = (value: WizardMode, title: string, description: string, disabled: boolean) => (
+    <label
+      className={`flex items-start gap-3 p-3 border rounded-lg transition-colors ${
+        disabled
+          ? 'border-gray-200 opacity-50 cursor-not-allowed'
+          : mode === value
+            ? 'border-blue-500 bg-blue-50 cursor-pointer'
+            : 'border-gray-200 hover:bg-gray-50 cursor-pointer'
+      }`}
+    >
+      <input
+        type="radio"
+        name="reassign-mode"
+        checked={mode === value}
+        disabled={disabled || busy}
+        onChange={() => setMode(value)}
+        className="mt-1 text-blue-600 focus:ring-blue-500"
+      />
+      <div>
+        <div className="text-sm font-medium text-gray-900">{title}</div>
+        <div className="text-xs text-gray-500">{description}</div>
+      </div>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-gray-900">Delete "{label}"</h3>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+          <div className="flex items-center gap-2 text-orange-800">
+            <AlertTriangle className="w-4 h-4" />
+            <span className="text-sm font-medium">
+              Used by {usageCount} {usageCount === 1 ? 'campaign' : 'campaigns'}
+            </span>
+          </div>
+          <p className="text-sm text-orange-700 mt-1">
+            This {kindLabel} can't be deleted while campaigns reference it. Choose how to handle them.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {renderOption(
+            'reassign',
+            `Reassign campaigns, then delete`,
+            targets.length > 0
+              ? `Campaigns (including those in the trash) move to another ${kindLabel}; "${label}" goes to the trash.`
+              : `No other active ${kindLabel} is available.`,
+            targets.length === 0
+          )}
+          {mode === 'reassign' && targets.length > 0 && (
+            <div className="flex items-center gap-2 pl-9">
+              <span className="text-sm text-gray-700">{label}</span>
+              <ArrowRight className="w-4 h-4 text-gray-400" />
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                disabled={busy}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Select {kindLabel}...</option>
+                {targets.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {renderOption(
+            'deactivate',
+            'Deactivate instead',
+            isActive
+              ? `Keeps existing campaigns unchanged and hides "${label}" from campaign forms.`
+              : `"${label}" is already inactive.`,
+            !isActive
+          )}
+        </div>
+
+        {progress && progress.total > 0 && (
+          <div className="mt-4">
+            <div className="w-full bg-blue-100 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+            <div className="text-xs text-gray-600 mt-1">{progress.done} / {progress.total} campaigns reassigned</div>
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+            className={`flex-1 text-white py-2 px-4 rounded-lg transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed ${
+              mode === 'reassign' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {mode === 'reassign' ? (
+              <><Trash2 className="w-4 h-4 inline mr-2" />Reassign and Delete</>
+            ) : (
+              <><EyeOff className="w-4 h-4 inline mr-2" />Deactivate</>
+            )}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
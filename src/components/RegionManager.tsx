@@ -2,12 +2,18 @@ import React, { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Save, X, MapPin, Eye, EyeOff, AlertTriangle, Wifi, WifiOff, CheckCircle, Database } from 'lucide-react';
 import { Region } from '../types/region';
 import { useRegions } from '../hooks/useRegions';
+import { useEntityUsage } from '../hooks/useEntityUsage';
+import { RenameImpactNotice } from './RenameImpactNotice';
+import { ReassignDeleteWizard } from './ReassignDeleteWizard';
 import { getRegionStats } from '../utils/seedRegions';
 
 export const RegionManager: React.FC = () => {
   const { regions, loading, error, addRegion, updateRegion, deleteRegion } = useRegions();
+  const { getUsageCount, reassign } = useEntityUsage('region', regions.map(region => region.name));
   const [showForm, setShowForm] = useState(false);
   const [editingRegion, setEditingRegion] = useState<Region | null>(null);
+  const [renameProgress, setRenameProgress] = useState<{ done: number; total: number } | null>(null);
+  const [reassigningRegion, setReassigningRegion] = useState<Region | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     active: true,
@@ -42,13 +48,14 @@ export const RegionManager: React.FC = () => {
     
     try {
       if (editingRegion) {
-        await updateRegion(editingRegion.id!, formData);
+        await updateRegion(editingRegion.id!, formData, (done, total) => setRenameProgress({ done, total }));
       } else {
         await addRegion(formData);
       }
       
       resetForm();
     } catch (error: any) {
+      setRenameProgress(null);
       console.error('Error saving region:', error);
       setFormError(error.message || 'Failed to save region');
     }
@@ -64,7 +71,12 @@ export const RegionManager: React.FC = () => {
   };
 
   const handleDelete = async (id: string, name: string) => {
-    if (window.confirm(`Are you sure you want to delete "${name}"? This action cannot be undone and may affect existing campaigns.`)) {
+    const referenced = regions.find(item => item.id === id);
+    if (referenced && getUsageCount(referenced.name) > 0) {
+      setReassigningRegion(referenced);
+      return;
+    }
+    if (window.confirm(`Move "${name}" to the trash? You can restore it from the Trash tab.`)) {
       try {
         await deleteRegion(id);
       } catch (error) {
@@ -90,6 +102,7 @@ export const RegionManager: React.FC = () => {
     });
     setEditingRegion(null);
     setShowForm(false);
+    setRenameProgress(null);
     setFormError(null);
   };
 
@@ -204,7 +217,7 @@ export const RegionManager: React.FC = () => {
                   <span className="text-sm font-medium">Auto-Seeding Available</span>
                 </div>
                 <p className="text-xs text-blue-700 mt-1">
-                  The system will automatically populate with standard Italian regions when you add your first region.
+                  Standard Italian regions are added by the data migrations (Configurazione › Migrations).
                 </p>
               </div>
             )}
@@ -215,6 +228,7 @@ export const RegionManager: React.FC = () => {
               <thead className="bg-gray-50">
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Region</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaigns</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -234,6 +248,9 @@ export const RegionManager: React.FC = () => {
                         </div>
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {getUsageCount(region.name)}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <button
                         onClick={() => handleToggleActive(region)}
@@ -328,6 +345,15 @@ export const RegionManager: React.FC = () => {
                 </p>
               </div>
 
+              {editingRegion && (
+                <RenameImpactNotice
+                  kind="region"
+                  from={editingRegion.name}
+                  to={formData.name}
+                  progress={renameProgress}
+                />
+              )}
+
               <div>
                 <label className="flex items-center">
                   <input
@@ -364,6 +390,25 @@ export const RegionManager: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Delete Guard */}
+      {reassigningRegion && (
+        <ReassignDeleteWizard
+          kind="region"
+          label={reassigningRegion.name}
+          usageCount={getUsageCount(reassigningRegion.name)}
+          targets={regions
+            .filter(item => item.id !== reassigningRegion.id && item.active)
+            .map(item => ({ value: item.name, label: item.name }))}
+          isActive={reassigningRegion.active}
+          onReassign={async (to, onProgress) => {
+            await reassign(reassigningRegion.name, to, onProgress);
+            await deleteRegion(reassigningRegion.id!);
+          }}
+          onDeactivate={() => updateRegion(reassigningRegion.id!, { active: false })}
+          onClose={() => setReassigningRegion(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
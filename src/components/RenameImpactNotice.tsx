@@ -0,0 +1,55 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useRenamePreview } from '../hooks/useRenamePreview';
+import { ReferenceKind } from '../utils/entityReferences';
+
+interface RenameImpactNoticeProps {
+  kind: ReferenceKind;
+  /** Value stored on campaigns today */
+  from: string;
+  /** Value currently typed in the form */
+  to: string;
+  /** Set while the rename is being written */
+  progress?: { done: number; total: number } | null;
+}
+
+// Channels whose names switch on the broadcaster and GRP fields in the campaign form
+const SPECIAL_CHANNELS = ['TV', 'Radio'];
+
+export const RenameImpactNotice: React.FC<RenameImpactNoticeProps> = ({ kind, from, to, progress }) => {
+  const { preview, loading } = useRenamePreview(kind, from);
+
+  if (!to.trim() || to === from) return null;
+
+  return (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+      {loading || !preview ? (
+        <span>Counting campaigns that use "{from}"...</span>
+      ) : (
+        <span>
+          Renaming "{from}" to "{to}" will update{' '}
+          <strong>{preview.campaignCount} {preview.campaignCount === 1 ? 'campaign' : 'campaigns'}</strong>
+          {preview.trashedCampaignCount > 0 && ` (${preview.trashedCampaignCount} in the trash)`}
+          {preview.brandCount > 0 && ` and ${preview.brandCount} ${preview.brandCount === 1 ? 'brand' : 'brands'}`}.
+        </span>
+      )}
+      {kind === 'channel' && SPECIAL_CHANNELS.includes(from) && (
+        <div className="flex items-center gap-2 mt-2 text-orange-700">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>Broadcaster and GRP fields are only shown for channels named TV or Radio.</span>
+        </div>
+      )}
+      {progress && progress.total > 0 && (
+        <div className="mt-2">
+          <div className="w-full bg-blue-100 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${(progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+          <div className="text-xs mt-1">{progress.done} / {progress.total} campaigns updated</div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { useSpendBasis } from '../hooks/useSpendBasis';
+import { SPEND_BASIS_OPTIONS, SpendBasis } from '../utils/spendBasis';
+
+interface SpendBasisToggleProps {
+  /** Button labels, for the Italian screens */
+  labels?: { [key in SpendBasis]: string };
+}
+
+/** Switches every KPI and chart between the planned budget and the actual spend */
+export const SpendBasisToggle: React.FC<SpendBasisToggleProps> = ({ labels }) => {
+  const { basis, setBasis } = useSpendBasis();
+
+  return (
+    <div className="flex bg-gray-100 rounded-lg p-1" title="Invoices, or the ad platform spend for campaigns without invoices">
+      {SPEND_BASIS_OPTIONS.map(option => (
+        <button
+          key={option.basis}
+          onClick={() => setBasis(option.basis)}
+          className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            basis === option.basis
+              ? 'bg-white text-gray-900 shadow-sm'
+              : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {labels ? labels[option.basis] : option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { RefreshCw, Play, Eye, Power, AlertTriangle, CheckCircle, XCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useStatusAutomation } from '../hooks/useStatusAutomation';
+import { STATUS_CONFIG, Status } from '../types/campaign';
+import { StatusAutomationChange } from '../types/statusAutomation';
+import { getAuditUserLabel } from '../utils/campaignAudit';
+import { NotificationType } from './Notification';
+
+interface StatusAutomationManagerProps {
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+const renderStatus = (status: Status) => {
+  const config = STATUS_CONFIG[status];
+  return (
+    <span
+      className="px-2 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: config.bgColor, color: config.textColor }}
+    >
+      {config.icon} {config.label}
+    </span>
+  );
+};
+
+const renderChanges = (changes: StatusAutomationChange[]) => (
+  <table className="w-full text-xs">
+    <tbody className="divide-y divide-gray-100">
+      {changes.map(change => (
+        <tr key={change.campaignId}>
+          <td className="py-1 pr-3 text-gray-900">
+            {change.label}
+            <div className="text-gray-400">{change.campaignId}</div>
+          </td>
+          <td className="py-1 whitespace-nowrap text-right">
+            {renderStatus(change.from)}
+            <span className="mx-1 text-gray-400">→</span>
+            {renderStatus(change.to)}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export const StatusAutomationManager: React.FC<StatusAutomationManagerProps> = ({ showNotification }) => {
+  const {
+    runs,
+    enabled,
+    loading,
+    error,
+    preview,
+    running,
+    progress,
+    previewChanges,
+    runNow,
+    setEnabled,
+    clearPreview,
+  } = useStatusAutomation();
+  const [expandedRuns, setExpandedRuns] = useState<Set<string>>(new Set());
+
+  const toggleRun = (id: string) => {
+    const newExpanded = new Set(expandedRuns);
+    if (newExpanded.has(id)) {
+      newExpanded.delete(id);
+    } else {
+      newExpanded.add(id);
+    }
+    setExpandedRuns(newExpanded);
+  };
+
+  const handlePreview = async () => {
+    try {
+      const changes = await previewChanges();
+      showNotification(`Preview ready: ${changes.length} campaigns would change status.`, 'info');
+    } catch (err) {
+      showNotification((err as Error).message || 'Preview failed.', 'error');
+    }
+  };
+
+  const handleRun = async () => {
+    if (!window.confirm('Update campaign statuses now? Preview the changes first to review them.')) return;
+    try {
+      const { run } = await runNow();
+      showNotification(`Status update complete: ${run?.changedCount ?? 0} campaigns changed.`, 'success');
+    } catch (err) {
+      showNotification((err as Error).message || 'Status update failed.', 'error');
+    }
+  };
+
+  const handleToggle = async () => {
+    try {
+      await setEnabled(!enabled);
+      showNotification(`Daily status automation ${enabled ? 'disabled' : 'enabled'}.`, 'success');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to save the setting.', 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading automation...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Status Automation</h2>
+          <p className="text-gray-600 mt-1">
+            Once a day, scheduled campaigns become active on their start date and running ones complete after their end date
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleToggle}
+            disabled={running}
+            className={`px-4 py-2 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+              enabled
+                ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Power className="w-4 h-4" />
+            {enabled ? 'Daily run on' : 'Daily run off'}
+          </button>
+          <button
+            onClick={handlePreview}
+            disabled={running}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Eye className="w-4 h-4" />
+            Preview Changes
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={running}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" />
+            Run Now
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-4 flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-600" />
+          <p className="text-sm text-yellow-700">{error}</p>
+        </div>
+      )}
+
+      {!enabled && (
+        <div className="bg-gray-50 border border-gray-200 rounded-2xl p-4 flex items-center gap-3">
+          <Power className="w-5 h-5 text-gray-500" />
+          <p className="text-sm text-gray-700">
+            The daily run is disabled: statuses only change when someone runs the automation from here.
+          </p>
+        </div>
+      )}
+
+      {/* Progress */}
+      {running && (
+        <div className="bg-blue-50 border border-blue-200 rounded-2xl p-4">
+          <div className="flex items-center justify-between text-sm text-blue-900 mb-2">
+            <span className="font-medium">{progress ? 'Updating statuses...' : 'Checking campaigns...'}</span>
+            {progress && progress.total > 0 && (
+              <span>{progress.done} / {progress.total}</span>
+            )}
+          </div>
+          <div className="w-full bg-blue-100 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Dry Run Preview */}
+      {preview && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Eye className="w-5 h-5" />
+              Preview — {preview.length} {preview.length === 1 ? 'campaign' : 'campaigns'} would change
+            </h3>
+            <button onClick={clearPreview} className="text-sm text-gray-500 hover:text-gray-700">
+              Close
+            </button>
+          </div>
+          {preview.length > 0 ? (
+            <div className="max-h-80 overflow-y-auto">{renderChanges(preview)}</div>
+          ) : (
+            <p className="text-sm text-gray-500">All campaign statuses are up to date.</p>
+          )}
+        </div>
+      )}
+
+      {/* Run Log */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+          <RefreshCw className="w-5 h-5" />
+          Run Log
+        </h3>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">The automation has not run yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {runs.map(run => {
+              const isExpanded = expandedRuns.has(run.id!);
+              return (
+                <div key={run.id} className="border border-gray-200 rounded-lg">
+                  <button
+                    onClick={() => toggleRun(run.id!)}
+                    disabled={run.changes.length === 0}
+                    className="w-full flex items-center justify-between px-4 py-3 text-left"
+                  >
+                    <div className="flex items-center gap-2">
+                      {run.changes.length > 0 && (isExpanded
+                        ? <ChevronDown className="w-4 h-4 text-gray-400" />
+                        : <ChevronRight className="w-4 h-4 text-gray-400" />)}
+                      {run.success
+                        ? <CheckCircle className="w-4 h-4 text-green-600" />
+                        : <XCircle className="w-4 h-4 text-red-600" />}
+                      <span className="text-sm font-medium text-gray-900">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        run.trigger === 'daily' ? 'bg-gray-100 text-gray-700' : 'bg-blue-100 text-blue-800'
+                      }`}>
+                        {run.trigger === 'daily' ? 'Daily' : 'Manual'}
+                      </span>
+                      <span className="text-sm text-gray-500">{getAuditUserLabel(run.triggeredBy)}</span>
+                    </div>
+                    <span className="text-sm text-gray-500">
+                      {run.error || `${run.changedCount} ${run.changedCount === 1 ? 'campaign' : 'campaigns'} changed`}
+                    </span>
+                  </button>
+                  {isExpanded && (
+                    <div className="border-t border-gray-100 px-4 py-3 max-h-80 overflow-y-auto">
+                      {renderChanges(run.changes)}
+                      {run.changedCount > run.changes.length && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          {run.changedCount - run.changes.length} more changes are recorded in the campaign histories.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
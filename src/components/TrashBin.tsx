@@ -0,0 +1,250 @@
+import React, { useState, useMemo } from 'react';
+import { Trash2, RotateCcw, Clock, Save, AlertTriangle } from 'lucide-react';
+import { useTrash } from '../hooks/useTrash';
+import { NotificationType } from './Notification';
+import {
+  TrashItem,
+  TrashKind,
+  TRASH_KINDS,
+  TRASH_KIND_CONFIG,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+} from '../utils/trash';
+
+interface TrashBinProps {
+  showNotification: (message: string, type: NotificationType) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TrashBin: React.FC<TrashBinProps> = ({ showNotification }) => {
+  const { items, loading, error, restoreItem, purgeItems } = useTrash();
+  const [kindFilter, setKindFilter] = useState<TrashKind | 'all'>('all');
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays());
+  const [retentionInput, setRetentionInput] = useState(String(retentionDays));
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const filteredItems = useMemo(
+    () => (kindFilter === 'all' ? items : items.filter(item => item.kind === kindFilter)),
+    [items, kindFilter]
+  );
+
+  const countsByKind = useMemo(() => {
+    const counts: { [key: string]: number } = {};
+    items.forEach(item => {
+      counts[item.kind] = (counts[item.kind] || 0) + 1;
+    });
+    return counts;
+  }, [items]);
+
+  const getDaysLeft = (item: TrashItem): number | null => {
+    if (retentionDays <= 0) return null;
+    const expiresAt = new Date(item.deletedAt).getTime() + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+  };
+
+  const handleSaveRetention = () => {
+    const days = parseInt(retentionInput, 10);
+    if (!Number.isFinite(days) || days < 0) {
+      showNotification('Retention must be a number of days (0 disables the automatic purge).', 'error');
+      return;
+    }
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+    showNotification(
+      days === 0 ? 'Automatic purge disabled.' : `Items will be purged ${days} days after deletion.`,
+      'success'
+    );
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setBusyId(item.id);
+      await restoreItem(item);
+      showNotification(`"${item.label}" restored.`, 'success');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to restore the item.', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!window.confirm(`Permanently delete "${item.label}"? This action cannot be undone.`)) return;
+    try {
+      setBusyId(item.id);
+      await purgeItems([item]);
+      showNotification(`"${item.label}" permanently deleted.`, 'info');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to delete the item.', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (filteredItems.length === 0) return;
+    if (!window.confirm(`Permanently delete ${filteredItems.length} items? This action cannot be undone.`)) return;
+    try {
+      setBusyId('all');
+      await purgeItems(filteredItems);
+      showNotification(`${filteredItems.length} items permanently deleted.`, 'info');
+    } catch (err) {
+      showNotification((err as Error).message || 'Failed to empty the trash.', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading trash...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Trash</h2>
+          <p className="text-gray-600 mt-1">Deleted campaigns and master data can be restored until they are purged</p>
+        </div>
+        <button
+          onClick={handleEmptyTrash}
+          disabled={filteredItems.length === 0 || busyId !== null}
+          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <Trash2 className="w-4 h-4" />
+          Empty Trash
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-yellow-500 p-2 rounded-lg">
+              <AlertTriangle className="w-5 h-5 text-white" />
+            </div>
+            <p className="text-sm text-yellow-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Retention Settings */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2 text-gray-700">
+          <Clock className="w-5 h-5" />
+          <span className="text-sm font-medium">Automatic purge after</span>
+        </div>
+        <input
+          type="number"
+          min="0"
+          value={retentionInput}
+          onChange={(e) => setRetentionInput(e.target.value)}
+          className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-600">days (0 = never)</span>
+        <button
+          onClick={handleSaveRetention}
+          className="ml-auto px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" />
+          Save
+        </button>
+      </div>
+
+      {/* Kind Filter */}
+      <div className="flex flex-wrap gap-2">
+        {(['all', ...TRASH_KINDS] as (TrashKind | 'all')[]).map(kind => {
+          const isActive = kindFilter === kind;
+          const count = kind === 'all' ? items.length : countsByKind[kind] || 0;
+          return (
+            <button
+              key={kind}
+              onClick={() => setKindFilter(kind)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                isActive ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {kind === 'all' ? 'All' : `${TRASH_KIND_CONFIG[kind].icon} ${TRASH_KIND_CONFIG[kind].label}`} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Trash List */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {filteredItems.length === 0 ? (
+          <div className="text-center py-12">
+            <Trash2 className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+            <p className="text-lg font-medium text-gray-900">The trash is empty</p>
+            <p className="text-sm text-gray-500">Deleted items will appear here</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purge</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredItems.map(item => {
+                  const daysLeft = getDaysLeft(item);
+                  return (
+                    <tr key={`${item.kind}-${item.id}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{item.label}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {TRASH_KIND_CONFIG[item.kind].icon} {TRASH_KIND_CONFIG[item.kind].label}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{new Date(item.deletedAt).toLocaleString()}</div>
+                        <div className="text-xs text-gray-500">{item.deletedBy || 'Unknown user'}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {daysLeft === null ? (
+                          <span className="text-gray-400">Never</span>
+                        ) : (
+                          <span className={daysLeft <= 3 ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                            in {daysLeft} {daysLeft === 1 ? 'day' : 'days'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => handleRestore(item)}
+                            disabled={busyId !== null}
+                            className="text-green-600 hover:text-green-900 p-1 rounded hover:bg-green-50 disabled:opacity-50"
+                            title="Restore"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handlePurge(item)}
+                            disabled={busyId !== null}
+                            className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50 disabled:opacity-50"
+                            title="Delete permanently"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -6,11 +6,13 @@ import { formatBudget } from '../../utils/budgetFormatter';
 interface BudgetDistributionChartProps {
   data?: ChartData[];
   campaigns?: any[];
+  /** Tooltip label of the amounts, e.g. to tell net from gross */
+  valueLabel?: string;
 }
 
 const COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
-export const BudgetDistributionChart: React.FC<BudgetDistributionChartProps> = ({ data, campaigns }) => {
+export const BudgetDistributionChart: React.FC<BudgetDistributionChartProps> = ({ data, campaigns, valueLabel = 'Budget' }) => {
   // Safe guard validation
   if (!Array.isArray(data) && !Array.isArray(campaigns)) {
     return null;
@@ -61,7 +63,7 @@ export const BudgetDistributionChart: React.FC<BudgetDistributionChartProps> = (
           ))}
         </Pie>
         <Tooltip 
-          formatter={(value: number) => [formatBudget(value), 'Budget']}
+          formatter={(value: number) => [formatBudget(value), valueLabel]}
           contentStyle={{ 
             backgroundColor: 'white', 
             border: '1px solid #e5e7eb', 
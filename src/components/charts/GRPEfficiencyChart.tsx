@@ -1,10 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
 import { ChartData, GRP_EFFICIENCY_THRESHOLD } from '../../types/campaign';
 import { formatMetric } from '../../utils/chartHelpers';
+import { PostBuySpotDetail } from './PostBuySpotDetail';
 
 interface GRPEfficiencyChartProps {
   data?: Array<{
+    campaignId?: string;
     name: string;
     efficiency: number;
     expectedGrps: number;
@@ -16,6 +18,9 @@ interface GRPEfficiencyChartProps {
 }
 
 export const GRPEfficiencyChart: React.FC<GRPEfficiencyChartProps> = ({ data, campaigns }) => {
+  // Clicking a bar shows the campaign's spots from its post-buy reports
+  const [selected, setSelected] = useState<{ campaignId: string; name: string } | null>(null);
+
   // Safe guard validation
   if (!Array.isArray(data) && !Array.isArray(campaigns)) {
     return null;
@@ -37,6 +42,7 @@ export const GRPEfficiencyChart: React.FC<GRPEfficiencyChartProps> = ({ data, ca
         const isUnderperforming = efficiency < GRP_EFFICIENCY_THRESHOLD;
         
         return {
+          campaignId: campaign.id,
           name: `${campaign.brand}`,
           efficiency,
           expectedGrps: campaign.expectedGrps!,
@@ -97,40 +103,65 @@ export const GRPEfficiencyChart: React.FC<GRPEfficiencyChartProps> = ({ data, ca
   };
 
   return (
-    <ResponsiveContainer width="100%" height={300}>
-      <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-        <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-        <XAxis 
-          dataKey="name" 
-          stroke="#6b7280" 
-          fontSize={12}
-          angle={-45}
-          textAnchor="end"
-          height={80}
-        />
-        <YAxis 
-          tickFormatter={formatValue} 
-          stroke="#6b7280" 
-          domain={[0, 1.2]} 
-          fontSize={12}
-        />
-        <Tooltip content={<CustomTooltip />} />
-        <ReferenceLine 
-          y={GRP_EFFICIENCY_THRESHOLD} 
-          stroke="#ef4444" 
-          strokeDasharray="5 5" 
-          label={{ 
-            value: `Target (${(GRP_EFFICIENCY_THRESHOLD * 100).toFixed(0)}%)`, 
-            position: "topRight",
-            fontSize: 12
-          }}
-        />
-        <Bar dataKey="efficiency" radius={[4, 4, 0, 0]}>
-          {chartData.map((entry, index) => (
-            <Cell key={`cell-${index}`} fill={getBarColor(entry)} />
-          ))}
-        </Bar>
-      </BarChart>
-    </ResponsiveContainer>
+    <div>
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis 
+            dataKey="name" 
+            stroke="#6b7280" 
+            fontSize={12}
+            angle={-45}
+            textAnchor="end"
+            height={80}
+          />
+          <YAxis 
+            tickFormatter={formatValue} 
+            stroke="#6b7280" 
+            domain={[0, 1.2]} 
+            fontSize={12}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <ReferenceLine 
+            y={GRP_EFFICIENCY_THRESHOLD} 
+            stroke="#ef4444" 
+            strokeDasharray="5 5" 
+            label={{ 
+              value: `Target (${(GRP_EFFICIENCY_THRESHOLD * 100).toFixed(0)}%)`, 
+              position: "topRight",
+              fontSize: 12
+            }}
+          />
+          <Bar
+            dataKey="efficiency"
+            radius={[4, 4, 0, 0]}
+            cursor="pointer"
+            onClick={(entry: { campaignId?: string; name: string }) =>
+              setSelected(entry.campaignId ? { campaignId: entry.campaignId, name: entry.name } : null)
+            }
+          >
+            {chartData.map((entry, index) => (
+              <Cell
+                key={`cell-${index}`}
+                fill={getBarColor(entry)}
+                fillOpacity={selected && selected.campaignId !== entry.campaignId ? 0.5 : 1}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+      {selected ? (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <div className="flex justify-end">
+            <button onClick={() => setSelected(null)} className="text-xs text-gray-500 hover:text-gray-700">
+              Chiudi dettaglio spot
+            </button>
+          </div>
+          <PostBuySpotDetail campaignId={selected.campaignId} name={selected.name} />
+        </div>
+      ) : (
+        <p className="mt-2 text-xs text-gray-500 text-center">Clicca una barra per vedere gli spot del post-buy</p>
+      )}
+    </div>
   );
 };
\ No newline at end of file
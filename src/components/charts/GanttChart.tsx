@@ -1,9 +1,12 @@
 import React, { useMemo, useState } from 'react';
 import { Campaign } from '../../types/campaign';
 import { useChannels } from '../../hooks/useChannels';
+import { useEnsureCampaignPeriod } from '../../hooks/useCampaigns';
 import { format, startOfMonth, endOfMonth, eachMonthOfInterval, differenceInDays, max, min } from 'date-fns';
 import { it } from 'date-fns/locale';
-import { formatBudgetCompact, formatBudget } from '../../utils/budgetFormatter';
+import { formatAmount, formatBudgetCompact, formatBudget } from '../../utils/budgetFormatter';
+
+const RECENT_YEARS = 5;
 
 interface GanttChartProps {
   campaigns: Campaign[];
@@ -15,11 +18,16 @@ export const GanttChart: React.FC<GanttChartProps> = ({ campaigns }) => {
 
   // 1. STATO PER L'ANNO SELEZIONATO
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  useEnsureCampaignPeriod(`${selectedYear}-01-01`, `${selectedYear}-12-31`);
 
   // 2. CALCOLA GLI ANNI DISPONIBILI DAI DATI DELLE CAMPAGNE
+  // Le campagne sono caricate per periodo: gli ultimi anni restano selezionabili anche se non ancora caricati
   const availableYears = useMemo(() => {
-    if (campaigns.length === 0) return [new Date().getFullYear()];
+    const currentYear = new Date().getFullYear();
     const years = new Set(campaigns.map(c => new Date(c.startDate).getFullYear()));
+    for (let year = currentYear + 1; year >= currentYear - RECENT_YEARS; year--) {
+      years.add(year);
+    }
     return Array.from(years).sort((a, b) => b - a); // Ordina dal più recente al più vecchio
   }, [campaigns]);
 
@@ -135,7 +143,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ campaigns }) => {
                             <div className="w-full h-full rounded-md flex items-center justify-center px-2 group relative" style={{ backgroundColor: `${channelInfo?.color || '#ccc'}33` }}>
                               <p className="text-sm font-semibold truncate" style={{color: channelInfo?.color || '#333'}}>{formatBudgetCompact(budget)}</p>
                               <div className="absolute -top-8 left-1/2 -translate-x-1/2 w-max p-2 bg-gray-800 text-white text-xs rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20">
-                                  Budget Ripartito: €{Math.round(budget).toLocaleString('it-IT')}
+                                  Budget Ripartito: {formatAmount(Math.round(budget))}
                               </div>
                             </div>
                           </div>
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { useCampaignPostBuy } from '../../hooks/useCampaignPostBuy';
+import { formatBudget } from '../../utils/budgetFormatter';
+import { formatMetric } from '../../utils/chartHelpers';
+
+interface PostBuySpotDetailProps {
+  campaignId: string;
+  name: string;
+}
+
+// Programmes listed below the chart, by GRP; the rest are only counted
+const MAX_PROGRAMMES = 8;
+
+export const PostBuySpotDetail: React.FC<PostBuySpotDetailProps> = ({ campaignId, name }) => {
+  const { reports, loading, error } = useCampaignPostBuy(campaignId);
+
+  const { days, programmes } = useMemo(() => {
+    const byDay = new Map<string, { date: string; grp: number; spots: number }>();
+    const byProgramme = new Map<string, { programme: string; grp: number; spots: number; cost: number }>();
+    reports.flatMap(report => report.spots).forEach(spot => {
+      const day = byDay.get(spot.date) || { date: spot.date, grp: 0, spots: 0 };
+      day.grp += spot.grp ?? 0;
+      day.spots += 1;
+      byDay.set(spot.date, day);
+
+      const key = spot.programme || '—';
+      const programme = byProgramme.get(key) || { programme: key, grp: 0, spots: 0, cost: 0 };
+      programme.grp += spot.grp ?? 0;
+      programme.spots += 1;
+      programme.cost += spot.cost ?? 0;
+      byProgramme.set(key, programme);
+    });
+    return {
+      days: [...byDay.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      programmes: [...byProgramme.values()].sort((a, b) => b.grp - a.grp || b.spots - a.spots),
+    };
+  }, [reports]);
+  const currency = reports[0]?.currency;
+
+  if (loading) {
+    return <div className="py-6 text-center text-sm text-gray-500">Caricamento post-buy...</div>;
+  }
+  if (error) {
+    return <div className="py-6 text-center text-sm text-red-600">{error}</div>;
+  }
+  if (days.length === 0) {
+    return (
+      <div className="py-6 text-center text-sm text-gray-500">
+        Nessun post-buy importato per {name}: i GRP sono stati inseriti a mano
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900">GRP per giorno · {name}</h4>
+        <p className="text-xs text-gray-500">
+          {reports.length} file post-buy: {reports.map(report => report.fileName).join(', ')}
+        </p>
+      </div>
+      <ResponsiveContainer width="100%" height={200}>
+        <BarChart data={days} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis dataKey="date" stroke="#6b7280" fontSize={11} />
+          <YAxis stroke="#6b7280" fontSize={12} />
+          <Tooltip
+            formatter={(value: number, key: string) => [formatMetric(value), key === 'grp' ? 'GRP' : key]}
+            labelFormatter={(date: string) => {
+              const day = days.find(item => item.date === date);
+              return `${date} · ${day?.spots ?? 0} spot`;
+            }}
+          />
+          <Bar dataKey="grp" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Programma</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Spot</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">GRP</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Costo</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Costo per GRP</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {programmes.slice(0, MAX_PROGRAMMES).map(programme => (
+            <tr key={programme.programme}>
+              <td className="px-3 py-2 text-gray-900">{programme.programme}</td>
+              <td className="px-3 py-2 text-right text-gray-600">{programme.spots}</td>
+              <td className="px-3 py-2 text-right text-gray-900">{formatMetric(programme.grp)}</td>
+              <td className="px-3 py-2 text-right text-gray-600">{formatBudget(programme.cost, currency)}</td>
+              <td className="px-3 py-2 text-right text-gray-600">
+                {programme.grp > 0 ? formatBudget(programme.cost / programme.grp, currency) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {programmes.length > MAX_PROGRAMMES && (
+        <p className="text-xs text-gray-500">Altri {programmes.length - MAX_PROGRAMMES} programmi non mostrati</p>
+      )}
+    </div>
+  );
+};
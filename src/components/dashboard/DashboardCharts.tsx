@@ -9,6 +9,9 @@ import { MonthlyPresenceChart } from '../charts/MonthlyPresenceChart';
 import { LeadsPerChannelChart } from '../charts/LeadsPerChannelChart';
 import { RegionBudgetChart } from '../charts/RegionBudgetChart';
 import { useChannels } from '../../hooks/useChannels';
+import { useCostBasis } from '../../hooks/useCostBasis';
+import { CostBasisToggle } from '../CostBasisToggle';
+import { formatUnitCost, getCurrencySymbol } from '../../utils/budgetFormatter';
 import { useTranslation } from 'react-i18next';
 import { 
   aggregateCampaignsByChannel, 
@@ -18,21 +21,25 @@ import {
   detectPerformanceAlerts,
   formatMetric
 } from '../../utils/chartHelpers';
-import { AlertTriangle, TrendingDown, Eye, EyeOff } from 'lucide-react';
+import { AlertTriangle, TrendingDown, TrendingUp, Eye, EyeOff } from 'lucide-react';
 
 interface DashboardChartsProps {
   filteredCampaigns: Campaign[];
+  /** The same campaigns on the planned basis, which budget pacing is measured against */
+  plannedCampaigns: Campaign[];
   kpiData: KPIData;
   dateRange: DateRange;
 }
 
 export const DashboardCharts: React.FC<DashboardChartsProps> = ({
   filteredCampaigns,
+  plannedCampaigns,
   kpiData,
   dateRange
 }) => {
   const { t } = useTranslation();
   const { getChannelByName } = useChannels();
+  const { basis: costBasis } = useCostBasis();
   const [visibleSections, setVisibleSections] = useState({
     executive: true,
     budget: true,
@@ -48,9 +55,9 @@ export const DashboardCharts: React.FC<DashboardChartsProps> = ({
       monthlySpend: aggregateMonthlySpend(filteredCampaigns),
       regionalBudget: aggregateCampaignsByRegion(filteredCampaigns),
       grpAnalysis: analyzeGRPPerformance(filteredCampaigns),
-      performanceAlerts: detectPerformanceAlerts(filteredCampaigns)
+      performanceAlerts: detectPerformanceAlerts(filteredCampaigns, plannedCampaigns)
     };
-  }, [filteredCampaigns]);
+  }, [filteredCampaigns, plannedCampaigns]);
 
   // Memoized budget distribution data
   const budgetDistributionData = useMemo(() => {
@@ -151,6 +158,12 @@ export const DashboardCharts: React.FC<DashboardChartsProps> = ({
                       <span className="text-xs">Efficienza: {formatMetric(alert.value * 100)}%</span>
                     </div>
                   )}
+                  {alert.type === 'pacing' && (
+                    <div className="flex items-center gap-1 mt-1">
+                      {alert.value < 1 ? <TrendingDown className="w-3 h-3" /> : <TrendingUp className="w-3 h-3" />}
+                      <span className="text-xs">Ritmo di spesa: {Math.round(alert.value * 100)}% del previsto</span>
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -167,8 +180,14 @@ export const DashboardCharts: React.FC<DashboardChartsProps> = ({
           </div>
           
           <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Distribuzione Budget</h3>
-            <BudgetDistributionChart data={budgetDistributionData} />
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Distribuzione Budget</h3>
+              <CostBasisToggle labels={{ net: 'Netto', gross: 'Lordo' }} />
+            </div>
+            <BudgetDistributionChart
+              data={budgetDistributionData}
+              valueLabel={costBasis === 'gross' ? 'Budget lordo (IVA inclusa)' : 'Budget netto'}
+            />
           </div>
         </div>
       </SectionToggle>
@@ -231,7 +250,7 @@ export const DashboardCharts: React.FC<DashboardChartsProps> = ({
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span className="text-gray-600">Budget:</span>
-                    <span className="font-medium">€{formatMetric(data.budget)}</span>
+                    <span className="font-medium">{getCurrencySymbol()}{formatMetric(data.budget)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Campaigns:</span>
@@ -245,7 +264,7 @@ export const DashboardCharts: React.FC<DashboardChartsProps> = ({
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600">CPL:</span>
-                        <span className="font-medium">€{cpl.toFixed(2)}</span>
+                        <span className="font-medium">{formatUnitCost(cpl)}</span>
                       </div>
                     </>
                   )}
@@ -1,11 +1,11 @@
 import React, { useState } from 'react';
 import { Calendar, Wifi, WifiOff, ChevronDown } from 'lucide-react';
 import { DateFilter, DateRange } from '../DateFilter';
-import { User } from 'firebase/auth';
+import { AuthUser } from '../../types/auth';
 import { useTranslation } from 'react-i18next';
 
 interface DashboardHeaderProps {
-  user: User | null;
+  user: AuthUser | null;
   dateRange: DateRange;
   onDateRangeChange: (range: DateRange) => void;
   firestoreError: string | null;
@@ -78,7 +78,7 @@ export const DashboardHeader: React.FC<DashboardHeaderProps> = ({
           {firestoreError ? (
             <div className="flex items-center gap-2 text-red-600 bg-red-50 px-3 py-1 rounded-lg">
               <WifiOff className="w-4 h-4" />
-              <span className="text-sm font-medium">Modalità Offline</span>
+              <span className="text-sm font-medium">Errore database</span>
             </div>
           ) : (
             <div className="flex items-center gap-2 text-green-600 bg-green-50 px-3 py-1 rounded-lg">
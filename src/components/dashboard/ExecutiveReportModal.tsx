@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { FileText, X, AlertTriangle } from 'lucide-react';
+import { Campaign, KPIData } from '../../types/campaign';
+import { DateRange } from '../DateFilter';
+import { useAuth } from '../../hooks/useAuth';
+import { useChannels } from '../../hooks/useChannels';
+import { REPORT_SECTIONS, ReportSection, generateExecutiveReport } from '../../utils/executiveReport';
+import { datedFileName, downloadBlob } from '../../utils/download';
+
+interface ExecutiveReportModalProps {
+  campaigns: Campaign[];
+  kpiData: KPIData;
+  dateRange: DateRange;
+  filters: string[];
+  onClose: () => void;
+}
+
+export const ExecutiveReportModal: React.FC<ExecutiveReportModalProps> = ({
+  campaigns,
+  kpiData,
+  dateRange,
+  filters,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const { getChannelByName } = useChannels();
+  const [sections, setSections] = useState<ReportSection[]>(REPORT_SECTIONS.map(section => section.key));
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleSection = (key: ReportSection) => {
+    setSections(prev => (prev.includes(key) ? prev.filter(section => section !== key) : [...prev, key]));
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      setError(null);
+      const blob = await generateExecutiveReport({
+        campaigns,
+        kpiData,
+        dateRange,
+        filters,
+        // Keep the report order fixed whatever order the sections were ticked in
+        sections: REPORT_SECTIONS.map(section => section.key).filter(key => sections.includes(key)),
+        getChannelColor: channelName => getChannelByName(channelName)?.color,
+        generatedBy: user?.email || 'Utente sconosciuto',
+      });
+      downloadBlob(blob, datedFileName('report-esecutivo', 'pdf'));
+      onClose();
+    } catch (err) {
+      console.error('Error generating executive report:', err);
+      setError((err as Error).message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <FileText className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Report PDF</h2>
+              <p className="text-sm text-gray-600">
+                {dateRange.label} • {campaigns.length} campaigns
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-700">Sezioni da includere</h3>
+          <div className="flex gap-3 text-sm">
+            <button
+              onClick={() => setSections(REPORT_SECTIONS.map(section => section.key))}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Tutte
+            </button>
+            <button onClick={() => setSections([])} className="text-blue-600 hover:text-blue-800">
+              Nessuna
+            </button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {REPORT_SECTIONS.map(section => (
+            <label
+              key={section.key}
+              className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type="checkbox"
+                checked={sections.includes(section.key)}
+                onChange={() => toggleSection(section.key)}
+                className="mt-1"
+              />
+              <div>
+                <div className="text-sm font-medium text-gray-900">{section.label}</div>
+                <div className="text-xs text-gray-500">{section.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {filters.length > 0 && (
+          <p className="text-xs text-gray-500 mt-4">Filtri applicati: {filters.join(' • ')}</p>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-6 mt-6 border-t border-gray-200">
+          <button
+            onClick={handleGenerate}
+            disabled={generating || sections.length === 0}
+            className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <FileText className="w-4 h-4" />
+            {generating ? 'Generazione in corso...' : 'Genera PDF'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Annulla
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { AdPlatform, AdPlatformMapping } from '../types/adPlatform';
+import { Campaign } from '../types/campaign';
+import { CurrencyCode } from '../types/currency';
+import {
+  ParsedPlatformExport,
+  PlatformRowMatch,
+  applyActualsUpdates,
+  guessAdPlatform,
+  isPlatformHeaderRow,
+  loadPlatformCampaigns,
+  loadPlatformMappings,
+  matchPlatformRows,
+  parsePlatformExport,
+  planActualsUpdates,
+} from '../utils/adPlatformImport';
+import { SpreadsheetData, readSpreadsheet } from '../utils/spreadsheet';
+import { useAuth } from './useAuth';
+import { useExchangeRates } from './useExchangeRates';
+
+export const useAdPlatformImport = () => {
+  const { user } = useAuth();
+  const { rates } = useExchangeRates();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [platform, setPlatform] = useState<AdPlatform | null>(null);
+  const [parsed, setParsed] = useState<ParsedPlatformExport | null>(null);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [mappings, setMappings] = useState<AdPlatformMapping[]>([]);
+  const [matches, setMatches] = useState<PlatformRowMatch[]>([]);
+  // Chosen by the user when the file doesn't state its currency; null assumes each campaign's own
+  const [manualCurrency, setManualCurrency] = useState<CurrencyCode | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const currency = parsed?.currency ?? manualCurrency;
+
+  const changes = useMemo(
+    () => (parsed ? planActualsUpdates(matches, campaigns, { platform: parsed.platform, hasLeads: parsed.hasLeads, currency, rates }) : []),
+    [matches, campaigns, parsed, currency, rates]
+  );
+
+  const analyze = async (spreadsheet: SpreadsheetData, selected: AdPlatform) => {
+    const result = parsePlatformExport(spreadsheet, selected);
+    const [platformCampaigns, platformMappings] = await Promise.all([
+      loadPlatformCampaigns(selected),
+      loadPlatformMappings(selected),
+    ]);
+    setPlatform(selected);
+    setParsed(result);
+    setCampaigns(platformCampaigns);
+    setMappings(platformMappings);
+    setMatches(matchPlatformRows(result.rows, platformCampaigns, platformMappings));
+  };
+
+  const loadFile = async (file: File, selected: AdPlatform | null) => {
+    try {
+      setBusy(true);
+      const spreadsheet = await readSpreadsheet(file, { isHeaderRow: isPlatformHeaderRow });
+      if (spreadsheet.rows.length === 0) {
+        throw new Error(`${file.name} has no data rows.`);
+      }
+      await analyze(spreadsheet, selected || guessAdPlatform(spreadsheet.headers));
+      setFileName(file.name);
+      setData(spreadsheet);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changePlatform = async (selected: AdPlatform) => {
+    if (!data) return;
+    try {
+      setBusy(true);
+      await analyze(data, selected);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const assignCampaign = (key: string, campaignId: string | null) => {
+    setMatches(prev => prev.map(match =>
+      match.row.key === key ? { ...match, campaignId, matchedBy: campaignId ? 'manual' : null } : match
+    ));
+  };
+
+  const apply = async () => {
+    if (!platform) return 0;
+    try {
+      setBusy(true);
+      setProgress({ done: 0, total: changes.length });
+      return await applyActualsUpdates({
+        platform,
+        changes,
+        matches,
+        mappings,
+        user,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setData(null);
+    setPlatform(null);
+    setParsed(null);
+    setCampaigns([]);
+    setMappings([]);
+    setMatches([]);
+    setManualCurrency(null);
+  };
+
+  return {
+    fileName,
+    platform,
+    parsed,
+    campaigns,
+    matches,
+    currency,
+    setManualCurrency,
+    changes,
+    busy,
+    progress,
+    loadFile,
+    changePlatform,
+    assignCampaign,
+    apply,
+    reset,
+  };
+};
@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { approvalRequestRepository, approvalThresholdRepository, approverRepository, commitInChunks, WriteOperation } from '../repositories';
+import { ApprovalRequest, ApprovalThreshold } from '../types/approval';
+import { Campaign } from '../types/campaign';
+import { DEFAULT_CURRENCY } from '../types/currency';
+import {
+  ApproverInput,
+  canManageApprovals,
+  decideApprovalRequest,
+  findApprover,
+  getApprovalManagersLabel,
+  submitForApproval,
+  validateApprovalThresholds,
+  validateApprover,
+} from '../utils/approvals';
+import { convertAmount, getCampaignCurrency } from '../utils/currency';
+import { useAuth } from './useAuth';
+import { useCollection } from './useCollection';
+import { useExchangeRates } from './useExchangeRates';
+
+export const useApprovals = () => {
+  const { data: requests, loading: loadingRequests, error } = useCollection(approvalRequestRepository);
+  const { data: approvers, loading: loadingApprovers } = useCollection(approverRepository);
+  const { data: thresholds, loading: loadingThresholds } = useCollection(approvalThresholdRepository);
+  const { rates } = useExchangeRates();
+  const { user } = useAuth();
+
+  /** The signed-in user's approver record, if they can decide requests */
+  const currentApprover = useMemo(() => findApprover(approvers, user), [approvers, user]);
+  const canManage = useMemo(() => canManageApprovals(approvers, user), [approvers, user]);
+
+  // Checked here and not only in the UI, so no screen can change who approves what
+  const assertCanManage = () => {
+    if (!canManage) throw new Error(`Only ${getApprovalManagersLabel()} can change approvers and thresholds.`);
+  };
+
+  const submit = (campaign: Campaign) => {
+    // Thresholds are in DEFAULT_CURRENCY, like budget plan envelopes
+    const amount = convertAmount(campaign.budget, getCampaignCurrency(campaign), DEFAULT_CURRENCY, campaign.startDate, rates);
+    if (amount === null) {
+      throw new Error(`No ${getCampaignCurrency(campaign)} exchange rate is recorded: add one before submitting.`);
+    }
+    return submitForApproval({ campaign, amount, thresholds, user });
+  };
+
+  const decide = (request: ApprovalRequest, decision: 'approved' | 'rejected', comment: string) =>
+    decideApprovalRequest({ request, decision, comment, approver: currentApprover, user });
+
+  const saveApprover = async (input: ApproverInput, id?: string) => {
+    assertCanManage();
+    const problem = validateApprover(input, approvers.filter(approver => approver.id !== id));
+    if (problem) throw new Error(problem);
+    const approver = { ...input, email: input.email.trim(), name: input.name.trim() };
+    if (id) {
+      await approverRepository.update(id, approver);
+    } else {
+      await approverRepository.add(approver);
+    }
+  };
+
+  const deleteApprover = async (id: string) => {
+    assertCanManage();
+    await approverRepository.remove(id);
+  };
+
+  /** Replaces the saved thresholds, at most one per role */
+  const saveThresholds = async (values: Pick<ApprovalThreshold, 'role' | 'minAmount'>[]) => {
+    assertCanManage();
+    const problem = validateApprovalThresholds(values);
+    if (problem) throw new Error(problem);
+    const operations: WriteOperation<ApprovalThreshold>[] = values.map(value => {
+      const existing = thresholds.find(threshold => threshold.role === value.role);
+      return existing
+        ? { type: 'update', id: existing.id!, data: { minAmount: value.minAmount } }
+        : { type: 'add', data: value };
+    });
+    thresholds
+      .filter(threshold => !values.some(value => value.role === threshold.role))
+      .forEach(threshold => operations.push({ type: 'remove', id: threshold.id! }));
+    await commitInChunks(approvalThresholdRepository, operations);
+  };
+
+  return {
+    requests,
+    approvers,
+    thresholds,
+    currentApprover,
+    canManage,
+    loading: loadingRequests || loadingApprovers || loadingThresholds,
+    error,
+    submit,
+    decide,
+    saveApprover,
+    deleteApprover,
+    saveThresholds,
+  };
+};
@@ -1,17 +1,26 @@
 import { useState, useEffect } from 'react';
-import { User, onAuthStateChanged, signInWithEmailAndPassword, signOut } from 'firebase/auth';
-import { auth } from '../utils/firebase';
+import { onAuthStateChanged, signInWithEmailAndPassword, signOut } from 'firebase/auth';
+import { getFirebaseAuth } from '../utils/firebase';
+import { dataBackend } from '../repositories';
+import { localSignIn, localSignOut, onLocalAuthStateChanged } from '../utils/localAuth';
+import { AuthUser } from '../types/auth';
+
+const isLocal = dataBackend === 'local';
 
 export const useAuth = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      setUser(user);
+    const handleUser = (user: AuthUser | null) => {
+      setUser(user ? { uid: user.uid, email: user.email, displayName: user.displayName } : null);
       setLoading(false);
-    });
+    };
+
+    const unsubscribe = isLocal
+      ? onLocalAuthStateChanged(handleUser)
+      : onAuthStateChanged(getFirebaseAuth(), handleUser);
 
     return () => unsubscribe();
   }, []);
@@ -20,7 +29,11 @@ export const useAuth = () => {
     try {
       setError(null);
       setLoading(true);
-      await signInWithEmailAndPassword(auth, email, password);
+      if (isLocal) {
+        await localSignIn(email, password);
+      } else {
+        await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+      }
     } catch (error: any) {
       setError(error.message);
       throw error;
@@ -32,7 +45,11 @@ export const useAuth = () => {
   const logout = async () => {
     try {
       setError(null);
-      await signOut(auth);
+      if (isLocal) {
+        await localSignOut();
+      } else {
+        await signOut(getFirebaseAuth());
+      }
     } catch (error: any) {
       setError(error.message);
       throw error;
@@ -47,4 +64,4 @@ export const useAuth = () => {
     logout,
     isAuthenticated: !!user,
   };
-};
\ No newline at end of file
+};
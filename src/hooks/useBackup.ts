@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { BackupDiffItem, ValidatedBackup, createBackup, diffBackup, parseBackup, restoreBackup } from '../utils/backup';
+import { datedFileName, downloadBlob } from '../utils/download';
+import { useAuth } from './useAuth';
+
+export const useBackup = () => {
+  const { user } = useAuth();
+  const [creating, setCreating] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [backup, setBackup] = useState<ValidatedBackup | null>(null);
+  const [diff, setDiff] = useState<BackupDiffItem[] | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const downloadBackup = async () => {
+    try {
+      setCreating(true);
+      const archive = await createBackup(user);
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, datedFileName('aim-backup', 'json'));
+      return archive;
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const loadFile = async (file: File) => {
+    try {
+      setAnalyzing(true);
+      setBackup(null);
+      setDiff(null);
+      const validated = await parseBackup(await file.text());
+      setFileName(file.name);
+      setBackup(validated);
+      setDiff(await diffBackup(validated.archive));
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const restore = async (items: BackupDiffItem[]) => {
+    try {
+      setRestoring(true);
+      setProgress({ done: 0, total: items.length });
+      return await restoreBackup({ items, user, onProgress: (done, total) => setProgress({ done, total }) });
+    } finally {
+      setRestoring(false);
+      setProgress(null);
+      // Show what is left to restore, including after a partial failure
+      if (backup) {
+        setDiff(await diffBackup(backup.archive));
+      }
+    }
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setBackup(null);
+    setDiff(null);
+  };
+
+  return {
+    creating,
+    fileName,
+    backup,
+    diff,
+    analyzing,
+    restoring,
+    progress,
+    downloadBackup,
+    loadFile,
+    restore,
+    reset,
+  };
+};
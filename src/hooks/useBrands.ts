@@ -1,24 +1,33 @@
 import { useCollection } from './useCollection';
 import { Brand } from '../types/brand';
-import { addDoc, updateDoc, deleteDoc, doc, collection, Timestamp } from 'firebase/firestore';
-import { db } from '../utils/firebase';
+import { brandRepository } from '../repositories';
+import { moveToTrash } from '../utils/trash';
+import { cascadeRename } from '../utils/cascadeRename';
+import { assertUnreferenced } from '../utils/entityReferences';
+import { useAuth } from './useAuth';
 
 export const useBrands = () => {
-  const { data: brands, loading, error } = useCollection<Brand>('brands');
+  const { data: brands, loading, error } = useCollection(brandRepository);
+  const { user } = useAuth();
 
   const addBrand = async (brand: Omit<Brand, 'id'>) => {
-    const brandData = { ...brand, createdAt: Timestamp.now(), updatedAt: Timestamp.now() };
-    await addDoc(collection(db, 'brands'), brandData);
+    await brandRepository.add(brand);
   };
 
-  const updateBrand = async (id: string, updates: Partial<Brand>) => {
-    const brandRef = doc(db, 'brands', id);
-    await updateDoc(brandRef, { ...updates, updatedAt: Timestamp.now() });
+  const updateBrand = async (id: string, updates: Partial<Brand>, onRenameProgress?: (done: number, total: number) => void) => {
+    const current = brands.find(brand => brand.id === id);
+    if (current && updates.name !== undefined && updates.name !== current.name) {
+      await cascadeRename({ kind: 'brand', id, from: current.name, to: updates.name, user, onProgress: onRenameProgress });
+    }
+    await brandRepository.update(id, updates);
   };
 
   const deleteBrand = async (id: string) => {
-    const brandRef = doc(db, 'brands', id);
-    await deleteDoc(brandRef);
+    const current = brands.find(brand => brand.id === id);
+    if (current) {
+      await assertUnreferenced('brand', current.name);
+    }
+    await moveToTrash(brandRepository, id, user);
   };
   
   const getActiveBrandsForChannel = (channel: string): Brand[] => {
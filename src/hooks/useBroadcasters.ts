@@ -1,24 +1,33 @@
 import { useCollection } from './useCollection';
 import { Broadcaster } from '../types/broadcaster';
-import { addDoc, updateDoc, deleteDoc, doc, collection, Timestamp } from 'firebase/firestore';
-import { db } from '../utils/firebase';
+import { broadcasterRepository } from '../repositories';
+import { moveToTrash } from '../utils/trash';
+import { cascadeRename } from '../utils/cascadeRename';
+import { assertUnreferenced } from '../utils/entityReferences';
+import { useAuth } from './useAuth';
 
 export const useBroadcasters = () => {
-  const { data: broadcasters, loading, error } = useCollection<Broadcaster>('broadcasters');
+  const { data: broadcasters, loading, error } = useCollection(broadcasterRepository);
+  const { user } = useAuth();
 
   const addBroadcaster = async (broadcaster: Omit<Broadcaster, 'id'>) => {
-    const broadcasterData = { ...broadcaster, createdAt: Timestamp.now(), updatedAt: Timestamp.now() };
-    await addDoc(collection(db, 'broadcasters'), broadcasterData);
+    await broadcasterRepository.add(broadcaster);
   };
 
-  const updateBroadcaster = async (id: string, updates: Partial<Broadcaster>) => {
-    const broadcasterRef = doc(db, 'broadcasters', id);
-    await updateDoc(broadcasterRef, { ...updates, updatedAt: Timestamp.now() });
+  const updateBroadcaster = async (id: string, updates: Partial<Broadcaster>, onRenameProgress?: (done: number, total: number) => void) => {
+    const current = broadcasters.find(broadcaster => broadcaster.id === id);
+    if (current && updates.name !== undefined && updates.name !== current.name) {
+      await cascadeRename({ kind: 'broadcaster', id, from: current.name, to: updates.name, user, onProgress: onRenameProgress });
+    }
+    await broadcasterRepository.update(id, updates);
   };
 
   const deleteBroadcaster = async (id: string) => {
-    const broadcasterRef = doc(db, 'broadcasters', id);
-    await deleteDoc(broadcasterRef);
+    const current = broadcasters.find(broadcaster => broadcaster.id === id);
+    if (current) {
+      await assertUnreferenced('broadcaster', current.name);
+    }
+    await moveToTrash(broadcasterRepository, id, user);
   };
 
   const getActiveBroadcasters = (): Broadcaster[] => {
@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { budgetPlanRepository } from '../repositories';
+import { BudgetEnvelope, BudgetPlan } from '../types/budgetPlan';
+import { validateEnvelopes } from '../utils/budgetPlan';
+import { getFiscalYearLabel } from '../utils/fiscalYear';
+import { useCollection } from './useCollection';
+
+export const useBudgetPlans = () => {
+  const { data: plans, loading, error } = useCollection(budgetPlanRepository);
+
+  const getPlanForYear = useCallback(
+    (year: number): BudgetPlan | undefined => plans.find(plan => plan.year === year),
+    [plans]
+  );
+
+  const addPlan = async (year: number) => {
+    if (getPlanForYear(year)) {
+      throw new Error(`A budget plan for ${getFiscalYearLabel(year)} already exists.`);
+    }
+    return budgetPlanRepository.add({ year, envelopes: [] });
+  };
+
+  const savePlan = async (id: string, envelopes: BudgetEnvelope[], notes: string) => {
+    const errors = validateEnvelopes(envelopes);
+    if (errors.length > 0) {
+      throw new Error(errors.join(' '));
+    }
+    await budgetPlanRepository.update(id, { envelopes, notes });
+  };
+
+  const deletePlan = (id: string) => budgetPlanRepository.remove(id);
+
+  return {
+    plans,
+    loading,
+    error,
+    getPlanForYear,
+    addPlan,
+    savePlan,
+    deletePlan,
+  };
+};
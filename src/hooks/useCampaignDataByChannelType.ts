@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 import { Campaign, ChartData } from '../types/campaign';
 import { useChannels } from './useChannels';
+import { getTopCampaignsByLeads as selectTopCampaignsByLeads } from '../utils/chartHelpers';
 
 export type ChannelType = 'digital' | 'traditional';
 
@@ -192,12 +193,7 @@ export const useCampaignDataByChannelType = (campaigns: Campaign[]) => {
     }));
   };
 
-  const getTopCampaignsByLeads = (limit: number = 3): Campaign[] => {
-    return [...campaigns]
-      .filter(c => c.leads > 0)
-      .sort((a, b) => b.leads - a.leads)
-      .slice(0, limit);
-  };
+  const getTopCampaignsByLeads = (limit: number = 3): Campaign[] => selectTopCampaignsByLeads(campaigns, limit);
 
   return {
     digitalCampaigns,
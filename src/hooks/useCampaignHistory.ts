@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { campaignAuditRepository, campaignRepository } from '../repositories';
+import { Campaign } from '../types/campaign';
+import { CampaignAuditEntry } from '../types/audit';
+import { NO_APPROVAL } from '../utils/approvals';
+import { recordCampaignAudit, toAuditUser, toCampaignSnapshot } from '../utils/campaignAudit';
+import { isStatusTransitionError } from '../utils/campaignStatus';
+import { prepareCampaignUpdate } from '../utils/campaignUpdate';
+import { useAuth } from './useAuth';
+
+export const useCampaignHistory = (campaignId?: string) => {
+  const [entries, setEntries] = useState<CampaignAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!campaignId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = campaignAuditRepository.subscribe(
+      (items) => {
+        // Newest first; sorted here so Firestore doesn't need a composite index
+        setEntries([...items].sort((a, b) => b.timestamp.localeCompare(a.timestamp)));
+        setError(null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching campaign history:', err);
+        setError('Failed to load campaign history.');
+        setLoading(false);
+      },
+      { filters: [{ field: 'campaignId', op: '==', value: campaignId }] }
+    );
+
+    return () => unsubscribe();
+  }, [campaignId]);
+
+  // Brings the campaign back to the state recorded by the given entry
+  const restoreVersion = useCallback(async (entry: CampaignAuditEntry) => {
+    try {
+      setError(null);
+      const before = await campaignRepository.get(entry.campaignId);
+      if (!before) {
+        throw new Error('Campaign no longer exists');
+      }
+      // Fields added after that version are cleared, so the restore is exact. Approval fields are left as
+      // they are: only the approval workflow changes them, and an old approval must not come back.
+      const approvalFields = Object.keys(NO_APPROVAL);
+      const snapshot: Partial<Campaign> = { ...entry.snapshot };
+      approvalFields.forEach(field => delete (snapshot as { [key: string]: unknown })[field]);
+      Object.keys(toCampaignSnapshot(before)).forEach(field => {
+        if (!(field in snapshot) && !approvalFields.includes(field)) {
+          (snapshot as { [key: string]: unknown })[field] = null;
+        }
+      });
+      // Checked like any edit: status guards, and the approval withdrawn if the budget goes above it
+      const restored = prepareCampaignUpdate(before, snapshot);
+      await campaignRepository.update(entry.campaignId, restored);
+      await recordCampaignAudit({
+        campaignId: entry.campaignId,
+        action: 'restore',
+        before,
+        after: { ...before, ...restored },
+        user: toAuditUser(user),
+        restoredFrom: entry.id,
+      });
+    } catch (err) {
+      console.error('Error restoring campaign version:', err);
+      setError(isStatusTransitionError(err) ? err.message : 'Failed to restore this version. Please try again.');
+      throw err;
+    }
+  }, [user]);
+
+  return {
+    entries,
+    loading,
+    error,
+    restoreVersion,
+  };
+};
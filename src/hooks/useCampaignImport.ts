@@ -0,0 +1,132 @@
+import { useMemo, useState } from 'react';
+import { campaignImportRepository } from '../repositories';
+import { CampaignImport } from '../types/campaignImport';
+import {
+  ColumnMapping,
+  ImportReferenceData,
+  MasterDataField,
+  ValueCorrections,
+  guessColumnMapping,
+  importCampaigns,
+  undoImport,
+  validateImport,
+} from '../utils/campaignImport';
+import { SpreadsheetData, readSpreadsheet } from '../utils/spreadsheet';
+import { useDataStore } from '../store/DataStoreContext';
+import { useCollection } from './useCollection';
+import { useAuth } from './useAuth';
+import { useBrands } from './useBrands';
+import { useChannels } from './useChannels';
+import { useRegions } from './useRegions';
+import { useManagers } from './useManagers';
+import { useBroadcasters } from './useBroadcasters';
+
+export const useCampaignImport = () => {
+  const { user } = useAuth();
+  const { campaignPeriods } = useDataStore();
+  const { data: imports } = useCollection(campaignImportRepository);
+  const { brands } = useBrands();
+  const { channels } = useChannels();
+  const { regions } = useRegions();
+  const { managers } = useManagers();
+  const { broadcasters } = useBroadcasters();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [corrections, setCorrections] = useState<ValueCorrections>({});
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Built from the raw collections so validation only reruns when master data actually changes
+  const references: ImportReferenceData = useMemo(() => ({
+    channels: channels.filter(channel => channel.active).map(channel => channel.name),
+    brands: brands.filter(brand => brand.active),
+    regions: regions.filter(region => region.active).map(region => region.name),
+    managers: managers.filter(manager => manager.active),
+    broadcasters: broadcasters.filter(broadcaster => broadcaster.active).map(broadcaster => broadcaster.name),
+  }), [channels, brands, regions, managers, broadcasters]);
+
+  const validation = useMemo(
+    () => (data ? validateImport(data, mapping, references, corrections) : null),
+    [data, mapping, references, corrections]
+  );
+
+  const loadFile = async (file: File) => {
+    try {
+      setBusy(true);
+      const spreadsheet = await readSpreadsheet(file);
+      if (spreadsheet.rows.length === 0) {
+        throw new Error(`${file.name} has no data rows.`);
+      }
+      setFileName(file.name);
+      setData(spreadsheet);
+      setMapping(guessColumnMapping(spreadsheet.headers));
+      setCorrections({});
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setCorrection = (field: MasterDataField, rawValue: string, value: string) => {
+    setCorrections(prev => ({ ...prev, [field]: { ...prev[field], [rawValue]: value } }));
+  };
+
+  const runImport = async (): Promise<CampaignImport> => {
+    const campaigns = (validation?.rows || []).flatMap(row => (row.campaign ? [row.campaign] : []));
+    try {
+      setBusy(true);
+      setProgress({ done: 0, total: campaigns.length });
+      const record = await importCampaigns({
+        campaigns,
+        fileName: fileName || 'import',
+        user,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      // Imported plans often cover other years than the one on screen
+      campaignPeriods.ensurePeriod({
+        startDate: campaigns.reduce((min, campaign) => (campaign.startDate < min ? campaign.startDate : min), campaigns[0].startDate),
+        endDate: campaigns.reduce((max, campaign) => (campaign.endDate > max ? campaign.endDate : max), campaigns[0].endDate),
+      });
+      return record;
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const undo = async (record: CampaignImport) => {
+    try {
+      setBusy(true);
+      return await undoImport(record, user, (done, total) => setProgress({ done, total }));
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setData(null);
+    setMapping({});
+    setCorrections({});
+  };
+
+  return {
+    imports,
+    references,
+    fileName,
+    data,
+    mapping,
+    setMapping,
+    corrections,
+    setCorrection,
+    validation,
+    busy,
+    progress,
+    loadFile,
+    runImport,
+    undo,
+    reset,
+  };
+};
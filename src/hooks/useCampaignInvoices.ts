@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { invoiceRepository } from '../repositories';
+import { Invoice } from '../types/invoice';
+import { InvoiceInput, deleteInvoice, saveInvoice } from '../utils/invoices';
+import { useAuth } from './useAuth';
+
+export const useCampaignInvoices = (campaignId?: string) => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!campaignId) {
+      setInvoices([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = invoiceRepository.subscribe(
+      (items) => {
+        // Newest first; sorted here so Firestore doesn't need a composite index
+        setInvoices([...items].sort((a, b) => b.date.localeCompare(a.date)));
+        setError(null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching invoices:', err);
+        setError('Failed to load invoices.');
+        setLoading(false);
+      },
+      { filters: [{ field: 'campaignId', op: '==', value: campaignId }] }
+    );
+
+    return () => unsubscribe();
+  }, [campaignId]);
+
+  const save = (invoice: InvoiceInput, id?: string) => saveInvoice({ campaignId: campaignId!, id, invoice, user });
+
+  const remove = (invoice: Invoice) => deleteInvoice(invoice, user);
+
+  return {
+    invoices,
+    loading,
+    error,
+    save,
+    remove,
+  };
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { postBuyReportRepository } from '../repositories';
+import { PostBuyReport } from '../types/postBuy';
+
+/** The post-buy reports of one campaign, oldest air dates first */
+export const useCampaignPostBuy = (campaignId?: string) => {
+  const [reports, setReports] = useState<PostBuyReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!campaignId) {
+      setReports([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = postBuyReportRepository.subscribe(
+      (items) => {
+        // Sorted here so Firestore doesn't need a composite index
+        setReports([...items].sort((a, b) => (a.startDate ?? '').localeCompare(b.startDate ?? '')));
+        setError(null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching post-buy reports:', err);
+        setError('Failed to load the post-buy reports.');
+        setLoading(false);
+      },
+      { filters: [{ field: 'campaignId', op: '==', value: campaignId }] }
+    );
+
+    return () => unsubscribe();
+  }, [campaignId]);
+
+  return { reports, loading, error };
+};
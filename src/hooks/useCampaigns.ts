@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { Campaign } from '../types/campaign';
+import {
+  selectCampaigns,
+  selectCampaignsByBrand,
+  selectCampaignsByChannel,
+  selectCampaignsInPeriod,
+} from '../store/campaignSelectors';
+import { useDataStore } from '../store/DataStoreContext';
+import { Period } from '../utils/fiscalYear';
+
+const NO_CAMPAIGNS: Campaign[] = [];
+
+const useCampaignPeriodSnapshot = () => {
+  const { campaignPeriods } = useDataStore();
+  return useSyncExternalStore(campaignPeriods.subscribe, campaignPeriods.getSnapshot);
+};
+
+/**
+ * Read-only access to the campaigns of every loaded period (the current fiscal year at first);
+ * use useFirestore to modify campaigns and useEnsureCampaignPeriod to load more.
+ */
+export const useCampaigns = () => {
+  const { data, loading, error } = useCampaignPeriodSnapshot();
+
+  // On errors the periods that did load are still shown, with the error, rather than made-up data
+  return {
+    campaigns: selectCampaigns(data),
+    loading,
+    error,
+  };
+};
+
+export const useCampaignPeriods = () => {
+  const { campaignPeriods } = useDataStore();
+  const { loadedPeriods, loadingPeriods } = useCampaignPeriodSnapshot();
+
+  const ensurePeriod = useCallback((period: Period) => campaignPeriods.ensurePeriod(period), [campaignPeriods]);
+
+  return {
+    loadedPeriods,
+    loadingPeriods,
+    ensurePeriod,
+  };
+};
+
+// Loads the campaigns overlapping the range a screen is showing; already-loaded parts are not read again
+export const useEnsureCampaignPeriod = (startDate: string, endDate: string) => {
+  const { ensurePeriod } = useCampaignPeriods();
+  useEffect(() => {
+    ensurePeriod({ startDate, endDate });
+  }, [ensurePeriod, startDate, endDate]);
+};
+
+export const useCampaignsByChannel = (channel: string): Campaign[] => {
+  const { campaigns } = useCampaigns();
+  return selectCampaignsByChannel(campaigns).get(channel) || NO_CAMPAIGNS;
+};
+
+export const useCampaignsByBrand = (brand: string): Campaign[] => {
+  const { campaigns } = useCampaigns();
+  return selectCampaignsByBrand(campaigns).get(brand) || NO_CAMPAIGNS;
+};
+
+export const useCampaignsInPeriod = (startDate: string, endDate: string): Campaign[] => {
+  const { campaigns } = useCampaigns();
+  return useMemo(() => selectCampaignsInPeriod(campaigns, startDate, endDate), [campaigns, startDate, endDate]);
+};
@@ -1,24 +1,39 @@
 import { useCollection } from './useCollection';
 import { Channel, getDefaultKPIsForChannel, getDefaultSubGroupingForChannel } from '../types/channel';
-import { addDoc, updateDoc, deleteDoc, doc, collection, Timestamp } from 'firebase/firestore';
-import { db } from '../utils/firebase';
+import { channelRepository } from '../repositories';
+import { moveToTrash } from '../utils/trash';
+import { cascadeRename } from '../utils/cascadeRename';
+import { assertUnreferenced } from '../utils/entityReferences';
+import { useAuth } from './useAuth';
+import { memoizeBySnapshot } from '../store/memoize';
+
+// Shared by every caller: charts look up channels once per row
+const selectChannelsByName = memoizeBySnapshot((channels: Channel[]) =>
+  new Map(channels.map(channel => [channel.name, channel]))
+);
 
 export const useChannels = () => {
-  const { data: channels, loading, error } = useCollection<Channel>('channels');
+  const { data: channels, loading, error } = useCollection(channelRepository);
+  const { user } = useAuth();
 
   const addChannel = async (channel: Omit<Channel, 'id'>) => {
-    const channelData = { ...channel, createdAt: Timestamp.now(), updatedAt: Timestamp.now() };
-    await addDoc(collection(db, 'channels'), channelData);
+    await channelRepository.add(channel);
   };
 
-  const updateChannel = async (id: string, updates: Partial<Channel>) => {
-    const channelRef = doc(db, 'channels', id);
-    await updateDoc(channelRef, { ...updates, updatedAt: Timestamp.now() });
+  const updateChannel = async (id: string, updates: Partial<Channel>, onRenameProgress?: (done: number, total: number) => void) => {
+    const current = channels.find(channel => channel.id === id);
+    if (current && updates.name !== undefined && updates.name !== current.name) {
+      await cascadeRename({ kind: 'channel', id, from: current.name, to: updates.name, user, onProgress: onRenameProgress });
+    }
+    await channelRepository.update(id, updates);
   };
 
   const deleteChannel = async (id: string) => {
-    const channelRef = doc(db, 'channels', id);
-    await deleteDoc(channelRef);
+    const current = channels.find(channel => channel.id === id);
+    if (current) {
+      await assertUnreferenced('channel', current.name);
+    }
+    await moveToTrash(channelRepository, id, user);
   };
 
   const getActiveChannels = (): Channel[] => {
@@ -26,7 +41,7 @@ export const useChannels = () => {
   };
 
   const getChannelByName = (name: string): Channel | undefined => {
-    return channels.find(channel => channel.name === name);
+    return selectChannelsByName(channels).get(name);
   };
 
   const getVisibleKPIsForChannel = (channelName: string): string[] => {
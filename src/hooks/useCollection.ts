@@ -1,52 +1,15 @@
-import { useState, useEffect } from 'react';
-import { collection, onSnapshot, query, orderBy, DocumentData } from 'firebase/firestore';
-import { db } from '../utils/firebase';
+import { useCallback, useSyncExternalStore } from 'react';
+import { BaseDocument, Repository } from '../repositories';
+import { CollectionSnapshot } from '../store/collectionStore';
+import { useDataStore } from '../store/DataStoreContext';
 
-// Definiamo un'interfaccia di base per i nostri documenti
-interface FirestoreDocument {
-  id: string;
-}
+// Reads a collection from the shared store: every caller shares a single backend listener
+export const useCollection = <T extends BaseDocument>(repository: Repository<T>): CollectionSnapshot<T> => {
+  const store = useDataStore();
 
-export const useCollection = <T extends DocumentData>(collectionName: string) => {
-  const [data, setData] = useState<T[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // L'ordinamento predefinito (createdAt per le campagne, name per le anagrafiche) è definito nel repository
+  const subscribe = useCallback((listener: () => void) => store.collections.subscribe(repository, listener), [store, repository]);
+  const getSnapshot = useCallback(() => store.collections.getSnapshot(repository), [store, repository]);
 
-  useEffect(() => {
-    // Gestisce le collezioni che potrebbero non avere un campo 'name' per l'ordinamento
-    const aQuery = collectionName === 'campaigns'
-      ? query(collection(db, collectionName), orderBy('createdAt', 'desc'))
-      : query(collection(db, collectionName), orderBy('name', 'asc'));
-
-    const unsubscribe = onSnapshot(
-      aQuery,
-      (snapshot) => {
-        try {
-          const result = snapshot.docs.map((doc) => ({
-            id: doc.id,
-            ...doc.data(),
-            // Converte i Timestamp di Firestore in stringhe ISO per coerenza
-            createdAt: doc.data().createdAt?.toDate?.().toISOString(),
-            updatedAt: doc.data().updatedAt?.toDate?.().toISOString(),
-          } as T & FirestoreDocument));
-          setData(result);
-          setError(null);
-        } catch (err) {
-          console.error(`Error processing ${collectionName}:`, err);
-          setError(`Failed to load ${collectionName}`);
-        } finally {
-          setLoading(false);
-        }
-      },
-      (err) => {
-        console.error(`Error fetching ${collectionName}:`, err);
-        setError('Failed to connect to the database.');
-        setLoading(false);
-      }
-    );
-
-    return () => unsubscribe();
-  }, [collectionName]);
-
-  return { data, loading, error };
-};
\ No newline at end of file
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
@@ -0,0 +1,29 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Campaign } from '../types/campaign';
+import { applyCostBasis, getCostBasis, resolveFeeRule, setCostBasis, subscribeCostBasis } from '../utils/costBreakdown';
+import { useBroadcasters } from './useBroadcasters';
+import { useChannels } from './useChannels';
+
+/** Fee rules configured on channels and broadcasters */
+export const useFeeRules = () => {
+  const { channels } = useChannels();
+  const { broadcasters } = useBroadcasters();
+  const sources = useMemo(() => ({ channels, broadcasters }), [channels, broadcasters]);
+
+  const resolve = useCallback(
+    (campaign: Pick<Campaign, 'channel' | 'publisher'>) => resolveFeeRule(campaign, sources),
+    [sources]
+  );
+
+  return { sources, resolveFeeRule: resolve };
+};
+
+export const useCostBasis = () => {
+  const basis = useSyncExternalStore(subscribeCostBasis, getCostBasis);
+  const { sources } = useFeeRules();
+
+  /** Campaign amounts on the chosen basis, for totals, KPIs, charts and exports */
+  const apply = useCallback((campaigns: Campaign[]) => applyCostBasis(campaigns, basis, sources), [basis, sources]);
+
+  return { basis, setBasis: setCostBasis, apply };
+};
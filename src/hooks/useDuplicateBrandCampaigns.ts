@@ -1,7 +1,12 @@
 import { useState } from 'react';
-import { collection, addDoc, query, where, getDocs, Timestamp } from 'firebase/firestore';
-import { db } from '../utils/firebase';
-import { Campaign, Status } from '../types/campaign';
+import { campaignRepository } from '../repositories';
+import { NO_APPROVAL } from '../utils/approvals';
+import { recordCampaignAudit, toAuditUser } from '../utils/campaignAudit';
+import { applyStatusTransition, calculateStatusFromDates, checkStatusTransition } from '../utils/campaignStatus';
+import { withoutTrashed } from '../utils/trash';
+import { useAuth } from './useAuth';
+import { useDataStore } from '../store/DataStoreContext';
+import { Status } from '../types/campaign';
 
 interface DuplicationOverrides {
   startDate: string;
@@ -15,27 +20,8 @@ interface DuplicationOverrides {
 export const useDuplicateBrandCampaigns = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  const calculateStatusFromDates = (startDate: string, endDate: string): Status => {
-    const now = new Date();
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    // Set time to start of day for accurate comparison
-    now.setHours(0, 0, 0, 0);
-    start.setHours(0, 0, 0, 0);
-    end.setHours(23, 59, 59, 999);
-
-    if (now < start) {
-      return 'PLANNED';
-    } else if (now >= start && now <= end) {
-      return 'ACTIVE';
-    } else if (now > end) {
-      return 'COMPLETED';
-    }
-    
-    return 'PLANNED'; // fallback
-  };
+  const { user } = useAuth();
+  const { campaignPeriods } = useDataStore();
 
   const duplicateCampaignsByBrand = async (
     brand: string, 
@@ -47,30 +33,17 @@ export const useDuplicateBrandCampaigns = () => {
       setError(null);
 
       // Query campaigns for the specific brand AND channel
-      const campaignsRef = collection(db, 'campaigns');
-      const q = query(
-        campaignsRef, 
-        where('brand', '==', brand),
-        where('channel', '==', channel)
-      );
-      const snapshot = await getDocs(q);
-
-      if (snapshot.empty) {
+      const campaigns = withoutTrashed(await campaignRepository.list({
+        filters: [
+          { field: 'brand', op: '==', value: brand },
+          { field: 'channel', op: '==', value: channel },
+        ],
+      }));
+
+      if (campaigns.length === 0) {
         throw new Error(`No campaigns found for brand "${brand}" in the ${channel} channel`);
       }
 
-      const campaigns: Campaign[] = [];
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        campaigns.push({
-          id: doc.id,
-          ...data,
-          // Convert Firestore Timestamps to ISO strings
-          createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-        } as Campaign);
-      });
-
       console.log(`Found ${campaigns.length} ${channel} campaigns for brand "${brand}"`);
 
       // Create duplicated campaigns
@@ -104,6 +77,15 @@ export const useDuplicateBrandCampaigns = () => {
           newNotes = '(Copy)';
         }
 
+        // Copies start unapproved: statuses they can't enter yet (e.g. Scheduled, or Active without an
+        // approved budget) fall back to planned, ready to be submitted for approval
+        const copy = { ...campaign, ...overrides, ...NO_APPROVAL };
+        const check = checkStatusTransition(null, newStatus, copy);
+        if (!check.allowed) {
+          console.warn(`⚠️ Cannot use status ${newStatus} for ${campaign.brand}: ${check.reasons.join('; ')}`);
+          newStatus = 'PLANNED';
+        }
+
         // ✅ CRITICAL FIX: Remove id and other undefined fields before creating new campaign
         const { id, createdAt, updatedAt, ...campaignDataWithoutId } = campaign;
 
@@ -114,7 +96,8 @@ export const useDuplicateBrandCampaigns = () => {
           endDate: overrides.endDate,
           manager: overrides.manager || campaign.manager,
           notes: newNotes,
-          status: newStatus, // Use the priority-based status
+          ...NO_APPROVAL,
+          ...applyStatusTransition(null, newStatus, copy), // Use the priority-based status
         };
       });
 
@@ -126,26 +109,22 @@ export const useDuplicateBrandCampaigns = () => {
           console.warn(`⚠️ Original campaign had undefined id:`, originalCampaign);
         }
 
-        // ✅ Ensure no undefined values in the final data
-        const cleanCampaignData = {
-          ...campaignData,
-          createdAt: Timestamp.now(),
-          updatedAt: Timestamp.now(),
-        };
-
-        // ✅ Double-check: Remove any remaining undefined values
-        Object.keys(cleanCampaignData).forEach(key => {
-          if (cleanCampaignData[key as keyof typeof cleanCampaignData] === undefined) {
-            delete cleanCampaignData[key as keyof typeof cleanCampaignData];
-          }
+        // Timestamps and undefined-field cleanup are handled by the repository
+        const created = await campaignRepository.add(campaignData);
+        await recordCampaignAudit({
+          campaignId: created.id!,
+          action: 'create',
+          before: null,
+          after: created,
+          user: toAuditUser(user),
         });
-
-        const docRef = await addDoc(collection(db, 'campaigns'), cleanCampaignData);
-        console.log(`✅ Duplicated ${channel} campaign: ${campaignData.brand} - ${campaignData.channel} (ID: ${docRef.id}) with status: ${campaignData.status}`);
-        return docRef;
+        console.log(`✅ Duplicated ${channel} campaign: ${campaignData.brand} - ${campaignData.channel} (ID: ${created.id}) with status: ${campaignData.status}`);
+        return created;
       });
 
       await Promise.all(insertPromises);
+      // The copies may fall outside the loaded periods
+      campaignPeriods.ensurePeriod({ startDate: overrides.startDate, endDate: overrides.endDate });
 
       console.log(`🎉 Successfully duplicated ${campaigns.length} ${channel} campaigns for brand "${brand}"`);
       
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ReferenceKind, countCampaignUsage, reassignCampaigns } from '../utils/entityReferences';
+import { useAuth } from './useAuth';
+
+// Campaign counts for the listed brands/channels/regions/managers/broadcasters, and reassignment between them
+export const useEntityUsage = (kind: ReferenceKind, values: string[]) => {
+  const [usage, setUsage] = useState<{ [value: string]: number }>({});
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  // Counted with aggregation queries rather than a listener on every campaign; re-counted when the list changes
+  const valuesKey = JSON.stringify([...values].sort());
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsage(await countCampaignUsage(kind, JSON.parse(valuesKey) as string[]));
+    } catch (err) {
+      console.error(`Error counting campaigns per ${kind}:`, err);
+    } finally {
+      setLoading(false);
+    }
+  }, [kind, valuesKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getUsageCount = useCallback((value: string): number => usage[value] || 0, [usage]);
+
+  const reassign = async (from: string, to: string, onProgress?: (done: number, total: number) => void) => {
+    const updated = await reassignCampaigns({ kind, from, to, user, onProgress });
+    await refresh();
+    return updated;
+  };
+
+  return {
+    usage,
+    loading,
+    getUsageCount,
+    reassign,
+    refresh,
+  };
+};
@@ -0,0 +1,54 @@
+import { commitInChunks, exchangeRateRepository, WriteOperation } from '../repositories';
+import { ExchangeRate } from '../types/currency';
+import { validateExchangeRate } from '../utils/currency';
+import { ExchangeRateInput } from '../utils/exchangeRateImport';
+import { useCollection } from './useCollection';
+
+const isSameRate = (a: ExchangeRateInput, b: ExchangeRateInput) => a.currency === b.currency && a.date === b.date;
+
+export const useExchangeRates = () => {
+  const { data: rates, loading, error } = useCollection(exchangeRateRepository);
+
+  const saveRate = async (input: ExchangeRateInput, id?: string) => {
+    const problem = validateExchangeRate(input);
+    if (problem) throw new Error(problem);
+    if (rates.some(rate => rate.id !== id && isSameRate(rate, input))) {
+      throw new Error(`A ${input.currency} rate for ${input.date} already exists.`);
+    }
+    if (id) {
+      await exchangeRateRepository.update(id, { ...input, source: 'manual' });
+    } else {
+      await exchangeRateRepository.add({ ...input, source: 'manual' });
+    }
+  };
+
+  const deleteRate = (id: string) => exchangeRateRepository.remove(id);
+
+  /** Adds the imported rates; a rate already recorded for the same currency and date is overwritten */
+  const importRates = async (inputs: ExchangeRateInput[]) => {
+    // Within the file the last row for a currency and date wins
+    const unique = new Map(inputs.map(input => [`${input.currency}|${input.date}`, input]));
+    const operations: WriteOperation<ExchangeRate>[] = [];
+    let updated = 0;
+    unique.forEach(input => {
+      const existing = rates.find(rate => isSameRate(rate, input));
+      if (!existing) {
+        operations.push({ type: 'add', data: { ...input, source: 'import' } });
+      } else if (existing.rate !== input.rate) {
+        operations.push({ type: 'update', id: existing.id!, data: { rate: input.rate, source: 'import' } });
+        updated++;
+      }
+    });
+    await commitInChunks(exchangeRateRepository, operations);
+    return { added: operations.length - updated, updated, unchanged: unique.size - operations.length };
+  };
+
+  return {
+    rates,
+    loading,
+    error,
+    saveRate,
+    deleteRate,
+    importRates,
+  };
+};
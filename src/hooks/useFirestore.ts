@@ -1,134 +1,81 @@
-import { useState, useEffect } from 'react';
-import { 
-  collection, 
-  getDocs, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  query, 
-  orderBy,
-  onSnapshot,
-  Timestamp 
-} from 'firebase/firestore';
-import { db } from '../utils/firebase';
-import { Campaign, migrateStatus } from '../types/campaign';
-import { getAuth } from 'firebase/auth';
-const auth = getAuth();
+import { useState } from 'react';
+import { campaignRepository, isConcurrencyConflict, UpdateOptions } from '../repositories';
+import { Campaign, migrateStatus, normalizeCampaignMetrics } from '../types/campaign';
+import { recordCampaignAudit, toAuditUser } from '../utils/campaignAudit';
+import { applyStatusTransition, isStatusTransitionError } from '../utils/campaignStatus';
+import { prepareCampaignUpdate } from '../utils/campaignUpdate';
+import { moveToTrash } from '../utils/trash';
+import { useDataStore } from '../store/DataStoreContext';
+import { useAuth } from './useAuth';
+import { useCampaigns } from './useCampaigns';
 
 export const useFirestore = () => {
-  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Campaigns come from the shared, period-scoped store (see DataStoreProvider)
+  const store = useDataStore();
+  const { campaigns, loading: loadingCampaigns, error: loadError } = useCampaigns();
   const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const { user } = useAuth();
 
-  // Real-time listener for campaigns
-  useEffect(() => {
-    const campaignsRef = collection(db, 'campaigns');
-    const q = query(campaignsRef, orderBy('createdAt', 'desc'));
-
-    const unsubscribe = onSnapshot(
-      q,
-      (snapshot) => {
-        try {
-          const campaignData: Campaign[] = [];
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            campaignData.push({
-             ...data,
-             id: doc.id,
-              // Migrate legacy status values
-              status: migrateStatus(data.status),
-              // Convert Firestore Timestamps to ISO strings
-              createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-              updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-              // Ensure channel-specific metrics are properly typed
-              expectedGrps: data.expectedGrps || null,
-              achievedGrps: data.achievedGrps || null,
-              spotsPurchased: data.spotsPurchased || null,
-              impressions: data.impressions || null,
-              expectedViewers: data.expectedViewers || null,
-              expectedViews: data.expectedViews || null,
-            } as Campaign);
-          });
-          setCampaigns(campaignData);
-          setError(null);
-        } catch (err) {
-          console.error('Error processing campaigns:', err);
-          setError('Failed to load campaigns');
-        } finally {
-          setLoading(false);
-        }
-      },
-      (err) => {
-        console.error('Error fetching campaigns:', err);
-        setError('Failed to connect to database. Please check your internet connection.');
-        setLoading(false);
-        
-        // Fallback to demo data if Firestore is not available
-        const demoData = generateDemoData();
-        setCampaigns(demoData);
-      }
-    );
-
-    return () => unsubscribe();
-  }, []);
+  const loading = loadingCampaigns || refreshing;
 
   const addCampaign = async (campaign: Omit<Campaign, 'id'>) => {
     try {
       setError(null);
-      
-      // Clean up the campaign data before saving
+
+      // Clean up the campaign data before saving; the initial status must satisfy its guards too
       const cleanedCampaign = {
-        ...campaign,
-        // Convert null values to Firestore-compatible format
-        expectedGrps: campaign.expectedGrps || null,
-        achievedGrps: campaign.achievedGrps || null,
-        spotsPurchased: campaign.spotsPurchased || null,
-        impressions: campaign.impressions || null,
-        expectedViewers: campaign.expectedViewers || null,
-        expectedViews: campaign.expectedViews || null,
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
+        ...normalizeCampaignMetrics(campaign, true),
+        ...applyStatusTransition(null, migrateStatus(campaign.status), campaign),
       };
 
-      const docRef = await addDoc(collection(db, 'campaigns'), cleanedCampaign);
-      
+      const created = await campaignRepository.add(cleanedCampaign);
+      await recordCampaignAudit({
+        campaignId: created.id!,
+        action: 'create',
+        before: null,
+        after: created,
+        user: toAuditUser(user),
+      });
+
+      // Campaigns outside the loaded periods would otherwise vanish right after saving
+      store.campaignPeriods.ensurePeriod({ startDate: created.startDate, endDate: created.endDate });
+
       // Return the campaign with the new ID
-      return {
-        ...campaign,
-        id: docRef.id,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+      return created;
     } catch (err) {
       console.error('Error adding campaign:', err);
-      setError('Failed to add campaign. Please try again.');
+      setError(isStatusTransitionError(err) ? err.message : 'Failed to add campaign. Please try again.');
       throw err;
     }
   };
 
-  const updateCampaign = async (id: string, updates: Partial<Campaign>) => {
+  // Pass expectedUpdatedAt to reject the save if someone else changed the campaign in the meantime
+  const updateCampaign = async (id: string, updates: Partial<Campaign>, options?: UpdateOptions) => {
     try {
       setError(null);
-      const campaignRef = doc(db, 'campaigns', id);
-      
-      // Clean up the updates data
-      const cleanedUpdates = {
-        ...updates,
-        // Ensure channel-specific metrics are properly handled
-        expectedGrps: updates.expectedGrps || null,
-        achievedGrps: updates.achievedGrps || null,
-        spotsPurchased: updates.spotsPurchased || null,
-        impressions: updates.impressions || null,
-        expectedViewers: updates.expectedViewers || null,
-        expectedViews: updates.expectedViews || null,
-        updatedAt: Timestamp.now(),
-      };
 
-      await updateDoc(campaignRef, cleanedUpdates);
+      const before = await campaignRepository.get(id);
+      const cleanedUpdates = prepareCampaignUpdate(before, updates);
+      await campaignRepository.update(id, cleanedUpdates, options);
+      await recordCampaignAudit({
+        campaignId: id,
+        action: 'update',
+        before,
+        after: { ...before, ...cleanedUpdates },
+        user: toAuditUser(user),
+      });
+      if (cleanedUpdates.startDate || cleanedUpdates.endDate) {
+        store.campaignPeriods.ensurePeriod({
+          startDate: cleanedUpdates.startDate || before?.startDate || '',
+          endDate: cleanedUpdates.endDate || before?.endDate || '',
+        });
+      }
     } catch (err) {
+      // Conflicts are resolved by the caller through the merge dialog
+      if (isConcurrencyConflict(err)) throw err;
       console.error('Error updating campaign:', err);
-      setError('Failed to update campaign. Please try again.');
+      setError(isStatusTransitionError(err) ? err.message : 'Failed to update campaign. Please try again.');
       throw err;
     }
   };
@@ -136,10 +83,16 @@ export const useFirestore = () => {
   const deleteCampaign = async (id: string) => {
     try {
       setError(null);
-      // 🔍 DEBUG: chi è l'utente corrente?
-      console.log('[DEBUG] Firebase user before delete:', auth.currentUser);
-      const campaignRef = doc(db, 'campaigns', id);
-      await deleteDoc(campaignRef);
+      // Soft delete: the campaign stays in the Trash tab until restored or purged
+      const before = await campaignRepository.get(id);
+      await moveToTrash(campaignRepository, id, user);
+      await recordCampaignAudit({
+        campaignId: id,
+        action: 'delete',
+        before,
+        after: before,
+        user: toAuditUser(user),
+      });
     } catch (err) {
       console.error('Error deleting campaign:', err);
       setError('Failed to delete campaign. Please try again.');
@@ -149,178 +102,24 @@ export const useFirestore = () => {
 
   const refetch = async () => {
     try {
-      setLoading(true);
+      setRefreshing(true);
       setError(null);
-      const campaignsRef = collection(db, 'campaigns');
-      const q = query(campaignsRef, orderBy('createdAt', 'desc'));
-      const snapshot = await getDocs(q);
-      
-      const campaignData: Campaign[] = [];
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        campaignData.push({
-          id: doc.id,
-          ...data,
-          // Migrate legacy status values
-          status: migrateStatus(data.status),
-          createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-          // Ensure channel-specific metrics are properly typed
-          expectedGrps: data.expectedGrps || null,
-          achievedGrps: data.achievedGrps || null,
-          spotsPurchased: data.spotsPurchased || null,
-          impressions: data.impressions || null,
-          expectedViewers: data.expectedViewers || null,
-          expectedViews: data.expectedViews || null,
-        } as Campaign);
-      });
-      
-      setCampaigns(campaignData);
+      await store.campaignPeriods.refresh();
     } catch (err) {
       console.error('Error refetching campaigns:', err);
       setError('Failed to refresh campaigns.');
     } finally {
-      setLoading(false);
+      setRefreshing(false);
     }
   };
 
   return {
     campaigns,
     loading,
-    error,
+    error: error || loadError,
     addCampaign,
     updateCampaign,
     deleteCampaign,
     refetch,
   };
 };
-
-// Demo data for fallback when Firestore is not available
-const generateDemoData = (): Campaign[] => [
-  {
-    id: 'demo-1',
-    channel: 'Meta',
-    brand: 'FC',
-    region: 'Lazio',
-    periodType: 'monthly',
-    startDate: '2025-01-01',
-    endDate: '2025-01-31',
-    budget: 12000,
-    roi: '1198%',
-    costPerLead: 6.81,
-    leads: 1762,
-    manager: 'AG',
-    status: 'ACTIVE', // Updated to new status
-    notes: 'Special campaign in Rome',
-    extraSocialBudget: 2500,
-    extraSocialNotes: 'Boosted reel on launch day, IG Story Ads during promotion week',
-    // Channel-specific metrics (null for non-applicable channels)
-    expectedGrps: null,
-    achievedGrps: null,
-    spotsPurchased: null,
-    impressions: null,
-    expectedViewers: null,
-    expectedViews: null,
-    createdAt: '2025-01-01T00:00:00Z',
-  },
-  {
-    id: 'demo-2',
-    channel: 'Google',
-    brand: 'ILMI',
-    region: 'Emilia-Romagna',
-    periodType: 'weekly',
-    startDate: '2025-01-07',
-    endDate: '2025-01-14',
-    budget: 8500,
-    roi: '892%',
-    costPerLead: 8.45,
-    leads: 1005,
-    manager: 'MR',
-    status: 'SCHEDULED', // Updated to new status
-    notes: 'Bologna targeting',
-    // Channel-specific metrics (null for non-applicable channels)
-    expectedGrps: null,
-    achievedGrps: null,
-    spotsPurchased: null,
-    impressions: null,
-    expectedViewers: null,
-    expectedViews: null,
-    createdAt: '2025-01-07T00:00:00Z',
-  },
-  {
-    id: 'demo-3',
-    channel: 'TikTok',
-    brand: 'ArredissimA',
-    region: 'National',
-    periodType: 'monthly',
-    startDate: '2025-01-01',
-    endDate: '2025-01-31',
-    budget: 15000,
-    roi: '756%',
-    costPerLead: 12.30,
-    leads: 1220,
-    manager: 'LC',
-    status: 'ACTIVE', // Updated to new status
-    notes: 'Gen Z targeting campaign',
-    extraSocialBudget: 3000,
-    extraSocialNotes: 'Spark Ads for viral content, TopView campaign for brand awareness',
-    // Channel-specific metrics (null for non-applicable channels)
-    expectedGrps: null,
-    achievedGrps: null,
-    spotsPurchased: null,
-    impressions: null,
-    expectedViewers: null,
-    expectedViews: null,
-    createdAt: '2025-01-01T00:00:00Z',
-  },
-  {
-    id: 'demo-4',
-    channel: 'TV',
-    brand: 'ArredissimA',
-    region: 'National',
-    periodType: 'monthly',
-    startDate: '2025-01-15',
-    endDate: '2025-02-15',
-    budget: 45000,
-    roi: '320%',
-    costPerLead: 0,
-    leads: 0,
-    manager: 'FP',
-    status: 'ACTIVE', // Updated to new status
-    notes: 'Prime time TV campaign',
-    publisher: 'Sky – ATP Finals 2025',
-    // TV-specific metrics
-    expectedGrps: 150.5,
-    achievedGrps: 142.3,
-    spotsPurchased: 24,
-    impressions: null,
-    expectedViewers: null,
-    expectedViews: null,
-    createdAt: '2025-01-15T00:00:00Z',
-  },
-  {
-    id: 'demo-5',
-    channel: 'Radio',
-    brand: 'FC',
-    region: 'Lombardia',
-    periodType: 'weekly',
-    startDate: '2025-01-20',
-    endDate: '2025-01-27',
-    budget: 8500,
-    roi: '180%',
-    costPerLead: 0,
-    leads: 0,
-    manager: 'AG',
-    status: 'SCHEDULED', // Updated to new status
-    notes: 'Morning drive time slots',
-    publisher: 'RAI – National Coverage',
-    // Radio-specific metrics
-    expectedGrps: null,
-    achievedGrps: null,
-    spotsPurchased: 48,
-    impressions: 250000,
-    expectedViewers: null,
-    expectedViews: null,
-    createdAt: '2025-01-20T00:00:00Z',
-  },
-];
\ No newline at end of file
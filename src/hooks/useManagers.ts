@@ -1,24 +1,33 @@
 import { useCollection } from './useCollection';
 import { Manager } from '../types/manager';
-import { addDoc, updateDoc, deleteDoc, doc, collection, Timestamp } from 'firebase/firestore';
-import { db } from '../utils/firebase';
+import { managerRepository } from '../repositories';
+import { moveToTrash } from '../utils/trash';
+import { cascadeRename } from '../utils/cascadeRename';
+import { assertUnreferenced } from '../utils/entityReferences';
+import { useAuth } from './useAuth';
 
 export const useManagers = () => {
-  const { data: managers, loading, error } = useCollection<Manager>('managers');
+  const { data: managers, loading, error } = useCollection(managerRepository);
+  const { user } = useAuth();
 
   const addManager = async (manager: Omit<Manager, 'id'>) => {
-    const managerData = { ...manager, createdAt: Timestamp.now(), updatedAt: Timestamp.now() };
-    await addDoc(collection(db, 'managers'), managerData);
+    await managerRepository.add(manager);
   };
 
-  const updateManager = async (id: string, updates: Partial<Manager>) => {
-    const managerRef = doc(db, 'managers', id);
-    await updateDoc(managerRef, { ...updates, updatedAt: Timestamp.now() });
+  const updateManager = async (id: string, updates: Partial<Manager>, onRenameProgress?: (done: number, total: number) => void) => {
+    const current = managers.find(manager => manager.id === id);
+    if (current && updates.initials !== undefined && updates.initials !== current.initials) {
+      await cascadeRename({ kind: 'manager', id, from: current.initials, to: updates.initials, user, onProgress: onRenameProgress });
+    }
+    await managerRepository.update(id, updates);
   };
 
   const deleteManager = async (id: string) => {
-    const managerRef = doc(db, 'managers', id);
-    await deleteDoc(managerRef);
+    const current = managers.find(manager => manager.id === id);
+    if (current) {
+      await assertUnreferenced('manager', current.initials);
+    }
+    await moveToTrash(managerRepository, id, user);
   };
   
   const getActiveManagers = (): Manager[] => {
@@ -0,0 +1,58 @@
+import { useState, useCallback, useMemo } from 'react';
+import { migrationRepository } from '../repositories';
+import { MIGRATIONS, MigrationProgress, MigrationRunResult, runMigrations } from '../migrations';
+import { useCollection } from './useCollection';
+import { useAuth } from './useAuth';
+
+export const useMigrations = () => {
+  const { data: records, loading, error } = useCollection(migrationRepository);
+  const { user } = useAuth();
+  const [results, setResults] = useState<MigrationRunResult[] | null>(null);
+  const [isDryRun, setIsDryRun] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+
+  const pendingMigrations = useMemo(() => {
+    const applied = new Set(records.map(record => record.migrationId));
+    return MIGRATIONS.filter(migration => !applied.has(migration.id));
+  }, [records]);
+
+  const getRecord = useCallback(
+    (migrationId: string) => records.find(record => record.migrationId === migrationId),
+    [records]
+  );
+
+  const execute = async (dryRun: boolean) => {
+    try {
+      setRunning(true);
+      setIsDryRun(dryRun);
+      setResults(null);
+      setProgress(null);
+      const runResults = await runMigrations({
+        migrations: MIGRATIONS,
+        dryRun,
+        appliedBy: user?.email ?? null,
+        onProgress: setProgress,
+      });
+      setResults(runResults);
+      return runResults;
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  };
+
+  return {
+    migrations: MIGRATIONS,
+    pendingMigrations,
+    getRecord,
+    loading,
+    error,
+    results,
+    isDryRun,
+    running,
+    progress,
+    dryRun: () => execute(true),
+    runPending: () => execute(false),
+  };
+};
@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Campaign } from '../types/campaign';
+import { PostBuyReport } from '../types/postBuy';
+import {
+  PostBuyColumnMapping,
+  PostBuyGroup,
+  applyPostBuyUpdates,
+  groupPostBuySpots,
+  guessPostBuyMapping,
+  loadPostBuyCampaigns,
+  loadPostBuyReports,
+  parsePostBuySpots,
+  planPostBuyUpdates,
+} from '../utils/postBuyImport';
+import { SpreadsheetData, readSpreadsheet } from '../utils/spreadsheet';
+import { useAuth } from './useAuth';
+import { useBroadcasters } from './useBroadcasters';
+
+export const usePostBuyImport = () => {
+  const { user } = useAuth();
+  const { broadcasters } = useBroadcasters();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<PostBuyColumnMapping>({});
+  const [defaultPublisher, setDefaultPublisher] = useState('');
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [groups, setGroups] = useState<PostBuyGroup[]>([]);
+  const [reports, setReports] = useState<PostBuyReport[]>([]);
+  const [loadingReports, setLoadingReports] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const activeBroadcasters = useMemo(
+    () => broadcasters.filter(broadcaster => broadcaster.active).map(broadcaster => broadcaster.name),
+    [broadcasters]
+  );
+
+  const parsed = useMemo(
+    () => (data ? parsePostBuySpots(data, mapping, defaultPublisher) : null),
+    [data, mapping, defaultPublisher]
+  );
+
+  const assignedIds = useMemo(
+    () => [...new Set(groups.map(group => group.campaignId).filter((id): id is string => !!id))].sort().join(','),
+    [groups]
+  );
+
+  // Earlier reports of the assigned campaigns: reports for other air dates add up with the file
+  useEffect(() => {
+    if (!assignedIds) {
+      setReports([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingReports(true);
+    loadPostBuyReports(assignedIds.split(','))
+      .then(loaded => {
+        if (!cancelled) setReports(loaded);
+      })
+      .catch(err => console.error('Error loading post-buy reports:', err))
+      .finally(() => {
+        if (!cancelled) setLoadingReports(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [assignedIds]);
+
+  const changes = useMemo(
+    () => (parsed ? planPostBuyUpdates(groups, campaigns, parsed.hasGrp, reports) : []),
+    [groups, campaigns, parsed, reports]
+  );
+
+  const loadFile = async (file: File) => {
+    try {
+      setBusy(true);
+      const spreadsheet = await readSpreadsheet(file);
+      if (spreadsheet.rows.length === 0) {
+        throw new Error(`${file.name} has no data rows.`);
+      }
+      setCampaigns(await loadPostBuyCampaigns());
+      setFileName(file.name);
+      setData(spreadsheet);
+      setMapping(guessPostBuyMapping(spreadsheet.headers));
+      setGroups([]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** Groups the parsed spots by campaign; run again after changing the mapping */
+  const matchSpots = () => {
+    setGroups(parsed ? groupPostBuySpots(parsed.spots, campaigns) : []);
+  };
+
+  const assignCampaign = (key: string, campaignId: string | null) => {
+    setGroups(prev => prev.map(group => (group.key === key ? { ...group, campaignId } : group)));
+  };
+
+  const apply = async () => {
+    try {
+      setBusy(true);
+      setProgress({ done: 0, total: changes.length });
+      return await applyPostBuyUpdates({
+        changes,
+        fileName: fileName || 'post-buy',
+        user,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setData(null);
+    setMapping({});
+    setDefaultPublisher('');
+    setGroups([]);
+  };
+
+  return {
+    broadcasters: activeBroadcasters,
+    fileName,
+    data,
+    mapping,
+    setMapping,
+    defaultPublisher,
+    setDefaultPublisher,
+    parsed,
+    campaigns,
+    groups,
+    changes,
+    loadingReports,
+    busy,
+    progress,
+    loadFile,
+    matchSpots,
+    assignCampaign,
+    apply,
+    reset,
+  };
+};
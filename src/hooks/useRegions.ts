@@ -1,37 +1,35 @@
-import { useState, useEffect } from 'react';
-import { collection, addDoc, updateDoc, deleteDoc, doc, Timestamp, getDocs, query, orderBy } from 'firebase/firestore';
-import { db } from '../utils/firebase';
 import { Region } from '../types/region';
-import { seedRegionsIfEmpty } from '../utils/seedRegions';
 import { useCollection } from './useCollection'; // <-- Importa il nuovo hook
+import { regionRepository } from '../repositories';
+import { moveToTrash } from '../utils/trash';
+import { cascadeRename } from '../utils/cascadeRename';
+import { assertUnreferenced } from '../utils/entityReferences';
+import { useAuth } from './useAuth';
 
 export const useRegions = () => {
-  const { data: regions, loading, error } = useCollection<Region>('regions');
-  const [isSeeding, setIsSeeding] = useState(true);
-
-  // La logica di "seeding" (popolamento iniziale) rimane separata
-  useEffect(() => {
-    const initialize = async () => {
-      await seedRegionsIfEmpty();
-      setIsSeeding(false);
-    };
-    initialize();
-  }, []);
+  const { data: regions, loading, error } = useCollection(regionRepository);
+  const { user } = useAuth();
 
+  // Seeding of an empty collection is handled by the 004-seed-regions migration
   const addRegion = async (region: Omit<Region, 'id'>) => {
-    const regionData = { ...region, createdAt: Timestamp.now(), updatedAt: Timestamp.now() };
-    await addDoc(collection(db, 'regions'), regionData);
+    await regionRepository.add(region);
     // Non è più necessario aggiornare lo stato manualmente, onSnapshot lo farà per noi!
   };
 
-  const updateRegion = async (id: string, updates: Partial<Region>) => {
-    const regionRef = doc(db, 'regions', id);
-    await updateDoc(regionRef, { ...updates, updatedAt: Timestamp.now() });
+  const updateRegion = async (id: string, updates: Partial<Region>, onRenameProgress?: (done: number, total: number) => void) => {
+    const current = regions.find(region => region.id === id);
+    if (current && updates.name !== undefined && updates.name !== current.name) {
+      await cascadeRename({ kind: 'region', id, from: current.name, to: updates.name, user, onProgress: onRenameProgress });
+    }
+    await regionRepository.update(id, updates);
   };
 
   const deleteRegion = async (id: string) => {
-    const regionRef = doc(db, 'regions', id);
-    await deleteDoc(regionRef);
+    const current = regions.find(region => region.id === id);
+    if (current) {
+      await assertUnreferenced('region', current.name);
+    }
+    await moveToTrash(regionRepository, id, user);
   };
 
   const getActiveRegions = (): Region[] => {
@@ -44,7 +42,7 @@ export const useRegions = () => {
 
   return {
     regions,
-    loading: loading || isSeeding, // Mostra caricamento mentre popola i dati
+    loading,
     error,
     addRegion,
     updateRegion,
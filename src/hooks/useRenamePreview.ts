@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { RenamePreview, previewRename } from '../utils/cascadeRename';
+import { ReferenceKind } from '../utils/entityReferences';
+
+// Counts what renaming the given value would touch; pass null when nothing is being edited
+export const useRenamePreview = (kind: ReferenceKind, value: string | null) => {
+  const [preview, setPreview] = useState<RenamePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!value) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    previewRename(kind, value)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(err => {
+        console.error('Error previewing rename:', err);
+        if (!cancelled) setPreview(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, value]);
+
+  return { preview, loading };
+};
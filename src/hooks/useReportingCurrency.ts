@@ -0,0 +1,19 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Campaign } from '../types/campaign';
+import { convertCampaigns, getReportingCurrency, setReportingCurrency, subscribeReportingCurrency } from '../utils/currency';
+import { useExchangeRates } from './useExchangeRates';
+
+export const useReportingCurrency = () => {
+  const currency = useSyncExternalStore(subscribeReportingCurrency, getReportingCurrency);
+  const { rates } = useExchangeRates();
+
+  /** Converts campaign amounts to the reporting currency, for totals, KPIs and charts */
+  const convert = useCallback((campaigns: Campaign[]) => convertCampaigns(campaigns, currency, rates), [currency, rates]);
+
+  return { currency, setCurrency: setReportingCurrency, convert };
+};
+
+export const useReportingCampaigns = (campaigns: Campaign[]) => {
+  const { currency, convert } = useReportingCurrency();
+  return useMemo(() => ({ currency, ...convert(campaigns) }), [currency, convert, campaigns]);
+};
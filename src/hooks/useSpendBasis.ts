@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getSpendBasis, setSpendBasis, subscribeSpendBasis } from '../utils/spendBasis';
+
+export const useSpendBasis = () => {
+  const basis = useSyncExternalStore(subscribeSpendBasis, getSpendBasis);
+  return { basis, setBasis: setSpendBasis };
+};
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { automationSettingsRepository, statusAutomationRunRepository } from '../repositories';
+import { StatusAutomationChange } from '../types/statusAutomation';
+import { toAuditUser } from '../utils/campaignAudit';
+import { setStatusAutomationEnabled, updateCampaignStatuses } from '../utils/updateCampaignStatuses';
+import { useCollection } from './useCollection';
+import { useAuth } from './useAuth';
+
+export const useStatusAutomation = () => {
+  const { data: runs, loading: runsLoading, error } = useCollection(statusAutomationRunRepository);
+  const { data: settings, loading: settingsLoading } = useCollection(automationSettingsRepository);
+  const { user } = useAuth();
+  const [preview, setPreview] = useState<StatusAutomationChange[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Enabled until an admin turns it off
+  const enabled = settings.find(setting => setting.automation === 'campaignStatus')?.enabled ?? true;
+
+  const previewChanges = async () => {
+    try {
+      setRunning(true);
+      const { changes } = await updateCampaignStatuses({ trigger: 'manual', dryRun: true });
+      setPreview(changes);
+      return changes;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const runNow = async () => {
+    try {
+      setRunning(true);
+      setProgress(null);
+      const result = await updateCampaignStatuses({
+        trigger: 'manual',
+        user: toAuditUser(user),
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setPreview(null);
+      return result;
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const setEnabled = (value: boolean) => setStatusAutomationEnabled(value, user?.email ?? null);
+
+  return {
+    runs,
+    enabled,
+    loading: runsLoading || settingsLoading,
+    error,
+    preview,
+    running,
+    progress,
+    previewChanges,
+    runNow,
+    setEnabled,
+    clearPreview: () => setPreview(null),
+  };
+};
@@ -0,0 +1,105 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { campaignRepository } from '../repositories';
+import {
+  TrashItem,
+  TrashKind,
+  TRASH_KINDS,
+  TRASHED_FILTER,
+  getDocumentLabel,
+  purgeDocuments,
+  restoreFromTrash,
+  withTrashRepository,
+} from '../utils/trash';
+import { recordCampaignAudit, toAuditUser } from '../utils/campaignAudit';
+import { useAuth } from './useAuth';
+
+export const useTrash = () => {
+  const [itemsByKind, setItemsByKind] = useState<{ [key in TrashKind]?: TrashItem[] }>({});
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const unsubscribers = TRASH_KINDS.map(kind =>
+      withTrashRepository(kind, repository =>
+        repository.subscribe(
+          (documents) => {
+            const trashed = documents.map(document => ({
+              id: document.id!,
+              kind,
+              label: getDocumentLabel(kind, document),
+              deletedAt: document.deletedAt!,
+              deletedBy: document.deletedBy ?? null,
+            }));
+            setItemsByKind(prev => ({ ...prev, [kind]: trashed }));
+          },
+          (err) => {
+            console.error(`Error fetching trashed ${repository.collectionName}:`, err);
+            setError('Failed to load the trash.');
+            setItemsByKind(prev => ({ ...prev, [kind]: [] }));
+          },
+          { filters: [TRASHED_FILTER] }
+        )
+      )
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  const loading = TRASH_KINDS.some(kind => itemsByKind[kind] === undefined);
+
+  // Most recently deleted first
+  const items = useMemo(
+    () => TRASH_KINDS
+      .flatMap(kind => itemsByKind[kind] || [])
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+    [itemsByKind]
+  );
+
+  const restoreItem = useCallback(async (item: TrashItem) => {
+    try {
+      setError(null);
+      if (item.kind === 'campaign') {
+        const before = await campaignRepository.get(item.id);
+        await restoreFromTrash(campaignRepository, item.id);
+        await recordCampaignAudit({
+          campaignId: item.id,
+          action: 'undelete',
+          before,
+          after: before,
+          user: toAuditUser(user),
+        });
+      } else {
+        await withTrashRepository(item.kind, repository => restoreFromTrash(repository, item.id));
+      }
+    } catch (err) {
+      console.error('Error restoring from trash:', err);
+      setError('Failed to restore the item. Please try again.');
+      throw err;
+    }
+  }, [user]);
+
+  const purgeItems = useCallback(async (itemsToPurge: TrashItem[]) => {
+    try {
+      setError(null);
+      await Promise.all(
+        TRASH_KINDS.map(kind => {
+          const ids = itemsToPurge.filter(item => item.kind === kind).map(item => item.id);
+          if (ids.length === 0) return Promise.resolve();
+          return withTrashRepository(kind, repository => purgeDocuments(repository, ids));
+        })
+      );
+    } catch (err) {
+      console.error('Error purging trash:', err);
+      setError('Failed to permanently delete the selected items. Please try again.');
+      throw err;
+    }
+  }, []);
+
+  return {
+    items,
+    loading,
+    error,
+    restoreItem,
+    purgeItems,
+  };
+};
@@ -0,0 +1,13 @@
+import { campaignRepository } from '../../repositories';
+import { LEGACY_STATUS_MAP, migrateStatus } from '../../types/campaign';
+import { createUpdateMigration } from '../updateMigration';
+
+// PENDING/LOADED/OK → PLANNED/SCHEDULED/ACTIVE, persisted instead of mapped on every read
+export const legacyStatusMigration = createUpdateMigration({
+  id: '001-legacy-status',
+  description: 'Rewrite legacy campaign statuses (PENDING, LOADED, OK) to the current values',
+  repository: campaignRepository,
+  label: (campaign) => `${campaign.brand} - ${campaign.channel} • ${campaign.region}`,
+  transform: (campaign) =>
+    campaign.status in LEGACY_STATUS_MAP ? { status: migrateStatus(campaign.status) } : null,
+});
@@ -0,0 +1,16 @@
+import { campaignRepository } from '../../repositories';
+import { normalizeCampaignMetrics } from '../../types/campaign';
+import { createUpdateMigration } from '../updateMigration';
+
+// Numeric strings become numbers; 0, empty and missing metrics become null
+export const metricCoercionMigration = createUpdateMigration({
+  id: '002-metric-coercion',
+  description: 'Store channel metrics (GRPs, spots, impressions, viewers, views) as numbers or null',
+  repository: campaignRepository,
+  label: (campaign) => `${campaign.brand} - ${campaign.channel} • ${campaign.region}`,
+  transform: (campaign) => {
+    const { expectedGrps, achievedGrps, spotsPurchased, impressions, expectedViewers, expectedViews } =
+      normalizeCampaignMetrics(campaign, true);
+    return { expectedGrps, achievedGrps, spotsPurchased, impressions, expectedViewers, expectedViews };
+  },
+});
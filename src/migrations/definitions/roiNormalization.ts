@@ -0,0 +1,16 @@
+import { campaignRepository } from '../../repositories';
+import { normalizeRoi } from '../../types/campaign';
+import { createUpdateMigration } from '../updateMigration';
+
+// " 12,5 %", "12.5" and numeric ROI values all become "12.5%"
+export const roiNormalizationMigration = createUpdateMigration({
+  id: '003-roi-normalization',
+  description: 'Normalise ROI values to the "<number>%" format',
+  repository: campaignRepository,
+  label: (campaign) => `${campaign.brand} - ${campaign.channel} • ${campaign.region}`,
+  transform: (campaign) => {
+    if (campaign.roi === undefined || campaign.roi === null) return null;
+    const roi = normalizeRoi(campaign.roi);
+    return roi === undefined ? null : { roi };
+  },
+});
@@ -0,0 +1,30 @@
+import { regionRepository, WriteOperation, commitInChunks } from '../../repositories';
+import { Region } from '../../types/region';
+import { ORIGINAL_REGIONS } from '../../utils/demoData';
+import { Migration } from '../types';
+
+// Replaces the seeding that used to run on every useRegions mount
+export const seedRegionsMigration: Migration = {
+  id: '004-seed-regions',
+  description: 'Populate an empty regions collection with the standard regions',
+  collectionName: regionRepository.collectionName,
+  autoApply: true,
+
+  prepare: async () => {
+    const existing = await regionRepository.list();
+    const names = existing.length === 0 ? ORIGINAL_REGIONS : [];
+    const operations: WriteOperation<Region>[] = names.map(name => ({
+      type: 'add',
+      data: { name, active: true },
+    }));
+
+    return {
+      items: names.map(name => ({
+        documentId: null,
+        label: name,
+        changes: [{ field: 'name', before: null, after: name }],
+      })),
+      apply: (onProgress) => commitInChunks(regionRepository, operations, onProgress),
+    };
+  },
+};
@@ -0,0 +1,16 @@
+import { Migration } from './types';
+import { legacyStatusMigration } from './definitions/legacyStatus';
+import { metricCoercionMigration } from './definitions/metricCoercion';
+import { roiNormalizationMigration } from './definitions/roiNormalization';
+import { seedRegionsMigration } from './definitions/seedRegions';
+
+export * from './types';
+export * from './runner';
+
+// Append new migrations with the next id; never edit or reorder applied ones
+export const MIGRATIONS: Migration[] = [
+  legacyStatusMigration,
+  metricCoercionMigration,
+  roiNormalizationMigration,
+  seedRegionsMigration,
+];
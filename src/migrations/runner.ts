@@ -0,0 +1,74 @@
+import { migrationRepository } from '../repositories';
+import { Migration, MigrationProgress, MigrationRecord, MigrationRunResult } from './types';
+
+interface RunMigrationsOptions {
+  migrations: Migration[];
+  /** Only plan the changes: nothing is written or recorded */
+  dryRun?: boolean;
+  appliedBy?: string | null;
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+// Runs are queued so a startup run and a manual run never apply the same migration twice
+let runQueue: Promise<unknown> = Promise.resolve();
+
+export const getAppliedMigrations = async (): Promise<MigrationRecord[]> => migrationRepository.list();
+
+/**
+ * Runs the given migrations in id order, skipping those already recorded in the `migrations` collection.
+ * Stops at the first failure, since later migrations may rely on earlier ones.
+ */
+export const runMigrations = (options: RunMigrationsOptions): Promise<MigrationRunResult[]> => {
+  const run = runQueue.then(() => executeMigrations(options));
+  runQueue = run.catch(() => undefined);
+  return run;
+};
+
+const executeMigrations = async ({
+  migrations,
+  dryRun = false,
+  appliedBy = null,
+  onProgress,
+}: RunMigrationsOptions): Promise<MigrationRunResult[]> => {
+  const applied = new Set((await getAppliedMigrations()).map(record => record.migrationId));
+  const ordered = [...migrations].sort((a, b) => a.id.localeCompare(b.id));
+  const results: MigrationRunResult[] = [];
+  let failed = false;
+
+  for (const migration of ordered) {
+    if (applied.has(migration.id)) {
+      results.push({ migration, status: 'already-applied', items: [] });
+      continue;
+    }
+    if (failed) {
+      results.push({ migration, status: 'skipped', items: [] });
+      continue;
+    }
+
+    try {
+      const prepared = await migration.prepare();
+      if (dryRun) {
+        results.push({ migration, status: 'dry-run', items: prepared.items });
+        continue;
+      }
+
+      onProgress?.({ migrationId: migration.id, done: 0, total: prepared.items.length });
+      await prepared.apply((done, total) => onProgress?.({ migrationId: migration.id, done, total }));
+      await migrationRepository.add({
+        migrationId: migration.id,
+        description: migration.description,
+        appliedAt: new Date().toISOString(),
+        appliedBy,
+        affectedCount: prepared.items.length,
+      });
+      console.log(`✔️ Migration ${migration.id} applied — ${prepared.items.length} documents`);
+      results.push({ migration, status: 'applied', items: prepared.items });
+    } catch (err) {
+      console.error(`❌ Migration ${migration.id} failed:`, err);
+      failed = true;
+      results.push({ migration, status: 'failed', items: [], error: (err as Error).message });
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,51 @@
+import { FieldChange } from '../types/audit';
+
+/** Stored in the `migrations` collection once a migration has been applied */
+export interface MigrationRecord {
+  id?: string;
+  migrationId: string;
+  description: string;
+  appliedAt: string;
+  appliedBy: string | null;
+  affectedCount: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface MigrationPlanItem {
+  /** null for documents the migration creates */
+  documentId: string | null;
+  label: string;
+  changes: FieldChange[];
+}
+
+export interface PreparedMigration {
+  items: MigrationPlanItem[];
+  apply: (onProgress?: (done: number, total: number) => void) => Promise<void>;
+}
+
+export interface Migration {
+  /** Sortable and unique, e.g. "001-legacy-status" */
+  id: string;
+  description: string;
+  collectionName: string;
+  /** Safe to run without an admin (purely additive); applied at startup */
+  autoApply?: boolean;
+  /** Computes the writes without applying them. Must be idempotent: an applied migration plans nothing. */
+  prepare: () => Promise<PreparedMigration>;
+}
+
+export interface MigrationProgress {
+  migrationId: string;
+  done: number;
+  total: number;
+}
+
+export type MigrationRunStatus = 'applied' | 'already-applied' | 'dry-run' | 'failed' | 'skipped';
+
+export interface MigrationRunResult {
+  migration: Migration;
+  status: MigrationRunStatus;
+  items: MigrationPlanItem[];
+  error?: string;
+}
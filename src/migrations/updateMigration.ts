@@ -0,0 +1,59 @@
+import { BaseDocument, Repository, WriteOperation, commitInChunks } from '../repositories';
+import { FieldChange } from '../types/audit';
+import { Migration, MigrationPlanItem } from './types';
+
+interface UpdateMigrationConfig<T extends BaseDocument> {
+  id: string;
+  description: string;
+  repository: Repository<T>;
+  label: (document: T) => string;
+  /** Returns the fields to rewrite, or null when the document is already up to date */
+  transform: (document: T) => Partial<T> | null;
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Builds a migration that rewrites fields of existing documents in a single collection
+ */
+export const createUpdateMigration = <T extends BaseDocument>({
+  id,
+  description,
+  repository,
+  label,
+  transform,
+}: UpdateMigrationConfig<T>): Migration => ({
+  id,
+  description,
+  collectionName: repository.collectionName,
+
+  prepare: async () => {
+    const documents = await repository.list();
+    const items: MigrationPlanItem[] = [];
+    const operations: WriteOperation<T>[] = [];
+
+    documents.forEach(document => {
+      const updates = transform(document);
+      if (!updates) return;
+
+      const changes: FieldChange[] = [];
+      const data: Partial<T> = {};
+      (Object.keys(updates) as (keyof T)[]).forEach(field => {
+        if (!isSameValue(document[field], updates[field])) {
+          changes.push({ field: String(field), before: document[field] ?? null, after: updates[field] ?? null });
+          data[field] = updates[field];
+        }
+      });
+      if (changes.length === 0) return;
+
+      items.push({ documentId: document.id!, label: label(document), changes });
+      operations.push({ type: 'update', id: document.id!, data });
+    });
+
+    return {
+      items,
+      apply: (onProgress) => commitInChunks(repository, operations, onProgress),
+    };
+  },
+});
@@ -0,0 +1,20 @@
+import { BaseDocument, Repository, WriteOperation } from './types';
+
+// Firestore caps a write batch at 500 operations; stay below it
+export const BATCH_CHUNK_SIZE = 400;
+
+/**
+ * Commits operations in consecutive batches of at most BATCH_CHUNK_SIZE.
+ * Each chunk is atomic, the whole run is not: onProgress reports how many operations are committed.
+ */
+export const commitInChunks = async <T extends BaseDocument>(
+  repository: Repository<T>,
+  operations: WriteOperation<T>[],
+  onProgress?: (committed: number, total: number) => void
+): Promise<void> => {
+  for (let start = 0; start < operations.length; start += BATCH_CHUNK_SIZE) {
+    const chunk = operations.slice(start, start + BATCH_CHUNK_SIZE);
+    await repository.batch(chunk);
+    onProgress?.(start + chunk.length, operations.length);
+  }
+};
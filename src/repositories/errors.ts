@@ -0,0 +1,18 @@
+import { BaseDocument } from './types';
+
+/**
+ * Raised when a write was based on a version of the document that has since been changed by someone else.
+ * `current` is the latest stored version, so callers can offer a merge.
+ */
+export class ConcurrencyConflictError<T extends BaseDocument = BaseDocument> extends Error {
+  readonly current: T | null;
+
+  constructor(collectionName: string, id: string, current: T | null) {
+    super(`${collectionName}/${id} was modified by someone else`);
+    this.name = 'ConcurrencyConflictError';
+    this.current = current;
+  }
+}
+
+export const isConcurrencyConflict = <T extends BaseDocument>(err: unknown): err is ConcurrencyConflictError<T> =>
+  err instanceof ConcurrencyConflictError;
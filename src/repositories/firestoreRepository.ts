@@ -0,0 +1,151 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  getCountFromServer,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  writeBatch,
+  runTransaction,
+  Timestamp,
+  DocumentData,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { getDb } from '../utils/firebase';
+import { ConcurrencyConflictError } from './errors';
+import { sortDocuments } from './ordering';
+import { BaseDocument, QueryOptions, Repository, RepositoryConfig, WriteOperation } from './types';
+
+// Converts Firestore Timestamps to ISO strings so every backend returns the same shape
+const fromFirestore = <T extends BaseDocument>(id: string, data: DocumentData): T => {
+  const converted: DocumentData = { ...data };
+  Object.keys(converted).forEach(key => {
+    const value = converted[key];
+    if (value instanceof Timestamp) {
+      converted[key] = value.toDate().toISOString();
+    }
+  });
+  return { ...converted, id } as T;
+};
+
+// Firestore rejects undefined values, and the id lives in the document path
+const toFirestore = (data: DocumentData): DocumentData => {
+  const cleaned: DocumentData = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined && key !== 'id') {
+      cleaned[key] = value;
+    }
+  });
+  return cleaned;
+};
+
+// A filtered query ordered on another field needs a composite index, so the default order of filtered
+// queries is applied by sortResults instead; an explicit orderBy still goes to Firestore
+const buildConstraints = (options: QueryOptions = {}, defaultOrderBy?: QueryOptions['orderBy']): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = (options.filters || []).map(filter =>
+    where(filter.field, filter.op, filter.value)
+  );
+  const order = options.orderBy || (options.filters?.length ? undefined : defaultOrderBy);
+  if (order) {
+    constraints.push(orderBy(order.field, order.direction || 'asc'));
+  }
+  return constraints;
+};
+
+export const createFirestoreRepository = <T extends BaseDocument>({
+  collectionName,
+  defaultOrderBy,
+}: RepositoryConfig<T>): Repository<T> => {
+  const collectionRef = () => collection(getDb(), collectionName);
+  const buildQuery = (options?: QueryOptions) => query(collectionRef(), ...buildConstraints(options, defaultOrderBy));
+  // Same order as the local backend whether or not the query is filtered
+  const sortResults = (items: T[], options?: QueryOptions): T[] =>
+    !options?.orderBy && options?.filters?.length ? sortDocuments(items, defaultOrderBy) : items;
+
+  return {
+    collectionName,
+
+    subscribe: (onData, onError, options) => {
+      return onSnapshot(
+        buildQuery(options),
+        (snapshot) => onData(sortResults(snapshot.docs.map(d => fromFirestore<T>(d.id, d.data())), options)),
+        (err) => onError?.(err)
+      );
+    },
+
+    list: async (options) => {
+      const snapshot = await getDocs(buildQuery(options));
+      return sortResults(snapshot.docs.map(d => fromFirestore<T>(d.id, d.data())), options);
+    },
+
+    count: async (options) => {
+      // Ordering doesn't change a count, and leaving it out spares a composite index
+      const snapshot = await getCountFromServer(query(collectionRef(), ...buildConstraints({ filters: options?.filters })));
+      return snapshot.data().count;
+    },
+
+    get: async (id) => {
+      const snapshot = await getDoc(doc(getDb(), collectionName, id));
+      return snapshot.exists() ? fromFirestore<T>(snapshot.id, snapshot.data()) : null;
+    },
+
+    add: async (data) => {
+      const now = Timestamp.now();
+      const docRef = await addDoc(collectionRef(), toFirestore({ ...data, createdAt: now, updatedAt: now }));
+      const iso = now.toDate().toISOString();
+      return { ...data, id: docRef.id, createdAt: iso, updatedAt: iso } as T;
+    },
+
+    update: async (id, updates, options) => {
+      const docRef = doc(getDb(), collectionName, id);
+      if (options?.expectedUpdatedAt === undefined) {
+        await updateDoc(docRef, toFirestore({ ...updates, updatedAt: Timestamp.now() }));
+        return;
+      }
+
+      // Read and write in one transaction so a concurrent save can't slip in between the check and the update
+      await runTransaction(getDb(), async (transaction) => {
+        const snapshot = await transaction.get(docRef);
+        const current = snapshot.exists() ? fromFirestore<T>(snapshot.id, snapshot.data()) : null;
+        if (!current || current.updatedAt !== options.expectedUpdatedAt) {
+          throw new ConcurrencyConflictError(collectionName, id, current);
+        }
+        transaction.update(docRef, toFirestore({ ...updates, updatedAt: Timestamp.now() }));
+      });
+    },
+
+    remove: async (id) => {
+      await deleteDoc(doc(getDb(), collectionName, id));
+    },
+
+    batch: async (operations: WriteOperation<T>[]) => {
+      const batch = writeBatch(getDb());
+      const now = Timestamp.now();
+      operations.forEach(operation => {
+        switch (operation.type) {
+          case 'add':
+            batch.set(doc(collectionRef()), toFirestore({ ...operation.data, createdAt: now, updatedAt: now }));
+            break;
+          case 'update':
+            batch.update(doc(getDb(), collectionName, operation.id), toFirestore({ ...operation.data, updatedAt: now }));
+            break;
+          case 'remove':
+            batch.delete(doc(getDb(), collectionName, operation.id));
+            break;
+          case 'set': {
+            const createdAt = operation.data.createdAt ? Timestamp.fromDate(new Date(operation.data.createdAt)) : now;
+            batch.set(doc(getDb(), collectionName, operation.id), toFirestore({ ...operation.data, createdAt, updatedAt: now }));
+            break;
+          }
+        }
+      });
+      await batch.commit();
+    },
+  };
+};
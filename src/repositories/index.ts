@@ -0,0 +1,148 @@
+import { Campaign } from '../types/campaign';
+import { Brand } from '../types/brand';
+import { Channel } from '../types/channel';
+import { Manager } from '../types/manager';
+import { Broadcaster } from '../types/broadcaster';
+import { Region } from '../types/region';
+import { CampaignAuditEntry } from '../types/audit';
+import { MigrationRecord } from '../migrations/types';
+import { AutomationSettings, StatusAutomationRun } from '../types/statusAutomation';
+import { CampaignImport } from '../types/campaignImport';
+import { AdPlatformMapping } from '../types/adPlatform';
+import { PostBuyReport } from '../types/postBuy';
+import { BudgetPlan } from '../types/budgetPlan';
+import { Invoice } from '../types/invoice';
+import { ExchangeRate } from '../types/currency';
+import { ApprovalRequest, ApprovalThreshold, Approver } from '../types/approval';
+import { isFirebaseConfigured } from '../utils/firebase';
+import {
+  generateDemoData,
+  DEMO_BRANDS,
+  DEMO_CHANNELS,
+  DEMO_MANAGERS,
+  DEMO_BROADCASTERS,
+  DEMO_REGIONS,
+} from '../utils/demoData';
+import { createFirestoreRepository } from './firestoreRepository';
+import { createLocalRepository } from './localRepository';
+import { BaseDocument, DataBackend, Repository, RepositoryConfig } from './types';
+
+export * from './types';
+export * from './errors';
+export * from './batching';
+
+// VITE_DATA_BACKEND=local forces the local backend even when Firebase is configured
+const resolveBackend = (): DataBackend => {
+  const requested = import.meta.env.VITE_DATA_BACKEND;
+  if (requested === 'local' || requested === 'firestore') {
+    return requested;
+  }
+  return isFirebaseConfigured ? 'firestore' : 'local';
+};
+
+export const dataBackend: DataBackend = resolveBackend();
+
+const createRepository = <T extends BaseDocument>(config: RepositoryConfig<T>): Repository<T> =>
+  dataBackend === 'local' ? createLocalRepository(config) : createFirestoreRepository(config);
+
+const byName = { field: 'name', direction: 'asc' as const };
+
+export const campaignRepository = createRepository<Campaign>({
+  collectionName: 'campaigns',
+  defaultOrderBy: { field: 'createdAt', direction: 'desc' },
+  seed: generateDemoData(),
+});
+
+export const brandRepository = createRepository<Brand>({
+  collectionName: 'brands',
+  defaultOrderBy: byName,
+  seed: DEMO_BRANDS,
+});
+
+export const channelRepository = createRepository<Channel>({
+  collectionName: 'channels',
+  defaultOrderBy: byName,
+  seed: DEMO_CHANNELS,
+});
+
+export const managerRepository = createRepository<Manager>({
+  collectionName: 'managers',
+  defaultOrderBy: byName,
+  seed: DEMO_MANAGERS,
+});
+
+export const broadcasterRepository = createRepository<Broadcaster>({
+  collectionName: 'broadcasters',
+  defaultOrderBy: byName,
+  seed: DEMO_BROADCASTERS,
+});
+
+export const regionRepository = createRepository<Region>({
+  collectionName: 'regions',
+  defaultOrderBy: byName,
+  seed: DEMO_REGIONS,
+});
+
+// Queried per campaign and sorted client-side, so no composite index is needed
+export const campaignAuditRepository = createRepository<CampaignAuditEntry>({
+  collectionName: 'campaignAudit',
+  defaultOrderBy: { field: 'timestamp', direction: 'desc' },
+});
+
+export const migrationRepository = createRepository<MigrationRecord>({
+  collectionName: 'migrations',
+  defaultOrderBy: { field: 'migrationId', direction: 'asc' },
+});
+
+export const statusAutomationRunRepository = createRepository<StatusAutomationRun>({
+  collectionName: 'statusAutomationRuns',
+  defaultOrderBy: { field: 'startedAt', direction: 'desc' },
+});
+
+export const automationSettingsRepository = createRepository<AutomationSettings>({
+  collectionName: 'automationSettings',
+});
+
+export const campaignImportRepository = createRepository<CampaignImport>({
+  collectionName: 'campaignImports',
+  defaultOrderBy: { field: 'importedAt', direction: 'desc' },
+});
+
+export const adPlatformMappingRepository = createRepository<AdPlatformMapping>({
+  collectionName: 'adPlatformMappings',
+});
+
+// Queried per campaign, so no composite index is needed
+export const postBuyReportRepository = createRepository<PostBuyReport>({
+  collectionName: 'postBuyReports',
+});
+
+export const budgetPlanRepository = createRepository<BudgetPlan>({
+  collectionName: 'budgetPlans',
+  defaultOrderBy: { field: 'year', direction: 'desc' },
+});
+
+// Queried per campaign, so no composite index is needed
+export const invoiceRepository = createRepository<Invoice>({
+  collectionName: 'invoices',
+});
+
+export const exchangeRateRepository = createRepository<ExchangeRate>({
+  collectionName: 'exchangeRates',
+  defaultOrderBy: { field: 'date', direction: 'desc' },
+});
+
+export const approverRepository = createRepository<Approver>({
+  collectionName: 'approvers',
+  defaultOrderBy: { field: 'name', direction: 'asc' },
+});
+
+export const approvalThresholdRepository = createRepository<ApprovalThreshold>({
+  collectionName: 'approvalThresholds',
+  defaultOrderBy: { field: 'minAmount', direction: 'asc' },
+});
+
+export const approvalRequestRepository = createRepository<ApprovalRequest>({
+  collectionName: 'approvalRequests',
+  defaultOrderBy: { field: 'requestedAt', direction: 'desc' },
+});
@@ -0,0 +1,204 @@
+import { ConcurrencyConflictError } from './errors';
+import { compareValues, sortDocuments } from './ordering';
+import { BaseDocument, QueryFilter, QueryOptions, Repository, RepositoryConfig, WriteOperation } from './types';
+
+const STORAGE_PREFIX = 'aim:';
+
+// Falls back to memory when localStorage is unavailable (private mode, non-browser runtimes)
+const memoryStore = new Map<string, string>();
+
+const storage = {
+  getItem: (key: string): string | null => {
+    try {
+      return window.localStorage.getItem(key);
+    } catch {
+      return memoryStore.get(key) ?? null;
+    }
+  },
+  setItem: (key: string, value: string) => {
+    try {
+      window.localStorage.setItem(key, value);
+    } catch {
+      memoryStore.set(key, value);
+    }
+  },
+};
+
+export const generateLocalId = (): string => {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return id;
+};
+
+const RANGE_OPERATORS = ['<', '<=', '>', '>='];
+
+const matchesFilter = (item: Record<string, unknown>, filter: QueryFilter): boolean => {
+  const value = item[filter.field];
+  // Firestore never matches missing fields in range queries, nor in != queries
+  if (RANGE_OPERATORS.includes(filter.op) && (value === undefined || value === null)) {
+    return false;
+  }
+  if (filter.op === '!=' && value === undefined) {
+    return false;
+  }
+  switch (filter.op) {
+    case '==':
+      return value === filter.value;
+    case '!=':
+      return value !== filter.value;
+    case '<':
+      return compareValues(value, filter.value) < 0;
+    case '<=':
+      return compareValues(value, filter.value) <= 0;
+    case '>':
+      return compareValues(value, filter.value) > 0;
+    case '>=':
+      return compareValues(value, filter.value) >= 0;
+    case 'in':
+      return Array.isArray(filter.value) && filter.value.includes(value);
+    default:
+      return false;
+  }
+};
+
+// Mirrors the subset of Firestore query semantics used by the app
+const applyQuery = <T extends BaseDocument>(items: T[], options: QueryOptions = {}, defaultOrderBy?: QueryOptions['orderBy']): T[] => {
+  const filters = options.filters || [];
+  const result = items.filter(item => filters.every(filter => matchesFilter(item as Record<string, unknown>, filter)));
+  return sortDocuments(result, options.orderBy || defaultOrderBy);
+};
+
+export const createLocalRepository = <T extends BaseDocument>({
+  collectionName,
+  defaultOrderBy,
+  seed = [],
+}: RepositoryConfig<T>): Repository<T> => {
+  const storageKey = `${STORAGE_PREFIX}${collectionName}`;
+  const listeners = new Set<() => void>();
+
+  const read = (): T[] => {
+    const raw = storage.getItem(storageKey);
+    if (raw === null) {
+      const now = new Date().toISOString();
+      const seeded = seed.map(item => ({
+        createdAt: now,
+        updatedAt: now,
+        ...item,
+        id: (item as T).id || generateLocalId(),
+      } as T));
+      storage.setItem(storageKey, JSON.stringify(seeded));
+      return seeded;
+    }
+    try {
+      return JSON.parse(raw) as T[];
+    } catch (err) {
+      console.error(`Corrupted local data for ${collectionName}, resetting`, err);
+      return [];
+    }
+  };
+
+  const write = (items: T[]) => {
+    storage.setItem(storageKey, JSON.stringify(items));
+    listeners.forEach(listener => listener());
+  };
+
+  // Keep other tabs in sync, as onSnapshot does across clients
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+      if (event.key === storageKey) {
+        listeners.forEach(listener => listener());
+      }
+    });
+  }
+
+  const applyOperations = (items: T[], operations: WriteOperation<T>[]): T[] => {
+    const now = new Date().toISOString();
+    let next = [...items];
+    operations.forEach(operation => {
+      switch (operation.type) {
+        case 'add':
+          next.push({ ...operation.data, id: generateLocalId(), createdAt: now, updatedAt: now } as T);
+          break;
+        case 'update': {
+          const index = next.findIndex(item => item.id === operation.id);
+          if (index === -1) {
+            throw new Error(`No document to update: ${collectionName}/${operation.id}`);
+          }
+          next[index] = { ...next[index], ...operation.data, id: operation.id, updatedAt: now };
+          break;
+        }
+        case 'remove':
+          next = next.filter(item => item.id !== operation.id);
+          break;
+        case 'set': {
+          const document = { createdAt: now, ...operation.data, id: operation.id, updatedAt: now } as T;
+          const index = next.findIndex(item => item.id === operation.id);
+          if (index === -1) {
+            next.push(document);
+          } else {
+            next[index] = document;
+          }
+          break;
+        }
+      }
+    });
+    return next;
+  };
+
+  return {
+    collectionName,
+
+    subscribe: (onData, onError, options) => {
+      const emit = () => {
+        try {
+          onData(applyQuery(read(), options, defaultOrderBy));
+        } catch (err) {
+          onError?.(err as Error);
+        }
+      };
+      listeners.add(emit);
+      // Deliver the first snapshot asynchronously, like onSnapshot
+      queueMicrotask(() => {
+        if (listeners.has(emit)) emit();
+      });
+      return () => {
+        listeners.delete(emit);
+      };
+    },
+
+    list: async (options) => applyQuery(read(), options, defaultOrderBy),
+
+    count: async (options) => applyQuery(read(), { filters: options?.filters }).length,
+
+    get: async (id) => read().find(item => item.id === id) || null,
+
+    add: async (data) => {
+      const now = new Date().toISOString();
+      const created = { ...data, id: generateLocalId(), createdAt: now, updatedAt: now } as T;
+      write([...read(), created]);
+      return created;
+    },
+
+    update: async (id, updates, options) => {
+      const items = read();
+      if (options?.expectedUpdatedAt !== undefined) {
+        const current = items.find(item => item.id === id) || null;
+        if (!current || current.updatedAt !== options.expectedUpdatedAt) {
+          throw new ConcurrencyConflictError(collectionName, id, current);
+        }
+      }
+      write(applyOperations(items, [{ type: 'update', id, data: updates }]));
+    },
+
+    remove: async (id) => {
+      write(applyOperations(read(), [{ type: 'remove', id }]));
+    },
+
+    batch: async (operations) => {
+      write(applyOperations(read(), operations));
+    },
+  };
+};
@@ -0,0 +1,18 @@
+import { BaseDocument, QueryOptions } from './types';
+
+// Missing values sort first, like null in Firestore
+export const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+};
+
+/** Sorts documents in place by one field, the way a Firestore orderBy would */
+export const sortDocuments = <T extends BaseDocument>(items: T[], order: QueryOptions['orderBy']): T[] => {
+  if (!order) return items;
+  const direction = order.direction === 'desc' ? -1 : 1;
+  return items.sort((a, b) =>
+    direction * compareValues((a as Record<string, unknown>)[order.field], (b as Record<string, unknown>)[order.field])
+  );
+};
@@ -0,0 +1,64 @@
+// Shared contract for every data backend (Firestore and local storage)
+
+export interface BaseDocument {
+  id?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  /** Soft delete marker: documents with a deletedAt are in the trash */
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+}
+
+export type WhereOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export interface QueryFilter {
+  field: string;
+  op: WhereOperator;
+  value: unknown;
+}
+
+export interface QueryOptions {
+  filters?: QueryFilter[];
+  orderBy?: { field: string; direction?: 'asc' | 'desc' };
+}
+
+export interface UpdateOptions {
+  /** Optimistic concurrency: reject the write if the document's updatedAt no longer matches */
+  expectedUpdatedAt?: string;
+}
+
+export type WriteOperation<T extends BaseDocument> =
+  | { type: 'add'; data: Omit<T, 'id'> }
+  | { type: 'update'; id: string; data: Partial<T> }
+  | { type: 'remove'; id: string }
+  /** Creates or replaces the whole document under a known id (backup restore); keeps createdAt when given */
+  | { type: 'set'; id: string; data: Omit<T, 'id'> };
+
+export interface Repository<T extends BaseDocument> {
+  readonly collectionName: string;
+  /** Streams the (filtered) collection, like Firestore's onSnapshot. Returns the unsubscribe function. */
+  subscribe: (
+    onData: (items: T[]) => void,
+    onError?: (error: Error) => void,
+    options?: QueryOptions
+  ) => () => void;
+  list: (options?: QueryOptions) => Promise<T[]>;
+  /** Number of documents the query matches, without reading them (Firestore aggregation query) */
+  count: (options?: QueryOptions) => Promise<number>;
+  get: (id: string) => Promise<T | null>;
+  add: (data: Omit<T, 'id'>) => Promise<T>;
+  /** Throws ConcurrencyConflictError when options.expectedUpdatedAt is stale */
+  update: (id: string, updates: Partial<T>, options?: UpdateOptions) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  /** Applies all operations atomically (Firestore allows up to 500: use commitInChunks for more) */
+  batch: (operations: WriteOperation<T>[]) => Promise<void>;
+}
+
+export interface RepositoryConfig<T extends BaseDocument> {
+  collectionName: string;
+  defaultOrderBy?: QueryOptions['orderBy'];
+  /** Initial documents for the local backend when the collection has never been written */
+  seed?: Omit<T, 'id'>[] | T[];
+}
+
+export type DataBackend = 'firestore' | 'local';
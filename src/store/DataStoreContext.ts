@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { CollectionStore } from './collectionStore';
+import { CampaignPeriodStore } from './campaignPeriodStore';
+
+export interface DataStore {
+  /** Whole collections (master data, audit, migrations) */
+  collections: CollectionStore;
+  /** Campaigns, loaded by period */
+  campaignPeriods: CampaignPeriodStore;
+}
+
+export const DataStoreContext = createContext<DataStore | null>(null);
+
+export const useDataStore = (): DataStore => {
+  const store = useContext(DataStoreContext);
+  if (!store) {
+    throw new Error('useDataStore must be used within a DataStoreProvider');
+  }
+  return store;
+};
@@ -0,0 +1,33 @@
+import React, { useState } from 'react';
+import { campaignRepository } from '../repositories';
+import { getFiscalYear, getFiscalYearPeriod } from '../utils/fiscalYear';
+import { createCollectionStore } from './collectionStore';
+import { createCampaignPeriodStore } from './campaignPeriodStore';
+import { DataStore, DataStoreContext } from './DataStoreContext';
+
+interface DataStoreProviderProps {
+  children: React.ReactNode;
+}
+
+export const DataStoreProvider: React.FC<DataStoreProviderProps> = ({ children }) => {
+  const [store] = useState<DataStore>(() => {
+    const created: DataStore = {
+      collections: createCollectionStore(),
+      campaignPeriods: createCampaignPeriodStore(campaignRepository),
+    };
+    // Screens widen the loaded range as needed; the current fiscal year is always there
+    created.campaignPeriods.ensurePeriod(getFiscalYearPeriod(getFiscalYear()));
+    // Inspect listener and snapshot counts from the console: __aimStoreStats()
+    if (import.meta.env.DEV) {
+      Object.assign(window, {
+        __aimStoreStats: () => ({
+          ...created.collections.getStats(),
+          campaignPeriods: created.campaignPeriods.getSnapshot().loadedPeriods,
+        }),
+      });
+    }
+    return created;
+  });
+
+  return <DataStoreContext.Provider value={store}>{children}</DataStoreContext.Provider>;
+};
@@ -0,0 +1,143 @@
+import { QueryFilter, Repository } from '../repositories';
+import { Campaign } from '../types/campaign';
+import { Period, mergePeriods, subtractPeriods } from '../utils/fiscalYear';
+import { withoutTrashed } from '../utils/trash';
+
+export interface CampaignPeriodSnapshot {
+  /** Campaigns overlapping any loaded period, plus the undated ones, newest first */
+  data: Campaign[];
+  /** No period has delivered its first snapshot yet */
+  loading: boolean;
+  /** Some requested periods are still loading */
+  loadingPeriods: boolean;
+  error: string | null;
+  loadedPeriods: Period[];
+}
+
+export interface CampaignPeriodStore {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => CampaignPeriodSnapshot;
+  /** Loads campaigns overlapping the period; only the parts not loaded yet are queried */
+  ensurePeriod: (period: Period) => void;
+  /** Re-reads every loaded period once, without waiting for the live listeners */
+  refresh: () => Promise<void>;
+}
+
+interface PeriodListener {
+  /** Null for the listener on undated campaigns */
+  period: Period | null;
+  filters: QueryFilter[];
+  documents: Campaign[];
+  ready: boolean;
+  unsubscribe: () => void;
+}
+
+// A campaign overlaps [start, end] when it starts before the end and ends after the start.
+// Range filters on two fields need Firestore's multiple-inequality queries and the composite index
+// on campaigns (startDate ASC, endDate ASC) declared in firestore.indexes.json.
+const overlapFilters = (period: Period): QueryFilter[] => [
+  { field: 'startDate', op: '<=', value: period.endDate },
+  { field: 'endDate', op: '>=', value: period.startDate },
+];
+
+// Campaigns missing a start or end date match no range, so they are loaded on their own, once
+const UNDATED_FILTERS: QueryFilter[][] = [
+  [{ field: 'startDate', op: 'in', value: ['', null] }],
+  [{ field: 'endDate', op: 'in', value: ['', null] }],
+];
+
+/**
+ * Keeps a live listener per loaded period and exposes the union of their campaigns, with the undated
+ * campaigns loaded alongside the first period. Periods stay loaded for the session, so moving back
+ * to an earlier range costs no extra reads.
+ */
+export const createCampaignPeriodStore = (repository: Repository<Campaign>): CampaignPeriodStore => {
+  const periodListeners: PeriodListener[] = [];
+  const listeners = new Set<() => void>();
+  let error: string | null = null;
+  let snapshot: CampaignPeriodSnapshot = {
+    data: [],
+    loading: true,
+    loadingPeriods: false,
+    error: null,
+    loadedPeriods: [],
+  };
+
+  const publish = () => {
+    // Campaigns spanning two periods are returned by both listeners; keep the most recent copy
+    const byId = new Map<string, Campaign>();
+    periodListeners.forEach(({ documents }) => {
+      documents.forEach(campaign => {
+        const existing = byId.get(campaign.id!);
+        if (!existing || (campaign.updatedAt || '') > (existing.updatedAt || '')) {
+          byId.set(campaign.id!, campaign);
+        }
+      });
+    });
+    const data = Array.from(byId.values()).sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+
+    snapshot = {
+      data,
+      loading: periodListeners.length === 0 || periodListeners.every(listener => !listener.ready),
+      loadingPeriods: periodListeners.some(listener => !listener.ready),
+      error,
+      loadedPeriods: mergePeriods(getLoadedPeriods()),
+    };
+    listeners.forEach(listener => listener());
+  };
+
+  const getLoadedPeriods = (): Period[] =>
+    periodListeners.flatMap(listener => (listener.period ? [listener.period] : []));
+
+  const openListener = (period: Period | null, filters: QueryFilter[]) => {
+    const periodListener: PeriodListener = { period, filters, documents: [], ready: false, unsubscribe: () => undefined };
+    periodListeners.push(periodListener);
+    const label = period ? `from ${period.startDate} to ${period.endDate}` : 'without dates';
+    periodListener.unsubscribe = repository.subscribe(
+      (items) => {
+        periodListener.documents = withoutTrashed(items);
+        periodListener.ready = true;
+        error = null;
+        publish();
+      },
+      (err) => {
+        console.error(`Error fetching campaigns ${label}:`, err);
+        periodListener.ready = true;
+        // A missing index is reported here too, with the link that creates it
+        error = `Failed to load the campaigns: ${err.message}`;
+        publish();
+      },
+      { filters }
+    );
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getSnapshot: () => snapshot,
+
+    ensurePeriod: (period) => {
+      if (!period.startDate || !period.endDate || period.startDate > period.endDate) return;
+      const gaps = subtractPeriods(period, getLoadedPeriods());
+      if (gaps.length === 0) return;
+      if (periodListeners.length === 0) UNDATED_FILTERS.forEach(filters => openListener(null, filters));
+      gaps.forEach(gap => openListener(gap, overlapFilters(gap)));
+      publish();
+    },
+
+    refresh: async () => {
+      await Promise.all(
+        periodListeners.map(async periodListener => {
+          const items = await repository.list({ filters: periodListener.filters });
+          periodListener.documents = withoutTrashed(items);
+        })
+      );
+      publish();
+    },
+  };
+};
@@ -0,0 +1,32 @@
+import { Campaign, migrateStatus, normalizeCampaignMetrics } from '../types/campaign';
+import { isCampaignInDateRange } from '../components/DateFilter';
+import { memoizeBySnapshot } from './memoize';
+
+// Guards against documents written before the data migrations ran (see src/migrations)
+export const normalizeCampaign = (data: Campaign): Campaign => ({
+  ...normalizeCampaignMetrics(data, true),
+  status: migrateStatus(data.status),
+});
+
+export const selectCampaigns = memoizeBySnapshot((raw: Campaign[]) => raw.map(normalizeCampaign));
+
+const groupBy = (campaigns: Campaign[], field: 'channel' | 'brand'): Map<string, Campaign[]> => {
+  const groups = new Map<string, Campaign[]>();
+  campaigns.forEach(campaign => {
+    const key = campaign[field];
+    const group = groups.get(key);
+    if (group) {
+      group.push(campaign);
+    } else {
+      groups.set(key, [campaign]);
+    }
+  });
+  return groups;
+};
+
+export const selectCampaignsByChannel = memoizeBySnapshot((campaigns: Campaign[]) => groupBy(campaigns, 'channel'));
+
+export const selectCampaignsByBrand = memoizeBySnapshot((campaigns: Campaign[]) => groupBy(campaigns, 'brand'));
+
+export const selectCampaignsInPeriod = (campaigns: Campaign[], startDate: string, endDate: string): Campaign[] =>
+  campaigns.filter(campaign => isCampaignInDateRange(campaign, { startDate, endDate }));
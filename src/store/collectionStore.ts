@@ -0,0 +1,129 @@
+import { BaseDocument, Repository } from '../repositories';
+import { withoutTrashed } from '../utils/trash';
+
+export interface CollectionSnapshot<T> {
+  data: T[];
+  loading: boolean;
+  error: string | null;
+}
+
+export interface CollectionStats {
+  /** Components currently reading the collection */
+  subscribers: number;
+  /** Listeners opened on the backend since the store was created */
+  listenersOpened: number;
+  /** Snapshots received from the backend */
+  snapshots: number;
+}
+
+export interface CollectionStore {
+  subscribe: <T extends BaseDocument>(repository: Repository<T>, listener: () => void) => () => void;
+  getSnapshot: <T extends BaseDocument>(repository: Repository<T>) => CollectionSnapshot<T>;
+  /** Re-reads the collection once, without waiting for the live listener */
+  refresh: <T extends BaseDocument>(repository: Repository<T>) => Promise<void>;
+  getStats: () => { [collectionName: string]: CollectionStats };
+}
+
+interface CollectionEntry {
+  snapshot: CollectionSnapshot<BaseDocument>;
+  listeners: Set<() => void>;
+  unsubscribe: (() => void) | null;
+  releaseTimer: ReturnType<typeof setTimeout> | null;
+  stats: Omit<CollectionStats, 'subscribers'>;
+}
+
+// Keeps the backend listener open briefly after the last reader unmounts, so switching tabs doesn't re-read
+const RELEASE_DELAY_MS = 5000;
+
+const INITIAL_SNAPSHOT: CollectionSnapshot<BaseDocument> = { data: [], loading: true, error: null };
+
+/**
+ * Holds one backend subscription per collection, shared by every reader.
+ * Snapshots are immutable, so unchanged collections keep the same reference and don't re-render readers.
+ */
+export const createCollectionStore = (): CollectionStore => {
+  const entries = new Map<string, CollectionEntry>();
+
+  const getEntry = (collectionName: string): CollectionEntry => {
+    let entry = entries.get(collectionName);
+    if (!entry) {
+      entry = {
+        snapshot: INITIAL_SNAPSHOT,
+        listeners: new Set(),
+        unsubscribe: null,
+        releaseTimer: null,
+        stats: { listenersOpened: 0, snapshots: 0 },
+      };
+      entries.set(collectionName, entry);
+    }
+    return entry;
+  };
+
+  const publish = (entry: CollectionEntry, snapshot: CollectionSnapshot<BaseDocument>) => {
+    entry.snapshot = snapshot;
+    entry.listeners.forEach(listener => listener());
+  };
+
+  const open = <T extends BaseDocument>(repository: Repository<T>, entry: CollectionEntry) => {
+    entry.stats.listenersOpened += 1;
+    entry.unsubscribe = repository.subscribe(
+      (items) => {
+        entry.stats.snapshots += 1;
+        // Trashed documents are only listed in the Trash tab
+        publish(entry, { data: withoutTrashed(items), loading: false, error: null });
+      },
+      (err) => {
+        console.error(`Error fetching ${repository.collectionName}:`, err);
+        publish(entry, { ...entry.snapshot, loading: false, error: 'Failed to connect to the database.' });
+      }
+    );
+  };
+
+  const close = (entry: CollectionEntry) => {
+    entry.unsubscribe?.();
+    entry.unsubscribe = null;
+    // The next reader starts from a fresh listener, so stale data must not look current
+    entry.snapshot = INITIAL_SNAPSHOT;
+  };
+
+  return {
+    subscribe: (repository, listener) => {
+      const entry = getEntry(repository.collectionName);
+      entry.listeners.add(listener);
+      if (entry.releaseTimer) {
+        clearTimeout(entry.releaseTimer);
+        entry.releaseTimer = null;
+      }
+      if (!entry.unsubscribe) {
+        open(repository, entry);
+      }
+
+      return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0 && !entry.releaseTimer) {
+          entry.releaseTimer = setTimeout(() => {
+            entry.releaseTimer = null;
+            if (entry.listeners.size === 0) close(entry);
+          }, RELEASE_DELAY_MS);
+        }
+      };
+    },
+
+    getSnapshot: <T extends BaseDocument>(repository: Repository<T>) =>
+      getEntry(repository.collectionName).snapshot as CollectionSnapshot<T>,
+
+    refresh: async (repository) => {
+      const entry = getEntry(repository.collectionName);
+      const items = await repository.list();
+      publish(entry, { data: withoutTrashed(items), loading: false, error: null });
+    },
+
+    getStats: () => {
+      const stats: { [collectionName: string]: CollectionStats } = {};
+      entries.forEach((entry, collectionName) => {
+        stats[collectionName] = { subscribers: entry.listeners.size, ...entry.stats };
+      });
+      return stats;
+    },
+  };
+};
@@ -0,0 +1,17 @@
+/**
+ * Memoises a selector on the identity of its input. Store snapshots are immutable,
+ * so the result is recomputed only when the collection actually changes.
+ */
+export const memoizeBySnapshot = <T, R>(select: (data: T) => R): ((data: T) => R) => {
+  let lastInput: T | undefined;
+  let lastResult: R;
+  let computed = false;
+  return (data: T) => {
+    if (!computed || data !== lastInput) {
+      lastInput = data;
+      lastResult = select(data);
+      computed = true;
+    }
+    return lastResult;
+  };
+};
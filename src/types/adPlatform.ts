@@ -0,0 +1,31 @@
+import { AuditUser } from './audit';
+
+export type AdPlatform = 'meta' | 'google' | 'tiktok';
+
+/**
+ * The actuals of one ad platform export for one campaign, kept on the campaign (`actualsPeriods`) so that
+ * exports of different reporting periods add up. Dates are null for exports without a date column, which
+ * cover the whole campaign; spend is in the campaign currency, leads null when the export had none.
+ */
+export interface ActualsPeriod {
+  platform: AdPlatform | null;
+  startDate: string | null;
+  endDate: string | null;
+  spend: number;
+  leads: number | null;
+}
+
+/**
+ * Stored in the `adPlatformMappings` collection: links a campaign of an ad platform export to one of ours.
+ * Matched by externalId when the export has one, otherwise by externalName.
+ */
+export interface AdPlatformMapping {
+  id?: string;
+  platform: AdPlatform;
+  externalId: string | null;
+  externalName: string;
+  campaignId: string;
+  mappedBy: AuditUser;
+  createdAt?: string;
+  updatedAt?: string;
+}
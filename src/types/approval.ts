@@ -0,0 +1,70 @@
+import { AuditUser } from './audit';
+import { CurrencyCode } from './currency';
+
+export type ApproverRole = 'budget-owner' | 'marketing-director' | 'cfo';
+
+/** Higher ranks can decide every request a lower rank can */
+export const APPROVER_ROLE_CONFIG: { [key in ApproverRole]: { label: string; rank: number } } = {
+  'budget-owner': { label: 'Budget owner', rank: 1 },
+  'marketing-director': { label: 'Marketing director', rank: 2 },
+  cfo: { label: 'CFO', rank: 3 },
+};
+
+export const APPROVER_ROLES = Object.keys(APPROVER_ROLE_CONFIG) as ApproverRole[];
+
+/** Stored in the `approvers` collection: the signed-in user with this email decides requests up to `role` */
+export interface Approver {
+  id?: string;
+  email: string;
+  name: string;
+  role: ApproverRole;
+  active: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Stored in the `approvalThresholds` collection: budgets from `minAmount` need at least `role` */
+export interface ApprovalThreshold {
+  id?: string;
+  role: ApproverRole;
+  minAmount: number; // In DEFAULT_CURRENCY, like budget plan envelopes
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Used until an admin saves thresholds of their own */
+export const DEFAULT_APPROVAL_THRESHOLDS: Pick<ApprovalThreshold, 'role' | 'minAmount'>[] = [
+  { role: 'budget-owner', minAmount: 0 },
+  { role: 'marketing-director', minAmount: 50000 },
+  { role: 'cfo', minAmount: 250000 },
+];
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export const APPROVAL_STATUS_CONFIG: { [key in ApprovalStatus]: { label: string; className: string } } = {
+  pending: { label: 'Pending approval', className: 'bg-amber-100 text-amber-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+};
+
+/** Stored in the `approvalRequests` collection, one per submission of a campaign */
+export interface ApprovalRequest {
+  id?: string;
+  campaignId: string;
+  /** Brand, channel, region and dates, so the inbox stays readable after the campaign is edited */
+  label: string;
+  startDate: string;
+  budget: number; // In the campaign currency; becomes the campaign's approvedBudget
+  currency: CurrencyCode;
+  amount: number; // The budget in DEFAULT_CURRENCY, which the thresholds are compared with
+  requiredRole: ApproverRole;
+  status: ApprovalStatus;
+  requestedBy: AuditUser;
+  requestedAt: string;
+  decidedBy: AuditUser | null;
+  decidedAt: string | null;
+  /** Required when rejecting */
+  comment: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
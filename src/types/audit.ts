@@ -0,0 +1,40 @@
+import { Campaign } from './campaign';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'undelete';
+
+// Values are stored as null instead of undefined (Firestore rejects undefined in arrays)
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditUser {
+  uid: string | null;
+  email: string | null;
+}
+
+export type CampaignSnapshot = Omit<Campaign, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface CampaignAuditEntry {
+  id?: string;
+  campaignId: string;
+  action: AuditAction;
+  changes: FieldChange[];
+  /** Campaign state after the change (before it, for deletions) — used to restore a version */
+  snapshot: CampaignSnapshot;
+  user: AuditUser;
+  timestamp: string;
+  /** Set on restore entries: the audit entry that was restored */
+  restoredFrom?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const AUDIT_ACTION_CONFIG: { [key in AuditAction]: { label: string; color: string; icon: string } } = {
+  create: { label: 'Created', color: '#10b981', icon: '✨' },
+  update: { label: 'Updated', color: '#3b82f6', icon: '✏️' },
+  delete: { label: 'Deleted', color: '#ef4444', icon: '🗑️' },
+  restore: { label: 'Version restored', color: '#8b5cf6', icon: '↩️' },
+  undelete: { label: 'Restored from trash', color: '#f59e0b', icon: '♻️' },
+};
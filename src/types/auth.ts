@@ -0,0 +1,6 @@
+// Subset of the Firebase user shared by both auth backends
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+}
@@ -0,0 +1,21 @@
+import { AuditUser } from './audit';
+
+export type BackupDocument = { id: string; createdAt?: string; updatedAt?: string } & { [field: string]: unknown };
+
+/** Downloaded as a single JSON file; `version` changes whenever the archive layout does */
+export interface BackupArchive {
+  format: 'arredissimaim-backup';
+  version: number;
+  createdAt: string;
+  createdBy: AuditUser;
+  /** Migrations applied when the backup was taken: restored documents have that shape */
+  migrations: string[];
+  /** Keyed by collection name (campaigns, brands, ...), trashed documents included */
+  collections: { [collectionName: string]: BackupDocument[] };
+}
+
+/**
+ * How a backup document compares with the current data:
+ * missing (deleted since the backup), changed, unchanged, or extra (created since the backup, current only)
+ */
+export type BackupDiffStatus = 'missing' | 'changed' | 'unchanged' | 'extra';
@@ -1,7 +1,12 @@
+import { FeeRule } from './costBreakdown';
+
 export interface Broadcaster {
   id?: string;
   name: string;
   active: boolean;
+  feeRule?: FeeRule | null; // Takes precedence over the channel's rule for campaigns with this publisher
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null; // Set while the document is in the trash
+  deletedBy?: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+/** Whole year, a quarter or a calendar month ('01'-'12') of the plan's fiscal year; Q1 starts with the fiscal year */
+export type EnvelopePeriod =
+  | 'year'
+  | 'Q1' | 'Q2' | 'Q3' | 'Q4'
+  | '01' | '02' | '03' | '04' | '05' | '06' | '07' | '08' | '09' | '10' | '11' | '12';
+
+/**
+ * What may be spent on one brand × channel × region in a period. Brand, channel and region hold names,
+ * like campaigns do, and are renamed with them.
+ */
+export interface BudgetEnvelope {
+  brand: string;
+  channel: string;
+  region: string;
+  period: EnvelopePeriod;
+  amount: number; // In DEFAULT_CURRENCY, like the campaign budgets it is compared with
+}
+
+/** Stored in the `budgetPlans` collection, one plan per fiscal year (see utils/fiscalYear) */
+export interface BudgetPlan {
+  id?: string;
+  year: number;
+  envelopes: BudgetEnvelope[];
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** How an envelope is used by the campaigns starting in its period (cancelled campaigns excluded) */
+export interface EnvelopeUsage {
+  envelope: BudgetEnvelope;
+  /** Budget of campaigns still in PLANNED */
+  planned: number;
+  /** Budget of scheduled, active and completed campaigns */
+  committed: number;
+  /** amount - planned - committed; negative when over-allocated */
+  remaining: number;
+  campaignCount: number;
+}
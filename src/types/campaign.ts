@@ -1,3 +1,8 @@
+import { ActualsPeriod } from './adPlatform';
+import { ApprovalStatus } from './approval';
+import { CostBreakdown } from './costBreakdown';
+import { CurrencyCode } from './currency';
+
 export interface Campaign {
   id?: string;
   channel: string; // Changed from Channel union to string for dynamic channels
@@ -7,11 +12,13 @@ export interface Campaign {
   startDate: string;
   endDate: string;
   budget: number;
+  currency?: CurrencyCode; // Currency of budget, spend and CPL; DEFAULT_CURRENCY when unset (see utils/currency)
   roi?: string;
   costPerLead?: number;
   leads: number;
   manager: string;
   status: Status;
+  statusChangedAt?: string; // Set by the status engine (utils/campaignStatus) on every status change
   notes?: string;
   publisher?: string; // New field for TV/Radio broadcaster/sponsorship
   extraSocialBudget?: number; // New field for extra social media budget
@@ -28,6 +35,18 @@ export interface Campaign {
   expectedViews?: number | null; // Projected views of digital signage (in thousands)
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null; // Set while the document is in the trash
+  deletedBy?: string | null;
+  importId?: string | null; // Spreadsheet import that created the campaign (see utils/campaignImport)
+  actualSpend?: number | null; // Spend reported by the ad platform (see utils/adPlatformImport); budget stays the plan
+  actualsSyncedAt?: string | null; // Last ad platform import that updated actualSpend and leads
+  actualsPeriods?: ActualsPeriod[] | null; // Reporting periods actualSpend and leads add up (see utils/adPlatformImport)
+  invoicedSpend?: number | null; // Total of the campaign's invoices (see utils/invoices); null without invoices
+  pacingCurve?: PacingCurve; // Expected shape of the spend over the flight (see utils/pacing); linear when unset
+  costBreakdown?: CostBreakdown | null; // Gross media, fees and VAT; budget is their net total when set
+  approvalStatus?: ApprovalStatus | null; // Budget approval (see utils/approvals); required to schedule the campaign
+  approvedBudget?: number | null; // Budget the last approval was granted on
+  approvalRequestId?: string | null; // Latest request in the approvalRequests collection
 }
 
 // Keep legacy Channel type for backward compatibility, but it's now dynamic
@@ -35,6 +54,8 @@ export type Channel = string;
 
 export type PeriodType = 'monthly' | 'weekly' | 'quarterly';
 
+export type PacingCurve = 'linear' | 'front-loaded' | 'back-loaded';
+
 // Updated Status with clearer labels
 export type Status = 'PLANNED' | 'SCHEDULED' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
 
@@ -101,6 +122,49 @@ export const migrateStatus = (status: string): Status => {
   return LEGACY_STATUS_MAP[status] || status as Status;
 };
 
+// Channel-specific numeric metrics; null means "not applicable / not set"
+export const CHANNEL_METRIC_FIELDS = [
+  'expectedGrps', 'achievedGrps', 'spotsPurchased',
+  'impressions', 'expectedViewers', 'expectedViews',
+] as const;
+
+export type ChannelMetricField = typeof CHANNEL_METRIC_FIELDS[number];
+
+// Coerces a stored metric to a number: 0, empty and non-numeric values become null
+export const normalizeMetricValue = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value !== 0 ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = parseFloat(value.trim().replace(',', '.'));
+    return Number.isFinite(parsed) && parsed !== 0 ? parsed : null;
+  }
+  return null;
+};
+
+// Normalizes the metric fields present in the given data (all of them when `allFields` is set)
+export const normalizeCampaignMetrics = <T extends Partial<Campaign>>(data: T, allFields = false): T => {
+  const normalized = { ...data };
+  CHANNEL_METRIC_FIELDS.forEach(field => {
+    if (allFields || field in data) {
+      normalized[field] = normalizeMetricValue(data[field]) as T[ChannelMetricField];
+    }
+  });
+  return normalized;
+};
+
+// ROI is stored as a percentage string ("1198%"); fixes spacing, decimal commas and missing % signs
+export const normalizeRoi = (roi: unknown): string | undefined => {
+  if (typeof roi === 'number') {
+    return Number.isFinite(roi) ? `${roi}%` : undefined;
+  }
+  if (typeof roi !== 'string') return undefined;
+  const compact = roi.replace(/\s+/g, '');
+  if (compact === '') return '';
+  const match = compact.match(/^(-?\d+(?:[.,]\d+)?)%?$/);
+  return match ? `${match[1].replace(',', '.')}%` : roi;
+};
+
 // Helper function to get status configuration
 export const getStatusConfig = (status: Status) => {
   return STATUS_CONFIG[status] || STATUS_CONFIG.PLANNED;
@@ -0,0 +1,15 @@
+import { AuditUser } from './audit';
+
+/** Stored in the `campaignImports` collection; its id is written on every imported campaign as importId */
+export interface CampaignImport {
+  id?: string;
+  fileName: string;
+  importedAt: string;
+  importedBy: AuditUser;
+  campaignCount: number;
+  /** Set once the import has been undone: its campaigns were moved to the trash */
+  undoneAt?: string | null;
+  undoneBy?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
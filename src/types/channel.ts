@@ -1,3 +1,5 @@
+import { FeeRule } from './costBreakdown';
+
 export interface Channel {
   id?: string;
   name: string;
@@ -8,8 +10,11 @@ export interface Channel {
   type: 'digital' | 'traditional';
   visibleKpis?: string[]; // KPI configuration
   subGroupingKey?: string | null; // New field for dynamic grouping
+  feeRule?: FeeRule | null; // Discount, commission and VAT for the channel's campaigns; DEFAULT_FEE_RULE when unset
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null; // Set while the document is in the trash
+  deletedBy?: string | null;
 }
 
 export type ChannelName = string; // Dynamic channel names from Firestore
@@ -0,0 +1,18 @@
+/** Percentages, e.g. 15 for 15% */
+export interface FeeRule {
+  discountPct: number; // Discount on the gross media cost
+  commissionPct: number; // Agency commission on the net media cost
+  vatPct: number;
+}
+
+/** Applies to channels and broadcasters without a rule of their own */
+export const DEFAULT_FEE_RULE: FeeRule = { discountPct: 0, commissionPct: 0, vatPct: 22 };
+
+/**
+ * Components of a campaign's cost, in the campaign currency. The campaign budget is kept equal to the net
+ * total they add up to (see utils/costBreakdown), so every report keeps reading `budget`.
+ */
+export interface CostBreakdown extends FeeRule {
+  grossMedia: number; // Media at rate card, before discounts
+  production: number;
+}
@@ -0,0 +1,27 @@
+export type CurrencyCode = 'EUR' | 'CHF' | 'USD' | 'GBP';
+
+/** Currency of campaigns without one, of budget plans and of the exchange-rate table */
+export const DEFAULT_CURRENCY: CurrencyCode = 'EUR';
+
+export const CURRENCY_CONFIG: { [key in CurrencyCode]: { label: string; symbol: string; locale: string } } = {
+  EUR: { label: 'Euro', symbol: '€', locale: 'it-IT' },
+  CHF: { label: 'Swiss franc', symbol: 'CHF ', locale: 'de-CH' },
+  USD: { label: 'US dollar', symbol: '$', locale: 'en-US' },
+  GBP: { label: 'Pound sterling', symbol: '£', locale: 'en-GB' },
+};
+
+export const CURRENCIES = Object.keys(CURRENCY_CONFIG) as CurrencyCode[];
+
+/**
+ * Stored in the `exchangeRates` collection. Rates are quoted like the ECB reference rates: units of the
+ * currency for one euro, in force from `date` until the next rate of the same currency.
+ */
+export interface ExchangeRate {
+  id?: string;
+  currency: CurrencyCode;
+  date: string;
+  rate: number;
+  source: 'manual' | 'import';
+  createdAt?: string;
+  updatedAt?: string;
+}
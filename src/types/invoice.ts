@@ -0,0 +1,27 @@
+import { AuditUser } from './audit';
+
+export type InvoiceStatus = 'received' | 'approved' | 'paid' | 'disputed';
+
+export const INVOICE_STATUS_CONFIG: { [key in InvoiceStatus]: { label: string; className: string; countsAsSpend: boolean } } = {
+  received: { label: 'Received', className: 'bg-gray-100 text-gray-800', countsAsSpend: true },
+  approved: { label: 'Approved', className: 'bg-blue-100 text-blue-800', countsAsSpend: true },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-800', countsAsSpend: true },
+  // Contested amounts stay out of actual spend until the supplier corrects them
+  disputed: { label: 'Disputed', className: 'bg-red-100 text-red-800', countsAsSpend: false },
+};
+
+/** Stored in the `invoices` collection; the campaign keeps their total in invoicedSpend */
+export interface Invoice {
+  id?: string;
+  campaignId: string;
+  /** Supplier or broadcaster that issued the invoice */
+  supplier: string;
+  number: string;
+  date: string;
+  amount: number;
+  status: InvoiceStatus;
+  notes?: string;
+  recordedBy: AuditUser;
+  createdAt?: string;
+  updatedAt?: string;
+}
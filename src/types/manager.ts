@@ -5,4 +5,6 @@ export interface Manager {
   active: boolean;
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null; // Set while the document is in the trash
+  deletedBy?: string | null;
 }
\ No newline at end of file
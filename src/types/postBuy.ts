@@ -0,0 +1,36 @@
+import { AuditUser } from './audit';
+import { CurrencyCode } from './currency';
+
+/** One aired spot, as listed in a broadcaster's post-buy report */
+export interface PostBuySpot {
+  date: string;
+  time: string | null;
+  programme: string | null;
+  grp: number | null;
+  cost: number | null;
+}
+
+/**
+ * Stored in the `postBuyReports` collection: the spots of one post-buy import for one campaign.
+ * Reports of different air dates add up (e.g. one file per month); a newer import replaces the spots a report
+ * has within its air dates and leaves the others. The campaign's achievedGrps and spotsPurchased are the totals of its reports.
+ */
+export interface PostBuyReport {
+  id?: string;
+  campaignId: string;
+  publisher: string;
+  fileName: string;
+  importedAt: string;
+  importedBy: AuditUser;
+  /** First and last air date of the spots */
+  startDate: string;
+  endDate: string;
+  /** Currency of the spot costs: the campaign's when imported */
+  currency?: CurrencyCode;
+  spotCount: number;
+  totalGrps: number;
+  totalCost: number;
+  spots: PostBuySpot[];
+  createdAt?: string;
+  updatedAt?: string;
+}
@@ -4,4 +4,6 @@ export interface Region {
   active: boolean;
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null; // Set while the document is in the trash
+  deletedBy?: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { AuditUser } from './audit';
+import { Status } from './campaign';
+
+export type StatusAutomationTrigger = 'daily' | 'manual';
+
+export interface StatusAutomationChange {
+  campaignId: string;
+  /** Brand, channel and dates, so the log stays readable after the campaign is edited or deleted */
+  label: string;
+  from: Status;
+  to: Status;
+}
+
+/** Stored in the `statusAutomationRuns` collection after every real (non dry-run) run */
+export interface StatusAutomationRun {
+  id?: string;
+  /** Day the run evaluated, yyyy-MM-dd: the daily trigger runs once per runDate */
+  runDate: string;
+  trigger: StatusAutomationTrigger;
+  triggeredBy: AuditUser;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  error?: string | null;
+  /** Number of campaigns moved; changes may be truncated for very large runs */
+  changedCount: number;
+  changes: StatusAutomationChange[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Single document in the `automationSettings` collection, keyed by automation */
+export interface AutomationSettings {
+  id?: string;
+  automation: 'campaignStatus';
+  enabled: boolean;
+  updatedBy: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
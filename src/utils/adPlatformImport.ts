@@ -0,0 +1,477 @@
+import { adPlatformMappingRepository, campaignRepository, commitInChunks, WriteOperation } from '../repositories';
+import { ActualsPeriod, AdPlatform, AdPlatformMapping } from '../types/adPlatform';
+import { AuthUser } from '../types/auth';
+import { Campaign } from '../types/campaign';
+import { CURRENCIES, CurrencyCode, ExchangeRate } from '../types/currency';
+import { recordCampaignAudit, toAuditUser } from './campaignAudit';
+import { isAmbiguousImportNumber, parseImportDate, parseImportNumber } from './campaignImport';
+import { convertAmount, getCampaignCurrency } from './currency';
+import { normalizeForMatch, similarity } from './fuzzyMatch';
+import { SpreadsheetData } from './spreadsheet';
+import { withoutTrashed } from './trash';
+
+type PlatformColumn = 'campaignId' | 'campaignName' | 'spend' | 'leads' | 'startDate' | 'endDate' | 'currency';
+
+interface AdPlatformConfig {
+  label: string;
+  /** Our channel names whose campaigns the platform's exports update */
+  channels: string[];
+  /** Header names in the English and Italian exports, preferred first */
+  columns: { [key in PlatformColumn]: string[] };
+}
+
+export const AD_PLATFORM_CONFIG: { [key in AdPlatform]: AdPlatformConfig } = {
+  meta: {
+    label: 'Meta Ads',
+    channels: ['Meta', 'META', 'Facebook', 'Instagram'],
+    columns: {
+      campaignId: ['Campaign ID', 'Identificativo della campagna', 'ID campagna'],
+      campaignName: ['Campaign name', 'Nome della campagna'],
+      spend: ['Amount spent', 'Importo speso'],
+      leads: ['Leads', 'Lead', 'Results', 'Risultati'],
+      startDate: ['Reporting starts', 'Inizio report', 'Day', 'Giorno'],
+      endDate: ['Reporting ends', 'Fine report', 'Day', 'Giorno'],
+      currency: ['Currency', 'Valuta'],
+    },
+  },
+  google: {
+    label: 'Google Ads',
+    channels: ['Google', 'Google Ads', 'YouTube'],
+    columns: {
+      campaignId: ['Campaign ID', 'ID campagna'],
+      campaignName: ['Campaign', 'Campagna'],
+      spend: ['Cost', 'Costo'],
+      leads: ['Conversions', 'Conversioni'],
+      startDate: ['Day', 'Giorno'],
+      endDate: ['Day', 'Giorno'],
+      currency: ['Currency code', 'Codice valuta', 'Currency', 'Valuta'],
+    },
+  },
+  tiktok: {
+    label: 'TikTok Ads',
+    channels: ['TikTok', 'Tiktok'],
+    columns: {
+      campaignId: ['Campaign ID', 'ID campagna'],
+      campaignName: ['Campaign name', 'Campaign', 'Nome campagna'],
+      spend: ['Cost', 'Total cost', 'Spend', 'Costo'],
+      leads: ['Leads', 'Conversions', 'Results', 'Conversioni', 'Risultati'],
+      startDate: ['Date', 'By Day', 'Data'],
+      endDate: ['Date', 'By Day', 'Data'],
+      currency: ['Currency', 'Valuta'],
+    },
+  },
+};
+
+export const AD_PLATFORMS = Object.keys(AD_PLATFORM_CONFIG) as AdPlatform[];
+
+/** One platform campaign, with its export rows (days, ad sets) summed up */
+export interface PlatformCampaignRow {
+  key: string;
+  externalId: string | null;
+  externalName: string;
+  spend: number;
+  leads: number;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface ParsedPlatformExport {
+  platform: AdPlatform;
+  rows: PlatformCampaignRow[];
+  /** False when the export has no leads column: leads are then left as they are */
+  hasLeads: boolean;
+  /** From the currency column or the spend header ("Cost (EUR)"); null when the file doesn't say */
+  currency: CurrencyCode | null;
+  /** Total and summary rows that were left out */
+  skippedRows: number;
+  /** Spend and leads like "1,250", read as thousands though they may have been decimals */
+  ambiguousValues: string[];
+}
+
+export type PlatformMatchSource = 'id' | 'name' | 'suggestion' | 'manual';
+
+export interface PlatformRowMatch {
+  row: PlatformCampaignRow;
+  campaignId: string | null;
+  matchedBy: PlatformMatchSource | null;
+  /** Closest campaigns first, for rows without a stored mapping */
+  suggestions: string[];
+}
+
+export interface ActualsChange {
+  campaign: Campaign;
+  rows: PlatformCampaignRow[];
+  /** The file's spend in the campaign currency; null when no exchange rate converts it */
+  spend: number | null;
+  /** Earlier periods the file replaces, because they overlap its dates */
+  replacedPeriods: ActualsPeriod[];
+  /** Reasons to check the change before applying it */
+  warnings: string[];
+  /** Set when the change can't be applied; it is then left out */
+  error: string | null;
+  updates: Pick<Campaign, 'actualSpend' | 'actualsSyncedAt' | 'actualsPeriods'> & Partial<Pick<Campaign, 'leads' | 'costPerLead'>>;
+}
+
+// Exact header names win over prefixes: "Campaign" must not pick up "Campaign ID"
+const findColumn = (headers: string[], aliases: string[]): number => {
+  const normalizedHeaders = headers.map(normalizeForMatch);
+  const normalizedAliases = aliases.map(normalizeForMatch);
+  for (const alias of normalizedAliases) {
+    const index = normalizedHeaders.indexOf(alias);
+    if (index >= 0) return index;
+  }
+  // "Amount spent (EUR)", "Cost (EUR)"
+  for (const alias of normalizedAliases) {
+    const index = normalizedHeaders.findIndex(header => header.startsWith(alias));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+/** Google Ads puts a report title and date range above the header row */
+export const isPlatformHeaderRow = (row: string[]): boolean =>
+  AD_PLATFORMS.some(platform => findColumn(row, AD_PLATFORM_CONFIG[platform].columns.spend) >= 0) &&
+  AD_PLATFORMS.some(platform => findColumn(row, AD_PLATFORM_CONFIG[platform].columns.campaignName) >= 0);
+
+export const guessAdPlatform = (headers: string[]): AdPlatform => {
+  if (findColumn(headers, AD_PLATFORM_CONFIG.meta.columns.spend) >= 0) return 'meta';
+  if (headers.some(header => ['campaign', 'campagna'].includes(normalizeForMatch(header)))) return 'google';
+  return 'tiktok';
+};
+
+// "Amount spent (EUR)", "Cost (CHF)"
+const CURRENCY_IN_HEADER = /\(([A-Z]{3})\)/;
+
+const toCurrency = (code: string): CurrencyCode => {
+  const upper = code.trim().toUpperCase();
+  if (!CURRENCIES.includes(upper as CurrencyCode)) {
+    throw new Error(`The file is in ${upper}, which has no exchange rates: supported currencies are ${CURRENCIES.join(', ')}.`);
+  }
+  return upper as CurrencyCode;
+};
+
+const isSummaryRow = (name: string, id: string): boolean => {
+  const normalized = normalizeForMatch(name);
+  return (!name && !id) || normalized.startsWith('total') || normalized.startsWith('totale');
+};
+
+/** Reads a platform export into one row per platform campaign. Throws when the columns we need are missing. */
+export const parsePlatformExport = (data: SpreadsheetData, platform: AdPlatform): ParsedPlatformExport => {
+  const config = AD_PLATFORM_CONFIG[platform];
+  const column = (key: PlatformColumn) => findColumn(data.headers, config.columns[key]);
+  const idColumn = column('campaignId');
+  const nameColumn = column('campaignName');
+  const spendColumn = column('spend');
+  const leadsColumn = column('leads');
+  const startColumn = column('startDate');
+  const endColumn = column('endDate');
+  const currencyColumn = column('currency');
+
+  const missing = [
+    nameColumn < 0 && idColumn < 0 && 'campaign name',
+    spendColumn < 0 && 'spend',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    throw new Error(`Could not find the ${missing.join(' and ')} column in this file: is it a ${config.label} campaign report?`);
+  }
+
+  const byKey = new Map<string, PlatformCampaignRow>();
+  const currencies = new Set<string>();
+  const ambiguousValues = new Set<string>();
+  let skippedRows = 0;
+  data.rows.forEach(cells => {
+    const externalId = idColumn >= 0 ? cells[idColumn] : '';
+    const externalName = nameColumn >= 0 ? cells[nameColumn] : externalId;
+    if (isSummaryRow(externalName, externalId)) {
+      skippedRows++;
+      return;
+    }
+
+    if (currencyColumn >= 0 && cells[currencyColumn]?.trim()) currencies.add(cells[currencyColumn].trim().toUpperCase());
+    const key = externalId || normalizeForMatch(externalName);
+    const row = byKey.get(key) || {
+      key,
+      externalId: externalId || null,
+      externalName,
+      spend: 0,
+      leads: 0,
+      startDate: null,
+      endDate: null,
+    };
+    // "--" and empty cells mean nothing was spent or converted
+    row.spend += parseImportNumber(cells[spendColumn]) ?? 0;
+    row.leads += leadsColumn >= 0 ? parseImportNumber(cells[leadsColumn]) ?? 0 : 0;
+    [spendColumn, leadsColumn].forEach(index => {
+      if (index >= 0 && isAmbiguousImportNumber(cells[index] ?? '')) ambiguousValues.add(cells[index].trim());
+    });
+    const start = startColumn >= 0 ? parseImportDate(cells[startColumn]) : null;
+    const end = endColumn >= 0 ? parseImportDate(cells[endColumn]) : null;
+    if (start && (!row.startDate || start < row.startDate)) row.startDate = start;
+    if (end && (!row.endDate || end > row.endDate)) row.endDate = end;
+    byKey.set(key, row);
+  });
+
+  if (currencies.size > 1) {
+    throw new Error(`This file mixes currencies (${[...currencies].join(', ')}): export one ad account at a time.`);
+  }
+  const headerCurrency = data.headers[spendColumn].match(CURRENCY_IN_HEADER)?.[1];
+  const currencyCode = [...currencies][0] ?? headerCurrency;
+
+  return {
+    platform,
+    rows: [...byKey.values()].map(row => ({ ...row, spend: Math.round(row.spend * 100) / 100 })),
+    hasLeads: leadsColumn >= 0,
+    currency: currencyCode ? toCurrency(currencyCode) : null,
+    skippedRows,
+    ambiguousValues: [...ambiguousValues],
+  };
+};
+
+const isPlatformChannel = (platform: AdPlatform, channel: string): boolean =>
+  AD_PLATFORM_CONFIG[platform].channels.some(name => normalizeForMatch(name) === normalizeForMatch(channel));
+
+/** The campaigns a platform export can update, across every period (not only the loaded fiscal years) */
+export const loadPlatformCampaigns = async (platform: AdPlatform): Promise<Campaign[]> => {
+  const campaigns = await campaignRepository.list({
+    filters: [{ field: 'channel', op: 'in', value: AD_PLATFORM_CONFIG[platform].channels }],
+  });
+  return withoutTrashed(campaigns).filter(campaign => isPlatformChannel(platform, campaign.channel));
+};
+
+export const loadPlatformMappings = (platform: AdPlatform): Promise<AdPlatformMapping[]> =>
+  adPlatformMappingRepository.list({ filters: [{ field: 'platform', op: '==', value: platform }] });
+
+const overlaps = (row: PlatformCampaignRow, campaign: Campaign): boolean =>
+  !row.startDate || !row.endDate || (row.startDate <= campaign.endDate && row.endDate >= campaign.startDate);
+
+const scoreCandidate = (row: PlatformCampaignRow, campaign: Campaign): number => {
+  const score = Math.max(
+    similarity(row.externalName, campaign.brand),
+    similarity(row.externalName, `${campaign.brand} ${campaign.region}`)
+  );
+  // Names rarely say which flight they are: the dates break ties between a brand's campaigns
+  return overlaps(row, campaign) ? score + 0.1 : score - 0.2;
+};
+
+/**
+ * Matches each platform campaign to one of ours: stored mapping by external id, then by name,
+ * otherwise the closest campaign by brand and dates is proposed for review.
+ */
+export const matchPlatformRows = (
+  rows: PlatformCampaignRow[],
+  campaigns: Campaign[],
+  mappings: AdPlatformMapping[]
+): PlatformRowMatch[] => {
+  const campaignIds = new Set(campaigns.map(campaign => campaign.id!));
+  // Mappings to campaigns that were deleted since are ignored
+  const liveMappings = mappings.filter(mapping => campaignIds.has(mapping.campaignId));
+
+  return rows.map(row => {
+    const byId = row.externalId ? liveMappings.find(mapping => mapping.externalId === row.externalId) : undefined;
+    if (byId) return { row, campaignId: byId.campaignId, matchedBy: 'id', suggestions: [] };
+
+    const byName = liveMappings.find(mapping => normalizeForMatch(mapping.externalName) === normalizeForMatch(row.externalName));
+    if (byName) return { row, campaignId: byName.campaignId, matchedBy: 'name', suggestions: [] };
+
+    const ranked = campaigns
+      .map(campaign => ({ campaign, score: scoreCandidate(row, campaign) }))
+      .filter(({ score }) => score >= 0.5)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3);
+    const best = ranked[0];
+    return {
+      row,
+      campaignId: best && best.score >= 0.8 ? best.campaign.id! : null,
+      matchedBy: best && best.score >= 0.8 ? 'suggestion' : null,
+      suggestions: ranked.map(({ campaign }) => campaign.id!),
+    };
+  });
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Actuals imported before periods were kept cover the whole campaign
+const getStoredPeriods = (campaign: Campaign): ActualsPeriod[] => {
+  if (campaign.actualsPeriods) return campaign.actualsPeriods;
+  if (campaign.actualSpend == null) return [];
+  return [{ platform: null, startDate: null, endDate: null, spend: campaign.actualSpend, leads: campaign.leads }];
+};
+
+const periodsOverlap = (a: ActualsPeriod, b: ActualsPeriod): boolean =>
+  !a.startDate || !a.endDate || !b.startDate || !b.endDate || (a.startDate <= b.endDate && a.endDate >= b.startDate);
+
+const formatPeriod = (period: ActualsPeriod): string =>
+  period.startDate ? `${period.startDate} → ${period.endDate}` : 'the whole campaign';
+
+interface PlanActualsOptions {
+  platform: AdPlatform;
+  hasLeads: boolean;
+  /** Currency of the file's amounts; null assumes each campaign's own */
+  currency: CurrencyCode | null;
+  rates: ExchangeRate[];
+}
+
+/**
+ * The updates the matched rows lead to. Platform campaigns matched to the same campaign are summed and
+ * converted to the campaign currency. The file's period replaces the stored periods it overlaps and adds
+ * up with the others, so monthly exports accumulate; actualSpend (never the planned budget) and leads are
+ * the totals of the periods.
+ */
+export const planActualsUpdates = (
+  matches: PlatformRowMatch[],
+  campaigns: Campaign[],
+  { platform, hasLeads, currency, rates }: PlanActualsOptions,
+  syncedAt: string = new Date().toISOString()
+): ActualsChange[] => {
+  const rowsByCampaign = new Map<string, PlatformCampaignRow[]>();
+  matches.forEach(match => {
+    if (!match.campaignId) return;
+    rowsByCampaign.set(match.campaignId, [...(rowsByCampaign.get(match.campaignId) || []), match.row]);
+  });
+
+  return campaigns
+    .filter(campaign => rowsByCampaign.has(campaign.id!))
+    .map(campaign => {
+      const rows = rowsByCampaign.get(campaign.id!)!;
+      const leads = rows.reduce((sum, row) => sum + row.leads, 0);
+      const campaignCurrency = getCampaignCurrency(campaign);
+      const fileCurrency = currency ?? campaignCurrency;
+
+      // Rows without dates make the file cover the whole campaign
+      const dated = rows.every(row => row.startDate && row.endDate);
+      const period: ActualsPeriod = {
+        platform,
+        startDate: dated ? rows.map(row => row.startDate!).sort()[0] : null,
+        endDate: dated ? rows.map(row => row.endDate!).sort()[rows.length - 1] : null,
+        spend: 0,
+        leads: hasLeads ? leads : null,
+      };
+
+      const converted = convertAmount(
+        rows.reduce((sum, row) => sum + row.spend, 0),
+        fileCurrency,
+        campaignCurrency,
+        period.startDate ?? campaign.startDate,
+        rates
+      );
+      const spend = converted === null ? null : round(converted);
+      period.spend = spend ?? 0;
+
+      const stored = getStoredPeriods(campaign);
+      const replacedPeriods = stored.filter(other => (!other.platform || other.platform === platform) && periodsOverlap(other, period));
+      const keptPeriods = stored.filter(other => !replacedPeriods.includes(other));
+      const periods = [...keptPeriods, period].sort((a, b) => (a.startDate ?? '').localeCompare(b.startDate ?? ''));
+
+      const warnings: string[] = [];
+      const outside = replacedPeriods.filter(other =>
+        period.startDate && (!other.startDate || other.startDate < period.startDate || other.endDate! > period.endDate!)
+      );
+      if (outside.length > 0) {
+        warnings.push(
+          `The file covers ${formatPeriod(period)} but replaces actuals for ${outside.map(formatPeriod).join(', ')}: ` +
+          'the spend outside the file\'s dates is dropped.'
+        );
+      }
+      if (!period.startDate && keptPeriods.length + replacedPeriods.length > 0) {
+        warnings.push('The file has no reporting dates: it replaces the actuals imported before.');
+      }
+      if (fileCurrency !== campaignCurrency && spend !== null) {
+        warnings.push(`Converted from ${fileCurrency} to ${campaignCurrency}.`);
+      }
+
+      const actualSpend = round(periods.reduce((sum, other) => sum + other.spend, 0));
+      const updates: ActualsChange['updates'] = { actualSpend, actualsSyncedAt: syncedAt, actualsPeriods: periods };
+      if (hasLeads) {
+        // Periods imported without leads count as none
+        const totalLeads = periods.reduce((sum, other) => sum + (other.leads ?? 0), 0);
+        updates.leads = totalLeads;
+        if (totalLeads > 0) updates.costPerLead = round(actualSpend / totalLeads);
+      }
+      return {
+        campaign,
+        rows,
+        spend,
+        replacedPeriods,
+        warnings,
+        error: spend === null ? `No ${fileCurrency}/${campaignCurrency} exchange rate: add one under exchange rates to import this campaign.` : null,
+        updates,
+      };
+    });
+};
+
+interface ApplyActualsParams {
+  platform: AdPlatform;
+  changes: ActualsChange[];
+  /** Matches to remember for the next import (new or reassigned ones) */
+  matches: PlatformRowMatch[];
+  mappings: AdPlatformMapping[];
+  user: AuthUser | null;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const toMappingOperations = (
+  platform: AdPlatform,
+  matches: PlatformRowMatch[],
+  mappings: AdPlatformMapping[],
+  user: AuthUser | null
+): WriteOperation<AdPlatformMapping>[] =>
+  matches.flatMap((match): WriteOperation<AdPlatformMapping>[] => {
+    if (!match.campaignId || match.matchedBy === 'id' || match.matchedBy === 'name') return [];
+    const existing = mappings.find(mapping =>
+      match.row.externalId
+        ? mapping.externalId === match.row.externalId
+        : normalizeForMatch(mapping.externalName) === normalizeForMatch(match.row.externalName)
+    );
+    const data = {
+      platform,
+      externalId: match.row.externalId,
+      externalName: match.row.externalName,
+      campaignId: match.campaignId,
+      mappedBy: toAuditUser(user),
+    };
+    return existing ? [{ type: 'update', id: existing.id!, data }] : [{ type: 'add', data }];
+  });
+
+/**
+ * Writes the actuals in chunks, audits the committed campaigns, then remembers the new mappings.
+ * Changes with an error are left out.
+ */
+export const applyActualsUpdates = async ({
+  platform,
+  changes,
+  matches,
+  mappings,
+  user,
+  onProgress,
+}: ApplyActualsParams): Promise<number> => {
+  const applicable = changes.filter(change => !change.error);
+  const operations: WriteOperation<Campaign>[] = applicable.map(change => ({
+    type: 'update',
+    id: change.campaign.id!,
+    data: change.updates,
+  }));
+
+  let committed = 0;
+  try {
+    await commitInChunks(campaignRepository, operations, (count, total) => {
+      committed = count;
+      onProgress?.(count, total);
+    });
+  } finally {
+    await Promise.all(
+      applicable.slice(0, committed).map(change =>
+        recordCampaignAudit({
+          campaignId: change.campaign.id!,
+          action: 'update',
+          before: change.campaign,
+          after: { ...change.campaign, ...change.updates },
+          user: toAuditUser(user),
+        })
+      )
+    );
+  }
+
+  await commitInChunks(adPlatformMappingRepository, toMappingOperations(platform, matches, mappings, user));
+  console.log(`✔️ Updated actuals of ${committed} campaigns from ${AD_PLATFORM_CONFIG[platform].label}`);
+  return committed;
+};
@@ -0,0 +1,202 @@
+import { approvalRequestRepository, campaignRepository } from '../repositories';
+import {
+  APPROVER_ROLES,
+  APPROVER_ROLE_CONFIG,
+  ApprovalRequest,
+  ApprovalThreshold,
+  Approver,
+  ApproverRole,
+  DEFAULT_APPROVAL_THRESHOLDS,
+} from '../types/approval';
+import { AuthUser } from '../types/auth';
+import { Campaign, migrateStatus } from '../types/campaign';
+import { recordCampaignAudit, toAuditUser } from './campaignAudit';
+import { applyStatusTransition } from './campaignStatus';
+import { getCampaignCurrency } from './currency';
+
+/** Copies of a campaign start unapproved: an approval covers one campaign only */
+export const NO_APPROVAL: Pick<Campaign, 'approvalStatus' | 'approvedBudget' | 'approvalRequestId'> = {
+  approvalStatus: null,
+  approvedBudget: null,
+  approvalRequestId: null,
+};
+
+export const getApprovalLabel = (campaign: Campaign): string =>
+  `${campaign.brand} · ${campaign.channel} · ${campaign.region} (${campaign.startDate} → ${campaign.endDate})`;
+
+/** The most senior role whose threshold the amount reaches; saved thresholds replace the defaults */
+export const getRequiredRole = (amount: number, thresholds: Pick<ApprovalThreshold, 'role' | 'minAmount'>[]): ApproverRole => {
+  const rules = thresholds.length > 0 ? thresholds : DEFAULT_APPROVAL_THRESHOLDS;
+  return rules
+    .filter(threshold => amount >= threshold.minAmount)
+    .reduce<ApproverRole>(
+      (role, threshold) => (APPROVER_ROLE_CONFIG[threshold.role].rank > APPROVER_ROLE_CONFIG[role].rank ? threshold.role : role),
+      'budget-owner'
+    );
+};
+
+/** The approver record of the signed-in user, matched by email */
+export const findApprover = (approvers: Approver[], user: AuthUser | null): Approver | undefined => {
+  const email = user?.email?.trim().toLowerCase();
+  return email ? approvers.find(approver => approver.active && approver.email.trim().toLowerCase() === email) : undefined;
+};
+
+// VITE_APPROVAL_ADMINS=a@example.com,b@example.com lists who may manage approvers besides the top-role approvers (see .env.example)
+const APPROVAL_ADMINS = (import.meta.env.VITE_APPROVAL_ADMINS ?? '')
+  .split(',')
+  .map((email: string) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+const TOP_APPROVER_ROLE = APPROVER_ROLES.reduce((top, role) =>
+  APPROVER_ROLE_CONFIG[role].rank > APPROVER_ROLE_CONFIG[top].rank ? role : top
+);
+
+/**
+ * Approvers and thresholds decide who may approve what, so only the top role or a configured admin changes them.
+ * Until the first approver is added anyone signed in may, or a fresh install could never approve a budget.
+ */
+export const canManageApprovals = (approvers: Approver[], user: AuthUser | null): boolean => {
+  if (approvers.length === 0) return true;
+  const email = user?.email?.trim().toLowerCase();
+  if (email && APPROVAL_ADMINS.includes(email)) return true;
+  return findApprover(approvers, user)?.role === TOP_APPROVER_ROLE;
+};
+
+export const getTopApproverRoleLabel = (): string => APPROVER_ROLE_CONFIG[TOP_APPROVER_ROLE].label;
+
+export const getApprovalManagersLabel = (): string =>
+  `${getTopApproverRoleLabel()} approvers${APPROVAL_ADMINS.length > 0 ? ' and approval admins' : ''}`;
+
+export type ApproverInput = Omit<Approver, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const validateApprover = (approver: ApproverInput, others: Approver[]): string | null => {
+  const email = approver.email.trim().toLowerCase();
+  if (!approver.name.trim()) return 'The name is required.';
+  if (!/^[^@\s]+@[^@\s]+$/.test(email)) return 'A valid email is required.';
+  if (others.some(other => other.email.trim().toLowerCase() === email)) return `${approver.email} is already an approver.`;
+  return null;
+};
+
+/** One minimum per role; a more senior role can't start below a junior one */
+export const validateApprovalThresholds = (thresholds: Pick<ApprovalThreshold, 'role' | 'minAmount'>[]): string | null => {
+  if (thresholds.some(threshold => !Number.isFinite(threshold.minAmount) || threshold.minAmount < 0)) {
+    return 'Amounts cannot be negative.';
+  }
+  const sorted = [...thresholds].sort((a, b) => APPROVER_ROLE_CONFIG[a.role].rank - APPROVER_ROLE_CONFIG[b.role].rank);
+  const inversion = sorted.find((threshold, index) => index > 0 && threshold.minAmount < sorted[index - 1].minAmount);
+  return inversion ? `The ${APPROVER_ROLE_CONFIG[inversion.role].label} threshold is below a more junior role's.` : null;
+};
+
+export const canDecide = (approver: Approver | undefined, request: Pick<ApprovalRequest, 'requiredRole'>): boolean =>
+  !!approver && APPROVER_ROLE_CONFIG[approver.role].rank >= APPROVER_ROLE_CONFIG[request.requiredRole].rank;
+
+/** Requesters can't approve their own budgets, whatever their role */
+export const isOwnRequest = (
+  request: Pick<ApprovalRequest, 'requestedBy'>,
+  approver: Approver | undefined,
+  user: AuthUser | null
+): boolean => {
+  const requester = request.requestedBy;
+  const sameEmail = (email?: string | null) =>
+    !!email && !!requester.email && email.trim().toLowerCase() === requester.email.trim().toLowerCase();
+  return (!!user?.uid && user.uid === requester.uid) || sameEmail(user?.email) || sameEmail(approver?.email);
+};
+
+// Returns the campaign as saved, so an open form can carry on from the new version
+const updateCampaignApproval = async (campaignId: string, updates: Partial<Campaign>, user: AuthUser | null): Promise<Campaign> => {
+  const before = await campaignRepository.get(campaignId);
+  if (!before) throw new Error('The campaign no longer exists.');
+  await campaignRepository.update(campaignId, updates);
+  await recordCampaignAudit({
+    campaignId,
+    action: 'update',
+    before,
+    after: { ...before, ...updates },
+    user: toAuditUser(user),
+  });
+  return (await campaignRepository.get(campaignId)) ?? { ...before, ...updates };
+};
+
+/**
+ * Opens an approval request for a saved, planned campaign and returns the updated campaign. `amount` is its
+ * budget in DEFAULT_CURRENCY, which picks the approver role needed.
+ */
+export const submitForApproval = async ({
+  campaign,
+  amount,
+  thresholds,
+  user,
+}: {
+  campaign: Campaign;
+  amount: number;
+  thresholds: ApprovalThreshold[];
+  user: AuthUser | null;
+}): Promise<Campaign> => {
+  if (!campaign.id) throw new Error('Save the campaign before submitting it for approval.');
+  if (migrateStatus(campaign.status) !== 'PLANNED') throw new Error('Only planned campaigns can be submitted for approval.');
+  if (!(campaign.budget > 0)) throw new Error('A budget greater than zero is required.');
+  if (campaign.approvalStatus === 'pending') throw new Error('The campaign is already waiting for approval.');
+
+  const request = await approvalRequestRepository.add({
+    campaignId: campaign.id,
+    label: getApprovalLabel(campaign),
+    startDate: campaign.startDate,
+    budget: campaign.budget,
+    currency: getCampaignCurrency(campaign),
+    amount,
+    requiredRole: getRequiredRole(amount, thresholds),
+    status: 'pending',
+    requestedBy: toAuditUser(user),
+    requestedAt: new Date().toISOString(),
+    decidedBy: null,
+    decidedAt: null,
+    comment: null,
+  });
+  return updateCampaignApproval(campaign.id, { approvalStatus: 'pending', approvalRequestId: request.id }, user);
+};
+
+/** Approves or rejects a pending request; rejections need a comment for the requester */
+export const decideApprovalRequest = async ({
+  request,
+  decision,
+  comment,
+  approver,
+  user,
+}: {
+  request: ApprovalRequest;
+  decision: 'approved' | 'rejected';
+  comment: string;
+  approver: Approver | undefined;
+  user: AuthUser | null;
+}) => {
+  if (request.status !== 'pending') throw new Error('This request has already been decided.');
+  if (isOwnRequest(request, approver, user)) throw new Error('You cannot decide a request you submitted.');
+  if (!canDecide(approver, request)) {
+    throw new Error(`Requests of this amount need ${APPROVER_ROLE_CONFIG[request.requiredRole].label} or above.`);
+  }
+  if (decision === 'rejected' && !comment.trim()) throw new Error('Explain why the request is rejected.');
+
+  await approvalRequestRepository.update(request.id!, {
+    status: decision,
+    decidedBy: toAuditUser(user),
+    decidedAt: new Date().toISOString(),
+    comment: comment.trim() || null,
+  });
+  await updateCampaignApproval(
+    request.campaignId,
+    decision === 'approved' ? { approvalStatus: 'approved', approvedBudget: request.budget } : { approvalStatus: 'rejected' },
+    user
+  );
+};
+
+/**
+ * Extra fields for a campaign update that raises the budget above the approved one: the approval is
+ * withdrawn and a scheduled campaign goes back to planned until the new budget is approved.
+ */
+export const getApprovalWithdrawal = (campaign: Campaign): Partial<Campaign> => {
+  if (campaign.approvalStatus !== 'approved' || campaign.budget <= (campaign.approvedBudget ?? 0)) return {};
+  const withdrawn: Partial<Campaign> = { approvalStatus: null };
+  return migrateStatus(campaign.status) === 'SCHEDULED'
+    ? { ...withdrawn, ...applyStatusTransition('SCHEDULED', 'PLANNED', { ...campaign, ...withdrawn }) }
+    : withdrawn;
+};
@@ -0,0 +1,292 @@
+import { BaseDocument, Repository, WriteOperation, commitInChunks } from '../repositories';
+import { getAppliedMigrations } from '../migrations';
+import { AuthUser } from '../types/auth';
+import { BackupArchive, BackupDiffStatus, BackupDocument } from '../types/backup';
+import { Campaign } from '../types/campaign';
+import { isSameFieldValue, recordCampaignAudit, toAuditUser } from './campaignAudit';
+import { TRASH_KIND_CONFIG, TrashKind, getDocumentLabel, isTrashed, withTrashRepository } from './trash';
+
+export const BACKUP_FORMAT = 'arredissimaim-backup';
+export const BACKUP_VERSION = 1;
+
+// Master data first, so restored campaigns never point at brands or channels that are not back yet
+export const BACKUP_KINDS: TrashKind[] = ['region', 'manager', 'broadcaster', 'channel', 'brand', 'campaign'];
+
+// Every restore rewrites updatedAt, so it is no difference worth showing
+const IGNORED_DIFF_FIELDS = ['id', 'updatedAt'];
+
+const REQUIRED_FIELDS: { [key in TrashKind]: string[] } = {
+  campaign: ['channel', 'brand', 'region', 'startDate', 'endDate', 'budget'],
+  brand: ['name'],
+  channel: ['name'],
+  manager: ['name'],
+  broadcaster: ['name'],
+  region: ['name'],
+};
+
+export interface BackupDiffItem {
+  kind: TrashKind;
+  id: string;
+  label: string;
+  status: BackupDiffStatus;
+  changedFields: string[];
+  backup: BackupDocument | null;
+  current: BaseDocument | null;
+}
+
+export interface ValidatedBackup {
+  archive: BackupArchive;
+  /** Non-blocking issues, shown before the restore */
+  warnings: string[];
+}
+
+export class BackupValidationError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid backup: ${problems.slice(0, 3).join('; ')}${problems.length > 3 ? ` (+${problems.length - 3} more)` : ''}`);
+    this.name = 'BackupValidationError';
+    this.problems = problems;
+  }
+}
+
+export const isBackupValidationError = (err: unknown): err is BackupValidationError =>
+  err instanceof BackupValidationError;
+
+export const getBackupCollectionName = (kind: TrashKind): string =>
+  withTrashRepository(kind, repository => repository.collectionName);
+
+// Ordering by document id keeps documents without createdAt, which Firestore leaves out of ordered queries
+const listAll = (kind: TrashKind): Promise<BaseDocument[]> =>
+  withTrashRepository(kind, repository => repository.list({ orderBy: { field: '__name__' } }) as Promise<BaseDocument[]>);
+
+/** Snapshots every collection, trash included, into one archive */
+export const createBackup = async (user: AuthUser | null): Promise<BackupArchive> => {
+  const [migrations, ...documents] = await Promise.all([
+    getAppliedMigrations(),
+    ...BACKUP_KINDS.map(listAll),
+  ]);
+
+  const collections: BackupArchive['collections'] = {};
+  BACKUP_KINDS.forEach((kind, index) => {
+    collections[getBackupCollectionName(kind)] = (documents[index] as BaseDocument[]).map(document => document as BackupDocument);
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy: toAuditUser(user),
+    migrations: migrations.map(record => record.migrationId).sort(),
+    collections,
+  };
+};
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks that the file is a backup this version can restore.
+ * Throws BackupValidationError listing every problem; collections missing from the archive are only warned about.
+ */
+export const parseBackup = async (text: string): Promise<ValidatedBackup> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError(['the file is not valid JSON']);
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError(['the file is not an ArredissimA IM backup']);
+  }
+  if (typeof parsed.version !== 'number' || parsed.version < 1) {
+    throw new BackupValidationError(['the backup has no valid version']);
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new BackupValidationError([
+      `the backup was created by a newer version of the app (format ${parsed.version}, this app reads up to ${BACKUP_VERSION})`,
+    ]);
+  }
+  if (!isObject(parsed.collections) || typeof parsed.createdAt !== 'string') {
+    throw new BackupValidationError(['the backup has no collections']);
+  }
+
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const collections = parsed.collections;
+
+  BACKUP_KINDS.forEach(kind => {
+    const collectionName = getBackupCollectionName(kind);
+    const documents = collections[collectionName];
+    if (documents === undefined) {
+      warnings.push(`The backup has no ${collectionName}: they will be left as they are.`);
+      return;
+    }
+    if (!Array.isArray(documents)) {
+      problems.push(`${collectionName} is not a list`);
+      return;
+    }
+
+    const seen = new Set<string>();
+    documents.forEach((document, index) => {
+      const position = `${collectionName}[${index}]`;
+      if (!isObject(document) || typeof document.id !== 'string' || document.id === '') {
+        problems.push(`${position} has no id`);
+        return;
+      }
+      if (seen.has(document.id)) {
+        problems.push(`${collectionName}/${document.id} appears twice`);
+      }
+      seen.add(document.id);
+      const missing = REQUIRED_FIELDS[kind].filter(field => document[field] === undefined || document[field] === null);
+      if (missing.length > 0) {
+        problems.push(`${collectionName}/${document.id} is missing ${missing.join(', ')}`);
+      }
+      if (kind === 'campaign' && typeof document.budget !== 'number') {
+        problems.push(`${collectionName}/${document.id} has a non-numeric budget`);
+      }
+    });
+  });
+
+  const knownCollections = BACKUP_KINDS.map(getBackupCollectionName);
+  Object.keys(collections)
+    .filter(collectionName => !knownCollections.includes(collectionName))
+    .forEach(collectionName => warnings.push(`Unknown collection "${collectionName}" will be ignored.`));
+
+  if (problems.length > 0) {
+    throw new BackupValidationError(problems);
+  }
+
+  const archive = parsed as unknown as BackupArchive;
+  const applied = (await getAppliedMigrations()).map(record => record.migrationId);
+  const archived = new Set(Array.isArray(archive.migrations) ? archive.migrations : []);
+  const newer = applied.filter(migrationId => !archived.has(migrationId)).sort();
+  if (newer.length > 0) {
+    // Applied migrations never run again, so older documents keep their old shape
+    warnings.push(`The backup predates migrations ${newer.join(', ')}: restored documents will not be migrated again.`);
+  }
+
+  return { archive, warnings };
+};
+
+const getChangedFields = (backup: BackupDocument, current: BaseDocument): string[] => {
+  const fields = new Set([...Object.keys(backup), ...Object.keys(current)]);
+  return [...fields]
+    .filter(field => !IGNORED_DIFF_FIELDS.includes(field))
+    .filter(field => !isSameFieldValue(backup[field], (current as { [key: string]: unknown })[field]))
+    .sort();
+};
+
+/** Compares the archive with the current data, collection by collection */
+export const diffBackup = async (archive: BackupArchive): Promise<BackupDiffItem[]> => {
+  const items: BackupDiffItem[] = [];
+
+  for (const kind of BACKUP_KINDS) {
+    const backupDocuments = archive.collections[getBackupCollectionName(kind)];
+    if (!backupDocuments) continue;
+
+    const currentDocuments = await listAll(kind);
+    const currentById = new Map(currentDocuments.map(document => [document.id!, document]));
+    const backupIds = new Set(backupDocuments.map(document => document.id));
+
+    backupDocuments.forEach(backup => {
+      const current = currentById.get(backup.id) || null;
+      const changedFields = current ? getChangedFields(backup, current) : [];
+      items.push({
+        kind,
+        id: backup.id,
+        label: getDocumentLabel(kind, backup),
+        status: !current ? 'missing' : changedFields.length > 0 ? 'changed' : 'unchanged',
+        changedFields,
+        backup,
+        current,
+      });
+    });
+
+    // Already-trashed documents created after the backup need no action
+    currentDocuments
+      .filter(current => !backupIds.has(current.id!) && !isTrashed(current))
+      .forEach(current => {
+        items.push({
+          kind,
+          id: current.id!,
+          label: getDocumentLabel(kind, current),
+          status: 'extra',
+          changedFields: [],
+          backup: null,
+          current,
+        });
+      });
+  }
+
+  return items;
+};
+
+interface RestoreBackupParams {
+  /** Missing and changed items are written back from the backup; extra items are moved to the trash */
+  items: BackupDiffItem[];
+  user: AuthUser | null;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const toRestoreOperation = <T extends BaseDocument>(item: BackupDiffItem, user: AuthUser | null): WriteOperation<T> => {
+  if (item.status === 'extra') {
+    return { type: 'update', id: item.id, data: { deletedAt: new Date().toISOString(), deletedBy: user?.email ?? null } as Partial<T> };
+  }
+  const data: { [field: string]: unknown } = { ...item.backup };
+  delete data.id;
+  return { type: 'set', id: item.id, data: data as Omit<T, 'id'> };
+};
+
+const commitRestore = <T extends BaseDocument>(
+  repository: Repository<T>,
+  items: BackupDiffItem[],
+  user: AuthUser | null,
+  onProgress: (committed: number) => void
+) => commitInChunks(repository, items.map(item => toRestoreOperation<T>(item, user)), onProgress);
+
+const auditRestoredCampaigns = (items: BackupDiffItem[], user: AuthUser | null) =>
+  Promise.all(
+    items.map(item =>
+      recordCampaignAudit({
+        campaignId: item.id,
+        action: item.status === 'extra' ? 'delete' : 'restore',
+        before: item.current as Partial<Campaign> | null,
+        after: item.status === 'extra' ? null : (item.backup as Partial<Campaign>),
+        user: toAuditUser(user),
+      })
+    )
+  );
+
+/**
+ * Restores the given diff items. Collections are written in BACKUP_KINDS order, each in chunks:
+ * a failure leaves earlier chunks applied, and only those campaigns are audited.
+ */
+export const restoreBackup = async ({ items, user, onProgress }: RestoreBackupParams): Promise<number> => {
+  const actionable = items.filter(item => item.status !== 'unchanged');
+  let done = 0;
+
+  for (const kind of BACKUP_KINDS) {
+    const kindItems = actionable.filter(item => item.kind === kind);
+    if (kindItems.length === 0) continue;
+
+    let committed = 0;
+    try {
+      await withTrashRepository(kind, repository =>
+        commitRestore(repository, kindItems, user, (count) => {
+          committed = count;
+          onProgress?.(done + count, actionable.length);
+        })
+      );
+    } finally {
+      if (kind === 'campaign' && committed > 0) {
+        await auditRestoredCampaigns(kindItems.slice(0, committed), user);
+      }
+    }
+    done += kindItems.length;
+    console.log(`✔️ Restored ${kindItems.length} ${TRASH_KIND_CONFIG[kind].label.toLowerCase()} from backup`);
+  }
+
+  return done;
+};
@@ -1,48 +1,76 @@
+import { CURRENCY_CONFIG, CurrencyCode } from '../types/currency';
+import { getReportingCurrency } from './currency';
+
 /**
- * Smart budget formatting utility that adapts to value magnitude
+ * Smart budget formatting utility that adapts to value magnitude.
+ * Amounts are in the reporting currency unless a campaign's own currency is passed.
  */
 
-export const formatBudget = (value: number): string => {
+export const getCurrencySymbol = (currency: CurrencyCode = getReportingCurrency()): string =>
+  CURRENCY_CONFIG[currency].symbol;
+
+// Converted amounts are rarely whole: never show more than cents
+const formatNumber = (value: number, currency: CurrencyCode, fractionDigits?: number): string =>
+  value.toLocaleString(CURRENCY_CONFIG[currency].locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits ?? 2,
+  });
+
+/** The exact amount, e.g. for campaign rows and invoices */
+export const formatAmount = (
+  value: number,
+  currency: CurrencyCode = getReportingCurrency(),
+  fractionDigits?: number
+): string => getCurrencySymbol(currency) + formatNumber(value, currency, fractionDigits);
+
+/** Unit costs such as CPL, always with cents */
+export const formatUnitCost = (value: number, currency: CurrencyCode = getReportingCurrency()): string =>
+  formatAmount(value, currency, 2);
+
+export const formatBudget = (value: number, currency: CurrencyCode = getReportingCurrency()): string => {
+  const symbol = getCurrencySymbol(currency);
   if (value >= 1_000_000) {
-    return '€' + (value / 1_000_000).toFixed(2) + 'M';
+    return symbol + (value / 1_000_000).toFixed(2) + 'M';
   }
   if (value >= 100_000) {
     // ora mantiene una cifra decimale anziché arrotondare
-    return '€' + (value / 1_000).toFixed(1) + 'k';
+    return symbol + (value / 1_000).toFixed(1) + 'k';
   }
-  return '€' + value.toLocaleString('it-IT');
+  return symbol + formatNumber(value, currency);
 };
 
-export const formatBudgetCompact = (value: number): string => {
+export const formatBudgetCompact = (value: number, currency: CurrencyCode = getReportingCurrency()): string => {
+  const symbol = getCurrencySymbol(currency);
   if (value >= 1_000_000) {
-    return '€' + (value / 1_000_000).toFixed(1) + 'M';
+    return symbol + (value / 1_000_000).toFixed(1) + 'M';
   }
   if (value >= 1_000) {
-    return '€' + Math.round(value / 1_000) + 'k';
+    return symbol + Math.round(value / 1_000) + 'k';
   }
-  return '€' + value.toLocaleString('it-IT');
+  return symbol + formatNumber(value, currency);
 };
 
-export const formatBudgetDetailed = (value: number): string => {
+export const formatBudgetDetailed = (value: number, currency: CurrencyCode = getReportingCurrency()): string => {
+  const symbol = getCurrencySymbol(currency);
   if (value >= 1_000_000) {
     return (
-      '€' +
+      symbol +
       (value / 1_000_000).toFixed(2) +
       'M (' +
-      value.toLocaleString('it-IT') +
+      formatNumber(value, currency) +
       ')'
     );
   }
   if (value >= 100_000) {
     return (
-      '€' +
+      symbol +
       Math.round(value / 1_000) +
       'k (' +
-      value.toLocaleString('it-IT') +
+      formatNumber(value, currency) +
       ')'
     );
   }
-  return '€' + value.toLocaleString('it-IT');
+  return symbol + formatNumber(value, currency);
 };
 
 // Helper to determine the best format based on context
@@ -0,0 +1,241 @@
+import { BudgetEnvelope, BudgetPlan, EnvelopePeriod, EnvelopeUsage } from '../types/budgetPlan';
+import { Campaign, migrateStatus } from '../types/campaign';
+import { FISCAL_YEAR_START_MONTH, Period, getFiscalYearPeriod } from './fiscalYear';
+
+// Position of a calendar month (1-12) in the fiscal year, 0 for its first month
+const getFiscalMonthIndex = (month: number): number => (month - FISCAL_YEAR_START_MONTH + 12) % 12;
+
+const MONTH_PERIODS: { period: EnvelopePeriod; label: string }[] = [
+  { period: '01', label: 'January' },
+  { period: '02', label: 'February' },
+  { period: '03', label: 'March' },
+  { period: '04', label: 'April' },
+  { period: '05', label: 'May' },
+  { period: '06', label: 'June' },
+  { period: '07', label: 'July' },
+  { period: '08', label: 'August' },
+  { period: '09', label: 'September' },
+  { period: '10', label: 'October' },
+  { period: '11', label: 'November' },
+  { period: '12', label: 'December' },
+];
+
+// Months in the order the fiscal year runs through them
+export const ENVELOPE_PERIODS: { period: EnvelopePeriod; label: string }[] = [
+  { period: 'year', label: 'Full year' },
+  { period: 'Q1', label: 'Q1' },
+  { period: 'Q2', label: 'Q2' },
+  { period: 'Q3', label: 'Q3' },
+  { period: 'Q4', label: 'Q4' },
+  ...[...MONTH_PERIODS].sort((a, b) => getFiscalMonthIndex(Number(a.period)) - getFiscalMonthIndex(Number(b.period))),
+];
+
+export const getEnvelopePeriodLabel = (period: EnvelopePeriod): string =>
+  ENVELOPE_PERIODS.find(option => option.period === period)?.label ?? period;
+
+/** Envelopes are identified by what they cover: a plan never has two for the same combination and period */
+export const getEnvelopeKey = (envelope: Pick<BudgetEnvelope, 'brand' | 'channel' | 'region' | 'period'>): string =>
+  [envelope.brand, envelope.channel, envelope.region, envelope.period].join('|');
+
+const getCombinationKey = (envelope: Pick<BudgetEnvelope, 'brand' | 'channel' | 'region'>): string =>
+  [envelope.brand, envelope.channel, envelope.region].join('|');
+
+type Granularity = 'year' | 'quarter' | 'month';
+
+const getGranularity = (period: EnvelopePeriod): Granularity => {
+  if (period === 'year') return 'year';
+  return period.startsWith('Q') ? 'quarter' : 'month';
+};
+
+// Calendar month (1-12) that is the given month (0-11) of the fiscal year
+const getCalendarMonth = (fiscalMonthIndex: number): number => ((FISCAL_YEAR_START_MONTH - 1 + fiscalMonthIndex) % 12) + 1;
+
+/** Calendar months (1-12) covered by an envelope period, in fiscal-year order */
+const getPeriodMonths = (period: EnvelopePeriod): number[] => {
+  switch (getGranularity(period)) {
+    case 'year': return Array.from({ length: 12 }, (_, index) => getCalendarMonth(index));
+    case 'quarter': {
+      const first = (Number(period.slice(1)) - 1) * 3;
+      return [first, first + 1, first + 2].map(getCalendarMonth);
+    }
+    default: return [Number(period)];
+  }
+};
+
+// Months before the fiscal year's first month fall in the following calendar year
+const getCalendarYear = (fiscalYear: number, month: number): number =>
+  month >= FISCAL_YEAR_START_MONTH ? fiscalYear : fiscalYear + 1;
+
+/** First and last day (yyyy-MM-dd) of an envelope period of the given fiscal year */
+export const getEnvelopePeriodRange = (year: number, period: EnvelopePeriod): Period => {
+  if (period === 'year') return getFiscalYearPeriod(year);
+  const months = getPeriodMonths(period);
+  const first = months[0];
+  const last = months[months.length - 1];
+  const lastYear = getCalendarYear(year, last);
+  const lastDay = new Date(lastYear, last, 0).getDate();
+  return {
+    startDate: `${getCalendarYear(year, first)}-${String(first).padStart(2, '0')}-01`,
+    endDate: `${lastYear}-${String(last).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`,
+  };
+};
+
+const isInFiscalYear = (year: number, date: string): boolean => {
+  const { startDate, endDate } = getFiscalYearPeriod(year);
+  return !!date && date >= startDate && date <= endDate;
+};
+
+type AllocatedCampaign = Pick<Campaign, 'brand' | 'channel' | 'region' | 'startDate' | 'budget' | 'status'>;
+
+/**
+ * The envelope a campaign draws from: same brand, channel and region, in the period containing its start date.
+ * A campaign spanning two periods is charged entirely to the first one.
+ */
+export const findCampaignEnvelope = (plan: BudgetPlan, campaign: AllocatedCampaign): BudgetEnvelope | undefined => {
+  if (!isInFiscalYear(plan.year, campaign.startDate)) return undefined;
+  const month = Number(campaign.startDate.slice(5, 7));
+  return plan.envelopes.find(envelope =>
+    envelope.brand === campaign.brand &&
+    envelope.channel === campaign.channel &&
+    envelope.region === campaign.region &&
+    getPeriodMonths(envelope.period).includes(month)
+  );
+};
+
+// Planned campaigns may still change; every other status except cancelled is a commitment
+const getAllocationBucket = (campaign: AllocatedCampaign): 'planned' | 'committed' | null => {
+  const status = migrateStatus(campaign.status);
+  if (status === 'CANCELLED') return null;
+  return status === 'PLANNED' ? 'planned' : 'committed';
+};
+
+export interface BudgetPlanUsage {
+  envelopes: EnvelopeUsage[];
+  /** Campaigns of the plan's fiscal year with no matching envelope */
+  unbudgeted: Campaign[];
+}
+
+/**
+ * Planned and committed budget of each envelope, from the campaigns starting in the plan's fiscal year.
+ * Campaign budgets must already be in DEFAULT_CURRENCY (see convertCampaigns).
+ */
+export const computeBudgetPlanUsage = (plan: BudgetPlan, campaigns: Campaign[]): BudgetPlanUsage => {
+  const usage = new Map<string, EnvelopeUsage>(
+    plan.envelopes.map(envelope => [
+      getEnvelopeKey(envelope),
+      { envelope, planned: 0, committed: 0, remaining: envelope.amount, campaignCount: 0 },
+    ])
+  );
+  const unbudgeted: Campaign[] = [];
+
+  campaigns.forEach(campaign => {
+    const bucket = getAllocationBucket(campaign);
+    if (!bucket || !isInFiscalYear(plan.year, campaign.startDate)) return;
+    const envelope = findCampaignEnvelope(plan, campaign);
+    if (!envelope) {
+      unbudgeted.push(campaign);
+      return;
+    }
+    const entry = usage.get(getEnvelopeKey(envelope))!;
+    entry[bucket] += campaign.budget;
+    entry.remaining -= campaign.budget;
+    entry.campaignCount += 1;
+  });
+
+  return { envelopes: [...usage.values()], unbudgeted };
+};
+
+export interface BudgetPlanTotals {
+  allocated: number;
+  planned: number;
+  committed: number;
+  remaining: number;
+}
+
+export const sumEnvelopeUsage = (envelopes: EnvelopeUsage[]): BudgetPlanTotals =>
+  envelopes.reduce(
+    (totals, usage) => ({
+      allocated: totals.allocated + usage.envelope.amount,
+      planned: totals.planned + usage.planned,
+      committed: totals.committed + usage.committed,
+      remaining: totals.remaining + usage.remaining,
+    }),
+    { allocated: 0, planned: 0, committed: 0, remaining: 0 }
+  );
+
+/** Envelopes whose period overlaps a date range, e.g. the one a screen is showing */
+export const isEnvelopeInRange = (year: number, envelope: BudgetEnvelope, startDate: string, endDate: string): boolean => {
+  const range = getEnvelopePeriodRange(year, envelope.period);
+  return range.startDate <= endDate && range.endDate >= startDate;
+};
+
+/** Returns the problems that would make the plan ambiguous; empty when it can be saved */
+export const validateEnvelopes = (envelopes: BudgetEnvelope[]): string[] => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const granularities = new Map<string, Granularity>();
+
+  envelopes.forEach((envelope, index) => {
+    const row = `Row ${index + 1}`;
+    if (!envelope.brand || !envelope.channel || !envelope.region) {
+      errors.push(`${row}: brand, channel and region are required.`);
+      return;
+    }
+    if (!Number.isFinite(envelope.amount) || envelope.amount < 0) {
+      errors.push(`${row}: the amount must be zero or more.`);
+    }
+    const key = getEnvelopeKey(envelope);
+    if (seen.has(key)) {
+      errors.push(`${row}: ${envelope.brand} · ${envelope.channel} · ${envelope.region} already has a ${getEnvelopePeriodLabel(envelope.period)} envelope.`);
+    }
+    seen.add(key);
+
+    // Mixing e.g. a yearly and a quarterly envelope would charge the same campaign twice
+    const combination = getCombinationKey(envelope);
+    const granularity = getGranularity(envelope.period);
+    const existing = granularities.get(combination);
+    if (existing && existing !== granularity) {
+      errors.push(`${row}: ${envelope.brand} · ${envelope.channel} · ${envelope.region} mixes ${existing} and ${granularity} envelopes.`);
+    }
+    if (!existing) granularities.set(combination, granularity);
+  });
+
+  return errors;
+};
+
+export interface AllocationCheck {
+  envelope: BudgetEnvelope;
+  /** Envelope usage with the campaign saved as it is in the form */
+  usage: EnvelopeUsage;
+}
+
+/**
+ * Checks whether saving a campaign would take its envelope over budget. Returns null when the campaign
+ * has no envelope or the envelope still has room.
+ */
+export const checkCampaignAllocation = (
+  plan: BudgetPlan,
+  campaigns: Campaign[],
+  campaign: AllocatedCampaign,
+  editingId?: string
+): AllocationCheck | null => {
+  if (!getAllocationBucket(campaign)) return null;
+  const envelope = findCampaignEnvelope(plan, campaign);
+  if (!envelope) return null;
+
+  const others = campaigns.filter(other => !editingId || other.id !== editingId);
+  const { envelopes } = computeBudgetPlanUsage({ ...plan, envelopes: [envelope] }, [...others, campaign as Campaign]);
+  const usage = envelopes[0];
+  return usage.remaining < 0 ? { envelope, usage } : null;
+};
+
+/** Replaces a renamed brand, channel or region in every envelope; returns null when the plan doesn't use it */
+export const renameInEnvelopes = (
+  plan: BudgetPlan,
+  field: 'brand' | 'channel' | 'region',
+  from: string,
+  to: string
+): BudgetEnvelope[] | null => {
+  if (!plan.envelopes.some(envelope => envelope[field] === from)) return null;
+  return plan.envelopes.map(envelope => (envelope[field] === from ? { ...envelope, [field]: to } : envelope));
+};
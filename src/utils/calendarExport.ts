@@ -0,0 +1,118 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { Campaign, getStatusConfig, migrateStatus } from '../types/campaign';
+import { formatAmount } from './budgetFormatter';
+import { getCampaignCurrency } from './currency';
+
+export type CalendarScope = 'all' | 'brand' | 'region' | 'channel';
+
+export const CALENDAR_SCOPES: { scope: CalendarScope; label: string }[] = [
+  { scope: 'all', label: 'Whole plan' },
+  { scope: 'brand', label: 'One brand' },
+  { scope: 'region', label: 'One region' },
+  { scope: 'channel', label: 'One channel' },
+];
+
+interface CalendarExportParams {
+  campaigns: Campaign[];
+  /** Shown by calendar apps as the name of the subscribed or imported calendar */
+  calendarName: string;
+  /** Active filters, listed in the calendar description */
+  filters: string[];
+}
+
+// Event ids stay the same across exports, so importing a newer file updates events instead of duplicating them
+const UID_DOMAIN = 'arredissimaim';
+
+const PRODUCT_ID = '-//ArredissimA//Campaign Manager//IT';
+
+export const getCalendarScopeValue = (campaign: Campaign, scope: Exclude<CalendarScope, 'all'>): string => campaign[scope];
+
+// RFC 5545 text values: backslashes, separators and newlines are escaped
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 bytes continue on the next line after a space; multi-byte characters are never split
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toUtcStamp = (iso: string): string => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toDateValue = (date: Date): string => format(date, 'yyyyMMdd');
+
+const getSummary = (campaign: Campaign): string =>
+  `${campaign.brand} · ${campaign.channel}${campaign.publisher ? ` (${campaign.publisher})` : ''}`;
+
+const getDescription = (campaign: Campaign): string =>
+  [
+    `Channel: ${campaign.channel}`,
+    campaign.publisher && `Publisher: ${campaign.publisher}`,
+    `Budget: ${formatAmount(campaign.budget, getCampaignCurrency(campaign))}`,
+    `Region: ${campaign.region}`,
+    `Manager: ${campaign.manager}`,
+    `Status: ${getStatusConfig(migrateStatus(campaign.status)).label}`,
+    campaign.notes && `Notes: ${campaign.notes}`,
+  ].filter(Boolean).join('\n');
+
+// Planned campaigns may still move: calendar apps show them as tentative
+const getEventStatus = (campaign: Campaign): string => {
+  switch (migrateStatus(campaign.status)) {
+    case 'CANCELLED': return 'CANCELLED';
+    case 'PLANNED': return 'TENTATIVE';
+    default: return 'CONFIRMED';
+  }
+};
+
+const toEvent = (campaign: Campaign, stamp: string): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${campaign.id}@${UID_DOMAIN}`,
+  `DTSTAMP:${stamp}`,
+  ...(campaign.updatedAt ? [`LAST-MODIFIED:${toUtcStamp(new Date(campaign.updatedAt).toISOString())}`] : []),
+  // All-day events: the end date is exclusive, so the campaign's last day is included
+  `DTSTART;VALUE=DATE:${toDateValue(parseISO(campaign.startDate))}`,
+  `DTEND;VALUE=DATE:${toDateValue(addDays(parseISO(campaign.endDate), 1))}`,
+  `SUMMARY:${escapeText(getSummary(campaign))}`,
+  `DESCRIPTION:${escapeText(getDescription(campaign))}`,
+  `CATEGORIES:${escapeText(campaign.channel)}`,
+  `STATUS:${getEventStatus(campaign)}`,
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+];
+
+/** Builds an iCalendar (.ics) file with one all-day event per campaign */
+export const exportCampaignsCalendar = ({ campaigns, calendarName, filters }: CalendarExportParams): Blob => {
+  const stamp = toUtcStamp(new Date().toISOString());
+  const description = filters.length > 0 ? `Filters: ${filters.join(', ')}` : 'All campaigns';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-CALDESC:${escapeText(description)}`,
+    ...campaigns
+      .filter(campaign => campaign.id && campaign.startDate && campaign.endDate)
+      .flatMap(campaign => toEvent(campaign, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return new Blob([lines.map(foldLine).join('\r\n') + '\r\n'], { type: 'text/calendar;charset=utf-8' });
+};
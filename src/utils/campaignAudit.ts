@@ -0,0 +1,145 @@
+import { campaignAuditRepository } from '../repositories';
+import { Campaign } from '../types/campaign';
+import { AuthUser } from '../types/auth';
+import { AuditAction, AuditUser, CampaignAuditEntry, CampaignSnapshot, FieldChange } from '../types/audit';
+
+// Trash markers are not part of a version: restoring one never moves a campaign in or out of the trash.
+// Neither is the import a campaign came from, which only matters to undo that import.
+export const META_FIELDS = ['id', 'createdAt', 'updatedAt', 'deletedAt', 'deletedBy', 'importId'];
+
+const FIELD_LABELS: { [key: string]: string } = {
+  channel: 'Channel',
+  brand: 'Brand',
+  region: 'Region',
+  periodType: 'Period type',
+  startDate: 'Start date',
+  endDate: 'End date',
+  budget: 'Budget',
+  roi: 'ROI',
+  costPerLead: 'Cost per lead',
+  leads: 'Leads',
+  manager: 'Manager',
+  status: 'Status',
+  statusChangedAt: 'Status changed at',
+  notes: 'Notes',
+  publisher: 'Publisher',
+  extraSocialBudget: 'Extra social budget',
+  extraSocialNotes: 'Extra social notes',
+  expectedGrps: 'Expected GRPs',
+  achievedGrps: 'Achieved GRPs',
+  spotsPurchased: 'Spots purchased',
+  impressions: 'Impressions',
+  expectedViewers: 'Expected viewers',
+  expectedViews: 'Expected views',
+  actualSpend: 'Actual spend',
+  actualsSyncedAt: 'Actuals synced at',
+  actualsPeriods: 'Actuals periods',
+  invoicedSpend: 'Invoiced spend',
+  pacingCurve: 'Pacing curve',
+  currency: 'Currency',
+  costBreakdown: 'Cost breakdown',
+  approvalStatus: 'Approval',
+  approvedBudget: 'Approved budget',
+  approvalRequestId: 'Approval request',
+};
+
+export const toAuditUser = (user: AuthUser | null): AuditUser => ({
+  uid: user?.uid ?? null,
+  email: user?.email ?? null,
+});
+
+// Author of changes made by automations (e.g. the daily status update)
+export const SYSTEM_AUDIT_USER: AuditUser = { uid: 'system', email: null };
+
+export const getAuditUserLabel = (user: AuditUser): string => {
+  if (user.uid === SYSTEM_AUDIT_USER.uid) return 'System (automatic)';
+  return user.email || 'Unknown user';
+};
+
+export const getAuditFieldLabel = (field: string): string => FIELD_LABELS[field] || field;
+
+// Firestore rejects undefined, so missing values are stored as null
+const normalizeValue = (value: unknown): unknown => (value === undefined ? null : value);
+
+// Empty strings and missing values both mean "not set" (the form uses '' for empty text fields)
+export const isSameFieldValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalizeValue(a === '' ? null : a)) === JSON.stringify(normalizeValue(b === '' ? null : b));
+
+export const toCampaignSnapshot = (campaign: Partial<Campaign>): CampaignSnapshot => {
+  const snapshot: { [key: string]: unknown } = {};
+  Object.entries(campaign).forEach(([key, value]) => {
+    if (!META_FIELDS.includes(key) && value !== undefined) {
+      snapshot[key] = value;
+    }
+  });
+  return snapshot as CampaignSnapshot;
+};
+
+/**
+ * Field-level diff between two versions of a campaign (either side may be missing for create/delete)
+ */
+export const diffCampaigns = (before: Partial<Campaign> | null, after: Partial<Campaign> | null): FieldChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    if (META_FIELDS.includes(field)) return;
+    const previous = before?.[field as keyof Campaign];
+    const next = after?.[field as keyof Campaign];
+    if (!isSameFieldValue(previous, next)) {
+      changes.push({ field, before: normalizeValue(previous), after: normalizeValue(next) });
+    }
+  });
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString('it-IT');
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return Object.entries(value).map(([key, item]) => `${key}: ${formatAuditValue(item)}`).join(', ');
+  return String(value);
+};
+
+interface RecordCampaignAuditParams {
+  campaignId: string;
+  action: AuditAction;
+  before: Partial<Campaign> | null;
+  after: Partial<Campaign> | null;
+  user: AuditUser;
+  restoredFrom?: string;
+}
+
+/**
+ * Writes an audit entry for a campaign change. Updates that change nothing are skipped.
+ * Failures are logged but never block the change itself.
+ */
+export const recordCampaignAudit = async ({
+  campaignId,
+  action,
+  before,
+  after,
+  user,
+  restoredFrom,
+}: RecordCampaignAuditParams): Promise<CampaignAuditEntry | null> => {
+  const changes = diffCampaigns(before, after);
+  if ((action === 'update' || action === 'restore') && changes.length === 0) {
+    return null;
+  }
+
+  const entry: Omit<CampaignAuditEntry, 'id'> = {
+    campaignId,
+    action,
+    changes,
+    snapshot: toCampaignSnapshot((action === 'delete' ? before : after) || {}),
+    user,
+    timestamp: new Date().toISOString(),
+    ...(restoredFrom ? { restoredFrom } : {}),
+  };
+
+  try {
+    return await campaignAuditRepository.add(entry);
+  } catch (err) {
+    console.error(`Error writing audit entry for campaign ${campaignId}:`, err);
+    return null;
+  }
+};
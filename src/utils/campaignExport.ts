@@ -0,0 +1,243 @@
+import type { Workbook, Worksheet } from 'exceljs';
+import { Campaign, STATUS_CONFIG, migrateStatus } from '../types/campaign';
+import { getKpiConfig } from './kpiHelpers';
+import { getActualSpend } from './spendBasis';
+import { CostBasis, CostLines, calculateCostLines } from './costBreakdown';
+import { CURRENCY_CONFIG, CurrencyCode } from '../types/currency';
+
+export interface ExportChannelGroup {
+  channelName: string;
+  campaigns: Campaign[];
+  /** The channel's configured KPIs, used as extra columns on its sheet */
+  visibleKpis: string[];
+}
+
+export interface CampaignExportParams {
+  channelGroups: ExportChannelGroup[];
+  totalBudget: number;
+  totalLeads: number;
+  avgCPL: number;
+  /** Every amount, campaign rows included, is in this currency */
+  currency: CurrencyCode;
+  /** Whether planned amounts include VAT; actual spend never does, and the cost breakdown columns are always itemized */
+  costBasis: CostBasis;
+  /** Human-readable active filters, listed on the summary sheet */
+  filters: string[];
+}
+
+type CellFormat = 'currency' | 'number' | 'decimal' | 'percentage' | 'date' | 'text';
+
+interface ExportColumn {
+  header: string;
+  format: CellFormat;
+  width: number;
+  value: (campaign: Campaign) => string | number | Date | null;
+  /** Adds a SUM formula in the totals row */
+  total?: boolean;
+}
+
+type NumberFormats = { [key in CellFormat]?: string };
+
+const getNumberFormats = (currency: CurrencyCode): NumberFormats => ({
+  currency: `"${CURRENCY_CONFIG[currency].symbol.trim()}" #,##0.00`,
+  number: '#,##0',
+  decimal: '#,##0.0',
+  percentage: '0.0%',
+  date: 'dd/mm/yyyy',
+});
+
+const HEADER_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FFF3F4F6' } };
+
+// Campaign dates are calendar days: building them in UTC keeps Excel from shifting them by the time zone
+const toExcelDate = (date: string): Date | null => {
+  const [year, month, day] = date.split('-').map(Number);
+  return year && month && day ? new Date(Date.UTC(year, month - 1, day)) : null;
+};
+
+// ROI is stored as "1198%"; Excel percentages are fractions
+const parseRoi = (roi?: string): number | null => {
+  if (!roi) return null;
+  const value = parseFloat(roi.replace('%', '').replace(',', '.'));
+  return Number.isFinite(value) ? value / 100 : null;
+};
+
+// Itemized on sheets with at least one campaign that has a cost breakdown
+const COST_COLUMNS: { header: string; line: keyof CostLines }[] = [
+  { header: 'Gross media', line: 'grossMedia' },
+  { header: 'Discount', line: 'discount' },
+  { header: 'Net media', line: 'netMedia' },
+  { header: 'Commission', line: 'commission' },
+  { header: 'Production', line: 'production' },
+  { header: 'VAT', line: 'vat' },
+];
+
+// KPIs that exist per campaign; click-based KPIs are not tracked on campaigns yet
+const KPI_COLUMNS: { [kpi: string]: Omit<ExportColumn, 'header'> } = {
+  leads: { format: 'number', width: 10, value: c => c.leads ?? null, total: true },
+  cpl: {
+    format: 'currency',
+    width: 12,
+    value: c => c.costPerLead || (c.leads > 0 ? c.budget / c.leads : null),
+  },
+  roi: { format: 'percentage', width: 10, value: c => parseRoi(c.roi) },
+  expectedGrps: { format: 'decimal', width: 14, value: c => c.expectedGrps ?? null, total: true },
+  achievedGrps: { format: 'decimal', width: 14, value: c => c.achievedGrps ?? null, total: true },
+  spotsPurchased: { format: 'number', width: 10, value: c => c.spotsPurchased ?? null, total: true },
+  impressions: { format: 'number', width: 14, value: c => c.impressions ?? null, total: true },
+  expectedViewers: { format: 'number', width: 14, value: c => c.expectedViewers ?? null, total: true },
+  expectedViews: { format: 'number', width: 14, value: c => c.expectedViews ?? null, total: true },
+};
+
+const getChannelColumns = (group: ExportChannelGroup): ExportColumn[] => {
+  const hasPublisher = group.campaigns.some(campaign => campaign.publisher);
+  const hasActualSpend = group.campaigns.some(campaign => getActualSpend(campaign) !== null);
+  const hasCostBreakdown = group.campaigns.some(campaign => campaign.costBreakdown);
+  const columns: ExportColumn[] = [
+    { header: 'Brand', format: 'text', width: 22, value: c => c.brand },
+    { header: 'Region', format: 'text', width: 16, value: c => c.region },
+    { header: 'Manager', format: 'text', width: 10, value: c => c.manager },
+    ...(hasPublisher ? [{ header: 'Publisher', format: 'text' as const, width: 18, value: (c: Campaign) => c.publisher || null }] : []),
+    { header: 'Start', format: 'date', width: 12, value: c => toExcelDate(c.startDate) },
+    { header: 'End', format: 'date', width: 12, value: c => toExcelDate(c.endDate) },
+    { header: 'Status', format: 'text', width: 12, value: c => STATUS_CONFIG[migrateStatus(c.status)]?.label || c.status },
+    { header: 'Budget', format: 'currency', width: 14, value: c => c.budget, total: true },
+    ...(hasActualSpend ? [{ header: 'Actual spend', format: 'currency' as const, width: 14, value: (c: Campaign) => getActualSpend(c), total: true }] : []),
+    ...(hasCostBreakdown ? COST_COLUMNS.map(({ header, line }) => ({
+      header,
+      format: 'currency' as const,
+      width: 14,
+      value: (c: Campaign) => (c.costBreakdown ? calculateCostLines(c.costBreakdown)[line] : null),
+      total: true,
+    })) : []),
+  ];
+  group.visibleKpis
+    .filter(kpi => kpi !== 'budget' && KPI_COLUMNS[kpi])
+    .forEach(kpi => columns.push({ header: getKpiConfig(kpi).label.replace(/^(Total|Avg) /, ''), ...KPI_COLUMNS[kpi] }));
+  columns.push({ header: 'Notes', format: 'text', width: 40, value: c => c.notes || null });
+  return columns;
+};
+
+const styleHeaderRow = (worksheet: Worksheet, rowNumber: number) => {
+  const row = worksheet.getRow(rowNumber);
+  row.font = { bold: true };
+  row.eachCell(cell => {
+    cell.fill = HEADER_FILL;
+    cell.border = { bottom: { style: 'thin', color: { argb: 'FFD1D5DB' } } };
+  });
+};
+
+// Excel sheet names: at most 31 characters, no []:*?/\ and unique within the workbook
+const toSheetName = (name: string, used: Set<string>): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let sheetName = base;
+  for (let suffix = 2; used.has(sheetName.toLowerCase()); suffix++) {
+    sheetName = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+  }
+  used.add(sheetName.toLowerCase());
+  return sheetName;
+};
+
+const addSummarySheet = (workbook: Workbook, params: CampaignExportParams) => {
+  const worksheet = workbook.addWorksheet('Summary');
+  const numberFormats = getNumberFormats(params.currency);
+  worksheet.columns = [{ width: 24 }, { width: 12 }, { width: 16 }, { width: 12 }, { width: 12 }, { width: 12 }];
+
+  worksheet.addRow(['Campaigns export']).font = { bold: true, size: 14 };
+  worksheet.addRow(['Exported', new Date().toLocaleString()]);
+  worksheet.addRow(['Filters', params.filters.length > 0 ? params.filters.join(' • ') : 'None']);
+  worksheet.addRow(['Currency', `${params.currency} (converted at the rate in force on each campaign's start date)`]);
+  worksheet.addRow(['Amounts', params.costBasis === 'gross' ? 'Planned amounts gross (VAT included), actual spend as recorded' : 'Net (VAT excluded)']);
+  worksheet.addRow([]);
+
+  const totals: [string, number, CellFormat][] = [
+    ['Active Channels', params.channelGroups.length, 'number'],
+    ['Total Budget', params.totalBudget, 'currency'],
+    ['Total Leads', params.totalLeads, 'number'],
+    ['Avg CPL', params.avgCPL, 'currency'],
+  ];
+  totals.forEach(([label, value, format]) => {
+    const row = worksheet.addRow([label, value]);
+    row.getCell(1).font = { bold: true };
+    row.getCell(2).numFmt = numberFormats[format]!;
+  });
+  worksheet.addRow([]);
+
+  const header = worksheet.addRow(['Channel', 'Campaigns', 'Budget', 'Leads', 'Avg CPL', 'Avg ROI']);
+  styleHeaderRow(worksheet, header.number);
+  const firstDataRow = header.number + 1;
+  params.channelGroups.forEach(({ channelName, campaigns }) => {
+    const budget = campaigns.reduce((sum, c) => sum + c.budget, 0);
+    const leads = campaigns.reduce((sum, c) => sum + c.leads, 0);
+    const rois = campaigns.map(c => parseRoi(c.roi)).filter((roi): roi is number => roi !== null);
+    const row = worksheet.addRow([
+      channelName,
+      campaigns.length,
+      budget,
+      leads,
+      leads > 0 ? budget / leads : null,
+      rois.length > 0 ? rois.reduce((sum, roi) => sum + roi, 0) / rois.length : null,
+    ]);
+    row.getCell(3).numFmt = numberFormats.currency!;
+    row.getCell(4).numFmt = numberFormats.number!;
+    row.getCell(5).numFmt = numberFormats.currency!;
+    row.getCell(6).numFmt = numberFormats.percentage!;
+  });
+  const lastDataRow = firstDataRow + params.channelGroups.length - 1;
+  if (params.channelGroups.length > 0) {
+    const totalRow = worksheet.addRow([
+      'Total',
+      { formula: `SUM(B${firstDataRow}:B${lastDataRow})` },
+      { formula: `SUM(C${firstDataRow}:C${lastDataRow})`, result: params.totalBudget },
+      { formula: `SUM(D${firstDataRow}:D${lastDataRow})`, result: params.totalLeads },
+    ]);
+    totalRow.font = { bold: true };
+    totalRow.getCell(3).numFmt = numberFormats.currency!;
+    totalRow.getCell(4).numFmt = numberFormats.number!;
+  }
+};
+
+const addChannelSheet = (workbook: Workbook, group: ExportChannelGroup, sheetName: string, numberFormats: NumberFormats) => {
+  const worksheet = workbook.addWorksheet(sheetName, { views: [{ state: 'frozen', ySplit: 1 }] });
+  const columns = getChannelColumns(group);
+  worksheet.columns = columns.map(column => ({ header: column.header, width: column.width }));
+  styleHeaderRow(worksheet, 1);
+
+  group.campaigns.forEach(campaign => {
+    const row = worksheet.addRow(columns.map(column => column.value(campaign)));
+    columns.forEach((column, index) => {
+      const numFmt = numberFormats[column.format];
+      if (numFmt) row.getCell(index + 1).numFmt = numFmt;
+    });
+  });
+
+  const lastDataRow = group.campaigns.length + 1;
+  const totalRow = worksheet.addRow(columns.map((column, index) => {
+    if (index === 0) return 'Total';
+    if (!column.total) return null;
+    const letter = worksheet.getColumn(index + 1).letter;
+    return { formula: `SUM(${letter}2:${letter}${lastDataRow})` };
+  }));
+  totalRow.font = { bold: true };
+  columns.forEach((column, index) => {
+    const numFmt = numberFormats[column.format];
+    if (column.total && numFmt) totalRow.getCell(index + 1).numFmt = numFmt;
+  });
+
+  worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: lastDataRow, column: columns.length } };
+};
+
+/** Builds an XLSX workbook: a summary sheet with the list totals, then one sheet per channel */
+export const exportCampaignsWorkbook = async (params: CampaignExportParams): Promise<Blob> => {
+  // ExcelJS is large: it is only loaded when someone exports
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  addSummarySheet(workbook, params);
+  const usedNames = new Set(['summary']);
+  const numberFormats = getNumberFormats(params.currency);
+  params.channelGroups.forEach(group => addChannelSheet(workbook, group, toSheetName(group.channelName, usedNames), numberFormats));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -0,0 +1,428 @@
+import { addDays, format, isValid, parse } from 'date-fns';
+import { campaignImportRepository, campaignRepository, commitInChunks, WriteOperation } from '../repositories';
+import { AuthUser } from '../types/auth';
+import { Brand } from '../types/brand';
+import {
+  Campaign,
+  CHANNEL_METRIC_FIELDS,
+  PeriodType,
+  STATUS_CONFIG,
+  Status,
+  normalizeCampaignMetrics,
+  normalizeRoi,
+} from '../types/campaign';
+import { CampaignImport } from '../types/campaignImport';
+import { CURRENCIES, CurrencyCode, DEFAULT_CURRENCY } from '../types/currency';
+import { Manager } from '../types/manager';
+import { recordCampaignAudit, toAuditUser } from './campaignAudit';
+import { applyStatusTransition, calculateStatusFromDates, checkStatusTransition } from './campaignStatus';
+import { findClosestMatches, findExactMatch, normalizeForMatch } from './fuzzyMatch';
+import { SpreadsheetData } from './spreadsheet';
+import { withoutTrashed } from './trash';
+
+export type ImportField =
+  | 'channel' | 'brand' | 'region' | 'manager' | 'publisher'
+  | 'startDate' | 'endDate' | 'periodType' | 'status'
+  | 'budget' | 'currency' | 'leads' | 'costPerLead' | 'roi'
+  | 'extraSocialBudget' | 'extraSocialNotes' | 'notes'
+  | typeof CHANNEL_METRIC_FIELDS[number];
+
+/** Fields validated against active master data; unknown values can be corrected before importing */
+export type MasterDataField = 'channel' | 'brand' | 'region' | 'manager' | 'publisher';
+
+interface ImportFieldConfig {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+  /** Header names recognized when guessing the mapping (compared without case, accents and spaces) */
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldConfig[] = [
+  { field: 'channel', label: 'Channel', required: true, aliases: ['canale', 'media', 'mezzo'] },
+  { field: 'brand', label: 'Brand', required: true, aliases: ['marchio', 'insegna'] },
+  { field: 'region', label: 'Region', required: true, aliases: ['regione', 'area', 'zona'] },
+  { field: 'manager', label: 'Manager', required: true, aliases: ['responsabile', 'referente', 'owner'] },
+  { field: 'publisher', label: 'Publisher', aliases: ['broadcaster', 'emittente', 'editore', 'concessionaria'] },
+  { field: 'startDate', label: 'Start date', required: true, aliases: ['start', 'inizio', 'datainizio', 'dal', 'from'] },
+  { field: 'endDate', label: 'End date', required: true, aliases: ['end', 'fine', 'datafine', 'al', 'to'] },
+  { field: 'periodType', label: 'Period type', aliases: ['period', 'periodo'] },
+  { field: 'status', label: 'Status', aliases: ['stato'] },
+  { field: 'budget', label: 'Budget', required: true, aliases: ['spesa', 'investimento', 'importo', 'costo', 'cost'] },
+  { field: 'currency', label: 'Currency', aliases: ['valuta', 'divisa'] },
+  { field: 'leads', label: 'Leads', aliases: ['lead', 'contatti'] },
+  { field: 'costPerLead', label: 'Cost per lead', aliases: ['cpl', 'costolead'] },
+  { field: 'roi', label: 'ROI', aliases: [] },
+  { field: 'extraSocialBudget', label: 'Extra social budget', aliases: ['budgetsocial', 'extrasocial'] },
+  { field: 'extraSocialNotes', label: 'Extra social notes', aliases: ['notesocial'] },
+  { field: 'notes', label: 'Notes', aliases: ['note', 'descrizione', 'description'] },
+  { field: 'expectedGrps', label: 'Expected GRPs', aliases: ['grp', 'grps', 'grpprevisti'] },
+  { field: 'achievedGrps', label: 'Achieved GRPs', aliases: ['grpottenuti', 'grpeffettivi'] },
+  { field: 'spotsPurchased', label: 'Spots purchased', aliases: ['spot', 'spots', 'passaggi'] },
+  { field: 'impressions', label: 'Impressions', aliases: ['impression'] },
+  { field: 'expectedViewers', label: 'Expected viewers', aliases: ['spettatori', 'viewers'] },
+  { field: 'expectedViews', label: 'Expected views', aliases: ['views', 'visualizzazioni'] },
+];
+
+/** Column index for each mapped field */
+export type ColumnMapping = { [field in ImportField]?: number };
+
+/** Replacement values chosen by the user, per field and raw spreadsheet value */
+export type ValueCorrections = { [field in MasterDataField]?: { [rawValue: string]: string } };
+
+/** Active master data the rows are validated against */
+export interface ImportReferenceData {
+  channels: string[];
+  brands: Brand[];
+  regions: string[];
+  managers: Manager[];
+  broadcasters: string[];
+}
+
+export interface ImportRow {
+  /** 1-based, counting the header row, so it matches the row numbers in the spreadsheet */
+  rowNumber: number;
+  campaign: Omit<Campaign, 'id'> | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface UnmatchedValue {
+  field: MasterDataField;
+  value: string;
+  rowCount: number;
+  suggestions: string[];
+  /** Unknown publishers only produce a warning */
+  blocking: boolean;
+}
+
+export interface ImportValidation {
+  rows: ImportRow[];
+  unmatched: UnmatchedValue[];
+}
+
+const PERIOD_TYPE_ALIASES: { [key: string]: PeriodType } = {
+  monthly: 'monthly', mensile: 'monthly', month: 'monthly', mese: 'monthly',
+  weekly: 'weekly', settimanale: 'weekly', week: 'weekly', settimana: 'weekly',
+  quarterly: 'quarterly', trimestrale: 'quarterly', quarter: 'quarterly', trimestre: 'quarterly',
+};
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'dd/MM/yy', 'yyyy/MM/dd'];
+
+// Spreadsheet dates exported as plain numbers count days from 1899-12-30
+const EXCEL_EPOCH = new Date(1899, 11, 30);
+
+const PUBLISHER_CHANNELS = ['TV', 'Radio'];
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  IMPORT_FIELDS.forEach(({ field, label, aliases }) => {
+    const names = [field, label, ...aliases].map(normalizeForMatch);
+    const index = headers.findIndex((header, column) => !used.has(column) && names.includes(normalizeForMatch(header)));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+export const parseImportDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d{5}(\.\d+)?$/.test(trimmed)) {
+    return format(addDays(EXCEL_EPOCH, Math.floor(parseFloat(trimmed))), 'yyyy-MM-dd');
+  }
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(trimmed, dateFormat, new Date());
+    if (isValid(parsed) && parsed.getFullYear() > 1900) return format(parsed, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+const compactNumber = (value: string): string => value.replace(/CHF|[€$£%'’\s]/gi, '');
+
+// "1.234" and "50,000": groups of three digits after a single kind of separator
+const THOUSANDS_PATTERN = /^-?[1-9]\d{0,2}([.,])\d{3}(\1\d{3})*$/;
+
+// Accepts "1.234,56", "1,234.56", "50,000", "1.234.567", "€ 1 234", "CHF 1'234.50" and "1234.5"
+export const parseImportNumber = (value: string): number | null => {
+  let compact = compactNumber(value);
+  if (!compact) return null;
+  const lastComma = compact.lastIndexOf(',');
+  const lastDot = compact.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    compact = compact.split(thousands).join('').replace(decimal, '.');
+  } else if (THOUSANDS_PATTERN.test(compact)) {
+    compact = compact.replace(/[.,]/g, '');
+  } else if (lastComma >= 0) {
+    compact = compact.replace(',', '.');
+  }
+  const parsed = Number(compact);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * "1,234" or "1.234": read as thousands by parseImportNumber, but it may be a number with three decimals
+ * in the other convention. Callers report it so the value gets checked.
+ */
+export const isAmbiguousImportNumber = (value: string): boolean =>
+  /^-?[1-9]\d{0,2}[.,]\d{3}$/.test(compactNumber(value));
+
+const parseStatus = (value: string): Status | null => {
+  const normalized = normalizeForMatch(value);
+  const match = (Object.keys(STATUS_CONFIG) as Status[]).find(status =>
+    normalizeForMatch(status) === normalized || normalizeForMatch(STATUS_CONFIG[status].label) === normalized
+  );
+  return match || null;
+};
+
+export const getImportCandidates = (field: MasterDataField, references: ImportReferenceData): string[] => {
+  switch (field) {
+    case 'channel': return references.channels;
+    case 'brand': return references.brands.map(brand => brand.name);
+    case 'region': return references.regions;
+    case 'manager': return references.managers.flatMap(manager => [manager.initials, manager.name]);
+    case 'publisher': return references.broadcasters;
+  }
+};
+
+/**
+ * Turns spreadsheet rows into campaigns, checking required fields, formats, master data and status guards.
+ * Rows with errors are reported but never imported; unknown master data values are collected with suggestions.
+ */
+export const validateImport = (
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  references: ImportReferenceData,
+  corrections: ValueCorrections = {}
+): ImportValidation => {
+  const unmatched = new Map<string, UnmatchedValue>();
+
+  const rows = data.rows.map((cells, index): ImportRow => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const read = (field: ImportField): string => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+
+    // Resolves a master data value to its canonical spelling, applying the user's corrections first
+    const resolve = (field: MasterDataField, label: string, blocking = true): string => {
+      const raw = read(field);
+      if (!raw) return '';
+      const value = corrections[field]?.[raw] ?? raw;
+      const match = findExactMatch(value, getImportCandidates(field, references));
+      if (match) return match;
+
+      const key = `${field}:${raw}`;
+      const entry = unmatched.get(key) || {
+        field,
+        value: raw,
+        rowCount: 0,
+        suggestions: findClosestMatches(raw, getImportCandidates(field, references)),
+        blocking,
+      };
+      entry.rowCount += 1;
+      unmatched.set(key, entry);
+      (blocking ? errors : warnings).push(`Unknown ${label} "${raw}"`);
+      return blocking ? '' : value;
+    };
+
+    const readNumber = (field: ImportField, label: string): number | null => {
+      const raw = read(field);
+      if (!raw) return null;
+      const parsed = parseImportNumber(raw);
+      if (parsed === null) errors.push(`${label} "${raw}" is not a number`);
+      else if (isAmbiguousImportNumber(raw)) warnings.push(`${label} "${raw}" read as ${parsed}: check the decimal separator`);
+      return parsed;
+    };
+
+    IMPORT_FIELDS.filter(({ required }) => required).forEach(({ field, label }) => {
+      if (!read(field)) errors.push(`${label} is required`);
+    });
+
+    const channel = resolve('channel', 'channel');
+    const brand = resolve('brand', 'brand');
+    const region = resolve('region', 'region');
+    const managerValue = resolve('manager', 'manager');
+    const manager = references.managers.find(({ initials, name }) => initials === managerValue || name === managerValue);
+    const publisher = PUBLISHER_CHANNELS.includes(channel) ? resolve('publisher', 'publisher', false) : read('publisher');
+
+    if (channel && brand) {
+      const brandConfig = references.brands.find(({ name }) => name === brand);
+      if (brandConfig && !brandConfig.channels.includes(channel)) {
+        errors.push(`Brand "${brand}" is not enabled for ${channel}`);
+      }
+    }
+
+    const startDate = parseImportDate(read('startDate'));
+    const endDate = parseImportDate(read('endDate'));
+    if (read('startDate') && !startDate) errors.push(`Start date "${read('startDate')}" is not a valid date`);
+    if (read('endDate') && !endDate) errors.push(`End date "${read('endDate')}" is not a valid date`);
+    if (startDate && endDate && startDate > endDate) errors.push('End date is before the start date');
+
+    const budget = readNumber('budget', 'Budget');
+    if (budget !== null && budget < 0) errors.push('Budget cannot be negative');
+
+    // Amounts in the row are in this currency; without a column they are in euros
+    let currency: CurrencyCode = DEFAULT_CURRENCY;
+    if (read('currency')) {
+      const code = read('currency').toUpperCase();
+      if (CURRENCIES.includes(code as CurrencyCode)) {
+        currency = code as CurrencyCode;
+      } else {
+        errors.push(`Unsupported currency "${read('currency')}"`);
+      }
+    }
+
+    let periodType: PeriodType = 'monthly';
+    if (read('periodType')) {
+      const parsed = PERIOD_TYPE_ALIASES[normalizeForMatch(read('periodType'))];
+      if (parsed) {
+        periodType = parsed;
+      } else {
+        warnings.push(`Unknown period type "${read('periodType')}", using monthly`);
+      }
+    }
+
+    const metrics: Partial<Campaign> = {};
+    CHANNEL_METRIC_FIELDS.forEach(field => {
+      metrics[field] = readNumber(field, IMPORT_FIELDS.find(config => config.field === field)!.label);
+    });
+
+    const campaign: Omit<Campaign, 'id'> = normalizeCampaignMetrics({
+      channel,
+      brand,
+      region,
+      manager: manager?.initials || '',
+      publisher,
+      periodType,
+      startDate: startDate || '',
+      endDate: endDate || '',
+      budget: budget ?? 0,
+      currency,
+      leads: readNumber('leads', 'Leads') ?? 0,
+      costPerLead: readNumber('costPerLead', 'Cost per lead') ?? 0,
+      roi: normalizeRoi(read('roi')) || '',
+      extraSocialBudget: readNumber('extraSocialBudget', 'Extra social budget') ?? 0,
+      extraSocialNotes: read('extraSocialNotes'),
+      notes: read('notes'),
+      status: 'PLANNED',
+      ...metrics,
+    }, true);
+
+    // Without a status column the dates decide, as in the campaign form
+    const rawStatus = read('status');
+    const status = rawStatus ? parseStatus(rawStatus) : (startDate && endDate ? calculateStatusFromDates(startDate, endDate) : 'PLANNED');
+    if (!status) {
+      errors.push(`Unknown status "${rawStatus}"`);
+    } else if (errors.length === 0) {
+      const check = checkStatusTransition(null, status, campaign);
+      // Imported campaigns have no approval yet: statuses that only lack one start as planned instead
+      const needsApproval = !check.allowed &&
+        checkStatusTransition(null, status, { ...campaign, approvalStatus: 'approved', approvedBudget: campaign.budget }).allowed;
+      if (check.allowed) {
+        Object.assign(campaign, applyStatusTransition(null, status, campaign));
+      } else if (needsApproval) {
+        warnings.push(`${STATUS_CONFIG[status].label} needs an approved budget: imported as Planned, submit it for approval`);
+        Object.assign(campaign, applyStatusTransition(null, 'PLANNED', campaign));
+      } else {
+        errors.push(...check.reasons.map(reason => `${STATUS_CONFIG[status].label}: ${reason}`));
+      }
+    }
+
+    return { rowNumber: index + 2, campaign: errors.length === 0 ? campaign : null, errors, warnings };
+  });
+
+  return { rows, unmatched: Array.from(unmatched.values()) };
+};
+
+interface ImportCampaignsParams {
+  campaigns: Omit<Campaign, 'id'>[];
+  fileName: string;
+  user: AuthUser | null;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Creates the campaigns in chunked batches, all tagged with the id of a new `campaignImports` record
+ * so the whole import can be undone later.
+ */
+export const importCampaigns = async ({ campaigns, fileName, user, onProgress }: ImportCampaignsParams): Promise<CampaignImport> => {
+  const record = await campaignImportRepository.add({
+    fileName,
+    importedAt: new Date().toISOString(),
+    importedBy: toAuditUser(user),
+    campaignCount: 0,
+    undoneAt: null,
+    undoneBy: null,
+  });
+
+  const operations: WriteOperation<Campaign>[] = campaigns.map(campaign => ({
+    type: 'add',
+    data: { ...campaign, importId: record.id! },
+  }));
+  let committed = 0;
+  try {
+    await commitInChunks(campaignRepository, operations, (done, total) => {
+      committed = done;
+      onProgress?.(done, total);
+    });
+  } finally {
+    // Batched adds don't return ids: the created campaigns are read back to audit them
+    const created = await findImportedCampaigns(record.id!);
+    await Promise.all(
+      created.map(campaign =>
+        recordCampaignAudit({
+          campaignId: campaign.id!,
+          action: 'create',
+          before: null,
+          after: campaign,
+          user: toAuditUser(user),
+        })
+      )
+    );
+    await campaignImportRepository.update(record.id!, { campaignCount: committed });
+    console.log(`✔️ Imported ${committed} of ${campaigns.length} campaigns from ${fileName}`);
+  }
+
+  return { ...record, campaignCount: committed };
+};
+
+const findImportedCampaigns = async (importId: string): Promise<Campaign[]> =>
+  withoutTrashed(await campaignRepository.list({ filters: [{ field: 'importId', op: '==', value: importId }] }));
+
+/** Moves every campaign still tagged with the import to the trash, then marks the import as undone */
+export const undoImport = async (
+  importRecord: CampaignImport,
+  user: AuthUser | null,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const campaigns = await findImportedCampaigns(importRecord.id!);
+  const deletedAt = new Date().toISOString();
+  const deletedBy = user?.email ?? null;
+  const operations: WriteOperation<Campaign>[] = campaigns.map(campaign => ({
+    type: 'update',
+    id: campaign.id!,
+    data: { deletedAt, deletedBy },
+  }));
+  await commitInChunks(campaignRepository, operations, onProgress);
+  await Promise.all(
+    campaigns.map(campaign =>
+      recordCampaignAudit({
+        campaignId: campaign.id!,
+        action: 'delete',
+        before: campaign,
+        after: null,
+        user: toAuditUser(user),
+      })
+    )
+  );
+  await campaignImportRepository.update(importRecord.id!, { undoneAt: deletedAt, undoneBy: deletedBy });
+  console.log(`✔️ Undid import ${importRecord.id} — ${campaigns.length} campaigns moved to the trash`);
+  return campaigns.length;
+};
@@ -0,0 +1,62 @@
+import { Campaign } from '../types/campaign';
+import { META_FIELDS, isSameFieldValue } from './campaignAudit';
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface MergeField {
+  field: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  /** Both sides changed the field to different values */
+  conflict: boolean;
+  defaultChoice: MergeChoice;
+}
+
+/**
+ * Three-way comparison between the version the editor started from (base), the editor's
+ * values (mine) and the version now stored (theirs). Fields nobody changed are omitted.
+ */
+export const buildMergeFields = (
+  base: Partial<Campaign>,
+  mine: Partial<Campaign>,
+  theirs: Partial<Campaign>
+): MergeField[] => {
+  const result: MergeField[] = [];
+
+  // Only fields the editor writes can be overwritten; anything else keeps the stored value
+  Object.keys(mine).forEach(field => {
+    if (META_FIELDS.includes(field)) return;
+    const key = field as keyof Campaign;
+    const mineChanged = !isSameFieldValue(base[key], mine[key]);
+    const theirsChanged = !isSameFieldValue(base[key], theirs[key]);
+    if (!mineChanged && !theirsChanged) return;
+    // Both sides made the same edit: nothing to decide
+    if (isSameFieldValue(mine[key], theirs[key])) return;
+
+    result.push({
+      field,
+      base: base[key],
+      mine: mine[key],
+      theirs: theirs[key],
+      conflict: mineChanged && theirsChanged,
+      defaultChoice: mineChanged ? 'mine' : 'theirs',
+    });
+  });
+
+  // Conflicts first, then alphabetical
+  return result.sort((a, b) => Number(b.conflict) - Number(a.conflict) || a.field.localeCompare(b.field));
+};
+
+export const applyMergeChoices = (
+  mine: Omit<Campaign, 'id'>,
+  mergeFields: MergeField[],
+  choices: { [field: string]: MergeChoice }
+): Omit<Campaign, 'id'> => {
+  const merged: { [key: string]: unknown } = { ...mine };
+  mergeFields.forEach(({ field, mine: mineValue, theirs, defaultChoice }) => {
+    const choice = choices[field] || defaultChoice;
+    merged[field] = choice === 'mine' ? mineValue : theirs;
+  });
+  return merged as Omit<Campaign, 'id'>;
+};
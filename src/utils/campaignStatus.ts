@@ -0,0 +1,200 @@
+import { format } from 'date-fns';
+import { Campaign, STATUS_CONFIG, Status, migrateStatus } from '../types/campaign';
+
+/** Fields the status rules look at; forms and partial updates pass what they have */
+export type StatusSubject = Partial<Pick<
+  Campaign,
+  'channel' | 'startDate' | 'endDate' | 'budget' | 'publisher' | 'status' | 'approvalStatus' | 'approvedBudget'
+>>;
+
+/** Returns the reason the status can't be entered, or null when the condition holds */
+type StatusGuard = (campaign: StatusSubject, today: string) => string | null;
+
+/** Extra fields written together with the new status */
+type StatusEffect = (campaign: StatusSubject, now: Date) => Partial<Campaign>;
+
+interface StatusRule {
+  /** Conditions checked whenever the status is entered, including on creation */
+  guards: StatusGuard[];
+  /** Statuses a saved campaign can move to from this one */
+  next: Status[];
+  effects?: StatusEffect[];
+}
+
+export interface StatusOption {
+  status: Status;
+  allowed: boolean;
+  /** Why the status can't be selected; empty when allowed */
+  reasons: string[];
+}
+
+export class StatusTransitionError extends Error {
+  readonly reasons: string[];
+
+  constructor(from: Status | null, to: Status, reasons: string[]) {
+    super(`Cannot set status to "${STATUS_CONFIG[to].label}"${from ? ` from "${STATUS_CONFIG[from].label}"` : ''}: ${reasons.join('; ')}`);
+    this.name = 'StatusTransitionError';
+    this.reasons = reasons;
+  }
+}
+
+export const isStatusTransitionError = (err: unknown): err is StatusTransitionError =>
+  err instanceof StatusTransitionError;
+
+export const ALL_STATUSES: Status[] = ['PLANNED', 'SCHEDULED', 'ACTIVE', 'COMPLETED', 'CANCELLED'];
+
+// Channels whose campaigns are bought through a broadcaster
+const PUBLISHER_CHANNELS = ['TV', 'Radio'];
+
+export const toStatusDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const hasValidDates: StatusGuard = ({ startDate, endDate }) => {
+  if (!startDate || !endDate) return 'Start and end dates are required';
+  return startDate <= endDate ? null : 'End date must be on or after the start date';
+};
+
+const hasBudget: StatusGuard = ({ budget }) => (budget && budget > 0 ? null : 'A budget greater than zero is required');
+
+const hasPublisher: StatusGuard = ({ channel, publisher }) =>
+  !channel || !PUBLISHER_CHANNELS.includes(channel) || publisher?.trim()
+    ? null
+    : `A publisher is required for ${channel} campaigns`;
+
+const hasStarted: StatusGuard = ({ startDate }, today) =>
+  startDate && startDate <= today ? null : 'The start date has not been reached yet';
+
+const hasNotStarted: StatusGuard = ({ startDate }, today) =>
+  !startDate || startDate > today ? null : 'The start date has already passed';
+
+const hasNotEnded: StatusGuard = ({ endDate }, today) =>
+  !endDate || endDate >= today ? null : 'The end date has already passed';
+
+const hasEnded: StatusGuard = ({ endDate }, today) =>
+  endDate && endDate < today ? null : 'The end date has not passed yet';
+
+// Approval is granted on an amount: a budget raised since then needs approving again (see utils/approvals)
+const hasApproval: StatusGuard = ({ approvalStatus, approvedBudget, budget }) => {
+  if (approvalStatus !== 'approved') return 'The budget has to be approved first';
+  return (budget ?? 0) <= (approvedBudget ?? 0) ? null : 'The budget is above the approved amount: submit it for approval again';
+};
+
+const stampStatusChange: StatusEffect = (_campaign, now) => ({ statusChangedAt: now.toISOString() });
+
+/**
+ * The campaign lifecycle. Edit this table to change which statuses can follow each other;
+ * forms, the daily automation and campaign updates all read it.
+ */
+export const STATUS_RULES: { [key in Status]: StatusRule } = {
+  PLANNED: {
+    guards: [],
+    next: ['SCHEDULED', 'ACTIVE', 'COMPLETED', 'CANCELLED'],
+    effects: [stampStatusChange],
+  },
+  SCHEDULED: {
+    guards: [hasValidDates, hasBudget, hasPublisher, hasNotEnded, hasApproval],
+    next: ['PLANNED', 'ACTIVE', 'COMPLETED', 'CANCELLED'],
+    effects: [stampStatusChange],
+  },
+  ACTIVE: {
+    guards: [hasValidDates, hasStarted, hasNotEnded],
+    next: ['PLANNED', 'COMPLETED', 'CANCELLED'],
+    effects: [stampStatusChange],
+  },
+  COMPLETED: {
+    guards: [hasValidDates, hasEnded],
+    next: ['ACTIVE'],
+    effects: [stampStatusChange],
+  },
+  CANCELLED: {
+    guards: [],
+    next: ['PLANNED'],
+    effects: [stampStatusChange],
+  },
+};
+
+// Moving an active campaign back to planned only makes sense when its dates were pushed forward.
+// Planned and new campaigns ('NEW') can't skip the approval by going live or completed directly;
+// entering SCHEDULED always needs it (see STATUS_RULES).
+const TRANSITION_GUARDS: { [key: string]: StatusGuard[] } = {
+  'ACTIVE>PLANNED': [hasNotStarted],
+  'PLANNED>ACTIVE': [hasApproval],
+  'PLANNED>COMPLETED': [hasApproval],
+  'NEW>ACTIVE': [hasApproval],
+  'NEW>COMPLETED': [hasApproval],
+};
+
+/** Checks whether `campaign` can enter `to`; pass `from` = null for campaigns that aren't saved yet */
+export const checkStatusTransition = (
+  from: Status | null,
+  to: Status,
+  campaign: StatusSubject,
+  today: string = toStatusDate(new Date())
+): StatusOption => {
+  if (from === to) return { status: to, allowed: true, reasons: [] };
+  if (from && !STATUS_RULES[from].next.includes(to)) {
+    return {
+      status: to,
+      allowed: false,
+      reasons: [`Not reachable from "${STATUS_CONFIG[from].label}"`],
+    };
+  }
+
+  const guards = [...STATUS_RULES[to].guards, ...(TRANSITION_GUARDS[`${from ?? 'NEW'}>${to}`] || [])];
+  const reasons = guards
+    .map(guard => guard(campaign, today))
+    .filter((reason): reason is string => reason !== null);
+  return { status: to, allowed: reasons.length === 0, reasons };
+};
+
+/** Every status with whether it can be selected, in display order */
+export const getStatusOptions = (
+  from: Status | null,
+  campaign: StatusSubject,
+  today?: string
+): StatusOption[] => ALL_STATUSES.map(status => checkStatusTransition(from, status, campaign, today));
+
+/**
+ * Validates a status change and returns the fields to write with it (the status plus its side effects).
+ * Throws a StatusTransitionError listing the failed conditions.
+ */
+export const applyStatusTransition = (
+  from: Status | null,
+  to: Status,
+  campaign: StatusSubject,
+  now: Date = new Date()
+): Partial<Campaign> => {
+  const check = checkStatusTransition(from, to, campaign, toStatusDate(now));
+  if (!check.allowed) {
+    throw new StatusTransitionError(from, to, check.reasons);
+  }
+  if (from === to) return { status: to };
+  return (STATUS_RULES[to].effects || []).reduce<Partial<Campaign>>(
+    (updates, effect) => ({ ...updates, ...effect(campaign, now) }),
+    { status: to }
+  );
+};
+
+/** The status the dates imply: planned before the start, active while running, completed after the end */
+export const calculateStatusFromDates = (
+  startDate: string,
+  endDate: string,
+  today: string = toStatusDate(new Date())
+): Status => {
+  if (today < startDate) return 'PLANNED';
+  if (today <= endDate) return 'ACTIVE';
+  return 'COMPLETED';
+};
+
+/**
+ * The status the daily automation moves a saved campaign to, or null when it should stay as it is.
+ * Only scheduled and active campaigns advance on their own; planned ones wait for someone to schedule them.
+ */
+export const getAutomaticStatus = (campaign: Campaign, today: string = toStatusDate(new Date())): Status | null => {
+  const from = migrateStatus(campaign.status);
+  if (from !== 'SCHEDULED' && from !== 'ACTIVE') return null;
+  if (!campaign.startDate || !campaign.endDate) return null;
+
+  const target = calculateStatusFromDates(campaign.startDate, campaign.endDate, today);
+  if (target === from || target === 'PLANNED') return null;
+  return checkStatusTransition(from, target, campaign, today).allowed ? target : null;
+};
@@ -0,0 +1,25 @@
+import { Campaign, migrateStatus, normalizeCampaignMetrics } from '../types/campaign';
+import { getApprovalWithdrawal } from './approvals';
+import { applyStatusTransition } from './campaignStatus';
+
+/**
+ * The fields an edit of `before` writes: normalized metrics, a status change with its side effects and, when the
+ * budget goes above the approved one, the approval withdrawal. Every path that updates campaigns goes through it.
+ * Throws a StatusTransitionError when the new status can't be entered.
+ */
+export const prepareCampaignUpdate = (before: Campaign | null, updates: Partial<Campaign>): Partial<Campaign> => {
+  // Only the metrics being updated are normalized, so partial updates keep the others
+  let cleanedUpdates = normalizeCampaignMetrics(updates);
+  if (!before) return cleanedUpdates;
+
+  // Status changes go through the status engine, which also adds their side effects
+  if (cleanedUpdates.status) {
+    const from = migrateStatus(before.status);
+    const to = migrateStatus(cleanedUpdates.status);
+    if (from !== to) {
+      cleanedUpdates = { ...cleanedUpdates, ...applyStatusTransition(from, to, { ...before, ...cleanedUpdates }) };
+    }
+  }
+  // A budget raised past the approved one needs approving again
+  return { ...cleanedUpdates, ...getApprovalWithdrawal({ ...before, ...cleanedUpdates }) };
+};
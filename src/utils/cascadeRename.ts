@@ -0,0 +1,88 @@
+import {
+  BaseDocument,
+  Repository,
+  WriteOperation,
+  brandRepository,
+  budgetPlanRepository,
+  commitInChunks,
+} from '../repositories';
+import { AuthUser } from '../types/auth';
+import { Brand } from '../types/brand';
+import { BudgetPlan } from '../types/budgetPlan';
+import { renameInEnvelopes } from './budgetPlan';
+import { ReferenceKind, findReferencingCampaigns, getReferenceValue, reassignCampaigns } from './entityReferences';
+import { withTrashRepository } from './trash';
+
+export interface RenamePreview {
+  campaignCount: number;
+  /** Included in campaignCount: trashed campaigns are renamed too so they restore correctly */
+  trashedCampaignCount: number;
+  /** Brands listing the channel (channel renames only) */
+  brandCount: number;
+}
+
+export interface CascadeRenameParams {
+  kind: ReferenceKind;
+  id: string;
+  from: string;
+  to: string;
+  user: AuthUser | null;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const findBrandsWithChannel = async (channel: string): Promise<Brand[]> => {
+  const brands = await brandRepository.list();
+  return brands.filter(brand => (brand.channels || []).includes(channel));
+};
+
+export const previewRename = async (kind: ReferenceKind, value: string): Promise<RenamePreview> => {
+  const campaigns = await findReferencingCampaigns(kind, value);
+  const brands = kind === 'channel' ? await findBrandsWithChannel(value) : [];
+  return {
+    campaignCount: campaigns.length,
+    trashedCampaignCount: campaigns.filter(campaign => campaign.deletedAt).length,
+    brandCount: brands.length,
+  };
+};
+
+/**
+ * Propagates a renamed brand, channel, region, manager or broadcaster to every campaign and budget plan that references it,
+ * in chunked batches. Call it before saving the entity: if a chunk fails the entity keeps its old value,
+ * so saving the same rename again picks up the remaining campaigns.
+ */
+export const cascadeRename = async ({ kind, id, from, to, user, onProgress }: CascadeRenameParams): Promise<number> => {
+  if (!to.trim()) {
+    throw new Error('The new name cannot be empty.');
+  }
+
+  // Renaming onto an existing entity would silently merge their campaigns
+  const entities = await withTrashRepository(kind, <T extends BaseDocument>(repository: Repository<T>) => repository.list());
+  const duplicate = entities.find(entity => entity.id !== id && getReferenceValue(kind, entity) === to);
+  if (duplicate) {
+    throw new Error(`"${to}" is already in use${duplicate.deletedAt ? ' by an item in the trash' : ''}.`);
+  }
+
+  const updated = await reassignCampaigns({ kind, from, to, user, onProgress });
+
+  if (kind === 'channel') {
+    const brands = await findBrandsWithChannel(from);
+    const brandOperations: WriteOperation<Brand>[] = brands.map(brand => ({
+      type: 'update',
+      id: brand.id!,
+      data: { channels: brand.channels.map(channel => (channel === from ? to : channel)) },
+    }));
+    await commitInChunks(brandRepository, brandOperations);
+  }
+
+  if (kind === 'brand' || kind === 'channel' || kind === 'region') {
+    const plans = await budgetPlanRepository.list();
+    const planOperations = plans.flatMap((plan): WriteOperation<BudgetPlan>[] => {
+      const envelopes = renameInEnvelopes(plan, kind, from, to);
+      return envelopes ? [{ type: 'update', id: plan.id!, data: { envelopes } }] : [];
+    });
+    await commitInChunks(budgetPlanRepository, planOperations);
+  }
+
+  console.log(`✔️ Renamed ${kind} "${from}" → "${to}" in ${updated} campaigns`);
+  return updated;
+};
@@ -2,8 +2,9 @@
  * Chart utilities for consistent formatting, colors, and data processing
  */
 
-import { Campaign } from '../types/campaign';
-import { formatBudget } from './budgetFormatter';
+import { Campaign, GRP_EFFICIENCY_THRESHOLD, HIGH_CPL_THRESHOLD } from '../types/campaign';
+import { formatBudget, formatUnitCost } from './budgetFormatter';
+import { computeCampaignPacing } from './pacing';
 
 // Metric formatting with K/M suffixes
 export const formatMetric = (value: number | null | undefined, unit?: string): string => {
@@ -188,6 +189,7 @@ export const analyzeGRPPerformance = (campaigns: Campaign[]) => {
     const isUnderperforming = efficiency < 0.9; // 10% threshold
     
     return {
+      campaignId: campaign.id,
       name: `${campaign.brand}`,
       efficiency,
       expectedGrps: campaign.expectedGrps!,
@@ -274,9 +276,13 @@ export const groupCampaignsByChannelLogic = (
 };
 
 // Alert detection for underperforming campaigns
-export const detectPerformanceAlerts = (campaigns: Campaign[]) => {
+/**
+ * `plannedCampaigns` carry the planned budget pacing is measured against; they differ from `campaigns`
+ * when those are shown on the actual spend basis.
+ */
+export const detectPerformanceAlerts = (campaigns: Campaign[], plannedCampaigns: Campaign[] = campaigns) => {
   const alerts: Array<{
-    type: 'grp' | 'cpl' | 'budget';
+    type: 'grp' | 'cpl' | 'budget' | 'pacing';
     campaignId: string;
     campaignName: string;
     channel: string;
@@ -311,7 +317,7 @@ export const detectPerformanceAlerts = (campaigns: Campaign[]) => {
         campaignName: `${campaign.brand} - ${campaign.channel}`,
         channel: campaign.channel,
         severity: campaign.costPerLead > 300 ? 'high' : campaign.costPerLead > 200 ? 'medium' : 'low',
-        message: `High CPL: €${campaign.costPerLead.toFixed(2)}`,
+        message: `High CPL: ${formatUnitCost(campaign.costPerLead)}`,
         value: campaign.costPerLead
       });
     }
@@ -333,8 +339,78 @@ export const detectPerformanceAlerts = (campaigns: Campaign[]) => {
     }
   });
 
+  plannedCampaigns.forEach(campaign => {
+    const pacing = computeCampaignPacing(campaign);
+    if (!pacing || pacing.status === 'on') return;
+    const deviation = Math.abs(pacing.ratio - 1);
+    alerts.push({
+      type: 'pacing',
+      campaignId: campaign.id!,
+      campaignName: `${campaign.brand} - ${campaign.channel}`,
+      channel: campaign.channel,
+      severity: deviation > 0.3 ? 'high' : deviation > 0.2 ? 'medium' : 'low',
+      message: `${pacing.status === 'under' ? 'Under' : 'Over'}-pacing: ${formatBudget(Math.round(pacing.actualToDate))} spent of ` +
+        `${formatBudget(Math.round(pacing.expectedToDate))} expected, projected ${formatBudget(Math.round(pacing.projectedSpend))} ` +
+        `of ${formatBudget(campaign.budget)}`,
+      value: pacing.ratio
+    });
+  });
+
   return alerts.sort((a, b) => {
     const severityOrder = { high: 3, medium: 2, low: 1 };
     return severityOrder[b.severity] - severityOrder[a.severity];
   });
-};
\ No newline at end of file
+};
+
+// Shared by the executive summary and the PDF report so both single out the same campaigns
+export const getTopCampaignsByLeads = (campaigns: Campaign[], limit: number = 3): Campaign[] => {
+  return [...campaigns]
+    .filter(c => c.leads > 0)
+    .sort((a, b) => b.leads - a.leads)
+    .slice(0, limit);
+};
+
+export const isHighCPLCampaign = (campaign: Campaign): boolean =>
+  Boolean(campaign.costPerLead && campaign.costPerLead > HIGH_CPL_THRESHOLD);
+
+export const hasGRPShortfall = (campaign: Campaign): boolean =>
+  campaign.channel === 'TV' &&
+  Boolean(campaign.expectedGrps && campaign.achievedGrps) &&
+  (campaign.achievedGrps! / campaign.expectedGrps!) < GRP_EFFICIENCY_THRESHOLD;
+
+export const getUnderperformingCampaigns = (campaigns: Campaign[], limit: number = 5): Campaign[] => {
+  return campaigns.filter(campaign => isHighCPLCampaign(campaign) || hasGRPShortfall(campaign)).slice(0, limit);
+};
+
+// Stacked charts of the PDF report and the HTML snapshot: budget per channel within each month, region...
+export const aggregateBudgetByChannel = (
+  campaigns: Campaign[],
+  keyOf: (campaign: Campaign) => string
+): { [key: string]: { [channel: string]: number } } => {
+  const groups: { [key: string]: { [channel: string]: number } } = {};
+  campaigns.forEach(campaign => {
+    const key = keyOf(campaign);
+    if (!groups[key]) groups[key] = {};
+    groups[key][campaign.channel] = (groups[key][campaign.channel] || 0) + campaign.budget;
+  });
+  return groups;
+};
+
+// Stacked bars share one legend: channels ordered by their total budget
+export const getChannelsByBudget = (campaigns: Campaign[]): string[] =>
+  Object.entries(aggregateCampaignsByChannel(campaigns))
+    .sort(([, a], [, b]) => b.budget - a.budget)
+    .map(([channel]) => channel);
+
+// Channels without a configured color get the next chart color, the same one on every call
+export const createChannelColorResolver = (getChannelColor: (channelName: string) => string | undefined) => {
+  const fallbacks: { [channel: string]: string } = {};
+  return (channelName: string): string => {
+    const color = getChannelColor(channelName);
+    if (color) return color;
+    if (!fallbacks[channelName]) {
+      fallbacks[channelName] = CHART_COLORS[Object.keys(fallbacks).length % CHART_COLORS.length];
+    }
+    return fallbacks[channelName];
+  };
+};
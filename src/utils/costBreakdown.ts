@@ -0,0 +1,116 @@
+import { Broadcaster } from '../types/broadcaster';
+import { Campaign } from '../types/campaign';
+import { Channel } from '../types/channel';
+import { CostBreakdown, DEFAULT_FEE_RULE, FeeRule } from '../types/costBreakdown';
+
+/** Whether amounts are reported net (what the campaign costs before VAT, i.e. the budget) or gross of VAT */
+export type CostBasis = 'net' | 'gross';
+
+export const COST_BASIS_OPTIONS: { basis: CostBasis; label: string; description: string }[] = [
+  { basis: 'net', label: 'Net', description: 'Net media, agency commission and production, VAT excluded' },
+  { basis: 'gross', label: 'Gross', description: 'Net cost plus VAT; actual and invoiced spend stay as recorded' },
+];
+
+export const COST_BASIS_STORAGE_KEY = 'costBasis';
+
+export interface CostLines {
+  grossMedia: number;
+  discount: number;
+  netMedia: number;
+  commission: number;
+  production: number;
+  /** Net media, commission and production: the campaign budget */
+  netTotal: number;
+  vat: number;
+  grossTotal: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** The discount applies to the gross media, the commission to the net media, and VAT to the net total */
+export const calculateCostLines = (breakdown: CostBreakdown): CostLines => {
+  const discount = roundCents(breakdown.grossMedia * breakdown.discountPct / 100);
+  const netMedia = roundCents(breakdown.grossMedia - discount);
+  const commission = roundCents(netMedia * breakdown.commissionPct / 100);
+  const netTotal = roundCents(netMedia + commission + breakdown.production);
+  const vat = roundCents(netTotal * breakdown.vatPct / 100);
+  return {
+    grossMedia: breakdown.grossMedia,
+    discount,
+    netMedia,
+    commission,
+    production: breakdown.production,
+    netTotal,
+    vat,
+    grossTotal: roundCents(netTotal + vat),
+  };
+};
+
+export interface FeeRuleSources {
+  channels: Channel[];
+  broadcasters: Broadcaster[];
+}
+
+/** The publisher's rule wins over the channel's; without either, DEFAULT_FEE_RULE applies */
+export const resolveFeeRule = (
+  campaign: Pick<Campaign, 'channel' | 'publisher'>,
+  { channels, broadcasters }: FeeRuleSources
+): { rule: FeeRule; source: string } => {
+  const broadcaster = campaign.publisher ? broadcasters.find(({ name }) => name === campaign.publisher) : undefined;
+  if (broadcaster?.feeRule) return { rule: broadcaster.feeRule, source: broadcaster.name };
+  const channel = channels.find(({ name }) => name === campaign.channel);
+  if (channel?.feeRule) return { rule: channel.feeRule, source: channel.name };
+  return { rule: DEFAULT_FEE_RULE, source: 'Default' };
+};
+
+export const validateFeeRule = (rule: FeeRule): string | null => {
+  const values = [rule.discountPct, rule.commissionPct, rule.vatPct];
+  if (values.some(value => !Number.isFinite(value) || value < 0)) return 'Percentages cannot be negative.';
+  if (rule.discountPct > 100) return 'The discount cannot exceed 100%.';
+  return null;
+};
+
+export const formatFeeRule = (rule: FeeRule): string =>
+  `${rule.discountPct}% discount · ${rule.commissionPct}% commission · ${rule.vatPct}% VAT`;
+
+/** VAT of the campaign's own breakdown, else of the rule for its channel and publisher */
+const getVatPct = (campaign: Campaign, sources: FeeRuleSources): number =>
+  campaign.costBreakdown ? campaign.costBreakdown.vatPct : resolveFeeRule(campaign, sources).rule.vatPct;
+
+// Amounts the campaign plans to spend; actual and invoiced spend are recorded as billed and never get VAT added
+const PLANNED_MONEY_FIELDS = ['budget', 'costPerLead', 'extraSocialBudget'] as const;
+
+/**
+ * Campaigns as seen on the chosen basis: on the gross basis the planned amounts carry the campaign's VAT,
+ * so KPI helpers and charts need no changes. Actual and invoiced spend and ROI are left as entered.
+ */
+export const applyCostBasis = (campaigns: Campaign[], basis: CostBasis, sources: FeeRuleSources): Campaign[] => {
+  if (basis === 'net') return campaigns;
+  return campaigns.map(campaign => {
+    const factor = 1 + getVatPct(campaign, sources) / 100;
+    const updates: Partial<Campaign> = {};
+    PLANNED_MONEY_FIELDS.forEach(field => {
+      const value = campaign[field];
+      if (typeof value === 'number') updates[field] = value * factor;
+    });
+    return { ...campaign, ...updates };
+  });
+};
+
+// Shared by every screen, so switching the basis once switches all KPIs, charts and exports
+const listeners = new Set<() => void>();
+
+export const getCostBasis = (): CostBasis =>
+  localStorage.getItem(COST_BASIS_STORAGE_KEY) === 'gross' ? 'gross' : 'net';
+
+export const setCostBasis = (basis: CostBasis) => {
+  localStorage.setItem(COST_BASIS_STORAGE_KEY, basis);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeCostBasis = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,99 @@
+import { Campaign } from '../types/campaign';
+import { CURRENCIES, CurrencyCode, DEFAULT_CURRENCY, ExchangeRate } from '../types/currency';
+
+export const REPORTING_CURRENCY_STORAGE_KEY = 'reportingCurrency';
+
+export const getCampaignCurrency = (campaign: Pick<Campaign, 'currency'>): CurrencyCode =>
+  campaign.currency || DEFAULT_CURRENCY;
+
+/**
+ * Units of `currency` for one euro on `date`: the latest rate in force on that day. Dates before the first
+ * recorded rate use the oldest one. Null when the table has no rate at all for the currency.
+ */
+export const findExchangeRate = (rates: ExchangeRate[], currency: CurrencyCode, date: string): number | null => {
+  if (currency === DEFAULT_CURRENCY) return 1;
+  const history = rates
+    .filter(rate => rate.currency === currency && rate.rate > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (history.length === 0) return null;
+  const inForce = history.filter(rate => rate.date <= date);
+  return (inForce.length > 0 ? inForce[inForce.length - 1] : history[0]).rate;
+};
+
+export const convertAmount = (
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: string,
+  rates: ExchangeRate[]
+): number | null => {
+  if (from === to) return amount;
+  const fromRate = findExchangeRate(rates, from, date);
+  const toRate = findExchangeRate(rates, to, date);
+  if (fromRate === null || toRate === null) return null;
+  return (amount / fromRate) * toRate;
+};
+
+/** Campaign amounts, all in the campaign currency */
+export const MONEY_FIELDS = ['budget', 'costPerLead', 'extraSocialBudget', 'actualSpend', 'invoicedSpend'] as const;
+
+/**
+ * Campaigns with every amount in `target`, converted at the rates in force on their start date, when the
+ * contract is signed. Campaigns whose currency has no rate keep their amounts and are reported in
+ * `missingRates`, so screens can warn that their totals mix currencies.
+ */
+export const convertCampaigns = (
+  campaigns: Campaign[],
+  target: CurrencyCode,
+  rates: ExchangeRate[]
+): { campaigns: Campaign[]; missingRates: CurrencyCode[] } => {
+  const missingRates = new Set<CurrencyCode>();
+  const converted = campaigns.map(campaign => {
+    const currency = getCampaignCurrency(campaign);
+    if (currency === target) return campaign;
+    const factor = convertAmount(1, currency, target, campaign.startDate, rates);
+    if (factor === null) {
+      missingRates.add(findExchangeRate(rates, currency, campaign.startDate) === null ? currency : target);
+      return campaign;
+    }
+    const updates: Partial<Campaign> = { currency: target };
+    MONEY_FIELDS.forEach(field => {
+      const value = campaign[field];
+      if (typeof value === 'number') updates[field] = value * factor;
+    });
+    if (campaign.costBreakdown) {
+      const { grossMedia, production } = campaign.costBreakdown;
+      updates.costBreakdown = { ...campaign.costBreakdown, grossMedia: grossMedia * factor, production: production * factor };
+    }
+    return { ...campaign, ...updates };
+  });
+  return { campaigns: converted, missingRates: CURRENCIES.filter(currency => missingRates.has(currency)) };
+};
+
+export const validateExchangeRate = (rate: Pick<ExchangeRate, 'currency' | 'date' | 'rate'>): string | null => {
+  if (rate.currency === DEFAULT_CURRENCY) return `Rates are quoted against the ${DEFAULT_CURRENCY}: it needs no rate of its own.`;
+  if (!CURRENCIES.includes(rate.currency)) return `Unsupported currency: ${rate.currency}.`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(rate.date)) return 'The date is required.';
+  if (!Number.isFinite(rate.rate) || rate.rate <= 0) return 'The rate must be greater than zero.';
+  return null;
+};
+
+// Shared by every screen, so choosing the currency once converts all KPIs and charts
+const listeners = new Set<() => void>();
+
+export const getReportingCurrency = (): CurrencyCode => {
+  const stored = localStorage.getItem(REPORTING_CURRENCY_STORAGE_KEY) as CurrencyCode | null;
+  return stored && CURRENCIES.includes(stored) ? stored : DEFAULT_CURRENCY;
+};
+
+export const setReportingCurrency = (currency: CurrencyCode) => {
+  localStorage.setItem(REPORTING_CURRENCY_STORAGE_KEY, currency);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeReportingCurrency = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,310 @@
+/**
+ * Self-contained, read-only HTML copy of the dashboard: inline styles and SVG charts, no code to run and no network access
+ */
+
+import { format, parseISO } from 'date-fns';
+import { it } from 'date-fns/locale';
+import { Campaign, KPIData, getStatusConfig, migrateStatus } from '../types/campaign';
+import { formatBudget, formatUnitCost } from './budgetFormatter';
+import {
+  aggregateBudgetByChannel,
+  aggregateCampaignsByChannel,
+  analyzeGRPPerformance,
+  createChannelColorResolver,
+  getChannelsByBudget,
+  getTopCampaignsByLeads,
+  getUnderperformingCampaigns,
+  hasGRPShortfall,
+  isHighCPLCampaign,
+} from './chartHelpers';
+
+export interface DashboardSnapshotParams {
+  campaigns: Campaign[];
+  kpiData: KPIData;
+  dateRange: { startDate: string; endDate: string; label: string };
+  /** Human-readable active filters besides the date range */
+  filters: string[];
+  getChannelColor: (channelName: string) => string | undefined;
+  generatedBy: string;
+}
+
+interface BarItem {
+  label: string;
+  segments: { value: number; color: string }[];
+  valueLabel: string;
+}
+
+const SNAPSHOT_FORMAT = 'arredissimaim-snapshot';
+
+const CHART_WIDTH = 880;
+const LABEL_WIDTH = 170;
+const VALUE_WIDTH = 170;
+const BAR_HEIGHT = 18;
+const ROW_HEIGHT = 28;
+const COLUMN_CHART_HEIGHT = 240;
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #111827; background: #f9fafb; }
+  header { background: #2563eb; color: #fff; padding: 20px 32px; display: flex; justify-content: space-between; align-items: baseline; }
+  header h1 { margin: 0; font-size: 22px; }
+  main { max-width: 960px; margin: 0 auto; padding: 24px 16px 48px; }
+  .meta { color: #6b7280; font-size: 14px; margin-bottom: 24px; }
+  .meta strong { color: #111827; }
+  .notice { background: #eff6ff; border: 1px solid #bfdbfe; color: #1d4ed8; border-radius: 8px; padding: 10px 14px; font-size: 13px; margin-bottom: 24px; }
+  .kpis { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-bottom: 24px; }
+  .kpi { background: #fff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 14px; }
+  .kpi span { display: block; color: #6b7280; font-size: 12px; }
+  .kpi b { display: block; font-size: 20px; margin-top: 6px; }
+  section { background: #fff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 20px; margin-bottom: 20px; }
+  section h2 { margin: 0 0 16px; font-size: 16px; }
+  svg { width: 100%; height: auto; display: block; }
+  svg text { font-family: inherit; font-size: 12px; fill: #111827; }
+  .legend { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 12px; font-size: 12px; color: #374151; }
+  .legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th { text-align: left; color: #6b7280; font-weight: 600; font-size: 11px; text-transform: uppercase; padding: 8px; background: #f9fafb; border-bottom: 1px solid #e5e7eb; }
+  td { padding: 8px; border-bottom: 1px solid #f3f4f6; }
+  .num { text-align: right; white-space: nowrap; }
+  .empty { color: #6b7280; font-size: 13px; margin: 0; }
+  footer { text-align: center; color: #9ca3af; font-size: 12px; }
+  @media (max-width: 720px) { .kpis { grid-template-columns: repeat(2, 1fr); } }
+  @media print { body { background: #fff; } section { break-inside: avoid; } }
+`;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatSnapshotDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: it });
+
+const section = (title: string, body: string) => `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+
+const emptyNote = (text: string) => `<p class="empty">${escapeHtml(text)}</p>`;
+
+const legend = (items: { label: string; color: string }[]) =>
+  `<div class="legend">${items
+    .map(item => `<span><i style="background:${escapeHtml(item.color)}"></i>${escapeHtml(item.label)}</span>`)
+    .join('')}</div>`;
+
+const table = (headers: { label: string; numeric?: boolean }[], rows: string[][]) =>
+  `<table><thead><tr>${headers
+    .map(header => `<th${header.numeric ? ' class="num"' : ''}>${escapeHtml(header.label)}</th>`)
+    .join('')}</tr></thead><tbody>${rows
+    .map(row => `<tr>${row
+      .map((cell, index) => `<td${headers[index].numeric ? ' class="num"' : ''}>${escapeHtml(cell)}</td>`)
+      .join('')}</tr>`)
+    .join('')}</tbody></table>`;
+
+// Bars are scaled to the longest one; segments stack left to right
+const horizontalBars = (items: BarItem[]): string => {
+  const barArea = CHART_WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  const max = Math.max(...items.map(item => item.segments.reduce((sum, segment) => sum + segment.value, 0)), 0) || 1;
+  const height = items.length * ROW_HEIGHT;
+  const rows = items.map((item, index) => {
+    const y = index * ROW_HEIGHT;
+    let x = LABEL_WIDTH;
+    const rects = item.segments.filter(segment => segment.value > 0).map(segment => {
+      const width = (segment.value / max) * barArea;
+      const rect = `<rect x="${x.toFixed(1)}" y="${y + 5}" width="${width.toFixed(1)}" height="${BAR_HEIGHT}" rx="3" fill="${escapeHtml(segment.color)}" />`;
+      x += width;
+      return rect;
+    });
+    return `<text x="${LABEL_WIDTH - 8}" y="${y + 18}" text-anchor="end">${escapeHtml(item.label)}</text>${rects.join('')}`
+      + `<text x="${(x + 6).toFixed(1)}" y="${y + 18}">${escapeHtml(item.valueLabel)}</text>`;
+  });
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${height}" role="img">${rows.join('')}</svg>`;
+};
+
+const columnChart = (items: BarItem[]): string => {
+  const plotTop = 20;
+  const plotHeight = COLUMN_CHART_HEIGHT - plotTop - 30;
+  const slot = (CHART_WIDTH - 20) / Math.max(items.length, 1);
+  const columnWidth = Math.min(slot * 0.6, 60);
+  const max = Math.max(...items.map(item => item.segments.reduce((sum, segment) => sum + segment.value, 0)), 0) || 1;
+  const columns = items.map((item, index) => {
+    const x = 10 + index * slot + (slot - columnWidth) / 2;
+    let y = plotTop + plotHeight;
+    const rects = item.segments.filter(segment => segment.value > 0).map(segment => {
+      const height = (segment.value / max) * plotHeight;
+      y -= height;
+      return `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${columnWidth.toFixed(1)}" height="${height.toFixed(1)}" fill="${escapeHtml(segment.color)}" />`;
+    });
+    const center = (x + columnWidth / 2).toFixed(1);
+    return `${rects.join('')}<text x="${center}" y="${(y - 6).toFixed(1)}" text-anchor="middle">${escapeHtml(item.valueLabel)}</text>`
+      + `<text x="${center}" y="${COLUMN_CHART_HEIGHT - 10}" text-anchor="middle">${escapeHtml(item.label)}</text>`;
+  });
+  const axis = `<line x1="10" y1="${plotTop + plotHeight}" x2="${CHART_WIDTH - 10}" y2="${plotTop + plotHeight}" stroke="#e5e7eb" />`;
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${COLUMN_CHART_HEIGHT}" role="img">${axis}${columns.join('')}</svg>`;
+};
+
+// The frozen data travels with the page, so it can be inspected or reloaded later; "<" can't close the script tag
+const embedData = (params: DashboardSnapshotParams, generatedAt: string) =>
+  JSON.stringify({
+    format: SNAPSHOT_FORMAT,
+    generatedAt,
+    generatedBy: params.generatedBy,
+    dateRange: params.dateRange,
+    filters: params.filters,
+    kpiData: params.kpiData,
+    campaigns: params.campaigns,
+  }).replace(/</g, '\\u003c');
+
+/** Renders the dashboard for the given campaigns and KPIs into one HTML file */
+export const generateDashboardSnapshot = (params: DashboardSnapshotParams): Blob => {
+  const { campaigns, kpiData, dateRange } = params;
+  const colorOf = createChannelColorResolver(params.getChannelColor);
+  const channelAggregation = aggregateCampaignsByChannel(campaigns);
+  const channelOrder = getChannelsByBudget(campaigns);
+  const channelLegend = legend(channelOrder.map(channel => ({ label: channel, color: colorOf(channel) })));
+  const generatedAt = new Date().toISOString();
+  const title = `Dashboard • ${dateRange.label}`;
+
+  const kpis: [string, string][] = [
+    ['Budget Totale', formatBudget(kpiData.totalBudget)],
+    ['Lead Totali', kpiData.totalLeads.toLocaleString('it-IT')],
+    ['CPL Medio', formatUnitCost(kpiData.avgCPL)],
+    ['Campaigns', String(kpiData.totalCampaigns)],
+    ['Extra Budget Social', formatBudget(kpiData.extraSocialBudget)],
+    ['Campaigns CPL Alto', String(kpiData.highCPLCampaigns)],
+    ['Deficit GRP', String(kpiData.grpShortfallCampaigns)],
+    ['Efficienza GRP Media', `${(kpiData.avgGRPEfficiency * 100).toFixed(1)}%`],
+  ];
+
+  const totalBudget = kpiData.totalBudget || 1;
+  const budgetAllocation = horizontalBars(channelOrder.map(channel => ({
+    label: channel,
+    segments: [{ value: channelAggregation[channel].budget, color: colorOf(channel) }],
+    valueLabel: `${formatBudget(channelAggregation[channel].budget)} (${((channelAggregation[channel].budget / totalBudget) * 100).toFixed(1)}%)`,
+  })));
+
+  const months = aggregateBudgetByChannel(campaigns, campaign => campaign.startDate.slice(0, 7));
+  const monthlySpend = columnChart(Object.keys(months).sort().map(month => ({
+    label: format(parseISO(`${month}-01`), 'MMM yy', { locale: it }),
+    segments: channelOrder.map(channel => ({ value: months[month][channel] || 0, color: colorOf(channel) })),
+    valueLabel: formatBudget(Object.values(months[month]).reduce((sum, value) => sum + value, 0)),
+  })));
+
+  const leadChannels = Object.entries(channelAggregation)
+    .filter(([, data]) => data.leads > 0)
+    .sort(([, a], [, b]) => b.leads - a.leads);
+
+  const regions = aggregateBudgetByChannel(campaigns, campaign => campaign.region);
+  const regionTotal = (region: string) => Object.values(regions[region]).reduce((sum, value) => sum + value, 0);
+
+  const grpAnalysis = analyzeGRPPerformance(campaigns);
+  const topCampaigns = getTopCampaignsByLeads(campaigns, 5);
+  const underperforming = getUnderperformingCampaigns(campaigns, Number.POSITIVE_INFINITY);
+
+  const sections = [
+    section('Allocazione budget per channel', budgetAllocation),
+    section('Andamento spesa mensile', monthlySpend + channelLegend),
+    section('Lead per channel', leadChannels.length === 0
+      ? emptyNote('Nessun lead registrato nel periodo selezionato')
+      : horizontalBars(leadChannels.map(([channel, data]) => ({
+        label: channel,
+        segments: [{ value: data.leads, color: colorOf(channel) }],
+        valueLabel: data.leads.toLocaleString('it-IT'),
+      })))),
+    section('Distribuzione budget regionale', horizontalBars(
+      Object.keys(regions).sort((a, b) => regionTotal(b) - regionTotal(a)).map(region => ({
+        label: region,
+        segments: channelOrder.map(channel => ({ value: regions[region][channel] || 0, color: colorOf(channel) })),
+        valueLabel: formatBudget(regionTotal(region)),
+      }))
+    ) + channelLegend),
+    section('Efficienza GRP (campaigns TV)', grpAnalysis.length === 0
+      ? emptyNote('Nessuna campaign TV con GRP previsti e ottenuti')
+      : horizontalBars(grpAnalysis.map(item => ({
+        label: item.name,
+        segments: [{ value: item.efficiency, color: item.isUnderperforming ? '#f97316' : '#10b981' }],
+        valueLabel: `${(item.efficiency * 100).toFixed(1)}% (${item.achievedGrps}/${item.expectedGrps})`,
+      })))),
+    section('Migliori campaigns per lead', topCampaigns.length === 0
+      ? emptyNote('Nessuna campaign con dati lead disponibili')
+      : table(
+        [{ label: '#' }, { label: 'Campaign' }, { label: 'Regione' }, { label: 'Budget', numeric: true }, { label: 'Lead', numeric: true }, { label: 'CPL', numeric: true }],
+        topCampaigns.map((campaign, index) => [
+          String(index + 1),
+          `${campaign.brand} - ${campaign.channel}`,
+          campaign.region,
+          formatBudget(campaign.budget),
+          campaign.leads.toLocaleString('it-IT'),
+          formatUnitCost(campaign.budget / campaign.leads),
+        ])
+      )),
+    section('Campaigns con basse performance', underperforming.length === 0
+      ? emptyNote('Nessuna campaign richiede attenzione nel periodo selezionato')
+      : table(
+        [{ label: 'Campaign' }, { label: 'Regione' }, { label: 'Manager' }, { label: 'Problema' }],
+        underperforming.map(campaign => [
+          `${campaign.brand} - ${campaign.channel}`,
+          campaign.region,
+          campaign.manager,
+          [
+            isHighCPLCampaign(campaign) && `CPL alto: ${formatUnitCost(campaign.costPerLead!)}`,
+            hasGRPShortfall(campaign) && `GRP al ${((campaign.achievedGrps! / campaign.expectedGrps!) * 100).toFixed(1)}%`,
+          ].filter(Boolean).join(' • '),
+        ])
+      )),
+    section('Riepilogo performance per channel', table(
+      [{ label: 'Channel' }, { label: 'Campaigns', numeric: true }, { label: 'Budget', numeric: true }, { label: 'Lead', numeric: true }, { label: 'CPL', numeric: true }],
+      channelOrder.map(channel => {
+        const data = channelAggregation[channel];
+        return [
+          channel,
+          String(data.campaigns),
+          formatBudget(data.budget),
+          data.leads > 0 ? data.leads.toLocaleString('it-IT') : '—',
+          data.leads > 0 ? formatUnitCost(data.budget / data.leads) : '—',
+        ];
+      })
+    )),
+    section(`Elenco campaigns (${campaigns.length})`, table(
+      [{ label: 'Brand' }, { label: 'Channel' }, { label: 'Regione' }, { label: 'Periodo' }, { label: 'Stato' }, { label: 'Budget', numeric: true }, { label: 'Lead', numeric: true }],
+      [...campaigns]
+        .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.brand.localeCompare(b.brand))
+        .map(campaign => [
+          campaign.brand,
+          campaign.publisher ? `${campaign.channel} (${campaign.publisher})` : campaign.channel,
+          campaign.region,
+          `${formatSnapshotDate(campaign.startDate)} - ${formatSnapshotDate(campaign.endDate)}`,
+          getStatusConfig(migrateStatus(campaign.status)).label,
+          formatBudget(campaign.budget),
+          campaign.leads.toLocaleString('it-IT'),
+        ])
+    )),
+  ];
+
+  const html = `<!DOCTYPE html>
+<html lang="it">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="ArredissimA IM">
+<title>${escapeHtml(`ArredissimA IM - ${title}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header><h1>ArredissimA IM</h1><span>${escapeHtml(title)}</span></header>
+<main>
+<div class="meta">
+<strong>${escapeHtml(dateRange.label)}</strong> • ${formatSnapshotDate(dateRange.startDate)} - ${formatSnapshotDate(dateRange.endDate)}<br>
+Filtri: ${escapeHtml(params.filters.length > 0 ? params.filters.join(' • ') : 'nessuno')} • ${campaigns.length} campaigns incluse
+</div>
+<div class="notice">Snapshot in sola lettura del ${escapeHtml(format(parseISO(generatedAt), 'dd/MM/yyyy HH:mm', { locale: it }))}, pubblicato da ${escapeHtml(params.generatedBy)}: i dati non si aggiornano.</div>
+<div class="kpis">${kpis.map(([label, value]) => `<div class="kpi"><span>${escapeHtml(label)}</span><b>${escapeHtml(value)}</b></div>`).join('')}</div>
+${sections.join('\n')}
+<footer>ArredissimA IM • ${escapeHtml(title)}</footer>
+</main>
+<script type="application/json" id="snapshot-data">${embedData(params, generatedAt)}</script>
+</body>
+</html>
+`;
+
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
@@ -73,4 +73,22 @@ export const isCampaignInPeriod = (
     // Check if campaign overlaps with the quarter
     return startDate <= periodEnd && endDate >= periodStart;
   }
-};
\ No newline at end of file
+};
+/** First and last day (yyyy-MM-dd) of a calendar period named like "Q2 2025" or "February 2025" */
+export const getPeriodDateRange = (
+  selectedPeriod: string,
+  periodType: 'monthly' | 'quarterly'
+): { startDate: string; endDate: string } => {
+  const [name, yearStr] = selectedPeriod.split(' ');
+  const year = parseInt(yearStr);
+  const months = periodType === 'monthly'
+    ? [Array.from({ length: 12 }, (_, i) => getMonthName(i)).indexOf(name)]
+    : getMonthsInQuarter(name);
+  const first = months[0];
+  const last = months[months.length - 1];
+  const lastDay = new Date(year, last + 1, 0).getDate();
+  return {
+    startDate: `${year}-${String(first + 1).padStart(2, '0')}-01`,
+    endDate: `${year}-${String(last + 1).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`,
+  };
+};
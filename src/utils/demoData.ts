@@ -0,0 +1,175 @@
+import { Campaign } from '../types/campaign';
+import { Brand } from '../types/brand';
+import { Channel } from '../types/channel';
+import { Manager } from '../types/manager';
+import { Broadcaster } from '../types/broadcaster';
+import { Region } from '../types/region';
+
+// Demo dataset: seeds the local backend and is the fallback when Firestore is not available
+export const generateDemoData = (): Campaign[] => [
+  {
+    id: 'demo-1',
+    channel: 'Meta',
+    brand: 'FC',
+    region: 'Lazio',
+    periodType: 'monthly',
+    startDate: '2025-01-01',
+    endDate: '2025-01-31',
+    budget: 12000,
+    roi: '1198%',
+    costPerLead: 6.81,
+    leads: 1762,
+    manager: 'AG',
+    status: 'ACTIVE', // Updated to new status
+    notes: 'Special campaign in Rome',
+    extraSocialBudget: 2500,
+    extraSocialNotes: 'Boosted reel on launch day, IG Story Ads during promotion week',
+    // Channel-specific metrics (null for non-applicable channels)
+    expectedGrps: null,
+    achievedGrps: null,
+    spotsPurchased: null,
+    impressions: null,
+    expectedViewers: null,
+    expectedViews: null,
+    createdAt: '2025-01-01T00:00:00Z',
+  },
+  {
+    id: 'demo-2',
+    channel: 'Google',
+    brand: 'ILMI',
+    region: 'Emilia-Romagna',
+    periodType: 'weekly',
+    startDate: '2025-01-07',
+    endDate: '2025-01-14',
+    budget: 8500,
+    roi: '892%',
+    costPerLead: 8.45,
+    leads: 1005,
+    manager: 'MR',
+    status: 'SCHEDULED', // Updated to new status
+    notes: 'Bologna targeting',
+    // Channel-specific metrics (null for non-applicable channels)
+    expectedGrps: null,
+    achievedGrps: null,
+    spotsPurchased: null,
+    impressions: null,
+    expectedViewers: null,
+    expectedViews: null,
+    createdAt: '2025-01-07T00:00:00Z',
+  },
+  {
+    id: 'demo-3',
+    channel: 'TikTok',
+    brand: 'ArredissimA',
+    region: 'National',
+    periodType: 'monthly',
+    startDate: '2025-01-01',
+    endDate: '2025-01-31',
+    budget: 15000,
+    roi: '756%',
+    costPerLead: 12.30,
+    leads: 1220,
+    manager: 'LC',
+    status: 'ACTIVE', // Updated to new status
+    notes: 'Gen Z targeting campaign',
+    extraSocialBudget: 3000,
+    extraSocialNotes: 'Spark Ads for viral content, TopView campaign for brand awareness',
+    // Channel-specific metrics (null for non-applicable channels)
+    expectedGrps: null,
+    achievedGrps: null,
+    spotsPurchased: null,
+    impressions: null,
+    expectedViewers: null,
+    expectedViews: null,
+    createdAt: '2025-01-01T00:00:00Z',
+  },
+  {
+    id: 'demo-4',
+    channel: 'TV',
+    brand: 'ArredissimA',
+    region: 'National',
+    periodType: 'monthly',
+    startDate: '2025-01-15',
+    endDate: '2025-02-15',
+    budget: 45000,
+    roi: '320%',
+    costPerLead: 0,
+    leads: 0,
+    manager: 'FP',
+    status: 'ACTIVE', // Updated to new status
+    notes: 'Prime time TV campaign',
+    publisher: 'Sky – ATP Finals 2025',
+    // TV-specific metrics
+    expectedGrps: 150.5,
+    achievedGrps: 142.3,
+    spotsPurchased: 24,
+    impressions: null,
+    expectedViewers: null,
+    expectedViews: null,
+    createdAt: '2025-01-15T00:00:00Z',
+  },
+  {
+    id: 'demo-5',
+    channel: 'Radio',
+    brand: 'FC',
+    region: 'Lombardia',
+    periodType: 'weekly',
+    startDate: '2025-01-20',
+    endDate: '2025-01-27',
+    budget: 8500,
+    roi: '180%',
+    costPerLead: 0,
+    leads: 0,
+    manager: 'AG',
+    status: 'SCHEDULED', // Updated to new status
+    notes: 'Morning drive time slots',
+    publisher: 'RAI – National Coverage',
+    // Radio-specific metrics
+    expectedGrps: null,
+    achievedGrps: null,
+    spotsPurchased: 48,
+    impressions: 250000,
+    expectedViewers: null,
+    expectedViews: null,
+    createdAt: '2025-01-20T00:00:00Z',
+  },
+];
+
+export const DEMO_BRANDS: Omit<Brand, 'id'>[] = [
+  { name: 'ArredissimA', channels: ['Meta', 'Google', 'TikTok', 'TV'], active: true },
+  { name: 'FC', channels: ['Meta', 'Radio'], active: true },
+  { name: 'ILMI', channels: ['Google'], active: true },
+];
+
+export const DEMO_CHANNELS: Omit<Channel, 'id'>[] = [
+  { name: 'Meta', active: true, type: 'digital', color: '#1877f2', icon: 'Facebook', subGroupingKey: 'campaign' },
+  { name: 'Google', active: true, type: 'digital', color: '#ea4335', icon: 'Search', subGroupingKey: 'campaign' },
+  { name: 'TikTok', active: true, type: 'digital', color: '#ff0050', icon: 'Music', subGroupingKey: 'campaign' },
+  { name: 'TV', active: true, type: 'traditional', color: '#8b5cf6', icon: 'Tv', subGroupingKey: 'broadcaster' },
+  { name: 'Radio', active: true, type: 'traditional', color: '#f59e0b', icon: 'Radio', subGroupingKey: 'broadcaster' },
+];
+
+export const DEMO_MANAGERS: Omit<Manager, 'id'>[] = [
+  { name: 'Alessandro Greco', initials: 'AG', active: true },
+  { name: 'Marta Rossi', initials: 'MR', active: true },
+  { name: 'Luca Conti', initials: 'LC', active: true },
+  { name: 'Francesca Pellegrini', initials: 'FP', active: true },
+];
+
+export const DEMO_BROADCASTERS: Omit<Broadcaster, 'id'>[] = [
+  { name: 'Sky – ATP Finals 2025', active: true },
+  { name: 'RAI – National Coverage', active: true },
+];
+
+// Original static regions that were hardcoded in CampaignForm
+export const ORIGINAL_REGIONS = [
+  'National',
+  'Lazio', 
+  'Lombardia',
+  'Emilia-Romagna',
+  'Toscana',
+  'Piemonte',
+  'Veneto'
+];
+
+export const DEMO_REGIONS: Omit<Region, 'id'>[] = ORIGINAL_REGIONS.map(name => ({ name, active: true }));
@@ -0,0 +1,18 @@
+import { format } from 'date-fns';
+
+// Saves generated content (exports, backups) through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick: some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// File names like "campaigns-2025-06-26.xlsx"
+export const datedFileName = (prefix: string, extension: string, date: Date = new Date()): string =>
+  `${prefix}-${format(date, 'yyyy-MM-dd')}.${extension}`;
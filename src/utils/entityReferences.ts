@@ -0,0 +1,104 @@
+import { WriteOperation, campaignRepository, commitInChunks } from '../repositories';
+import { AuthUser } from '../types/auth';
+import { Campaign } from '../types/campaign';
+import { recordCampaignAudit, toAuditUser } from './campaignAudit';
+import { TRASHED_FILTER, TrashKind, isTrashed } from './trash';
+
+/** Master data that campaigns reference */
+export type ReferenceKind = Exclude<TrashKind, 'campaign'>;
+
+interface ReferenceKindConfig {
+  /** Field of the entity that campaigns copy */
+  entityField: string;
+  /** Field of the campaign holding the copy */
+  campaignField: keyof Campaign;
+  label: string;
+}
+
+// Campaigns store plain strings, so these are the only links to master data
+export const REFERENCE_KIND_CONFIG: { [key in ReferenceKind]: ReferenceKindConfig } = {
+  brand: { entityField: 'name', campaignField: 'brand', label: 'brand' },
+  channel: { entityField: 'name', campaignField: 'channel', label: 'channel' },
+  region: { entityField: 'name', campaignField: 'region', label: 'region' },
+  manager: { entityField: 'initials', campaignField: 'manager', label: 'manager' },
+  broadcaster: { entityField: 'name', campaignField: 'publisher', label: 'broadcaster' },
+};
+
+export const getReferenceValue = (kind: ReferenceKind, entity: object): string =>
+  String((entity as Record<string, unknown>)[REFERENCE_KIND_CONFIG[kind].entityField] ?? '');
+
+/** Trashed campaigns are included: they must still point to a valid entity when restored */
+export const findReferencingCampaigns = async (kind: ReferenceKind, value: string): Promise<Campaign[]> => {
+  const { campaignField } = REFERENCE_KIND_CONFIG[kind];
+  return campaignRepository.list({ filters: [{ field: campaignField, op: '==', value }] });
+};
+
+/**
+ * Counts live campaigns per referenced value, e.g. { FC: 12, ILMI: 3 }, across every period and including
+ * undated campaigns: one count query per value, minus the trashed campaigns, which are read once.
+ */
+export const countCampaignUsage = async (kind: ReferenceKind, values: string[]): Promise<{ [value: string]: number }> => {
+  const { campaignField } = REFERENCE_KIND_CONFIG[kind];
+  const [totals, trashed] = await Promise.all([
+    Promise.all(values.map(value => campaignRepository.count({ filters: [{ field: campaignField, op: '==', value }] }))),
+    campaignRepository.list({ filters: [TRASHED_FILTER] }),
+  ]);
+  const counts: { [value: string]: number } = {};
+  values.forEach((value, index) => {
+    counts[value] = totals[index] - trashed.filter(campaign => campaign[campaignField] === value).length;
+  });
+  return counts;
+};
+
+export const assertUnreferenced = async (kind: ReferenceKind, value: string) => {
+  const live = (await findReferencingCampaigns(kind, value)).filter(campaign => !isTrashed(campaign));
+  if (live.length > 0) {
+    throw new Error(
+      `"${value}" is used by ${live.length} ${live.length === 1 ? 'campaign' : 'campaigns'}. ` +
+      `Reassign them to another ${REFERENCE_KIND_CONFIG[kind].label} or deactivate it instead.`
+    );
+  }
+};
+
+export interface ReassignCampaignsParams {
+  kind: ReferenceKind;
+  from: string;
+  to: string;
+  user: AuthUser | null;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Points every campaign referencing `from` to `to`, in chunked batches, and records the change in the history
+ * of each committed campaign, even when a later chunk fails. Returns the number of campaigns updated.
+ */
+export const reassignCampaigns = async ({ kind, from, to, user, onProgress }: ReassignCampaignsParams): Promise<number> => {
+  const { campaignField } = REFERENCE_KIND_CONFIG[kind];
+  const campaigns = await findReferencingCampaigns(kind, from);
+  const operations: WriteOperation<Campaign>[] = campaigns.map(campaign => ({
+    type: 'update',
+    id: campaign.id!,
+    data: { [campaignField]: to } as Partial<Campaign>,
+  }));
+
+  let committed = 0;
+  try {
+    await commitInChunks(campaignRepository, operations, (count, total) => {
+      committed = count;
+      onProgress?.(count, total);
+    });
+  } finally {
+    await Promise.all(
+      campaigns.slice(0, committed).map(campaign =>
+        recordCampaignAudit({
+          campaignId: campaign.id!,
+          action: 'update',
+          before: campaign,
+          after: { ...campaign, [campaignField]: to },
+          user: toAuditUser(user),
+        })
+      )
+    );
+  }
+  return committed;
+};
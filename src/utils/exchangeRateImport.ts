@@ -0,0 +1,96 @@
+import { CURRENCIES, CurrencyCode, DEFAULT_CURRENCY, ExchangeRate } from '../types/currency';
+import { isAmbiguousImportNumber, parseImportDate, parseImportNumber } from './campaignImport';
+import { validateExchangeRate } from './currency';
+import { normalizeForMatch } from './fuzzyMatch';
+import { SpreadsheetData } from './spreadsheet';
+
+export type ExchangeRateInput = Pick<ExchangeRate, 'currency' | 'date' | 'rate'>;
+
+export interface ExchangeRateParseResult {
+  rates: ExchangeRateInput[];
+  errors: { rowNumber: number; message: string }[];
+}
+
+const DATE_HEADERS = ['date', 'data', 'validfrom', 'validodal', 'giorno', 'timeperiod'].map(normalizeForMatch);
+const CURRENCY_HEADERS = ['currency', 'valuta', 'divisa', 'code', 'codice'].map(normalizeForMatch);
+const RATE_HEADERS = ['rate', 'cambio', 'tasso', 'tassodicambio', 'exchangerate', 'obsvalue'].map(normalizeForMatch);
+
+const findColumn = (headers: string[], names: string[]) =>
+  headers.findIndex(header => names.includes(normalizeForMatch(header)));
+
+const toCurrency = (value: string): CurrencyCode | null => {
+  const code = value.trim().toUpperCase();
+  return CURRENCIES.includes(code as CurrencyCode) ? (code as CurrencyCode) : null;
+};
+
+/**
+ * Reads rates in one of two layouts: a row per rate (date, currency, rate columns), or the ECB reference
+ * rates layout with a date column and one column per currency. Rates are units of the currency for one euro.
+ */
+export const parseExchangeRateSheet = ({ headers, rows }: SpreadsheetData): ExchangeRateParseResult => {
+  const dateColumn = findColumn(headers, DATE_HEADERS);
+  if (dateColumn < 0) {
+    return { rates: [], errors: [{ rowNumber: 1, message: 'No date column: name it "Date".' }] };
+  }
+
+  const currencyColumn = findColumn(headers, CURRENCY_HEADERS);
+  const rateColumn = findColumn(headers, RATE_HEADERS);
+  const currencyColumns = headers
+    .map((header, column) => ({ currency: toCurrency(header), column }))
+    .filter((entry): entry is { currency: CurrencyCode; column: number } =>
+      entry.currency !== null && entry.currency !== DEFAULT_CURRENCY
+    );
+
+  if ((currencyColumn < 0 || rateColumn < 0) && currencyColumns.length === 0) {
+    return {
+      rates: [],
+      errors: [{ rowNumber: 1, message: 'Expected "Currency" and "Rate" columns, or one column per currency code.' }],
+    };
+  }
+
+  const result: ExchangeRateParseResult = { rates: [], errors: [] };
+  const addRate = (rowNumber: number, currencyValue: string, rateValue: string, dateValue: string) => {
+    const date = parseImportDate(dateValue);
+    const currency = toCurrency(currencyValue);
+    const rate = parseImportNumber(rateValue);
+    if (!date) {
+      result.errors.push({ rowNumber, message: `Unrecognized date "${dateValue}"` });
+      return;
+    }
+    if (!currency) {
+      result.errors.push({ rowNumber, message: `Unsupported currency "${currencyValue}"` });
+      return;
+    }
+    // A rate of "1,085" is far more likely 1.085 than 1085: have the file say which
+    if (isAmbiguousImportNumber(rateValue)) {
+      result.errors.push({ rowNumber, message: `${currency}: rate "${rateValue}" is ambiguous, write it with more or fewer decimals` });
+      return;
+    }
+    const input = { currency, date, rate: rate ?? NaN };
+    const problem = validateExchangeRate(input);
+    if (problem) {
+      result.errors.push({ rowNumber, message: `${currency}: ${problem}` });
+      return;
+    }
+    result.rates.push(input);
+  };
+
+  rows.forEach((row, index) => {
+    // Header is row 1 in the spreadsheet
+    const rowNumber = index + 2;
+    if (currencyColumn >= 0 && rateColumn >= 0) {
+      addRate(rowNumber, row[currencyColumn], row[rateColumn], row[dateColumn]);
+      return;
+    }
+    if (!parseImportDate(row[dateColumn])) {
+      result.errors.push({ rowNumber, message: `Unrecognized date "${row[dateColumn]}"` });
+      return;
+    }
+    currencyColumns.forEach(({ currency, column }) => {
+      // The ECB files leave holidays blank or mark them "N/A"
+      if (parseImportNumber(row[column]) === null) return;
+      addRate(rowNumber, currency, row[column], row[dateColumn]);
+    });
+  });
+  return result;
+};
@@ -0,0 +1,440 @@
+/**
+ * Client-side PDF version of the dashboard's executive summary and charts
+ */
+
+import type { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import { it } from 'date-fns/locale';
+import { Campaign, KPIData } from '../types/campaign';
+import { formatBudget, formatUnitCost } from './budgetFormatter';
+import {
+  aggregateBudgetByChannel,
+  aggregateCampaignsByChannel,
+  analyzeGRPPerformance,
+  createChannelColorResolver,
+  getChannelsByBudget,
+  getTopCampaignsByLeads,
+  getUnderperformingCampaigns,
+  hasGRPShortfall,
+  isHighCPLCampaign,
+} from './chartHelpers';
+
+export type ReportSection =
+  | 'kpis'
+  | 'budgetAllocation'
+  | 'topCampaigns'
+  | 'underperformers'
+  | 'monthlySpend'
+  | 'leadsPerChannel'
+  | 'regionalBudget'
+  | 'grpEfficiency'
+  | 'channelSummary';
+
+export const REPORT_SECTIONS: { key: ReportSection; label: string; description: string }[] = [
+  { key: 'kpis', label: 'KPI principali', description: 'Budget, lead, CPL e indicatori di allerta' },
+  { key: 'budgetAllocation', label: 'Allocazione budget', description: 'Budget per channel' },
+  { key: 'topCampaigns', label: 'Migliori campaigns', description: 'Le campaigns con più lead' },
+  { key: 'underperformers', label: 'Basse performance', description: 'CPL alto e deficit GRP' },
+  { key: 'monthlySpend', label: 'Spesa mensile', description: 'Budget per mese di inizio, per channel' },
+  { key: 'leadsPerChannel', label: 'Lead per channel', description: 'Lead generati da ogni channel' },
+  { key: 'regionalBudget', label: 'Budget regionale', description: 'Budget per regione, per channel' },
+  { key: 'grpEfficiency', label: 'Efficienza GRP', description: 'GRP ottenuti rispetto ai previsti (TV)' },
+  { key: 'channelSummary', label: 'Riepilogo channel', description: 'Tabella di sintesi per channel' },
+];
+
+export interface ExecutiveReportParams {
+  campaigns: Campaign[];
+  kpiData: KPIData;
+  dateRange: { startDate: string; endDate: string; label: string };
+  /** Human-readable active filters besides the date range */
+  filters: string[];
+  sections: ReportSection[];
+  getChannelColor: (channelName: string) => string | undefined;
+  generatedBy: string;
+}
+
+interface BarItem {
+  label: string;
+  segments: { value: number; color: string }[];
+  valueLabel: string;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 18;
+const FOOTER_HEIGHT = 12;
+const BRAND_COLOR = '#2563eb';
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const BORDER_COLOR = '#e5e7eb';
+
+const formatReportDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: it });
+
+/** Keeps the write position and starts a new page when a block does not fit */
+const createReportWriter = (doc: jsPDF) => ({
+  doc,
+  y: HEADER_HEIGHT + 10,
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - FOOTER_HEIGHT - 5) {
+      this.doc.addPage();
+      this.y = HEADER_HEIGHT + 10;
+    }
+  },
+
+  sectionTitle(title: string, minContentHeight: number = 30) {
+    this.ensureSpace(12 + minContentHeight);
+    this.y += 4;
+    this.doc.setFont('helvetica', 'bold').setFontSize(13).setTextColor(TEXT_COLOR);
+    this.doc.text(title, MARGIN, this.y);
+    this.doc.setDrawColor(BRAND_COLOR).setLineWidth(0.6);
+    this.doc.line(MARGIN, this.y + 2, MARGIN + 20, this.y + 2);
+    this.y += 9;
+  },
+
+  note(text: string) {
+    this.ensureSpace(8);
+    this.doc.setFont('helvetica', 'italic').setFontSize(9).setTextColor(MUTED_COLOR);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += 8;
+  },
+
+  legend(entries: { label: string; color: string }[]) {
+    let x = MARGIN;
+    this.ensureSpace(7);
+    this.doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(MUTED_COLOR);
+    entries.forEach(entry => {
+      const width = this.doc.getTextWidth(entry.label) + 9;
+      if (x + width > PAGE_WIDTH - MARGIN) {
+        x = MARGIN;
+        this.y += 5;
+        this.ensureSpace(5);
+      }
+      this.doc.setFillColor(entry.color).rect(x, this.y - 2.5, 3, 3, 'F');
+      this.doc.text(entry.label, x + 4.5, this.y);
+      x += width;
+    });
+    this.y += 7;
+  },
+
+  horizontalBars(items: BarItem[]) {
+    const labelWidth = 45;
+    const valueWidth = 30;
+    const barWidth = CONTENT_WIDTH - labelWidth - valueWidth;
+    const max = Math.max(...items.map(item => item.segments.reduce((sum, s) => sum + s.value, 0)), 1);
+
+    items.forEach(item => {
+      this.ensureSpace(8);
+      this.doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(TEXT_COLOR);
+      this.doc.text(this.doc.splitTextToSize(item.label, labelWidth - 3)[0], MARGIN, this.y + 3.5);
+      this.doc.setFillColor('#f3f4f6').rect(MARGIN + labelWidth, this.y, barWidth, 5, 'F');
+      let x = MARGIN + labelWidth;
+      item.segments.forEach(segment => {
+        const width = (segment.value / max) * barWidth;
+        if (width > 0) this.doc.setFillColor(segment.color).rect(x, this.y, width, 5, 'F');
+        x += width;
+      });
+      this.doc.text(item.valueLabel, PAGE_WIDTH - MARGIN, this.y + 3.5, { align: 'right' });
+      this.y += 8;
+    });
+    this.y += 2;
+  },
+
+  columnChart(columns: BarItem[], height: number = 60) {
+    this.ensureSpace(height + 12);
+    const top = this.y;
+    const bottom = top + height;
+    const max = Math.max(...columns.map(column => column.segments.reduce((sum, s) => sum + s.value, 0)), 1);
+    const slot = CONTENT_WIDTH / Math.max(columns.length, 1);
+    const barWidth = Math.min(slot * 0.6, 18);
+
+    this.doc.setDrawColor(BORDER_COLOR).setLineWidth(0.2);
+    this.doc.line(MARGIN, bottom, PAGE_WIDTH - MARGIN, bottom);
+    this.doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(MUTED_COLOR);
+
+    columns.forEach((column, index) => {
+      const x = MARGIN + slot * index + (slot - barWidth) / 2;
+      let y = bottom;
+      column.segments.forEach(segment => {
+        const segmentHeight = (segment.value / max) * (height - 6);
+        if (segmentHeight > 0) this.doc.setFillColor(segment.color).rect(x, y - segmentHeight, barWidth, segmentHeight, 'F');
+        y -= segmentHeight;
+      });
+      this.doc.text(column.valueLabel, x + barWidth / 2, y - 1.5, { align: 'center' });
+      this.doc.text(column.label, x + barWidth / 2, bottom + 4, { align: 'center' });
+    });
+    this.y = bottom + 9;
+  },
+
+  table(columns: TableColumn[], rows: string[][]) {
+    const rowHeight = 7;
+    const drawHeader = () => {
+      this.doc.setFillColor('#f3f4f6').rect(MARGIN, this.y, CONTENT_WIDTH, rowHeight, 'F');
+      this.doc.setFont('helvetica', 'bold').setFontSize(8.5).setTextColor(TEXT_COLOR);
+      let x = MARGIN;
+      columns.forEach(column => {
+        const textX = column.align === 'right' ? x + column.width - 2 : x + 2;
+        this.doc.text(column.header, textX, this.y + 4.8, { align: column.align || 'left' });
+        x += column.width;
+      });
+      this.y += rowHeight;
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+    rows.forEach(row => {
+      if (this.y + rowHeight > PAGE_HEIGHT - FOOTER_HEIGHT - 5) {
+        this.doc.addPage();
+        this.y = HEADER_HEIGHT + 10;
+        drawHeader();
+      }
+      this.doc.setFont('helvetica', 'normal').setFontSize(8.5).setTextColor(TEXT_COLOR);
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        const text = this.doc.splitTextToSize(row[index] || '', column.width - 4)[0] || '';
+        const textX = column.align === 'right' ? x + column.width - 2 : x + 2;
+        this.doc.text(text, textX, this.y + 4.8, { align: column.align || 'left' });
+        x += column.width;
+      });
+      this.doc.setDrawColor(BORDER_COLOR).setLineWidth(0.2);
+      this.doc.line(MARGIN, this.y + rowHeight, PAGE_WIDTH - MARGIN, this.y + rowHeight);
+      this.y += rowHeight;
+    });
+    this.y += 4;
+  },
+});
+
+type ReportWriter = ReturnType<typeof createReportWriter>;
+
+const addCover = (writer: ReportWriter, params: ExecutiveReportParams) => {
+  const { doc } = writer;
+  doc.setFont('helvetica', 'bold').setFontSize(20).setTextColor(TEXT_COLOR);
+  doc.text('Report Esecutivo', MARGIN, writer.y + 4);
+  writer.y += 12;
+  doc.setFont('helvetica', 'normal').setFontSize(11).setTextColor(MUTED_COLOR);
+  doc.text(
+    `${params.dateRange.label} • ${formatReportDate(params.dateRange.startDate)} - ${formatReportDate(params.dateRange.endDate)}`,
+    MARGIN,
+    writer.y
+  );
+  writer.y += 6;
+  doc.setFontSize(9);
+  doc.text(`Filtri: ${params.filters.length > 0 ? params.filters.join(' • ') : 'nessuno'}`, MARGIN, writer.y);
+  writer.y += 5;
+  doc.text(`${params.campaigns.length} campaigns incluse`, MARGIN, writer.y);
+  writer.y += 6;
+};
+
+const addKpis = (writer: ReportWriter, { kpiData }: ExecutiveReportParams) => {
+  const cards: [string, string][] = [
+    ['Budget Totale', formatBudget(kpiData.totalBudget)],
+    ['Lead Totali', kpiData.totalLeads.toLocaleString('it-IT')],
+    ['CPL Medio', formatUnitCost(kpiData.avgCPL)],
+    ['Campaigns', String(kpiData.totalCampaigns)],
+    ['Extra Budget Social', formatBudget(kpiData.extraSocialBudget)],
+    ['Campaigns CPL Alto', String(kpiData.highCPLCampaigns)],
+    ['Deficit GRP', String(kpiData.grpShortfallCampaigns)],
+    ['Efficienza GRP Media', `${(kpiData.avgGRPEfficiency * 100).toFixed(1)}%`],
+  ];
+  const { doc } = writer;
+  const gap = 4;
+  const cardWidth = (CONTENT_WIDTH - gap * 3) / 4;
+  const cardHeight = 20;
+
+  writer.sectionTitle('KPI principali', cardHeight * 2 + gap);
+  cards.forEach(([label, value], index) => {
+    const x = MARGIN + (index % 4) * (cardWidth + gap);
+    const y = writer.y + Math.floor(index / 4) * (cardHeight + gap);
+    doc.setDrawColor(BORDER_COLOR).setLineWidth(0.3).setFillColor('#f9fafb');
+    doc.roundedRect(x, y, cardWidth, cardHeight, 2, 2, 'FD');
+    doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(MUTED_COLOR);
+    doc.text(label, x + 3, y + 6);
+    doc.setFont('helvetica', 'bold').setFontSize(13).setTextColor(TEXT_COLOR);
+    doc.text(value, x + 3, y + 15);
+  });
+  writer.y += cardHeight * 2 + gap + 6;
+};
+
+/** Renders the selected sections into a paginated A4 PDF */
+export const generateExecutiveReport = async (params: ExecutiveReportParams): Promise<Blob> => {
+  // jsPDF is only needed when a report is requested
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = createReportWriter(doc);
+  const colorOf = createChannelColorResolver(params.getChannelColor);
+  const channelAggregation = aggregateCampaignsByChannel(params.campaigns);
+  const channelOrder = getChannelsByBudget(params.campaigns);
+  const selected = new Set(params.sections);
+
+  doc.setProperties({ title: `Report Esecutivo - ${params.dateRange.label}`, author: params.generatedBy });
+  addCover(writer, params);
+
+  if (selected.has('kpis')) addKpis(writer, params);
+
+  if (selected.has('budgetAllocation')) {
+    writer.sectionTitle('Allocazione budget per channel');
+    const total = params.kpiData.totalBudget || 1;
+    writer.horizontalBars(channelOrder.map(channel => ({
+      label: channel,
+      segments: [{ value: channelAggregation[channel].budget, color: colorOf(channel) }],
+      valueLabel: `${formatBudget(channelAggregation[channel].budget)} (${((channelAggregation[channel].budget / total) * 100).toFixed(1)}%)`,
+    })));
+  }
+
+  if (selected.has('topCampaigns')) {
+    const topCampaigns = getTopCampaignsByLeads(params.campaigns, 5);
+    writer.sectionTitle('Migliori campaigns per lead');
+    if (topCampaigns.length === 0) {
+      writer.note('Nessuna campaign con dati lead disponibili');
+    } else {
+      writer.table(
+        [
+          { header: '#', width: 8 },
+          { header: 'Campaign', width: 62 },
+          { header: 'Regione', width: 36 },
+          { header: 'Budget', width: 28, align: 'right' },
+          { header: 'Lead', width: 20, align: 'right' },
+          { header: 'CPL', width: 26, align: 'right' },
+        ],
+        topCampaigns.map((campaign, index) => [
+          String(index + 1),
+          `${campaign.brand} - ${campaign.channel}`,
+          campaign.region,
+          formatBudget(campaign.budget),
+          campaign.leads.toLocaleString('it-IT'),
+          formatUnitCost(campaign.budget / campaign.leads),
+        ])
+      );
+    }
+  }
+
+  if (selected.has('underperformers')) {
+    const underperforming = getUnderperformingCampaigns(params.campaigns, Number.POSITIVE_INFINITY);
+    writer.sectionTitle('Campaigns con basse performance');
+    if (underperforming.length === 0) {
+      writer.note('Nessuna campaign richiede attenzione nel periodo selezionato');
+    } else {
+      writer.table(
+        [
+          { header: 'Campaign', width: 62 },
+          { header: 'Regione', width: 34 },
+          { header: 'Manager', width: 22 },
+          { header: 'Problema', width: 62 },
+        ],
+        underperforming.map(campaign => [
+          `${campaign.brand} - ${campaign.channel}`,
+          campaign.region,
+          campaign.manager,
+          [
+            isHighCPLCampaign(campaign) && `CPL alto: ${formatUnitCost(campaign.costPerLead!)}`,
+            hasGRPShortfall(campaign) && `GRP al ${((campaign.achievedGrps! / campaign.expectedGrps!) * 100).toFixed(1)}%`,
+          ].filter(Boolean).join(' • '),
+        ])
+      );
+    }
+  }
+
+  if (selected.has('monthlySpend')) {
+    const months = aggregateBudgetByChannel(params.campaigns, campaign => campaign.startDate.slice(0, 7));
+    writer.sectionTitle('Andamento spesa mensile', 80);
+    writer.columnChart(Object.keys(months).sort().map(month => ({
+      label: format(parseISO(`${month}-01`), 'MMM yy', { locale: it }),
+      segments: channelOrder.map(channel => ({ value: months[month][channel] || 0, color: colorOf(channel) })),
+      valueLabel: formatBudget(Object.values(months[month]).reduce((sum, value) => sum + value, 0)),
+    })));
+    writer.legend(channelOrder.map(channel => ({ label: channel, color: colorOf(channel) })));
+  }
+
+  if (selected.has('leadsPerChannel')) {
+    const channels = Object.entries(channelAggregation)
+      .filter(([, data]) => data.leads > 0)
+      .sort(([, a], [, b]) => b.leads - a.leads);
+    writer.sectionTitle('Lead per channel');
+    if (channels.length === 0) {
+      writer.note('Nessun lead registrato nel periodo selezionato');
+    } else {
+      writer.horizontalBars(channels.map(([channel, data]) => ({
+        label: channel,
+        segments: [{ value: data.leads, color: colorOf(channel) }],
+        valueLabel: data.leads.toLocaleString('it-IT'),
+      })));
+    }
+  }
+
+  if (selected.has('regionalBudget')) {
+    const regions = aggregateBudgetByChannel(params.campaigns, campaign => campaign.region);
+    const regionTotal = (region: string) => Object.values(regions[region]).reduce((sum, value) => sum + value, 0);
+    writer.sectionTitle('Distribuzione budget regionale');
+    writer.horizontalBars(Object.keys(regions).sort((a, b) => regionTotal(b) - regionTotal(a)).map(region => ({
+      label: region,
+      segments: channelOrder.map(channel => ({ value: regions[region][channel] || 0, color: colorOf(channel) })),
+      valueLabel: formatBudget(regionTotal(region)),
+    })));
+    writer.legend(channelOrder.map(channel => ({ label: channel, color: colorOf(channel) })));
+  }
+
+  if (selected.has('grpEfficiency')) {
+    const grpAnalysis = analyzeGRPPerformance(params.campaigns);
+    writer.sectionTitle('Efficienza GRP (campaigns TV)');
+    if (grpAnalysis.length === 0) {
+      writer.note('Nessuna campaign TV con GRP previsti e ottenuti');
+    } else {
+      writer.horizontalBars(grpAnalysis.map(item => ({
+        label: item.name,
+        segments: [{ value: item.efficiency, color: item.isUnderperforming ? '#f97316' : '#10b981' }],
+        valueLabel: `${(item.efficiency * 100).toFixed(1)}% (${item.achievedGrps}/${item.expectedGrps})`,
+      })));
+    }
+  }
+
+  if (selected.has('channelSummary')) {
+    writer.sectionTitle('Riepilogo performance per channel');
+    writer.table(
+      [
+        { header: 'Channel', width: 50 },
+        { header: 'Campaigns', width: 26, align: 'right' },
+        { header: 'Budget', width: 36, align: 'right' },
+        { header: 'Lead', width: 32, align: 'right' },
+        { header: 'CPL', width: 36, align: 'right' },
+      ],
+      channelOrder.map(channel => {
+        const data = channelAggregation[channel];
+        return [
+          channel,
+          String(data.campaigns),
+          formatBudget(data.budget),
+          data.leads > 0 ? data.leads.toLocaleString('it-IT') : '—',
+          data.leads > 0 ? formatUnitCost(data.budget / data.leads) : '—',
+        ];
+      })
+    );
+  }
+
+  // Header and footer go on last, once the page count is known
+  const pageCount = doc.getNumberOfPages();
+  const generatedAt = format(new Date(), 'dd/MM/yyyy HH:mm', { locale: it });
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFillColor(BRAND_COLOR).rect(0, 0, PAGE_WIDTH, HEADER_HEIGHT, 'F');
+    doc.setFont('helvetica', 'bold').setFontSize(13).setTextColor('#ffffff');
+    doc.text('ArredissimA IM', MARGIN, 11.5);
+    doc.setFont('helvetica', 'normal').setFontSize(9);
+    doc.text(`Report Esecutivo • ${params.dateRange.label}`, PAGE_WIDTH - MARGIN, 11.5, { align: 'right' });
+
+    doc.setDrawColor(BORDER_COLOR).setLineWidth(0.2);
+    doc.line(MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT);
+    doc.setFontSize(8).setTextColor(MUTED_COLOR);
+    doc.text(`Generato il ${generatedAt} da ${params.generatedBy}`, MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT + 5);
+    doc.text(`Pagina ${page} di ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT + 5, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
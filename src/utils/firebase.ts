@@ -13,13 +13,16 @@ const firebaseConfig = {
   measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID
 };
 
+// Without a project the app runs on the local backend (see repositories/index.ts)
+export const isFirebaseConfigured = Boolean(firebaseConfig.apiKey && firebaseConfig.projectId);
+
 // --- MODIFICA CHIAVE QUI ---
 // Controlla se l'app è già stata inizializzata prima di crearla
 const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
 // -------------------------
 
-// Initialize Firebase services
-export const auth = getAuth(app);
-export const db = getFirestore(app);
+// Firebase services are created lazily: getAuth/getFirestore throw when the config is missing
+export const getFirebaseAuth = () => getAuth(app);
+export const getDb = () => getFirestore(app);
 
-export default app;
\ No newline at end of file
+export default app;
@@ -0,0 +1,68 @@
+import { addDays, addYears, format, parseISO } from 'date-fns';
+
+/** A closed date interval in yyyy-MM-dd form, like DateRange without the preset */
+export interface Period {
+  startDate: string;
+  endDate: string;
+}
+
+// VITE_FISCAL_YEAR_START_MONTH=7 makes the fiscal year run July–June (named after the year it starts in)
+const resolveStartMonth = (): number => {
+  const month = parseInt(import.meta.env.VITE_FISCAL_YEAR_START_MONTH ?? '', 10);
+  return month >= 1 && month <= 12 ? month : 1;
+};
+
+export const FISCAL_YEAR_START_MONTH = resolveStartMonth();
+
+const toDateString = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const getFiscalYear = (date: Date = new Date()): number =>
+  date.getMonth() + 1 >= FISCAL_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+
+/** Fiscal year of a yyyy-MM-dd date, read in local time like the rest of the app */
+export const getFiscalYearOfDate = (date: string): number => getFiscalYear(parseISO(date));
+
+export const getFiscalYearPeriod = (fiscalYear: number): Period => {
+  const start = new Date(fiscalYear, FISCAL_YEAR_START_MONTH - 1, 1);
+  return {
+    startDate: toDateString(start),
+    endDate: toDateString(addDays(addYears(start, 1), -1)),
+  };
+};
+
+export const getFiscalYearLabel = (fiscalYear: number): string =>
+  FISCAL_YEAR_START_MONTH === 1 ? String(fiscalYear) : `FY ${fiscalYear}/${String(fiscalYear + 1).slice(-2)}`;
+
+export const shiftDate = (date: string, days: number): string => toDateString(addDays(parseISO(date), days));
+
+/** Merges overlapping and adjacent periods into the smallest sorted set */
+export const mergePeriods = (periods: Period[]): Period[] => {
+  const sorted = [...periods].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const merged: Period[] = [];
+  sorted.forEach(period => {
+    const last = merged[merged.length - 1];
+    if (last && period.startDate <= shiftDate(last.endDate, 1)) {
+      if (period.endDate > last.endDate) last.endDate = period.endDate;
+    } else {
+      merged.push({ ...period });
+    }
+  });
+  return merged;
+};
+
+/** Parts of `requested` not covered by any of `covered` */
+export const subtractPeriods = (requested: Period, covered: Period[]): Period[] => {
+  const gaps: Period[] = [];
+  let cursor = requested.startDate;
+  mergePeriods(covered).forEach(period => {
+    if (period.endDate < cursor || period.startDate > requested.endDate) return;
+    if (period.startDate > cursor) {
+      gaps.push({ startDate: cursor, endDate: shiftDate(period.startDate, -1) });
+    }
+    cursor = shiftDate(period.endDate, 1);
+  });
+  if (cursor <= requested.endDate) {
+    gaps.push({ startDate: cursor, endDate: requested.endDate });
+  }
+  return gaps;
+};
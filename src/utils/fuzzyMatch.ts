@@ -0,0 +1,49 @@
+// Case, accents and punctuation don't count when comparing names typed by hand
+export const normalizeForMatch = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** 1 for identical names, 0 for nothing in common */
+export const similarity = (a: string, b: string): number => {
+  const left = normalizeForMatch(a);
+  const right = normalizeForMatch(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  // "Arredissima Milano" should still suggest "Arredissima"
+  if (left.includes(right) || right.includes(left)) return 0.8;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+/** Returns the candidate equal to the value once normalized, if any */
+export const findExactMatch = (value: string, candidates: string[]): string | undefined => {
+  const normalized = normalizeForMatch(value);
+  return candidates.find(candidate => normalizeForMatch(candidate) === normalized);
+};
+
+/** Closest candidates first, leaving out those too different to be a typo */
+export const findClosestMatches = (value: string, candidates: string[], limit = 3, threshold = 0.5): string[] =>
+  candidates
+    .map(candidate => ({ candidate, score: similarity(value, candidate) }))
+    .filter(({ score }) => score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
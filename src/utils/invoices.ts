@@ -0,0 +1,84 @@
+import { campaignRepository, invoiceRepository } from '../repositories';
+import { AuthUser } from '../types/auth';
+import { INVOICE_STATUS_CONFIG, Invoice } from '../types/invoice';
+import { recordCampaignAudit, toAuditUser } from './campaignAudit';
+import { normalizeForMatch } from './fuzzyMatch';
+
+export type InvoiceInput = Omit<Invoice, 'id' | 'campaignId' | 'recordedBy' | 'createdAt' | 'updatedAt'>;
+
+/** Actual spend of a campaign according to its invoices; null when it has none */
+export const getInvoicedSpend = (invoices: Invoice[]): number | null => {
+  if (invoices.length === 0) return null;
+  return invoices
+    .filter(invoice => INVOICE_STATUS_CONFIG[invoice.status].countsAsSpend)
+    .reduce((sum, invoice) => sum + invoice.amount, 0);
+};
+
+export const validateInvoice = (invoice: InvoiceInput): string | null => {
+  if (!invoice.supplier.trim()) return 'The supplier is required.';
+  if (!invoice.number.trim()) return 'The invoice number is required.';
+  if (!invoice.date) return 'The invoice date is required.';
+  if (!Number.isFinite(invoice.amount) || invoice.amount <= 0) return 'The amount must be greater than zero.';
+  return null;
+};
+
+// The same supplier invoice recorded twice would double the actual spend
+const assertNotDuplicate = async (invoice: InvoiceInput, id?: string) => {
+  const sameNumber = await invoiceRepository.list({ filters: [{ field: 'number', op: '==', value: invoice.number.trim() }] });
+  const duplicate = sameNumber.find(other =>
+    other.id !== id && normalizeForMatch(other.supplier) === normalizeForMatch(invoice.supplier)
+  );
+  if (duplicate) {
+    throw new Error(`Invoice ${invoice.number} from ${invoice.supplier} is already recorded.`);
+  }
+};
+
+/** Recomputes the campaign's invoicedSpend from its invoices; audited like any other campaign change */
+const syncInvoicedSpend = async (campaignId: string, user: AuthUser | null) => {
+  const [before, invoices] = await Promise.all([
+    campaignRepository.get(campaignId),
+    invoiceRepository.list({ filters: [{ field: 'campaignId', op: '==', value: campaignId }] }),
+  ]);
+  if (!before) return;
+  const invoicedSpend = getInvoicedSpend(invoices);
+  if ((before.invoicedSpend ?? null) === invoicedSpend) return;
+
+  await campaignRepository.update(campaignId, { invoicedSpend });
+  await recordCampaignAudit({
+    campaignId,
+    action: 'update',
+    before,
+    after: { ...before, invoicedSpend },
+    user: toAuditUser(user),
+  });
+};
+
+export const saveInvoice = async ({
+  campaignId,
+  id,
+  invoice,
+  user,
+}: {
+  campaignId: string;
+  /** Set when editing a recorded invoice */
+  id?: string;
+  invoice: InvoiceInput;
+  user: AuthUser | null;
+}) => {
+  const problem = validateInvoice(invoice);
+  if (problem) throw new Error(problem);
+  await assertNotDuplicate(invoice, id);
+
+  const data = { ...invoice, supplier: invoice.supplier.trim(), number: invoice.number.trim() };
+  if (id) {
+    await invoiceRepository.update(id, data);
+  } else {
+    await invoiceRepository.add({ ...data, campaignId, recordedBy: toAuditUser(user) });
+  }
+  await syncInvoicedSpend(campaignId, user);
+};
+
+export const deleteInvoice = async (invoice: Invoice, user: AuthUser | null) => {
+  await invoiceRepository.remove(invoice.id!);
+  await syncInvoicedSpend(invoice.campaignId, user);
+};
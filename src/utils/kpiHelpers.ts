@@ -1,5 +1,6 @@
 import { Campaign } from '../types/campaign';
 import { formatBudget } from './budgetFormatter';
+import { SpendBasis, applySpendBasis } from './spendBasis';
 
 // KPI label and formatting configuration
 export const KPI_CONFIG = {
@@ -122,9 +123,9 @@ export const formatKpiValue = (value: number, format: string): string => {
   }
 };
 
-// Get KPI value for a specific channel and KPI key
-export const getKpiValue = (campaigns: Campaign[], channelName: string, kpiKey: string): number => {
-  const channelCampaigns = campaigns.filter(c => c.channel === channelName);
+// Get KPI value for a specific channel and KPI key; on the actual basis budget, CPL and ROI use the actual spend
+export const getKpiValue = (campaigns: Campaign[], channelName: string, kpiKey: string, basis: SpendBasis = 'planned'): number => {
+  const channelCampaigns = applySpendBasis(campaigns.filter(c => c.channel === channelName), basis);
   
   if (channelCampaigns.length === 0) return 0;
 
@@ -206,7 +207,10 @@ export const getChannelKpis = (
 };
 
 // Get KPI configuration for rendering
-export const getKpiConfig = (kpiKey: string) => {
+export const getKpiConfig = (kpiKey: string, basis: SpendBasis = 'planned') => {
+  if (kpiKey === 'budget' && basis === 'actual') {
+    return { ...KPI_CONFIG.budget, label: 'Actual Spend' };
+  }
   return KPI_CONFIG[kpiKey as keyof typeof KPI_CONFIG] || {
     label: kpiKey,
     icon: '📊',
@@ -0,0 +1,55 @@
+import { AuthUser } from '../types/auth';
+
+const SESSION_KEY = 'aim:session';
+
+type SessionListener = (user: AuthUser | null) => void;
+
+const listeners = new Set<SessionListener>();
+
+const readSession = (): AuthUser | null => {
+  try {
+    const raw = window.localStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as AuthUser) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeSession = (user: AuthUser | null) => {
+  try {
+    if (user) {
+      window.localStorage.setItem(SESSION_KEY, JSON.stringify(user));
+    } else {
+      window.localStorage.removeItem(SESSION_KEY);
+    }
+  } catch {
+    // Session stays in memory only
+  }
+  listeners.forEach(listener => listener(user));
+};
+
+// Demo session for the local backend: any non-empty credentials are accepted
+export const localSignIn = async (email: string, password: string): Promise<AuthUser> => {
+  if (!email.trim() || !password) {
+    throw new Error('Email e password sono obbligatorie');
+  }
+  const user: AuthUser = {
+    uid: `local-${email.trim().toLowerCase()}`,
+    email: email.trim(),
+    displayName: null,
+  };
+  writeSession(user);
+  return user;
+};
+
+export const localSignOut = async () => {
+  writeSession(null);
+};
+
+export const onLocalAuthStateChanged = (listener: SessionListener) => {
+  listeners.add(listener);
+  listener(readSession());
+  return () => {
+    listeners.delete(listener);
+  };
+};
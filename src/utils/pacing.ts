@@ -0,0 +1,81 @@
+import { differenceInDays } from 'date-fns';
+import { Campaign, PacingCurve, migrateStatus } from '../types/campaign';
+import { toStatusDate } from './campaignStatus';
+import { getActualSpend } from './spendBasis';
+
+export const PACING_CURVE_OPTIONS: { curve: PacingCurve; label: string; description: string }[] = [
+  { curve: 'linear', label: 'Linear', description: 'The same spend every day of the flight' },
+  { curve: 'front-loaded', label: 'Front-loaded', description: 'Heavier spend at launch, tapering off towards the end' },
+  { curve: 'back-loaded', label: 'Back-loaded', description: 'Spend building up towards the end of the flight' },
+];
+
+/** Actual spend below or above these shares of the expected spend-to-date is off pace */
+export const UNDER_PACING_THRESHOLD = 0.9;
+export const OVER_PACING_THRESHOLD = 1.1;
+
+export type PacingStatus = 'under' | 'on' | 'over';
+
+export interface CampaignPacing {
+  curve: PacingCurve;
+  elapsedDays: number;
+  totalDays: number;
+  expectedToDate: number;
+  actualToDate: number;
+  /** Actual over expected spend-to-date */
+  ratio: number;
+  status: PacingStatus;
+  /** End-of-flight spend if the campaign keeps its current pace */
+  projectedSpend: number;
+}
+
+// Share of the budget expected to be spent once `progress` (0-1) of the flight has elapsed
+const CURVES: Record<PacingCurve, (progress: number) => number> = {
+  linear: progress => progress,
+  'front-loaded': progress => 1 - (1 - progress) ** 2,
+  'back-loaded': progress => progress ** 2,
+};
+
+/** Days are counted inclusively, as GanttChart does when it prorates the budget per day */
+const getFlightProgress = (campaign: Campaign, today: string) => {
+  const totalDays = differenceInDays(new Date(campaign.endDate), new Date(campaign.startDate)) + 1;
+  const elapsedDays = Math.min(differenceInDays(new Date(today), new Date(campaign.startDate)) + 1, totalDays);
+  return { totalDays, elapsedDays };
+};
+
+export const getExpectedSpendToDate = (campaign: Campaign, today: string = toStatusDate(new Date())): number => {
+  const { totalDays, elapsedDays } = getFlightProgress(campaign, today);
+  if (totalDays <= 0 || elapsedDays <= 0) return 0;
+  return campaign.budget * CURVES[campaign.pacingCurve || 'linear'](elapsedDays / totalDays);
+};
+
+/**
+ * Pacing of an ACTIVE campaign against its planned budget. Null for any other status, and while there is
+ * no recorded spend (invoices or ad platform import) to compare with.
+ */
+export const computeCampaignPacing = (
+  campaign: Campaign,
+  today: string = toStatusDate(new Date())
+): CampaignPacing | null => {
+  if (migrateStatus(campaign.status) !== 'ACTIVE' || campaign.budget <= 0) return null;
+  const actualToDate = getActualSpend(campaign);
+  if (actualToDate === null) return null;
+
+  const { totalDays, elapsedDays } = getFlightProgress(campaign, today);
+  if (totalDays <= 0 || elapsedDays <= 0) return null;
+
+  const curve = campaign.pacingCurve || 'linear';
+  const expectedShare = CURVES[curve](elapsedDays / totalDays);
+  const expectedToDate = campaign.budget * expectedShare;
+  const ratio = actualToDate / expectedToDate;
+
+  return {
+    curve,
+    elapsedDays,
+    totalDays,
+    expectedToDate,
+    actualToDate,
+    ratio,
+    status: ratio < UNDER_PACING_THRESHOLD ? 'under' : ratio > OVER_PACING_THRESHOLD ? 'over' : 'on',
+    projectedSpend: actualToDate / expectedShare,
+  };
+};
@@ -0,0 +1,388 @@
+import { campaignRepository, commitInChunks, postBuyReportRepository, WriteOperation } from '../repositories';
+import { AuthUser } from '../types/auth';
+import { Campaign, channelSupportsMetric, normalizeCampaignMetrics } from '../types/campaign';
+import { PostBuyReport, PostBuySpot } from '../types/postBuy';
+import { recordCampaignAudit, toAuditUser } from './campaignAudit';
+import { getCampaignCurrency } from './currency';
+import { isAmbiguousImportNumber, parseImportDate, parseImportNumber } from './campaignImport';
+import { normalizeForMatch, similarity } from './fuzzyMatch';
+import { SpreadsheetData } from './spreadsheet';
+import { withoutTrashed } from './trash';
+
+export type PostBuyField = 'date' | 'time' | 'programme' | 'grp' | 'cost' | 'publisher';
+
+interface PostBuyFieldConfig {
+  field: PostBuyField;
+  label: string;
+  required?: boolean;
+  /** Header names recognized when guessing the mapping (compared without case, accents and spaces) */
+  aliases: string[];
+}
+
+export const POST_BUY_FIELDS: PostBuyFieldConfig[] = [
+  { field: 'date', label: 'Date', required: true, aliases: ['data', 'giorno', 'datamessainonda', 'airdate', 'day'] },
+  { field: 'time', label: 'Time', aliases: ['ora', 'orario', 'orainizio', 'airtime', 'hour'] },
+  { field: 'programme', label: 'Programme', aliases: ['program', 'programma', 'trasmissione', 'titolo', 'fascia'] },
+  { field: 'grp', label: 'GRP', aliases: ['grps', 'grpspot', 'grptarget', 'trp'] },
+  { field: 'cost', label: 'Cost', aliases: ['costo', 'importo', 'netto', 'costonetto', 'valore', 'price'] },
+  { field: 'publisher', label: 'Broadcaster', aliases: ['emittente', 'rete', 'canale', 'station', 'network', 'publisher'] },
+];
+
+export const POST_BUY_CHANNELS = ['TV', 'Radio'];
+
+/** Column index for each mapped field */
+export type PostBuyColumnMapping = { [field in PostBuyField]?: number };
+
+export interface ParsedSpot extends PostBuySpot {
+  rowNumber: number;
+  publisher: string;
+}
+
+export interface PostBuyParseResult {
+  spots: ParsedSpot[];
+  errors: { rowNumber: number; message: string }[];
+  /** Numbers like "1,250" read as thousands that may have been decimals: the spot is kept, the value needs a check */
+  warnings: { rowNumber: number; message: string }[];
+  hasGrp: boolean;
+}
+
+/** Spots of one broadcaster that fall in the same campaigns: they are assigned together */
+export interface PostBuyGroup {
+  key: string;
+  publisher: string;
+  spots: ParsedSpot[];
+  startDate: string;
+  endDate: string;
+  campaignId: string | null;
+  /** Campaigns of the broadcaster running on those dates, or closest in time when none is */
+  suggestions: string[];
+}
+
+export interface PostBuyChange {
+  campaign: Campaign;
+  spots: ParsedSpot[];
+  startDate: string;
+  endDate: string;
+  totalGrps: number;
+  totalCost: number;
+  /** Earlier reports of the campaign airing on other dates: their totals are added to the file's */
+  keptReports: PostBuyReport[];
+  /** Earlier reports with every spot inside the file's air dates: the file replaces them */
+  replacedReports: PostBuyReport[];
+  /** Earlier reports overlapping the file's air dates with spots outside them: only those spots are kept */
+  trimmedReports: TrimmedPostBuyReport[];
+  updates: Partial<Pick<Campaign, 'achievedGrps' | 'spotsPurchased'>>;
+}
+
+export interface TrimmedPostBuyReport {
+  report: PostBuyReport;
+  spots: PostBuySpot[];
+  spotCount: number;
+  totalGrps: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const guessPostBuyMapping = (headers: string[]): PostBuyColumnMapping => {
+  const mapping: PostBuyColumnMapping = {};
+  const used = new Set<number>();
+  POST_BUY_FIELDS.forEach(({ field, label, aliases }) => {
+    const names = [field, label, ...aliases].map(normalizeForMatch);
+    const index = headers.findIndex((header, column) => !used.has(column) && names.includes(normalizeForMatch(header)));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+/**
+ * Reads one spot per row. Rows without a valid date are reported and left out;
+ * without a broadcaster column every spot gets `defaultPublisher`.
+ */
+export const parsePostBuySpots = (
+  data: SpreadsheetData,
+  mapping: PostBuyColumnMapping,
+  defaultPublisher: string
+): PostBuyParseResult => {
+  const spots: ParsedSpot[] = [];
+  const errors: PostBuyParseResult['errors'] = [];
+  const warnings: PostBuyParseResult['warnings'] = [];
+
+  data.rows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const read = (field: PostBuyField): string => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const readNumber = (field: PostBuyField): number | null => (read(field) ? parseImportNumber(read(field)) : null);
+
+    // Post-buy reports end with a totals row that has no date
+    if (/^total/i.test(read('date')) || /^total/i.test(read('programme'))) return;
+
+    const date = parseImportDate(read('date'));
+    if (!date) {
+      errors.push({ rowNumber, message: read('date') ? `Date "${read('date')}" is not a valid date` : 'Date is missing' });
+      return;
+    }
+    const publisher = read('publisher') || defaultPublisher;
+    if (!publisher) {
+      errors.push({ rowNumber, message: 'Broadcaster is missing' });
+      return;
+    }
+    const grp = readNumber('grp');
+    const cost = readNumber('cost');
+    if (read('grp') && grp === null) errors.push({ rowNumber, message: `GRP "${read('grp')}" is not a number` });
+    if (read('cost') && cost === null) errors.push({ rowNumber, message: `Cost "${read('cost')}" is not a number` });
+    ([['grp', 'GRP', grp], ['cost', 'Cost', cost]] as const).forEach(([field, label, value]) => {
+      if (value !== null && isAmbiguousImportNumber(read(field))) {
+        warnings.push({ rowNumber, message: `${label} "${read(field)}" read as ${value}: check the decimal separator` });
+      }
+    });
+
+    spots.push({
+      rowNumber,
+      publisher,
+      date,
+      time: read('time') || null,
+      programme: read('programme') || null,
+      grp,
+      cost,
+    });
+  });
+
+  return { spots, errors, warnings, hasGrp: mapping.grp !== undefined };
+};
+
+/** TV and Radio campaigns, across every period (not only the loaded fiscal years) */
+export const loadPostBuyCampaigns = async (): Promise<Campaign[]> => {
+  const campaigns = await campaignRepository.list({
+    filters: [{ field: 'channel', op: 'in', value: POST_BUY_CHANNELS }],
+  });
+  return withoutTrashed(campaigns);
+};
+
+// Post-buy files name the network ("Rai 1") where campaigns may name the broadcaster ("Rai")
+const isSamePublisher = (spotPublisher: string, campaignPublisher: string | undefined): boolean =>
+  !!campaignPublisher && similarity(spotPublisher, campaignPublisher) >= 0.8;
+
+const daysBetween = (a: string, b: string): number =>
+  Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+
+/**
+ * Groups the spots by broadcaster and by the campaigns airing on their dates.
+ * Groups falling in exactly one campaign are assigned to it; the others are left for the user to assign.
+ */
+export const groupPostBuySpots = (spots: ParsedSpot[], campaigns: Campaign[]): PostBuyGroup[] => {
+  const groups = new Map<string, PostBuyGroup>();
+
+  spots.forEach(spot => {
+    const publisherCampaigns = campaigns.filter(campaign => isSamePublisher(spot.publisher, campaign.publisher));
+    const running = publisherCampaigns
+      .filter(campaign => campaign.startDate <= spot.date && campaign.endDate >= spot.date)
+      .map(campaign => campaign.id!)
+      .sort();
+    const key = `${normalizeForMatch(spot.publisher)}|${running.join(',')}`;
+
+    const group = groups.get(key);
+    if (group) {
+      group.spots.push(spot);
+      if (spot.date < group.startDate) group.startDate = spot.date;
+      if (spot.date > group.endDate) group.endDate = spot.date;
+      return;
+    }
+
+    const suggestions = running.length > 0
+      ? running
+      : [...publisherCampaigns]
+        .sort((a, b) => daysBetween(a.startDate, spot.date) - daysBetween(b.startDate, spot.date))
+        .slice(0, 3)
+        .map(campaign => campaign.id!);
+    groups.set(key, {
+      key,
+      publisher: spot.publisher,
+      spots: [spot],
+      startDate: spot.date,
+      endDate: spot.date,
+      campaignId: running.length === 1 ? running[0] : null,
+      suggestions,
+    });
+  });
+
+  return [...groups.values()].sort((a, b) => a.publisher.localeCompare(b.publisher) || a.startDate.localeCompare(b.startDate));
+};
+
+/** The stored reports of the given campaigns, queried 30 ids at a time (the limit of an `in` filter) */
+export const loadPostBuyReports = async (campaignIds: string[]): Promise<PostBuyReport[]> => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < campaignIds.length; i += 30) chunks.push(campaignIds.slice(i, i + 30));
+  const results = await Promise.all(
+    chunks.map(ids => postBuyReportRepository.list({ filters: [{ field: 'campaignId', op: 'in', value: ids }] }))
+  );
+  return results.flat();
+};
+
+// Reports saved before air dates were stored only have their spots
+const getReportRange = (report: PostBuyReport): { startDate: string; endDate: string } => {
+  const dates = report.spots.map(spot => spot.date).sort();
+  return { startDate: report.startDate ?? dates[0] ?? '', endDate: report.endDate ?? dates[dates.length - 1] ?? '' };
+};
+
+/**
+ * Totals the spots assigned to each campaign, adding the campaign's earlier reports for other air dates
+ * so that monthly files add up. Spot counts and GRPs replace the ones typed by hand;
+ * GRPs are only written for channels that track them (TV) and when the file has a GRP column.
+ */
+export const planPostBuyUpdates = (
+  groups: PostBuyGroup[],
+  campaigns: Campaign[],
+  hasGrp: boolean,
+  reports: PostBuyReport[]
+): PostBuyChange[] => {
+  const spotsByCampaign = new Map<string, ParsedSpot[]>();
+  groups.forEach(group => {
+    if (!group.campaignId) return;
+    spotsByCampaign.set(group.campaignId, [...(spotsByCampaign.get(group.campaignId) || []), ...group.spots]);
+  });
+
+  return campaigns
+    .filter(campaign => spotsByCampaign.has(campaign.id!))
+    .map(campaign => {
+      const spots = spotsByCampaign.get(campaign.id!)!.sort((a, b) =>
+        a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || '')
+      );
+      const startDate = spots[0].date;
+      const endDate = spots[spots.length - 1].date;
+      const totalGrps = round(spots.reduce((sum, spot) => sum + (spot.grp ?? 0), 0));
+      const totalCost = round(spots.reduce((sum, spot) => sum + (spot.cost ?? 0), 0));
+
+      const campaignReports = reports.filter(report => report.campaignId === campaign.id);
+      const overlaps = (report: PostBuyReport) => {
+        const range = getReportRange(report);
+        return range.startDate <= endDate && range.endDate >= startDate;
+      };
+      const keptReports = campaignReports.filter(report => !overlaps(report));
+      const replacedReports: PostBuyReport[] = [];
+      const trimmedReports: TrimmedPostBuyReport[] = [];
+      // A report reaching outside the file's air dates keeps its spots there, so they still count
+      campaignReports.filter(overlaps).forEach(report => {
+        const outside = report.spots.filter(spot => spot.date < startDate || spot.date > endDate);
+        if (outside.length === 0) {
+          replacedReports.push(report);
+          return;
+        }
+        trimmedReports.push({
+          report,
+          spots: outside,
+          spotCount: outside.length,
+          totalGrps: round(outside.reduce((sum, spot) => sum + (spot.grp ?? 0), 0)),
+        });
+      });
+      const earlier = [...keptReports, ...trimmedReports];
+
+      const updates: PostBuyChange['updates'] = {
+        spotsPurchased: spots.length + earlier.reduce((sum, report) => sum + report.spotCount, 0),
+      };
+      if (hasGrp && channelSupportsMetric(campaign.channel, 'achievedGrps')) {
+        updates.achievedGrps = round(totalGrps + earlier.reduce((sum, report) => sum + report.totalGrps, 0));
+      }
+      return {
+        campaign,
+        spots,
+        startDate,
+        endDate,
+        totalGrps,
+        totalCost,
+        keptReports,
+        replacedReports,
+        trimmedReports,
+        updates: normalizeCampaignMetrics(updates),
+      };
+    });
+};
+
+interface ApplyPostBuyParams {
+  changes: PostBuyChange[];
+  fileName: string;
+  user: AuthUser | null;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const toReport = (change: PostBuyChange, fileName: string, user: AuthUser | null, importedAt: string): Omit<PostBuyReport, 'id'> => ({
+  campaignId: change.campaign.id!,
+  publisher: change.campaign.publisher || change.spots[0].publisher,
+  fileName,
+  importedAt,
+  importedBy: toAuditUser(user),
+  startDate: change.startDate,
+  endDate: change.endDate,
+  currency: getCampaignCurrency(change.campaign),
+  spotCount: change.spots.length,
+  totalGrps: change.totalGrps,
+  totalCost: change.totalCost,
+  spots: change.spots.map(({ date, time, programme, grp, cost }) => ({ date, time, programme, grp, cost })),
+});
+
+// What is left of a report once the file's air dates are taken out of it
+const toTrimmedReport = ({ spots, spotCount, totalGrps }: TrimmedPostBuyReport): Partial<PostBuyReport> => {
+  const dates = spots.map(spot => spot.date).sort();
+  return {
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    spotCount,
+    totalGrps,
+    totalCost: round(spots.reduce((sum, spot) => sum + (spot.cost ?? 0), 0)),
+    spots,
+  };
+};
+
+/**
+ * Updates the campaigns in chunks and audits the committed ones, then stores each campaign's spots,
+ * replacing the earlier reports that overlap the file's air dates and trimming those reaching outside them.
+ */
+export const applyPostBuyUpdates = async ({ changes, fileName, user, onProgress }: ApplyPostBuyParams): Promise<number> => {
+  const operations: WriteOperation<Campaign>[] = changes.map(change => ({
+    type: 'update',
+    id: change.campaign.id!,
+    data: change.updates,
+  }));
+
+  let committed = 0;
+  try {
+    await commitInChunks(campaignRepository, operations, (count, total) => {
+      committed = count;
+      onProgress?.(count, total);
+    });
+  } finally {
+    await Promise.all(
+      changes.slice(0, committed).map(change =>
+        recordCampaignAudit({
+          campaignId: change.campaign.id!,
+          action: 'update',
+          before: change.campaign,
+          after: { ...change.campaign, ...change.updates },
+          user: toAuditUser(user),
+        })
+      )
+    );
+  }
+
+  const importedAt = new Date().toISOString();
+  await commitInChunks(postBuyReportRepository, [
+    ...changes.flatMap(change =>
+      change.replacedReports.map((report): WriteOperation<PostBuyReport> => ({ type: 'remove', id: report.id! }))
+    ),
+    ...changes.flatMap(change =>
+      change.trimmedReports.map((trimmed): WriteOperation<PostBuyReport> => ({
+        type: 'update',
+        id: trimmed.report.id!,
+        data: toTrimmedReport(trimmed),
+      }))
+    ),
+    ...changes.map((change): WriteOperation<PostBuyReport> => ({ type: 'add', data: toReport(change, fileName, user, importedAt) })),
+  ]);
+
+  console.log(`✔️ Updated ${committed} campaigns from post-buy ${fileName}`);
+  return committed;
+};
@@ -0,0 +1,61 @@
+import { Campaign } from '../types/campaign';
+
+/** Whether budgets, CPL and ROI are measured on the planned budget or on what was actually spent */
+export type SpendBasis = 'planned' | 'actual';
+
+export const SPEND_BASIS_OPTIONS: { basis: SpendBasis; label: string }[] = [
+  { basis: 'planned', label: 'Planned' },
+  { basis: 'actual', label: 'Actual' },
+];
+
+export const SPEND_BASIS_STORAGE_KEY = 'spendBasis';
+
+/** Invoices are the accounting record; campaigns without invoices fall back to the ad platform spend */
+export const getActualSpend = (campaign: Campaign): number | null =>
+  campaign.invoicedSpend ?? campaign.actualSpend ?? null;
+
+export const getCampaignSpend = (campaign: Campaign, basis: SpendBasis): number =>
+  basis === 'planned' ? campaign.budget : getActualSpend(campaign) ?? 0;
+
+// ROI is entered against the planned budget: the return it implies is measured again against the actual spend
+const getActualRoi = (campaign: Campaign, spend: number): string => {
+  const plannedRoi = parseFloat((campaign.roi || '').replace('%', ''));
+  if (isNaN(plannedRoi) || campaign.budget <= 0 || spend <= 0) return 'N/A';
+  const revenue = campaign.budget * (1 + plannedRoi / 100);
+  return `${(((revenue - spend) / spend) * 100).toFixed(0)}%`;
+};
+
+/**
+ * Campaigns as seen on the chosen basis: on the actual basis budget holds the actual spend, and CPL and ROI
+ * are derived from it, so KPI helpers and charts need no changes. Campaigns without actuals count as zero.
+ */
+export const applySpendBasis = (campaigns: Campaign[], basis: SpendBasis): Campaign[] => {
+  if (basis === 'planned') return campaigns;
+  return campaigns.map(campaign => {
+    const spend = getCampaignSpend(campaign, 'actual');
+    return {
+      ...campaign,
+      budget: spend,
+      costPerLead: campaign.leads > 0 ? spend / campaign.leads : 0,
+      roi: getActualRoi(campaign, spend),
+    };
+  });
+};
+
+// Shared by every screen, so switching the basis once switches all KPIs and charts
+const listeners = new Set<() => void>();
+
+export const getSpendBasis = (): SpendBasis =>
+  localStorage.getItem(SPEND_BASIS_STORAGE_KEY) === 'actual' ? 'actual' : 'planned';
+
+export const setSpendBasis = (basis: SpendBasis) => {
+  localStorage.setItem(SPEND_BASIS_STORAGE_KEY, basis);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeSpendBasis = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,81 @@
+import { format } from 'date-fns';
+
+export interface SpreadsheetData {
+  headers: string[];
+  /** Cell values as text, one array per data row (same length as headers) */
+  rows: string[][];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const isBlankRow = (row: string[]) => row.every(cell => cell.trim() === '');
+
+export interface ReadSpreadsheetOptions {
+  /** Finds the header row when exports put titles or date ranges above it; defaults to the first row */
+  isHeaderRow?: (row: string[]) => boolean;
+}
+
+const toTable = (matrix: string[][], { isHeaderRow }: ReadSpreadsheetOptions = {}): SpreadsheetData => {
+  const nonBlank = matrix.filter(row => !isBlankRow(row));
+  const headerIndex = isHeaderRow ? Math.max(nonBlank.findIndex(row => isHeaderRow(row.map(cell => cell.trim()))), 0) : 0;
+  const [headerRow = [], ...dataRows] = nonBlank.slice(headerIndex);
+  const headers = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`);
+  return {
+    headers,
+    rows: dataRows.map(row => headers.map((_, index) => (row[index] ?? '').trim())),
+  };
+};
+
+const readCsv = async (file: File, options?: ReadSpreadsheetOptions): Promise<SpreadsheetData> => {
+  const { default: Papa } = await import('papaparse');
+  const text = await file.text();
+  // Delimiter is auto-detected: Excel exports use ';' with Italian locale settings
+  const result = Papa.parse<string[]>(text, { skipEmptyLines: 'greedy' });
+  const fatal = result.errors.find(error => error.type === 'Delimiter' && result.data.length === 0);
+  if (fatal) {
+    throw new Error(`Could not read ${file.name}: ${fatal.message}`);
+  }
+  return toTable(result.data, options);
+};
+
+// ExcelJS cell values can be dates, rich text, formulas or hyperlinks; the import only needs their text
+const cellToText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  if (typeof value === 'object') {
+    const cell = value as { result?: unknown; text?: unknown; richText?: { text: string }[] };
+    if (cell.richText) return cell.richText.map(part => part.text).join('');
+    if ('result' in cell) return cellToText(cell.result);
+    if (cell.text !== undefined) return cellToText(cell.text);
+    return '';
+  }
+  return String(value);
+};
+
+const readXlsx = async (file: File, options?: ReadSpreadsheetOptions): Promise<SpreadsheetData> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(`${file.name} has no worksheets.`);
+  }
+
+  const matrix: string[][] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+      cells[columnNumber - 1] = cellToText(cell.value);
+    });
+    matrix.push(Array.from(cells, cell => cell ?? ''));
+  });
+  return toTable(matrix, options);
+};
+
+/** Reads the first sheet of an .xlsx file, or a .csv file, into a header row and text rows */
+export const readSpreadsheet = async (file: File, options?: ReadSpreadsheetOptions): Promise<SpreadsheetData> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return readCsv(file, options);
+  if (extension === 'xlsx') return readXlsx(file, options);
+  throw new Error('Unsupported file type: upload a .csv or .xlsx file.');
+};
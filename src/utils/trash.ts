@@ -0,0 +1,117 @@
+import {
+  BaseDocument,
+  QueryFilter,
+  Repository,
+  WriteOperation,
+  campaignRepository,
+  commitInChunks,
+  brandRepository,
+  channelRepository,
+  managerRepository,
+  broadcasterRepository,
+  regionRepository,
+} from '../repositories';
+import { AuthUser } from '../types/auth';
+import { Campaign } from '../types/campaign';
+
+export type TrashKind = 'campaign' | 'brand' | 'channel' | 'manager' | 'broadcaster' | 'region';
+
+export interface TrashItem {
+  id: string;
+  kind: TrashKind;
+  label: string;
+  deletedAt: string;
+  deletedBy: string | null;
+}
+
+export const TRASH_KIND_CONFIG: { [key in TrashKind]: { label: string; icon: string } } = {
+  campaign: { label: 'Campaigns', icon: '📊' },
+  brand: { label: 'Brands', icon: '🏢' },
+  channel: { label: 'Channels', icon: '⚡' },
+  manager: { label: 'Managers', icon: '👤' },
+  broadcaster: { label: 'Broadcasters', icon: '📡' },
+  region: { label: 'Regions', icon: '🗺️' },
+};
+
+export const TRASH_RETENTION_STORAGE_KEY = 'trashRetentionDays';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const getDocumentLabel = (kind: TrashKind, document: BaseDocument): string => {
+  if (kind === 'campaign') {
+    const campaign = document as Campaign;
+    return `${campaign.brand} - ${campaign.channel} • ${campaign.region}`;
+  }
+  return (document as BaseDocument & { name?: string }).name || document.id || '';
+};
+
+export const isTrashed = (document: BaseDocument): boolean => Boolean(document.deletedAt);
+
+/** Query filter for the trashed documents of a collection, so the trash never reads the live ones */
+export const TRASHED_FILTER: QueryFilter = { field: 'deletedAt', op: '!=', value: null };
+
+export const withoutTrashed = <T extends BaseDocument>(documents: T[]): T[] =>
+  documents.filter(document => !isTrashed(document));
+
+// 0 disables the automatic purge
+export const getTrashRetentionDays = (): number => {
+  const stored = localStorage.getItem(TRASH_RETENTION_STORAGE_KEY);
+  const days = stored === null ? DEFAULT_TRASH_RETENTION_DAYS : parseInt(stored, 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (days: number) => {
+  localStorage.setItem(TRASH_RETENTION_STORAGE_KEY, String(Math.max(0, Math.floor(days))));
+};
+
+export const moveToTrash = async <T extends BaseDocument>(repository: Repository<T>, id: string, user: AuthUser | null) => {
+  await repository.update(id, { deletedAt: new Date().toISOString(), deletedBy: user?.email ?? null } as Partial<T>);
+};
+
+export const restoreFromTrash = async <T extends BaseDocument>(repository: Repository<T>, id: string) => {
+  await repository.update(id, { deletedAt: null, deletedBy: null } as Partial<T>);
+};
+
+// Runs an action against the repository of the given kind, keeping the document type generic
+export const withTrashRepository = <R>(
+  kind: TrashKind,
+  action: <T extends BaseDocument>(repository: Repository<T>) => R
+): R => {
+  switch (kind) {
+    case 'campaign': return action(campaignRepository);
+    case 'brand': return action(brandRepository);
+    case 'channel': return action(channelRepository);
+    case 'manager': return action(managerRepository);
+    case 'broadcaster': return action(broadcasterRepository);
+    case 'region': return action(regionRepository);
+  }
+};
+
+export const TRASH_KINDS = Object.keys(TRASH_KIND_CONFIG) as TrashKind[];
+
+/** Permanently deletes the given documents, in batches Firestore accepts */
+export const purgeDocuments = async <T extends BaseDocument>(repository: Repository<T>, ids: string[]): Promise<void> => {
+  const operations: WriteOperation<T>[] = ids.map(id => ({ type: 'remove', id }));
+  await commitInChunks(repository, operations);
+};
+
+const purgeCollection = async <T extends BaseDocument>(repository: Repository<T>, cutoff: string): Promise<number> => {
+  // Only trashed documents have a deletedAt, so the range filter skips the live ones
+  const expired = await repository.list({ filters: [{ field: 'deletedAt', op: '<', value: cutoff }] });
+  await purgeDocuments(repository, expired.map(document => document.id!));
+  return expired.length;
+};
+
+/**
+ * Permanently deletes everything that has been in the trash longer than the retention period
+ */
+export const purgeExpiredTrash = async (retentionDays: number = getTrashRetentionDays()): Promise<number> => {
+  if (retentionDays <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const counts = await Promise.all(
+    TRASH_KINDS.map(kind => withTrashRepository(kind, repository => purgeCollection(repository, cutoff)))
+  );
+  const purged = counts.reduce((sum, count) => sum + count, 0);
+  console.log(`🗑️ Trash purge — ${purged} documents older than ${retentionDays} days removed`);
+  return purged;
+};
@@ -1,39 +1,195 @@
 import {
-  getFirestore,
-  collection,
-  query,
-  where,
-  getDocs,
-  writeBatch,
-} from 'firebase/firestore';
-
-export const updateCampaignStatuses = async () => {
-  const db = getFirestore();
-  const today = new Date().toISOString().split('T')[0]; // es: "2025-06-26"
-  const batch = writeBatch(db);
-
-  // SCHEDULED → ACTIVE
-  const q1 = query(
-    collection(db, 'campaigns'),
-    where('status', '==', 'SCHEDULED'),
-    where('startDate', '<=', today)
-  );
-  const snapshot1 = await getDocs(q1);
-  snapshot1.forEach((doc) => {
-    batch.update(doc.ref, { status: 'ACTIVE' });
+  automationSettingsRepository,
+  campaignRepository,
+  commitInChunks,
+  statusAutomationRunRepository,
+  WriteOperation,
+} from '../repositories';
+import { AuditUser } from '../types/audit';
+import { Campaign, migrateStatus } from '../types/campaign';
+import {
+  AutomationSettings,
+  StatusAutomationChange,
+  StatusAutomationRun,
+  StatusAutomationTrigger,
+} from '../types/statusAutomation';
+import { recordCampaignAudit, SYSTEM_AUDIT_USER } from './campaignAudit';
+import { applyStatusTransition, getAutomaticStatus, toStatusDate } from './campaignStatus';
+import { withoutTrashed } from './trash';
+
+interface PlannedStatusUpdate {
+  before: Campaign;
+  updates: Partial<Campaign>;
+  change: StatusAutomationChange;
+}
+
+interface UpdateCampaignStatusesOptions {
+  trigger: StatusAutomationTrigger;
+  user?: AuditUser;
+  /** Only compute the changes: nothing is written or logged */
+  dryRun?: boolean;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface StatusAutomationResult {
+  changes: StatusAutomationChange[];
+  /** The logged run; null for dry runs */
+  run: StatusAutomationRun | null;
+}
+
+// A Firestore document is capped at 1 MB, so huge runs only keep the first changes in the log
+const MAX_LOGGED_CHANGES = 500;
+
+// Runs are queued so the daily run and a manual run never move the same campaigns twice
+let runQueue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = runQueue.then(task);
+  runQueue = run.catch(() => undefined);
+  return run;
+};
+
+const getChangeLabel = (campaign: Campaign): string =>
+  `${campaign.brand} · ${campaign.channel} (${campaign.startDate} → ${campaign.endDate})`;
+
+const planStatusUpdates = async (now: Date): Promise<PlannedStatusUpdate[]> => {
+  const today = toStatusDate(now);
+
+  // Candidates only: the status engine decides which of them actually move.
+  // Both queries need the composite indexes on campaigns (status, startDate) and (status, endDate) in firestore.indexes.json
+  const [started, ended] = await Promise.all([
+    campaignRepository.list({
+      filters: [
+        { field: 'status', op: '==', value: 'SCHEDULED' },
+        { field: 'startDate', op: '<=', value: today },
+      ],
+    }),
+    campaignRepository.list({
+      filters: [
+        { field: 'status', op: 'in', value: ['SCHEDULED', 'ACTIVE'] },
+        { field: 'endDate', op: '<', value: today },
+      ],
+    }),
+  ]);
+  const candidates = new Map<string, Campaign>();
+  withoutTrashed([...started, ...ended]).forEach(campaign => candidates.set(campaign.id!, campaign));
+
+  const planned: PlannedStatusUpdate[] = [];
+  candidates.forEach((campaign) => {
+    const target = getAutomaticStatus(campaign, today);
+    if (!target) return;
+    const from = migrateStatus(campaign.status);
+    planned.push({
+      before: campaign,
+      updates: applyStatusTransition(from, target, campaign, now),
+      change: { campaignId: campaign.id!, label: getChangeLabel(campaign), from, to: target },
+    });
   });
+  return planned;
+};
 
-  // SCHEDULED / ACTIVE → COMPLETED
-  const q2 = query(
-    collection(db, 'campaigns'),
-    where('status', 'in', ['SCHEDULED', 'ACTIVE']),
-    where('endDate', '<', today)
+const executeStatusUpdates = async ({
+  trigger,
+  user = SYSTEM_AUDIT_USER,
+  dryRun = false,
+  onProgress,
+}: UpdateCampaignStatusesOptions): Promise<StatusAutomationResult> => {
+  const now = new Date();
+  const planned = await planStatusUpdates(now);
+  const changes = planned.map(({ change }) => change);
+  if (dryRun) {
+    return { changes, run: null };
+  }
+
+  const operations: WriteOperation<Campaign>[] = planned.map(({ before, updates }) => ({
+    type: 'update',
+    id: before.id!,
+    data: updates,
+  }));
+
+  let error: string | null = null;
+  let committed = 0;
+  try {
+    onProgress?.(0, operations.length);
+    await commitInChunks(campaignRepository, operations, (done, total) => {
+      committed = done;
+      onProgress?.(done, total);
+    });
+  } catch (err) {
+    console.error('❌ Campaign status update failed:', err);
+    error = (err as Error).message;
+  }
+
+  // Only the committed chunks are audited and logged
+  const applied = planned.slice(0, committed);
+  await Promise.all(
+    applied.map(({ before, updates }) =>
+      recordCampaignAudit({
+        campaignId: before.id!,
+        action: 'update',
+        before,
+        after: { ...before, ...updates },
+        user,
+      })
+    )
   );
-  const snapshot2 = await getDocs(q2);
-  snapshot2.forEach((doc) => {
-    batch.update(doc.ref, { status: 'COMPLETED' });
+
+  const run = await statusAutomationRunRepository.add({
+    runDate: toStatusDate(now),
+    trigger,
+    triggeredBy: user,
+    startedAt: now.toISOString(),
+    finishedAt: new Date().toISOString(),
+    success: error === null,
+    error,
+    changedCount: applied.length,
+    changes: applied.slice(0, MAX_LOGGED_CHANGES).map(({ change }) => change),
+  });
+
+  const count = (status: string) => applied.filter(({ change }) => change.to === status).length;
+  console.log(`✔️ Campaigns updated — Active: ${count('ACTIVE')}, Completed: ${count('COMPLETED')}`);
+  if (error) {
+    throw new Error(`Status update stopped after ${applied.length} of ${planned.length} campaigns: ${error}`);
+  }
+  return { changes, run };
+};
+
+/**
+ * Moves scheduled and active campaigns along the status engine in chunked batches,
+ * audits every change and records the run in the `statusAutomationRuns` log.
+ */
+export const updateCampaignStatuses = (options: UpdateCampaignStatusesOptions): Promise<StatusAutomationResult> =>
+  enqueue(() => executeStatusUpdates(options));
+
+export const getStatusAutomationSettings = async (): Promise<AutomationSettings | null> => {
+  const [settings] = await automationSettingsRepository.list({
+    filters: [{ field: 'automation', op: '==', value: 'campaignStatus' }],
   });
+  return settings || null;
+};
 
-  await batch.commit();
-  console.log(`✔️ Campaigns updated — Active: ${snapshot1.size}, Completed: ${snapshot2.size}`);
+export const setStatusAutomationEnabled = async (enabled: boolean, updatedBy: string | null): Promise<void> => {
+  const settings = await getStatusAutomationSettings();
+  if (settings) {
+    await automationSettingsRepository.update(settings.id!, { enabled, updatedBy });
+  } else {
+    await automationSettingsRepository.add({ automation: 'campaignStatus', enabled, updatedBy });
+  }
 };
+
+/**
+ * Daily trigger, called at startup by every browser: runs once per day across all of them,
+ * using the run log rather than local state, and not at all while an admin has disabled it.
+ */
+export const runDailyStatusAutomation = (): Promise<StatusAutomationResult | null> =>
+  enqueue(async () => {
+    const settings = await getStatusAutomationSettings();
+    if (settings && !settings.enabled) return null;
+
+    const todaysRuns = await statusAutomationRunRepository.list({
+      filters: [{ field: 'runDate', op: '==', value: toStatusDate(new Date()) }],
+    });
+    if (todaysRuns.some(run => run.trigger === 'daily' && run.success)) return null;
+
+    return executeStatusUpdates({ trigger: 'daily' });
+  });